@@ -3,11 +3,27 @@
 import { readFileSync, writeFileSync } from 'node:fs';
 import { resolve, dirname, basename, extname } from 'node:path';
 import { Parser, ParseError } from './parser';
-import { IRGenerator, Symbol } from './ir';
-import { MemoryMapper, DEFAULT_LAYOUT, MemoryMap } from './memmap';
-import { CodeGenerator } from './codegen';
-import { Emitter } from './emitter';
+import { IRGenerator, SemanticError, Symbol, BasicBlock, formatIR } from './ir';
+import { IROptimizer, IROptimizationReport } from './optimizer';
+import {
+  MemoryMapper,
+  DEFAULT_LAYOUT,
+  MemoryMap,
+  MemoryLayout,
+  packLayout,
+  parseLayout,
+} from './memmap';
+import { CodeGenerator, CodeGenOptions, GeneratedInstruction } from './codegen';
+import { Emitter, EmittedProgram } from './emitter';
 import { LexerError } from './lexer';
+import { SourceMap } from './sourcemap';
+import {
+  PeepholeOptimizer,
+  PeepholeReport,
+  OptimizationLevel,
+} from './peephole';
+import { RuntimeMode, planRuntime } from './runtime';
+import { JOHNNY_CONFIG } from '../core/opcodes';
 
 export interface CompilerOptions {
   outputFile?: string;
@@ -17,13 +33,235 @@ export interface CompilerOptions {
   memoryMapMarkdown?: string;
   printVarMap?: boolean;
   compatibleMode?: boolean;
+  sourceMap?: boolean; // Write <output file>.map, e.g. program.ram.map
+  optimizationLevel?: OptimizationLevel; // 0 disables all optimizations
+  dumpIR?: boolean; // Log the IR before and after every optimization pass
+  layout?: MemoryLayout | 'auto'; // 'auto' packs the data after the code
+  fastMulDiv?: boolean; // Doubling * / and %, off unless asked for
+  runtime?: RuntimeMode; // Library routines for operators, auto from -O2
 }
 
+export interface CompilationResult {
+  ram: number[]; // Program image padded to the full memory size
+  emitted: EmittedProgram;
+  memoryMap: MemoryMap;
+  layout: MemoryLayout; // Data regions the program was mapped to
+  symbols: Map<string, Symbol>;
+  sourceMap: SourceMap; // RAM address -> Johnny C line
+  errors: string[]; // Emitter validation errors
+  optimization: PeepholeReport;
+  irOptimization?: IROptimizationReport; // Only from -O1 on
+}
+
+// Interface for the code generated for one memory layout
+interface GeneratedProgram {
+  memoryMap: MemoryMap;
+  generated: GeneratedInstruction[]; // Before the peephole optimizer
+  instructions: GeneratedInstruction[];
+  report: PeepholeReport;
+}
+
+// Repacks before giving up on an auto layout whose code keeps growing
+const AUTO_LAYOUT_PASSES = 3;
+
 export class JohnnyCompiler {
-  private readonly memoryMapper: MemoryMapper;
+  /**
+   * Compile Johnny C source text without touching the file system
+   * Used by the CLI as well as the debug adapter and other front ends
+   */
+  compileSource(
+    source: string,
+    options: Partial<CompilerOptions> = {},
+    log: (message: string) => void = () => {}
+  ): CompilationResult {
+    // Parse
+    log('Parsing...');
+    const parser = new Parser(source);
+    const ast = parser.parse();
+    log(`Parsed ${ast.statements.length} statements`);
+
+    // Generate IR
+    log('Generating IR...');
+    const irGenerator = new IRGenerator();
+    let { blocks, symbols } = irGenerator.generate(ast);
+
+    const dumpIR = (title: string, dumped: BasicBlock[]) => {
+      if (options.dumpIR) {
+        log(`--- ${title} ---\n${formatIR(dumped)}`);
+      }
+    };
+    dumpIR('IR', blocks);
+
+    // Optimize IR
+    const optimizationLevel = options.optimizationLevel ?? 0;
+    let irOptimization: IROptimizationReport | undefined;
+    if (optimizationLevel > 0) {
+      log('Optimizing IR...');
+      const optimized = new IROptimizer().optimize(
+        blocks,
+        symbols,
+        (pass, passBlocks) => dumpIR(`IR after ${pass}`, passBlocks)
+      );
+      ({ blocks, symbols } = optimized);
+      irOptimization = optimized.report;
+      log(
+        `IR: ${irOptimization.instructionsBefore} -> ` +
+          `${irOptimization.instructionsAfter} instructions, ` +
+          `${irOptimization.blocksBefore} -> ${irOptimization.blocksAfter} blocks`
+      );
+    }
+
+    // Choose the operator sites that call a runtime routine
+    // Doubling only pays off for large operands, which the compiler cannot
+    // see, so it stays opt-in at every level
+    const fastMulDiv = options.fastMulDiv ?? false;
+    const runtime = planRuntime(
+      blocks,
+      options.runtime ?? (optimizationLevel >= 2 ? 'auto' : 'inline'),
+      fastMulDiv
+    );
+    if (runtime.calls.size > 0) {
+      const routines = new Set(runtime.calls.values());
+      log(
+        `Runtime: ${runtime.calls.size} calls to ${[...routines].join(', ')}`
+      );
+      symbols = new Map([...symbols, ...runtime.symbols]);
+    }
+    const codeGenOptions: CodeGenOptions = { fastMulDiv, runtime };
+    let memoryMapper = new MemoryMapper(
+      options.layout === 'auto' || options.layout === undefined
+        ? DEFAULT_LAYOUT
+        : options.layout
+    );
+    let program = this.generateProgram(
+      blocks,
+      symbols,
+      memoryMapper,
+      optimizationLevel,
+      codeGenOptions,
+      log
+    );
+
+    // Regions are sized from the allocation of the default layout, scratch
+    // temps included, so the packed layout allocates alike and the code
+    // keeps its size; repack in case it still grew
+    if (options.layout === 'auto') {
+      const layout = memoryMapper.getLayout();
+      const highestTemp = this.highestTemp(program, layout);
+      const sizes = memoryMapper.regionSizes(
+        program.memoryMap,
+        symbols,
+        highestTemp
+      );
+      const scratchTemps =
+        highestTemp -
+        Math.max(layout.TEMPS_START - 1, ...program.memoryMap.temps.values());
+      for (let pass = 0; pass < AUTO_LAYOUT_PASSES; pass++) {
+        const codeSize = program.instructions.length;
+        log(`Packing data after ${codeSize} words of code...`);
+        memoryMapper = new MemoryMapper(
+          packLayout(codeSize, sizes),
+          scratchTemps
+        );
+        program = this.generateProgram(
+          blocks,
+          symbols,
+          memoryMapper,
+          optimizationLevel,
+          codeGenOptions,
+          log
+        );
+        if (program.instructions.length <= codeSize) break;
+      }
+    }
+
+    const { memoryMap, instructions, report } = program;
+
+    // Emit final program
+    log('Emitting program...');
+    const emitter = new Emitter(memoryMapper);
+    const emitted = emitter.emit(
+      instructions,
+      memoryMap,
+      options.includeComments ?? false
+    );
+
+    const ram = new Array(JOHNNY_CONFIG.MEMORY_SIZE).fill(0);
+    emitted.instructions.forEach((value, address) => (ram[address] = value));
+
+    return {
+      ram,
+      emitted,
+      memoryMap,
+      layout: memoryMapper.getLayout(),
+      symbols,
+      sourceMap: SourceMap.fromInstructions(instructions),
+      errors: emitter.validate(emitted),
+      optimization: report,
+      irOptimization,
+    };
+  }
+
+  /**
+   * Map the IR to memory, generate code and run the peephole optimizer
+   */
+  private generateProgram(
+    blocks: BasicBlock[],
+    symbols: Map<string, Symbol>,
+    memoryMapper: MemoryMapper,
+    optimizationLevel: OptimizationLevel,
+    codeGenOptions: CodeGenOptions,
+    log: (message: string) => void
+  ): GeneratedProgram {
+    // Create memory map
+    log('Creating memory map...');
+    const memoryMap = memoryMapper.createMemoryMap(symbols, blocks);
+
+    // Generate code
+    log('Generating code...');
+    const codeGenerator = new CodeGenerator(memoryMapper, codeGenOptions);
+    const generated = codeGenerator.generate(blocks, memoryMap);
+
+    // Optimize
+    const optimizer = new PeepholeOptimizer(
+      optimizationLevel,
+      memoryMapper.getLayout()
+    );
+    const { instructions, report } = optimizer.optimize(generated);
+    if (report.level > 0) {
+      log(
+        `Peephole -O${report.level}: saved ${report.wordsSaved} words ` +
+          `(${report.wordsBefore} -> ${report.wordsAfter}), ` +
+          `~${report.stepsSaved} steps`
+      );
+    }
 
-  constructor() {
-    this.memoryMapper = new MemoryMapper(DEFAULT_LAYOUT);
+    return { memoryMap, generated, instructions, report };
+  }
+
+  /**
+   * Highest temp address in use, including scratch temps the code
+   * generator takes beyond those of the memory map but not variables
+   * spilled into temp slots
+   */
+  private highestTemp(program: GeneratedProgram, layout: MemoryLayout): number {
+    const { memoryMap } = program;
+    const spilled = new Set([
+      ...memoryMap.variables.values(),
+      ...memoryMap.flags.values(),
+    ]);
+    let highest = Math.max(layout.TEMPS_START - 1, ...memoryMap.temps.values());
+    for (const instr of program.generated) {
+      if (
+        instr.target === undefined &&
+        !spilled.has(instr.operand) &&
+        instr.operand >= layout.TEMPS_START &&
+        instr.operand <= layout.TEMPS_END
+      ) {
+        highest = Math.max(highest, instr.operand);
+      }
+    }
+    return highest;
   }
 
   /**
@@ -35,38 +273,11 @@ export class JohnnyCompiler {
 
       // Read source file
       const source = readFileSync(sourceFile, 'utf-8');
-
-      // Parse
-      console.log('Parsing...');
-      const parser = new Parser(source);
-      const ast = parser.parse();
-      console.log(`Parsed ${ast.statements.length} statements`);
-
-      // Generate IR
-      console.log('Generating IR...');
-      const irGenerator = new IRGenerator();
-      const { blocks, symbols } = irGenerator.generate(ast);
-
-      // Create memory map
-      console.log('Creating memory map...');
-      const memoryMap = this.memoryMapper.createMemoryMap(symbols);
-
-      // Generate code
-      console.log('Generating code...');
-      const codeGenerator = new CodeGenerator(this.memoryMapper);
-      const instructions = codeGenerator.generate(blocks, memoryMap);
-
-      // Emit final program
-      console.log('Emitting program...');
-      const emitter = new Emitter(this.memoryMapper);
-      const emitted = emitter.emit(
-        instructions,
-        memoryMap,
-        options.includeComments
-      );
+      const { emitted, memoryMap, layout, symbols, sourceMap, errors } =
+        this.compileSource(source, options, message => console.log(message));
+      const memoryMapper = new MemoryMapper(layout);
 
       // Validate
-      const errors = emitter.validate(emitted);
       if (errors.length > 0) {
         console.error('Validation errors:');
         for (const error of errors) {
@@ -76,6 +287,7 @@ export class JohnnyCompiler {
       }
 
       // Write output file
+      const emitter = new Emitter(memoryMapper);
       const outputFile =
         options.outputFile || this.getDefaultOutputFile(sourceFile);
       const ramLines = emitter.formatAsRamFile(
@@ -88,9 +300,20 @@ export class JohnnyCompiler {
       writeFileSync(outputFile, ramLines.join('\n') + '\n');
       console.log(`Generated ${outputFile}`);
 
+      // Write source map if requested
+      if (options.sourceMap) {
+        const sourceMapFile = SourceMap.pathFor(outputFile);
+        const withSource = new SourceMap(
+          sourceMap.entries,
+          resolve(sourceFile)
+        );
+        writeFileSync(sourceMapFile, withSource.serialize(outputFile));
+        console.log(`Generated source map: ${sourceMapFile}`);
+      }
+
       // Write memory map files if requested
       if (options.memoryMapJson) {
-        const memMapJson = this.memoryMapper.generateMemoryMapJson(
+        const memMapJson = memoryMapper.generateMemoryMapJson(
           memoryMap,
           symbols
         );
@@ -99,7 +322,7 @@ export class JohnnyCompiler {
       }
 
       if (options.memoryMapMarkdown) {
-        const memMapMd = this.memoryMapper.generateMemoryMapMarkdown(
+        const memMapMd = memoryMapper.generateMemoryMapMarkdown(
           memoryMap,
           symbols
         );
@@ -114,7 +337,11 @@ export class JohnnyCompiler {
 
       console.log('Compilation successful!');
     } catch (error) {
-      if (error instanceof LexerError || error instanceof ParseError) {
+      if (
+        error instanceof LexerError ||
+        error instanceof ParseError ||
+        error instanceof SemanticError
+      ) {
         console.error(`Compilation failed: ${error.message}`);
         process.exit(1);
       } else if (error instanceof Error) {
@@ -155,6 +382,18 @@ export class JohnnyCompiler {
       }
     }
 
+    // Print arrays
+    if (memoryMap.arrays.size > 0) {
+      console.log('Arrays:');
+      for (const [name, address] of memoryMap.arrays) {
+        const symbol = symbols.get(name);
+        const size = symbol?.size ?? 1;
+        console.log(
+          `  ${name}[${size}] (${symbol?.type || 'unknown'}) -> RAM[${address}..${address + size - 1}]`
+        );
+      }
+    }
+
     // Print constants
     console.log('Constants:');
     const const0Addr = memoryMap.constants.get(0);
@@ -232,6 +471,53 @@ export function main(): void {
         options.compatibleMode = false;
         break;
 
+      case '--sourcemap':
+        options.sourceMap = true;
+        break;
+
+      case '-O0':
+      case '-O1':
+      case '-O2':
+        options.optimizationLevel = Number(arg.slice(2)) as OptimizationLevel;
+        break;
+
+      case '--dump-ir':
+        options.dumpIR = true;
+        break;
+
+      case '--runtime': {
+        const mode = args[++i];
+        if (mode !== 'inline' && mode !== 'call' && mode !== 'auto') {
+          console.error('Error: --runtime flag requires inline, call or auto');
+          process.exit(1);
+        }
+        options.runtime = mode;
+        break;
+      }
+
+      case '--fast-muldiv':
+      case '--no-fast-muldiv':
+        options.fastMulDiv = arg === '--fast-muldiv';
+        break;
+
+      case '--layout': {
+        if (i + 1 >= args.length) {
+          console.error('Error: --layout flag requires a file or "auto"');
+          process.exit(1);
+        }
+        const layoutFile = args[++i];
+        try {
+          options.layout =
+            layoutFile === 'auto'
+              ? 'auto'
+              : parseLayout(readFileSync(layoutFile, 'utf-8'));
+        } catch (error) {
+          console.error(`Error: ${(error as Error).message}`);
+          process.exit(1);
+        }
+        break;
+      }
+
       case '--memmap': {
         if (i + 1 >= args.length) {
           console.error('Error: --memmap flag requires a filename');
@@ -276,13 +562,31 @@ function printUsage(): void {
     '  --no-compatible Disable Johnny simulator compatible mode (allows comment headers)'
   );
   console.log('  --memmap <file> Generate memory map files (.json and .md)');
+  console.log(
+    '  --sourcemap     Generate <output file>.map (e.g. program.ram.map) linking RAM addresses to source lines'
+  );
+  console.log('  -O0, -O1, -O2   Peephole optimization level (default: -O0)');
+  console.log(
+    '  --fast-muldiv   Multiply and divide by doubling, for large operands (default: off)'
+  );
+  console.log(
+    '  --runtime <mode> Call shared routines for * / % == != (inline, call or auto; default: auto from -O2)'
+  );
+  console.log(
+    '  --layout <file> Memory regions from a JSON file, or "auto" to pack data after the code'
+  );
   console.log('  -h, --help      Show this help message');
   console.log('');
   console.log('Examples:');
   console.log('  bun run compile program.jcc');
   console.log('  bun run compile program.jcc -o scripts/program.ram');
   console.log('  bun run compile program.jcc --comments --memmap memmap.json');
+  console.log('  bun run compile program.jcc --sourcemap');
+  console.log('  bun run compile program.jcc -O2 --dump-ir');
+  console.log('  bun run compile program.jcc --layout auto');
 }
 
 // Run CLI if this file is executed directly
-main();
+if (require.main === module) {
+  main();
+}
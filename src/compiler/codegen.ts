@@ -9,27 +9,45 @@ import {
   IRJump,
   IRConditionalJump,
   IRHalt,
+  IRCall,
+  IRReturnSlot,
+  IRArrayLoad,
+  IRArrayStore,
+  IRIncrement,
   BasicBlock,
 } from './ir';
 import { MemoryMap, MemoryMapper } from './memmap';
-import { OPCODES } from '../core/opcodes';
+import { ROUTINES, RoutineName, RuntimePlan } from './runtime';
+import { JOHNNY_CONFIG, OPCODES } from '../core/opcodes';
+import { decode, encode } from '../core/codec';
 
 // Generated instruction with optional label
 export interface GeneratedInstruction {
   opcode: number;
   operand: number;
-  label?: string;
+  label?: string; // Label defined at this instruction
+  target?: string; // Label whose address becomes the operand
   comment?: string;
+  line?: number; // Johnny C source line, see sourcemap.ts
+  column?: number;
+}
+
+export interface CodeGenOptions {
+  fastMulDiv?: boolean; // Doubling instead of repeated addition and subtraction
+  runtime?: RuntimePlan; // Operator sites that call a library routine
 }
 
 export class CodeGenerator {
   private memoryMapper: MemoryMapper;
+  private readonly options: CodeGenOptions;
   private nextLabelId = 0;
   private nextTempId = 0;
-  private tempAllocator = new Map<string, number>(); // Reuse temps per block
+  private tempAllocator = new Map<string, number>(); // Scratch temps of one IR instruction
+  private constantPool: GeneratedInstruction[] = []; // Data words after the code
 
-  constructor(memoryMapper: MemoryMapper) {
+  constructor(memoryMapper: MemoryMapper, options: CodeGenOptions = {}) {
     this.memoryMapper = memoryMapper;
+    this.options = options;
   }
 
   /**
@@ -37,15 +55,13 @@ export class CodeGenerator {
    */
   generate(blocks: BasicBlock[], memoryMap: MemoryMap): GeneratedInstruction[] {
     const instructions: GeneratedInstruction[] = [];
+    this.constantPool = [];
 
     // Generate initialization code
     this.generateInitialization(instructions, memoryMap);
 
     // Generate code for each block
     for (const block of blocks) {
-      // Reset temp allocator for each block
-      this.tempAllocator.clear();
-
       // Generate instructions for the block
       let isFirstInstruction = true;
       for (const instr of block.instructions) {
@@ -76,7 +92,7 @@ export class CodeGenerator {
 
     // Add final halt if not present
     const lastInstr = instructions[instructions.length - 1];
-    if (!lastInstr || lastInstr.opcode !== 100) {
+    if (!lastInstr || lastInstr.opcode !== OPCODES.HLT) {
       instructions.push({
         opcode: OPCODES.HLT, // HLT
         operand: 0,
@@ -84,6 +100,14 @@ export class CodeGenerator {
       });
     }
 
+    // Linked runtime routines are only reached through their calls
+    for (const routine of new Set(this.options.runtime?.calls.values())) {
+      this.generateRoutine(routine, instructions, memoryMap);
+    }
+
+    // Data words are never executed, so they go after the final HLT
+    instructions.push(...this.constantPool);
+
     return instructions;
   }
 
@@ -115,6 +139,25 @@ export class CodeGenerator {
     instr: IRInstruction,
     instructions: GeneratedInstruction[],
     memoryMap: MemoryMap
+  ): void {
+    // Scratch temps never outlive the code of a single IR instruction
+    this.tempAllocator.clear();
+    const firstGenerated = instructions.length;
+    this.lowerInstruction(instr, instructions, memoryMap);
+
+    // Every RAM word lowered from this IR instruction shares its source position
+    if (instr.line !== undefined) {
+      for (const generated of instructions.slice(firstGenerated)) {
+        generated.line = instr.line;
+        generated.column = instr.column;
+      }
+    }
+  }
+
+  private lowerInstruction(
+    instr: IRInstruction,
+    instructions: GeneratedInstruction[],
+    memoryMap: MemoryMap
   ): void {
     if (instr instanceof IRConstant) {
       this.generateConstant(instr, instructions, memoryMap);
@@ -129,9 +172,19 @@ export class CodeGenerator {
     } else if (instr instanceof IRJump) {
       this.generateJump(instr, instructions);
     } else if (instr instanceof IRConditionalJump) {
-      this.generateConditionalJump(instr, instructions);
+      this.generateConditionalJump(instr, instructions, memoryMap);
     } else if (instr instanceof IRHalt) {
       this.generateHalt(instructions);
+    } else if (instr instanceof IRCall) {
+      this.generateCall(instr, instructions);
+    } else if (instr instanceof IRReturnSlot) {
+      this.generateReturnSlot(instr, instructions);
+    } else if (instr instanceof IRArrayLoad) {
+      this.generateArrayLoad(instr, instructions, memoryMap);
+    } else if (instr instanceof IRArrayStore) {
+      this.generateArrayStore(instr, instructions, memoryMap);
+    } else if (instr instanceof IRIncrement) {
+      this.generateIncrement(instr, instructions, memoryMap);
     }
   }
 
@@ -179,14 +232,45 @@ export class CodeGenerator {
             comment: `${instr.dest}++`,
           });
         }
+      } else if (instr.value > 0 && instr.value <= JOHNNY_CONFIG.MAX_VALUE) {
+        // Larger values are copied from a data word in the constant pool
+        instructions.push(
+          {
+            opcode: OPCODES.TAKE, // TAKE
+            operand: 0, // Will be resolved by emitter
+            target: this.poolConstant(instr.value),
+            comment: `Load ${instr.value}`,
+          },
+          {
+            opcode: OPCODES.SAVE, // SAVE
+            operand: destAddr,
+            comment: `${instr.dest} = ${instr.value}`,
+          }
+        );
       } else {
         throw new Error(
-          `Large constants not supported yet: ${instr.value}. Use initialMemory in tests.`
+          `Constant ${instr.value} outside valid range 0..${JOHNNY_CONFIG.MAX_VALUE}`
         );
       }
     }
   }
 
+  /**
+   * Label of a pooled data word holding the value, shared by all uses
+   */
+  private poolConstant(value: number): string {
+    const label = `const_${value}`;
+    if (!this.constantPool.some(word => word.label === label)) {
+      this.constantPool.push({
+        // Data words use the same OOAAA encoding as instructions
+        ...decode(value),
+        label,
+        comment: `Constant ${value}`,
+      });
+    }
+    return label;
+  }
+
   private generateAssign(
     instr: IRAssign,
     instructions: GeneratedInstruction[],
@@ -215,6 +299,12 @@ export class CodeGenerator {
     instructions: GeneratedInstruction[],
     memoryMap: MemoryMap
   ): void {
+    const routine = this.options.runtime?.calls.get(instr);
+    if (routine) {
+      this.generateRuntimeCall(instr, routine, instructions, memoryMap);
+      return;
+    }
+
     const leftAddr = this.memoryMapper.getAddress(memoryMap, instr.left);
     const rightAddr = this.memoryMapper.getAddress(memoryMap, instr.right);
     const destAddr = this.memoryMapper.getAddress(memoryMap, instr.dest);
@@ -263,12 +353,23 @@ export class CodeGenerator {
         break;
 
       case '*':
-        this.generateMultiply(instr, instructions, memoryMap);
+        if (this.options.fastMulDiv) {
+          this.generateFastMultiply(instr, instructions, memoryMap);
+        } else {
+          this.generateMultiply(instr, instructions, memoryMap);
+        }
         break;
 
       case '/':
-        this.generateDivide(instr, instructions, memoryMap);
+      case '%': {
+        const result = instr.op === '/' ? 'quotient' : 'remainder';
+        if (this.options.fastMulDiv) {
+          this.generateFastDivide(instr, instructions, memoryMap, result);
+        } else {
+          this.generateDivide(instr, instructions, memoryMap, result);
+        }
         break;
+      }
 
       case '==':
         this.generateEquals(instr, instructions, memoryMap);
@@ -369,13 +470,13 @@ export class CodeGenerator {
       opcode: OPCODES.JMP, // JMP
       operand: 0, // Will be resolved by emitter
       comment: `Jump to ${addLabel}`,
-      label: addLabel,
+      target: addLabel,
     });
     instructions.push({
       opcode: OPCODES.JMP, // JMP
       operand: 0, // Will be resolved by emitter
       comment: `Jump to ${endLabel}`,
-      label: endLabel,
+      target: endLabel,
     });
 
     // Add block: PROD += left, CNT--
@@ -409,7 +510,7 @@ export class CodeGenerator {
       opcode: OPCODES.JMP, // JMP
       operand: 0, // Will be resolved by emitter
       comment: `Jump to ${loopLabel}`,
-      label: loopLabel,
+      target: loopLabel,
     });
 
     // End: move result
@@ -431,33 +532,79 @@ export class CodeGenerator {
     });
   }
 
+  /**
+   * Division by repeated subtraction, as in scripts/idiv.ram
+   * Since SUB saturates at 0, R + 1 - B is 0 exactly when R < B.
+   * Dividing by zero gives quotient 0 and remainder A.
+   */
   private generateDivide(
-    _instr: IRBinary,
-    _instructions: GeneratedInstruction[],
-    _memoryMap: MemoryMap
-  ): void {
-    // TODO: Implement division with error checking
-    throw new Error('Division not implemented yet');
-  }
-
-  private generateEquals(
     instr: IRBinary,
     instructions: GeneratedInstruction[],
-    memoryMap: MemoryMap
+    memoryMap: MemoryMap,
+    result: 'quotient' | 'remainder'
   ): void {
     const leftAddr = this.memoryMapper.getAddress(memoryMap, instr.left);
     const rightAddr = this.memoryMapper.getAddress(memoryMap, instr.right);
     const destAddr = this.memoryMapper.getAddress(memoryMap, instr.dest);
-    const tempAddr = this.getTempAddress(memoryMap, '_eq_temp');
     const const1Addr = this.memoryMapper.getAddress(memoryMap, 'CONST_1');
 
-    // EQ(A,B): TAKE A; SUB B; SAVE T; NULL FLAG; TST T; INC FLAG; TAKE CONST_1; SUB FLAG; SAVE FLAG
+    const quotTemp = this.getTempAddress(memoryMap, '_div_quot');
+    const remTemp = this.getTempAddress(memoryMap, '_div_rem');
+    const testTemp = this.getTempAddress(memoryMap, '_div_test');
+
+    const loopLabel = `div_loop_${this.nextLabelId}`;
+    const stepLabel = `div_step_${this.nextLabelId}`;
+    const endLabel = `div_end_${this.nextLabelId++}`;
+
+    // Initialize: Q = 0, R = left; skip the loop when right == 0
     instructions.push(
+      {
+        opcode: OPCODES.NULL, // NULL
+        operand: quotTemp,
+        comment: 'Q = 0',
+      },
       {
         opcode: OPCODES.TAKE, // TAKE
         operand: leftAddr,
         comment: `Load ${instr.left}`,
       },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: remTemp,
+        comment: 'R = left operand',
+      },
+      {
+        opcode: OPCODES.TST, // TST
+        operand: rightAddr,
+        comment: `Test ${instr.right}`,
+      },
+      {
+        opcode: OPCODES.JMP, // JMP
+        operand: 0, // Will be resolved by emitter
+        target: loopLabel,
+        comment: `Jump to ${loopLabel}`,
+      },
+      {
+        opcode: OPCODES.JMP, // JMP
+        operand: 0, // Will be resolved by emitter
+        target: endLabel,
+        comment: `Division by zero: jump to ${endLabel}`,
+      }
+    );
+
+    // Loop: stop once R + 1 - right == 0
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: remTemp,
+        label: loopLabel,
+        comment: 'Load R',
+      },
+      {
+        opcode: OPCODES.ADD, // ADD
+        operand: const1Addr,
+        comment: 'Add 1',
+      },
       {
         opcode: OPCODES.SUB, // SUB
         operand: rightAddr,
@@ -465,10 +612,392 @@ export class CodeGenerator {
       },
       {
         opcode: OPCODES.SAVE, // SAVE
-        operand: tempAddr,
-        comment: 'Save difference',
+        operand: testTemp,
+        comment: 'T = R + 1 - right',
+      },
+      {
+        opcode: OPCODES.TST, // TST
+        operand: testTemp,
+        comment: 'Test T',
+      },
+      {
+        opcode: OPCODES.JMP, // JMP
+        operand: 0, // Will be resolved by emitter
+        target: stepLabel,
+        comment: `Jump to ${stepLabel}`,
+      },
+      {
+        opcode: OPCODES.JMP, // JMP
+        operand: 0, // Will be resolved by emitter
+        target: endLabel,
+        comment: `Jump to ${endLabel}`,
+      }
+    );
+
+    // Step: R -= right, Q++
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: remTemp,
+        label: stepLabel,
+        comment: 'Load R',
+      },
+      {
+        opcode: OPCODES.SUB, // SUB
+        operand: rightAddr,
+        comment: `Subtract ${instr.right}`,
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: remTemp,
+        comment: 'R -= right',
+      },
+      {
+        opcode: OPCODES.INC, // INC
+        operand: quotTemp,
+        comment: 'Q++',
+      },
+      {
+        opcode: OPCODES.JMP, // JMP
+        operand: 0, // Will be resolved by emitter
+        target: loopLabel,
+        comment: `Jump to ${loopLabel}`,
+      }
+    );
+
+    // End: move result
+    const symbol = result === 'quotient' ? '/' : '%';
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: result === 'quotient' ? quotTemp : remTemp,
+        label: endLabel,
+        comment: `Load ${result}`,
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: destAddr,
+        comment: `${instr.dest} = ${instr.left} ${symbol} ${instr.right}`,
+      }
+    );
+  }
+
+  /**
+   * Multiplication by doubling: while CNT > 0, double P = 1 and M = left
+   * as long as 2P <= CNT, then PROD += M and CNT -= P. This takes
+   * O(log² right) steps instead of O(right). ADD saturates, so a product
+   * that overflows ends at 19999 just like with repeated addition.
+   */
+  private generateFastMultiply(
+    instr: IRBinary,
+    instructions: GeneratedInstruction[],
+    memoryMap: MemoryMap
+  ): void {
+    const leftAddr = this.memoryMapper.getAddress(memoryMap, instr.left);
+    const rightAddr = this.memoryMapper.getAddress(memoryMap, instr.right);
+    const destAddr = this.memoryMapper.getAddress(memoryMap, instr.dest);
+    const const1Addr = this.memoryMapper.getAddress(memoryMap, 'CONST_1');
+
+    const prodTemp = this.getTempAddress(memoryMap, '_mul_prod');
+    const cntTemp = this.getTempAddress(memoryMap, '_mul_cnt');
+    const powTemp = this.getTempAddress(memoryMap, '_mul_pow');
+    const multTemp = this.getTempAddress(memoryMap, '_mul_mult');
+    const testTemp = this.getTempAddress(memoryMap, '_mul_test');
+
+    const loopLabel = `mul_loop_${this.nextLabelId}`;
+    const startLabel = `mul_start_${this.nextLabelId}`;
+    const doubleLabel = `mul_double_${this.nextLabelId}`;
+    const addLabel = `mul_add_${this.nextLabelId}`;
+    const endLabel = `mul_end_${this.nextLabelId++}`;
+
+    // Initialize: PROD = 0, CNT = right
+    instructions.push(
+      { opcode: OPCODES.NULL, operand: prodTemp, comment: 'PROD = 0' },
+      {
+        opcode: OPCODES.TAKE,
+        operand: rightAddr,
+        comment: `Load ${instr.right}`,
+      },
+      {
+        opcode: OPCODES.SAVE,
+        operand: cntTemp,
+        comment: 'CNT = right operand',
+      }
+    );
+
+    // Loop: stop once CNT == 0, else start with P = 1, M = left
+    instructions.push(
+      {
+        opcode: OPCODES.TST,
+        operand: cntTemp,
+        label: loopLabel,
+        comment: 'Test CNT',
+      },
+      {
+        opcode: OPCODES.JMP,
+        operand: 0, // Will be resolved by emitter
+        target: startLabel,
+        comment: `Jump to ${startLabel}`,
+      },
+      {
+        opcode: OPCODES.JMP,
+        operand: 0, // Will be resolved by emitter
+        target: endLabel,
+        comment: `Jump to ${endLabel}`,
+      },
+      {
+        opcode: OPCODES.TAKE,
+        operand: const1Addr,
+        label: startLabel,
+        comment: 'Load 1',
+      },
+      { opcode: OPCODES.SAVE, operand: powTemp, comment: 'P = 1' },
+      {
+        opcode: OPCODES.TAKE,
+        operand: leftAddr,
+        comment: `Load ${instr.left}`,
+      },
+      { opcode: OPCODES.SAVE, operand: multTemp, comment: 'M = left operand' }
+    );
+
+    // Double while P <= CNT - P, which cannot saturate like P + P
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE,
+        operand: cntTemp,
+        label: doubleLabel,
+        comment: 'Load CNT',
+      },
+      { opcode: OPCODES.SUB, operand: powTemp, comment: 'Subtract P' },
+      { opcode: OPCODES.SAVE, operand: testTemp, comment: 'T = CNT - P' },
+      { opcode: OPCODES.TAKE, operand: powTemp, comment: 'Load P' },
+      { opcode: OPCODES.SUB, operand: testTemp, comment: 'Subtract T' },
+      { opcode: OPCODES.SAVE, operand: testTemp, comment: 'T = P - T' },
+      { opcode: OPCODES.TST, operand: testTemp, comment: 'Test T' },
+      {
+        opcode: OPCODES.JMP,
+        operand: 0, // Will be resolved by emitter
+        target: addLabel,
+        comment: `2P > CNT: jump to ${addLabel}`,
+      },
+      { opcode: OPCODES.TAKE, operand: powTemp, comment: 'Load P' },
+      { opcode: OPCODES.ADD, operand: powTemp, comment: 'Add P' },
+      { opcode: OPCODES.SAVE, operand: powTemp, comment: 'P += P' },
+      { opcode: OPCODES.TAKE, operand: multTemp, comment: 'Load M' },
+      { opcode: OPCODES.ADD, operand: multTemp, comment: 'Add M' },
+      { opcode: OPCODES.SAVE, operand: multTemp, comment: 'M += M' },
+      {
+        opcode: OPCODES.JMP,
+        operand: 0, // Will be resolved by emitter
+        target: doubleLabel,
+        comment: `Jump to ${doubleLabel}`,
+      }
+    );
+
+    // Add: PROD += M, CNT -= P
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE,
+        operand: prodTemp,
+        label: addLabel,
+        comment: 'Load PROD',
+      },
+      { opcode: OPCODES.ADD, operand: multTemp, comment: 'Add M' },
+      { opcode: OPCODES.SAVE, operand: prodTemp, comment: 'PROD += M' },
+      { opcode: OPCODES.TAKE, operand: cntTemp, comment: 'Load CNT' },
+      { opcode: OPCODES.SUB, operand: powTemp, comment: 'Subtract P' },
+      { opcode: OPCODES.SAVE, operand: cntTemp, comment: 'CNT -= P' },
+      {
+        opcode: OPCODES.JMP,
+        operand: 0, // Will be resolved by emitter
+        target: loopLabel,
+        comment: `Jump to ${loopLabel}`,
+      }
+    );
+
+    // End: move result
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE,
+        operand: prodTemp,
+        label: endLabel,
+        comment: 'Load result',
+      },
+      {
+        opcode: OPCODES.SAVE,
+        operand: destAddr,
+        comment: `${instr.dest} = ${instr.left} * ${instr.right}`,
+      }
+    );
+  }
+
+  /**
+   * Long division by doubling: while right <= R, double D = right and
+   * P = 1 as long as 2D <= R, then R -= D and Q += P. Dividing by zero
+   * gives quotient 0 and remainder A, as with repeated subtraction.
+   */
+  private generateFastDivide(
+    instr: IRBinary,
+    instructions: GeneratedInstruction[],
+    memoryMap: MemoryMap,
+    result: 'quotient' | 'remainder'
+  ): void {
+    const leftAddr = this.memoryMapper.getAddress(memoryMap, instr.left);
+    const rightAddr = this.memoryMapper.getAddress(memoryMap, instr.right);
+    const destAddr = this.memoryMapper.getAddress(memoryMap, instr.dest);
+    const const1Addr = this.memoryMapper.getAddress(memoryMap, 'CONST_1');
+
+    const quotTemp = this.getTempAddress(memoryMap, '_div_quot');
+    const remTemp = this.getTempAddress(memoryMap, '_div_rem');
+    const divTemp = this.getTempAddress(memoryMap, '_div_div');
+    const powTemp = this.getTempAddress(memoryMap, '_div_pow');
+    const testTemp = this.getTempAddress(memoryMap, '_div_test');
+
+    const loopLabel = `div_loop_${this.nextLabelId}`;
+    const doubleLabel = `div_double_${this.nextLabelId}`;
+    const stepLabel = `div_step_${this.nextLabelId}`;
+    const endLabel = `div_end_${this.nextLabelId++}`;
+
+    // Initialize: Q = 0, R = left; skip the loop when right == 0
+    instructions.push(
+      { opcode: OPCODES.NULL, operand: quotTemp, comment: 'Q = 0' },
+      {
+        opcode: OPCODES.TAKE,
+        operand: leftAddr,
+        comment: `Load ${instr.left}`,
+      },
+      { opcode: OPCODES.SAVE, operand: remTemp, comment: 'R = left operand' },
+      {
+        opcode: OPCODES.TST,
+        operand: rightAddr,
+        comment: `Test ${instr.right}`,
+      },
+      {
+        opcode: OPCODES.JMP,
+        operand: 0, // Will be resolved by emitter
+        target: loopLabel,
+        comment: `Jump to ${loopLabel}`,
+      },
+      {
+        opcode: OPCODES.JMP,
+        operand: 0, // Will be resolved by emitter
+        target: endLabel,
+        comment: `Division by zero: jump to ${endLabel}`,
+      }
+    );
+
+    // Loop: stop once right - R != 0, else start with D = right, P = 1
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE,
+        operand: rightAddr,
+        label: loopLabel,
+        comment: `Load ${instr.right}`,
+      },
+      { opcode: OPCODES.SUB, operand: remTemp, comment: 'Subtract R' },
+      { opcode: OPCODES.SAVE, operand: testTemp, comment: 'T = right - R' },
+      { opcode: OPCODES.TST, operand: testTemp, comment: 'Test T' },
+      {
+        opcode: OPCODES.JMP,
+        operand: 0, // Will be resolved by emitter
+        target: endLabel,
+        comment: `R < right: jump to ${endLabel}`,
+      },
+      {
+        opcode: OPCODES.TAKE,
+        operand: rightAddr,
+        comment: `Load ${instr.right}`,
+      },
+      { opcode: OPCODES.SAVE, operand: divTemp, comment: 'D = right' },
+      { opcode: OPCODES.TAKE, operand: const1Addr, comment: 'Load 1' },
+      { opcode: OPCODES.SAVE, operand: powTemp, comment: 'P = 1' }
+    );
+
+    // Double while D <= R - D, which cannot saturate like D + D
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE,
+        operand: remTemp,
+        label: doubleLabel,
+        comment: 'Load R',
+      },
+      { opcode: OPCODES.SUB, operand: divTemp, comment: 'Subtract D' },
+      { opcode: OPCODES.SAVE, operand: testTemp, comment: 'T = R - D' },
+      { opcode: OPCODES.TAKE, operand: divTemp, comment: 'Load D' },
+      { opcode: OPCODES.SUB, operand: testTemp, comment: 'Subtract T' },
+      { opcode: OPCODES.SAVE, operand: testTemp, comment: 'T = D - T' },
+      { opcode: OPCODES.TST, operand: testTemp, comment: 'Test T' },
+      {
+        opcode: OPCODES.JMP,
+        operand: 0, // Will be resolved by emitter
+        target: stepLabel,
+        comment: `2D > R: jump to ${stepLabel}`,
+      },
+      { opcode: OPCODES.TAKE, operand: divTemp, comment: 'Load D' },
+      { opcode: OPCODES.ADD, operand: divTemp, comment: 'Add D' },
+      { opcode: OPCODES.SAVE, operand: divTemp, comment: 'D += D' },
+      { opcode: OPCODES.TAKE, operand: powTemp, comment: 'Load P' },
+      { opcode: OPCODES.ADD, operand: powTemp, comment: 'Add P' },
+      { opcode: OPCODES.SAVE, operand: powTemp, comment: 'P += P' },
+      {
+        opcode: OPCODES.JMP,
+        operand: 0, // Will be resolved by emitter
+        target: doubleLabel,
+        comment: `Jump to ${doubleLabel}`,
+      }
+    );
+
+    // Step: R -= D, Q += P
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE,
+        operand: remTemp,
+        label: stepLabel,
+        comment: 'Load R',
+      },
+      { opcode: OPCODES.SUB, operand: divTemp, comment: 'Subtract D' },
+      { opcode: OPCODES.SAVE, operand: remTemp, comment: 'R -= D' },
+      { opcode: OPCODES.TAKE, operand: quotTemp, comment: 'Load Q' },
+      { opcode: OPCODES.ADD, operand: powTemp, comment: 'Add P' },
+      { opcode: OPCODES.SAVE, operand: quotTemp, comment: 'Q += P' },
+      {
+        opcode: OPCODES.JMP,
+        operand: 0, // Will be resolved by emitter
+        target: loopLabel,
+        comment: `Jump to ${loopLabel}`,
+      }
+    );
+
+    // End: move result
+    const symbol = result === 'quotient' ? '/' : '%';
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE,
+        operand: result === 'quotient' ? quotTemp : remTemp,
+        label: endLabel,
+        comment: `Load ${result}`,
+      },
+      {
+        opcode: OPCODES.SAVE,
+        operand: destAddr,
+        comment: `${instr.dest} = ${instr.left} ${symbol} ${instr.right}`,
       }
     );
+  }
+
+  private generateEquals(
+    instr: IRBinary,
+    instructions: GeneratedInstruction[],
+    memoryMap: MemoryMap
+  ): void {
+    const leftAddr = this.memoryMapper.getAddress(memoryMap, instr.left);
+    const rightAddr = this.memoryMapper.getAddress(memoryMap, instr.right);
+    const destAddr = this.memoryMapper.getAddress(memoryMap, instr.dest);
+    const tempAddr = this.getTempAddress(memoryMap, '_eq_temp');
+    const const1Addr = this.memoryMapper.getAddress(memoryMap, 'CONST_1');
+
+    // EQ(A,B): T = |A-B|; NULL FLAG; TST T; INC FLAG; TAKE CONST_1; SUB FLAG; SAVE FLAG
+    this.generateDistance(instr, leftAddr, rightAddr, tempAddr, instructions);
     instructions.push({
       opcode: OPCODES.NULL, // NULL
       operand: destAddr,
@@ -504,9 +1033,58 @@ export class CodeGenerator {
     );
   }
 
-  private generateNotEquals(
+  /**
+   * T = |A-B| computed as (A-B) + (B-A), since SUB saturates at 0
+   */
+  private generateDistance(
     instr: IRBinary,
-    instructions: GeneratedInstruction[],
+    leftAddr: number,
+    rightAddr: number,
+    tempAddr: number,
+    instructions: GeneratedInstruction[]
+  ): void {
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: leftAddr,
+        comment: `Load ${instr.left}`,
+      },
+      {
+        opcode: OPCODES.SUB, // SUB
+        operand: rightAddr,
+        comment: `Subtract ${instr.right}`,
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: tempAddr,
+        comment: 'Save A-B',
+      },
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: rightAddr,
+        comment: `Load ${instr.right}`,
+      },
+      {
+        opcode: OPCODES.SUB, // SUB
+        operand: leftAddr,
+        comment: `Subtract ${instr.left}`,
+      },
+      {
+        opcode: OPCODES.ADD, // ADD
+        operand: tempAddr,
+        comment: 'Add A-B',
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: tempAddr,
+        comment: 'Save difference',
+      }
+    );
+  }
+
+  private generateNotEquals(
+    instr: IRBinary,
+    instructions: GeneratedInstruction[],
     memoryMap: MemoryMap
   ): void {
     const leftAddr = this.memoryMapper.getAddress(memoryMap, instr.left);
@@ -514,22 +1092,8 @@ export class CodeGenerator {
     const destAddr = this.memoryMapper.getAddress(memoryMap, instr.dest);
     const tempAddr = this.getTempAddress(memoryMap, '_neq_temp');
 
-    // NEQ(A,B): TAKE A; SUB B; SAVE T; NULL FLAG; TST T; INC FLAG
-    instructions.push({
-      opcode: OPCODES.TAKE, // TAKE
-      operand: leftAddr,
-      comment: `Load ${instr.left}`,
-    });
-    instructions.push({
-      opcode: OPCODES.SUB, // SUB
-      operand: rightAddr,
-      comment: `Subtract ${instr.right}`,
-    });
-    instructions.push({
-      opcode: OPCODES.SAVE, // SAVE
-      operand: tempAddr,
-      comment: 'Save difference',
-    });
+    // NEQ(A,B): T = |A-B|; NULL FLAG; TST T; INC FLAG
+    this.generateDistance(instr, leftAddr, rightAddr, tempAddr, instructions);
     instructions.push({
       opcode: OPCODES.NULL, // NULL
       operand: destAddr,
@@ -577,6 +1141,34 @@ export class CodeGenerator {
         break;
       }
 
+      case '!': {
+        // Not: dest = 1, cleared unless the operand is zero
+        const const1Addr = this.memoryMapper.getAddress(memoryMap, 'CONST_1');
+        instructions.push(
+          {
+            opcode: OPCODES.TAKE, // TAKE
+            operand: const1Addr,
+            comment: 'Load 1',
+          },
+          {
+            opcode: OPCODES.SAVE, // SAVE
+            operand: destAddr,
+            comment: `${instr.dest} = 1`,
+          },
+          {
+            opcode: OPCODES.TST, // TST
+            operand: operandAddr,
+            comment: `Test ${instr.operand}`,
+          },
+          {
+            opcode: OPCODES.NULL, // NULL
+            operand: destAddr,
+            comment: `${instr.dest} = !${instr.operand}`,
+          }
+        );
+        break;
+      }
+
       default:
         throw new Error(`Unsupported unary operator: ${instr.op}`);
     }
@@ -602,119 +1194,386 @@ export class CodeGenerator {
       opcode: OPCODES.JMP, // JMP
       operand: 0, // Will be resolved by emitter
       comment: `Jump to ${instr.target}`,
-      label: instr.target,
+      target: instr.target,
     });
   }
 
   private generateConditionalJump(
     instr: IRConditionalJump,
-    instructions: GeneratedInstruction[]
+    instructions: GeneratedInstruction[],
+    memoryMap: MemoryMap
   ): void {
-    // We need the condition address to test
-    // This is handled by the emitter which will resolve the condition symbol
+    // TST skips the JMP when the condition is zero
     instructions.push({
       opcode: OPCODES.TST, // TST
-      operand: 0, // Will be resolved by emitter to condition address
+      operand: this.memoryMapper.getAddress(memoryMap, instr.condition),
       comment: `Test ${instr.condition}`,
     });
     instructions.push({
       opcode: OPCODES.JMP, // JMP
       operand: 0, // Will be resolved by emitter
       comment: `Jump to ${instr.target} if ${instr.condition} != 0`,
-      label: instr.target,
+      target: instr.target,
     });
   }
 
-  private generateHalt(instructions: GeneratedInstruction[]): void {
-    instructions.push({
-      opcode: OPCODES.HLT, // HLT
-      operand: 0,
-      comment: 'Halt program',
+  private generateCall(
+    instr: IRCall,
+    instructions: GeneratedInstruction[]
+  ): void {
+    // JOHNNY has no CALL: copy a "JMP <return address>" word from the
+    // constant pool into the callee's return slot, then jump to the callee
+    const returnLabel = `ret_${this.nextLabelId++}`;
+    const returnJumpLabel = `${returnLabel}_jmp`;
+    this.constantPool.push({
+      opcode: OPCODES.JMP, // JMP (data word, copied by the call)
+      operand: 0, // Will be resolved by emitter
+      label: returnJumpLabel,
+      target: returnLabel,
+      comment: `Return jump for call to ${instr.func}`,
     });
+
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: 0, // Will be resolved by emitter
+        target: returnJumpLabel,
+        comment: `Load return jump for ${instr.func}`,
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: 0, // Will be resolved by emitter
+        target: instr.exit,
+        comment: `Patch return slot of ${instr.func}`,
+      },
+      {
+        opcode: OPCODES.JMP, // JMP
+        operand: 0, // Will be resolved by emitter
+        target: instr.entry,
+        comment: `Call ${instr.func}`,
+      },
+      {
+        opcode: OPCODES.DATA, // DATA (no-op landing point)
+        operand: 0,
+        label: returnLabel,
+        comment: `Return from ${instr.func}`,
+      }
+    );
   }
 
-  private generateGreaterThan(
+  /**
+   * Copy the operands into the routine's argument words, call it like a
+   * function and copy its result word into the destination
+   */
+  private generateRuntimeCall(
     instr: IRBinary,
+    routine: RoutineName,
     instructions: GeneratedInstruction[],
     memoryMap: MemoryMap
   ): void {
-    // a > b  =>  a - b > 0 (positive test)
-    const leftAddr = this.memoryMapper.getAddress(memoryMap, instr.left);
-    const rightAddr = this.memoryMapper.getAddress(memoryMap, instr.right);
-    const destAddr = this.memoryMapper.getAddress(memoryMap, instr.dest);
-    const tempAddr = this.getTempAddress(memoryMap, '_cmp_temp');
+    const address = (name: string) =>
+      this.memoryMapper.getAddress(memoryMap, name);
+    const result = ROUTINES[routine].operators[instr.op];
 
-    // Load left value
-    instructions.push({
-      opcode: OPCODES.TAKE, // TAKE
-      operand: leftAddr,
-      comment: `Load ${instr.left}`,
-    });
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: address(instr.left),
+        comment: `Load ${instr.left}`,
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: address(`$${routine}.a`),
+        comment: `$${routine}.a = ${instr.left}`,
+      },
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: address(instr.right),
+        comment: `Load ${instr.right}`,
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: address(`$${routine}.b`),
+        comment: `$${routine}.b = ${instr.right}`,
+      }
+    );
+    this.generateCall(
+      new IRCall(
+        instr.id,
+        `runtime ${routine}`,
+        `rt_${routine}`,
+        `rt_${routine}_exit`
+      ),
+      instructions
+    );
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: address(result),
+        comment: `Load ${result}`,
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: address(instr.dest),
+        comment: `${instr.dest} = ${instr.left} ${instr.op} ${instr.right}`,
+      }
+    );
+  }
 
-    // Subtract right value
-    instructions.push({
-      opcode: OPCODES.SUB, // SUB
-      operand: rightAddr,
-      comment: `Subtract ${instr.right}`,
-    });
+  /**
+   * Library routine: the inline expansion of its operator on $name.a and
+   * $name.b, followed by a return slot that every call patches
+   */
+  private generateRoutine(
+    routine: RoutineName,
+    instructions: GeneratedInstruction[],
+    memoryMap: MemoryMap
+  ): void {
+    this.tempAllocator.clear();
+    const entry = instructions.length;
+    const [a, b] = [`$${routine}.a`, `$${routine}.b`];
+    const binary = (dest: string, op: string) =>
+      this.generateBinary(
+        new IRBinary(0, dest, a, op, b),
+        instructions,
+        memoryMap
+      );
 
-    // Save difference
-    instructions.push({
-      opcode: OPCODES.SAVE, // SAVE
-      operand: tempAddr,
-      comment: 'Save difference',
-    });
+    switch (routine) {
+      case 'mul':
+        binary('$mul.result', '*');
+        break;
 
-    // Test if positive (greater than 0)
-    instructions.push({
-      opcode: OPCODES.TST, // TST
-      operand: tempAddr,
-      comment: `Test if ${instr.left} > ${instr.right}`,
-    });
+      case 'divmod':
+        // The division leaves the remainder in its scratch temp
+        binary('$divmod.quotient', '/');
+        instructions.push(
+          {
+            opcode: OPCODES.TAKE, // TAKE
+            operand: this.getTempAddress(memoryMap, '_div_rem'),
+            comment: 'Load remainder',
+          },
+          {
+            opcode: OPCODES.SAVE, // SAVE
+            operand: this.memoryMapper.getAddress(
+              memoryMap,
+              '$divmod.remainder'
+            ),
+            comment: `$divmod.remainder = ${a} % ${b}`,
+          }
+        );
+        break;
 
-    // Store 1 in dest (will be overwritten if false)
-    instructions.push({
-      opcode: OPCODES.TAKE, // TAKE
-      operand: 151, // CONST_1
-      comment: 'Load 1 (true)',
-    });
+      case 'cmp': {
+        binary('$cmp.ne', '!=');
+        const neAddr = this.memoryMapper.getAddress(memoryMap, '$cmp.ne');
+        instructions.push(
+          {
+            opcode: OPCODES.TAKE, // TAKE
+            operand: this.memoryMapper.getAddress(memoryMap, 'CONST_1'),
+            comment: 'Load 1',
+          },
+          {
+            opcode: OPCODES.SUB, // SUB
+            operand: neAddr,
+            comment: 'Subtract $cmp.ne',
+          },
+          {
+            opcode: OPCODES.SAVE, // SAVE
+            operand: this.memoryMapper.getAddress(memoryMap, '$cmp.eq'),
+            comment: `$cmp.eq = ${a} == ${b}`,
+          }
+        );
+        break;
+      }
+    }
 
+    instructions[entry].label = `rt_${routine}`;
+    instructions[entry].comment =
+      `Runtime ${routine}: ${instructions[entry].comment}`;
     instructions.push({
-      opcode: OPCODES.SAVE, // SAVE
-      operand: destAddr,
-      comment: `${instr.dest} = true`,
+      opcode: OPCODES.HLT, // HLT until patched
+      operand: 0,
+      label: `rt_${routine}_exit`,
+      comment: `Return slot of runtime ${routine}`,
     });
+  }
 
-    // Skip next instruction if test was true (positive)
-    const skipLabel = `gt_skip_${this.nextLabelId++}`;
+  private generateReturnSlot(
+    instr: IRReturnSlot,
+    instructions: GeneratedInstruction[]
+  ): void {
+    // Overwritten by every call; HLT stops the program if it is ever reached
+    // without a call, e.g. by falling into the function from the main code
     instructions.push({
-      opcode: OPCODES.JMP, // JMP
-      operand: 0, // Will be resolved by emitter
-      label: skipLabel,
-      comment: 'Jump if positive',
+      opcode: OPCODES.HLT, // HLT until patched
+      operand: 0,
+      comment: `Return slot of ${instr.func}`,
     });
+  }
 
-    // Store 0 in dest (false case)
+  private generateIncrement(
+    instr: IRIncrement,
+    instructions: GeneratedInstruction[],
+    memoryMap: MemoryMap
+  ): void {
     instructions.push({
-      opcode: OPCODES.TAKE, // TAKE
-      operand: 150, // CONST_0
-      comment: 'Load 0 (false)',
+      opcode: instr.op === '++' ? OPCODES.INC : OPCODES.DEC,
+      operand: this.memoryMapper.getAddress(memoryMap, instr.dest),
+      comment: `${instr.dest}${instr.op}`,
     });
+  }
 
-    instructions.push({
-      opcode: OPCODES.SAVE, // SAVE
-      operand: destAddr,
-      comment: `${instr.dest} = false`,
-    });
+  private generateArrayLoad(
+    instr: IRArrayLoad,
+    instructions: GeneratedInstruction[],
+    memoryMap: MemoryMap
+  ): void {
+    const destAddr = this.memoryMapper.getAddress(memoryMap, instr.dest);
+    const accessLabel = this.generateArrayAccess(
+      OPCODES.TAKE,
+      instr.array,
+      instr.index,
+      instructions,
+      memoryMap
+    );
+
+    instructions.push(
+      {
+        opcode: OPCODES.DATA, // Patched to TAKE array+index
+        operand: 0,
+        label: accessLabel,
+        comment: `Load ${instr.array}[${instr.index}]`,
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: destAddr,
+        comment: `${instr.dest} = ${instr.array}[${instr.index}]`,
+      }
+    );
+  }
+
+  private generateArrayStore(
+    instr: IRArrayStore,
+    instructions: GeneratedInstruction[],
+    memoryMap: MemoryMap
+  ): void {
+    const srcAddr = this.memoryMapper.getAddress(memoryMap, instr.src);
+    const accessLabel = this.generateArrayAccess(
+      OPCODES.SAVE,
+      instr.array,
+      instr.index,
+      instructions,
+      memoryMap
+    );
 
-    // Skip target
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: srcAddr,
+        comment: `Load ${instr.src}`,
+      },
+      {
+        opcode: OPCODES.DATA, // Patched to SAVE array+index
+        operand: 0,
+        label: accessLabel,
+        comment: `${instr.array}[${instr.index}] = ${instr.src}`,
+      }
+    );
+  }
+
+  /**
+   * JOHNNY has no indirect addressing: add the index to an "<opcode> base"
+   * template word and save the sum over the access instruction that follows.
+   * Returns the label the caller must put on that instruction.
+   */
+  private generateArrayAccess(
+    opcode: number,
+    array: string,
+    index: string,
+    instructions: GeneratedInstruction[],
+    memoryMap: MemoryMap
+  ): string {
+    const baseAddr = this.memoryMapper.getAddress(memoryMap, array);
+    const indexAddr = this.memoryMapper.getAddress(memoryMap, index);
+    const accessLabel = `array_access_${this.nextLabelId++}`;
+
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: 0, // Will be resolved by emitter
+        target: this.poolConstant(encode(opcode, baseAddr)),
+        comment: `Load template for ${array}`,
+      },
+      {
+        opcode: OPCODES.ADD, // ADD
+        operand: indexAddr,
+        comment: `Add index ${index}`,
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: 0, // Will be resolved by emitter
+        target: accessLabel,
+        comment: `Patch access to ${array}`,
+      }
+    );
+    return accessLabel;
+  }
+
+  private generateHalt(instructions: GeneratedInstruction[]): void {
     instructions.push({
-      opcode: OPCODES.NULL, // NULL (no-op)
+      opcode: OPCODES.HLT, // HLT
       operand: 0,
-      comment: skipLabel,
+      comment: 'Halt program',
     });
   }
 
+  private generateGreaterThan(
+    instr: IRBinary,
+    instructions: GeneratedInstruction[],
+    memoryMap: MemoryMap
+  ): void {
+    // a > b  <=>  a - b != 0, because SUB saturates at 0
+    const leftAddr = this.memoryMapper.getAddress(memoryMap, instr.left);
+    const rightAddr = this.memoryMapper.getAddress(memoryMap, instr.right);
+    const destAddr = this.memoryMapper.getAddress(memoryMap, instr.dest);
+    const tempAddr = this.getTempAddress(memoryMap, '_cmp_temp');
+
+    // GT(A,B): TAKE A; SUB B; SAVE T; NULL FLAG; TST T; INC FLAG
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: leftAddr,
+        comment: `Load ${instr.left}`,
+      },
+      {
+        opcode: OPCODES.SUB, // SUB
+        operand: rightAddr,
+        comment: `Subtract ${instr.right}`,
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: tempAddr,
+        comment: 'Save difference',
+      },
+      {
+        opcode: OPCODES.NULL, // NULL
+        operand: destAddr,
+        comment: `${instr.dest} = 0`,
+      },
+      {
+        opcode: OPCODES.TST, // TST
+        operand: tempAddr,
+        comment: 'Test difference',
+      },
+      {
+        opcode: OPCODES.INC, // INC
+        operand: destAddr,
+        comment: `${instr.dest} = ${instr.left} > ${instr.right}`,
+      }
+    );
+  }
+
   private generateLessThan(
     instr: IRBinary,
     instructions: GeneratedInstruction[],
@@ -734,81 +1593,51 @@ export class CodeGenerator {
     instructions: GeneratedInstruction[],
     memoryMap: MemoryMap
   ): void {
-    // a >= b  =>  !(b > a)
-    const leftAddr = this.memoryMapper.getAddress(memoryMap, instr.right);
-    const rightAddr = this.memoryMapper.getAddress(memoryMap, instr.left);
+    // a >= b  <=>  b - a == 0, because SUB saturates at 0
+    const leftAddr = this.memoryMapper.getAddress(memoryMap, instr.left);
+    const rightAddr = this.memoryMapper.getAddress(memoryMap, instr.right);
     const destAddr = this.memoryMapper.getAddress(memoryMap, instr.dest);
     const tempAddr = this.getTempAddress(memoryMap, '_cmp_temp');
+    const const1Addr = this.memoryMapper.getAddress(memoryMap, 'CONST_1');
 
-    // Load right value (instr.right)
-    instructions.push({
-      opcode: OPCODES.TAKE, // TAKE
-      operand: leftAddr,
-      comment: `Load ${instr.right}`,
-    });
-
-    // Subtract left value (instr.left)
-    instructions.push({
-      opcode: OPCODES.SUB, // SUB
-      operand: rightAddr,
-      comment: `Subtract ${instr.left}`,
-    });
-
-    // Save difference
-    instructions.push({
-      opcode: OPCODES.SAVE, // SAVE
-      operand: tempAddr,
-      comment: 'Save difference',
-    });
-
-    // Test if positive (right > left, i.e., left < right)
-    instructions.push({
-      opcode: OPCODES.TST, // TST
-      operand: tempAddr,
-      comment: `Test if ${instr.right} > ${instr.left}`,
-    });
-
-    // Store 0 in dest (will be overwritten with 1 if false - inverted logic)
-    instructions.push({
-      opcode: OPCODES.TAKE, // TAKE
-      operand: 150, // CONST_0
-      comment: 'Load 0 (false)',
-    });
-
-    instructions.push({
-      opcode: OPCODES.SAVE, // SAVE
-      operand: destAddr,
-      comment: `${instr.dest} = false`,
-    });
-
-    // Skip next instruction if test was true (right > left, so left NOT >= right)
-    const skipLabel = `ge_skip_${this.nextLabelId++}`;
-    instructions.push({
-      opcode: OPCODES.JMP, // JMP
-      operand: 0, // Will be resolved by emitter
-      label: skipLabel,
-      comment: 'Jump if right > left',
-    });
-
-    // Store 1 in dest (true case - left >= right)
-    instructions.push({
-      opcode: OPCODES.TAKE, // TAKE
-      operand: 151, // CONST_1
-      comment: 'Load 1 (true)',
-    });
-
-    instructions.push({
-      opcode: OPCODES.SAVE, // SAVE
-      operand: destAddr,
-      comment: `${instr.dest} = true`,
-    });
-
-    // Skip target
-    instructions.push({
-      opcode: OPCODES.NULL, // NULL (no-op)
-      operand: 0,
-      comment: skipLabel,
-    });
+    // GE(A,B): TAKE B; SUB A; SAVE T; TAKE CONST_1; SAVE FLAG; TST T; DEC FLAG
+    instructions.push(
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: rightAddr,
+        comment: `Load ${instr.right}`,
+      },
+      {
+        opcode: OPCODES.SUB, // SUB
+        operand: leftAddr,
+        comment: `Subtract ${instr.left}`,
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: tempAddr,
+        comment: 'Save difference',
+      },
+      {
+        opcode: OPCODES.TAKE, // TAKE
+        operand: const1Addr,
+        comment: 'Load 1',
+      },
+      {
+        opcode: OPCODES.SAVE, // SAVE
+        operand: destAddr,
+        comment: `${instr.dest} = 1`,
+      },
+      {
+        opcode: OPCODES.TST, // TST
+        operand: tempAddr,
+        comment: 'Test difference',
+      },
+      {
+        opcode: OPCODES.DEC, // DEC
+        operand: destAddr,
+        comment: `${instr.dest} = ${instr.left} >= ${instr.right}`,
+      }
+    );
   }
 
   private generateLessEqual(
@@ -816,86 +1645,17 @@ export class CodeGenerator {
     instructions: GeneratedInstruction[],
     memoryMap: MemoryMap
   ): void {
-    // a <= b  =>  !(a > b)
-    // Use the same approach as greater than, but with inverted logic
-    const leftAddr = this.memoryMapper.getAddress(memoryMap, instr.left);
-    const rightAddr = this.memoryMapper.getAddress(memoryMap, instr.right);
-    const destAddr = this.memoryMapper.getAddress(memoryMap, instr.dest);
-    const tempAddr = this.getTempAddress(memoryMap, '_cmp_temp');
-
-    // Load left value
-    instructions.push({
-      opcode: OPCODES.TAKE, // TAKE
-      operand: leftAddr,
-      comment: `Load ${instr.left}`,
-    });
-
-    // Subtract right value
-    instructions.push({
-      opcode: OPCODES.SUB, // SUB
-      operand: rightAddr,
-      comment: `Subtract ${instr.right}`,
-    });
-
-    // Save difference
-    instructions.push({
-      opcode: OPCODES.SAVE, // SAVE
-      operand: tempAddr,
-      comment: 'Save difference',
-    });
-
-    // Test if positive (left > right)
-    instructions.push({
-      opcode: OPCODES.TST, // TST
-      operand: tempAddr,
-      comment: `Test if ${instr.left} > ${instr.right}`,
-    });
-
-    // Store 0 in dest (will be overwritten with 1 if false - inverted logic)
-    instructions.push({
-      opcode: OPCODES.TAKE, // TAKE
-      operand: 150, // CONST_0
-      comment: 'Load 0 (false)',
-    });
-
-    instructions.push({
-      opcode: OPCODES.SAVE, // SAVE
-      operand: destAddr,
-      comment: `${instr.dest} = false`,
-    });
-
-    // Skip next instruction if test was true (left > right, so left NOT <= right)
-    const skipLabel = `le_skip_${this.nextLabelId++}`;
-    instructions.push({
-      opcode: OPCODES.JMP, // JMP
-      operand: 0, // Will be resolved by emitter
-      label: skipLabel,
-      comment: 'Jump if left > right',
-    });
-
-    // Store 1 in dest (true case - left <= right)
-    instructions.push({
-      opcode: OPCODES.TAKE, // TAKE
-      operand: 151, // CONST_1
-      comment: 'Load 1 (true)',
-    });
-
-    instructions.push({
-      opcode: OPCODES.SAVE, // SAVE
-      operand: destAddr,
-      comment: `${instr.dest} = true`,
-    });
-
-    // Skip target
-    instructions.push({
-      opcode: OPCODES.NULL, // NULL (no-op)
-      operand: 0,
-      comment: skipLabel,
-    });
+    // a <= b  =>  b >= a (swap operands)
+    const swappedInstr: IRBinary = {
+      ...instr,
+      left: instr.right,
+      right: instr.left,
+    };
+    this.generateGreaterEqual(swappedInstr, instructions, memoryMap);
   }
 
   private getTempAddress(memoryMap: MemoryMap, baseName: string): number {
-    // Reuse temp addresses within a block
+    // Reuse temp addresses within an instruction
     if (this.tempAllocator.has(baseName)) {
       const addr = this.tempAllocator.get(baseName);
       if (addr === undefined) {
@@ -904,17 +1664,25 @@ export class CodeGenerator {
       return addr;
     }
 
-    // Find a free temp slot
-    const tempStart = 960;
-    const tempEnd = 989;
-    for (let addr = tempStart; addr <= tempEnd; addr++) {
-      if (!this.isTempAddressUsed(addr)) {
+    // Find a free temp slot above the IR temps placed by the memory mapper
+    const { TEMPS_START, TEMPS_END } = this.memoryMapper.getLayout();
+    const tempStart =
+      Math.max(TEMPS_START - 1, ...memoryMap.temps.values()) + 1;
+    // Variables spill into temp slots when their own regions are full
+    const spilled = new Set([
+      ...memoryMap.variables.values(),
+      ...memoryMap.flags.values(),
+    ]);
+    for (let addr = tempStart; addr <= TEMPS_END; addr++) {
+      if (!this.isTempAddressUsed(addr) && !spilled.has(addr)) {
         this.tempAllocator.set(baseName, addr);
         return addr;
       }
     }
 
-    throw new Error(`No free temporary address for ${baseName}`);
+    throw new Error(
+      `Out of memory for temporary '${baseName}': temps (${TEMPS_START}-${TEMPS_END}) are full`
+    );
   }
 
   private isTempAddressUsed(addr: number): boolean {
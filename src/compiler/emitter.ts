@@ -1,6 +1,13 @@
 // Emitter - Resolves labels to numbers and formats with comments
 import { GeneratedInstruction } from './codegen';
-import { MemoryMap, MemoryMapper } from './memmap';
+import {
+  MemoryMap,
+  MemoryMapper,
+  layoutRegions,
+  regionsOverlap,
+} from './memmap';
+import { JOHNNY_CONFIG, OPCODES } from '../core/opcodes';
+import { decode, encode } from '../core/codec';
 
 export interface EmittedProgram {
   instructions: number[];
@@ -23,6 +30,8 @@ export class Emitter {
     memoryMap: MemoryMap,
     includeComments: boolean = false
   ): EmittedProgram {
+    this.checkCodeSize(instructions.length);
+
     // First pass: collect labels
     const labelMap = this.collectLabels(instructions);
 
@@ -31,11 +40,8 @@ export class Emitter {
     const comments: string[] = [];
 
     for (const instr of instructions) {
-      const resolvedOperand = this.resolveOperand(instr, labelMap, memoryMap);
-      const encodedInstruction = this.encodeInstruction(
-        instr.opcode,
-        resolvedOperand
-      );
+      const resolvedOperand = this.resolveOperand(instr, labelMap);
+      const encodedInstruction = encode(instr.opcode, resolvedOperand);
 
       emittedInstructions.push(encodedInstruction);
 
@@ -57,7 +63,7 @@ export class Emitter {
   formatAsRamFile(
     emitted: EmittedProgram,
     memoryMap: MemoryMap,
-    symbols: Map<string, { type: string }>,
+    symbols: Map<string, { type: string; size?: number }>,
     includeComments: boolean = false,
     compatibleMode: boolean = true
   ): string[] {
@@ -86,6 +92,18 @@ export class Emitter {
         }
       }
 
+      // Add arrays section
+      if (memoryMap.arrays.size > 0) {
+        lines.push('// Arrays:');
+        for (const [name, address] of memoryMap.arrays) {
+          const symbol = symbols.get(name);
+          const size = symbol?.size ?? 1;
+          lines.push(
+            `//   ${name}[${size}] (${symbol?.type || 'unknown'}) -> RAM[${address}..${address + size - 1}]`
+          );
+        }
+      }
+
       // Add constants section
       lines.push('// Constants:');
       const const0Addr = memoryMap.constants.get(0);
@@ -140,6 +158,26 @@ export class Emitter {
     return lines;
   }
 
+  /**
+   * Code that grows into a data region would be overwritten at runtime
+   */
+  private checkCodeSize(size: number): void {
+    const { CODE_START } = this.memoryMapper.getLayout();
+    const code = { start: CODE_START, end: CODE_START + size - 1 };
+    if (code.end >= JOHNNY_CONFIG.MEMORY_SIZE) {
+      throw new Error(
+        `Program is ${size} words long, but memory has only ${JOHNNY_CONFIG.MEMORY_SIZE}`
+      );
+    }
+    for (const region of layoutRegions(this.memoryMapper.getLayout())) {
+      if (regionsOverlap(code, region)) {
+        throw new Error(
+          `Program is ${size} words long (${code.start}-${code.end}) and grows into the ${region.name} region (${region.start}-${region.end}); use a different --layout or --layout auto`
+        );
+      }
+    }
+  }
+
   private collectLabels(
     instructions: GeneratedInstruction[]
   ): Map<string, number> {
@@ -158,53 +196,17 @@ export class Emitter {
 
   private resolveOperand(
     instr: GeneratedInstruction,
-    labelMap: Map<string, number>,
-    memoryMap: MemoryMap
+    labelMap: Map<string, number>
   ): number {
-    // If operand is already resolved (non-zero), use it
-    if (instr.operand !== 0) {
+    if (instr.target === undefined) {
       return instr.operand;
     }
 
-    // Special handling for specific instruction types
-    switch (instr.opcode) {
-      case 5: // JMP
-        if (instr.label) {
-          const labelAddr = labelMap.get(instr.label);
-          if (labelAddr === undefined) {
-            throw new Error(`Undefined label: ${instr.label}`);
-          }
-          return labelAddr;
-        }
-        break;
-
-      case 6: // TST
-        // For conditional jumps, we need to resolve the condition variable
-        if (instr.comment && instr.comment.includes('Test ')) {
-          const match = instr.comment.match(/Test (\w+)/);
-          if (match) {
-            const conditionVar = match[1];
-            try {
-              return this.memoryMapper.getAddress(memoryMap, conditionVar);
-            } catch {
-              // If not found in memory map, it might be a temp variable
-              // For now, we'll handle this in the codegen phase
-              return 0;
-            }
-          }
-        }
-        break;
+    const labelAddr = labelMap.get(instr.target);
+    if (labelAddr === undefined) {
+      throw new Error(`Undefined label: ${instr.target}`);
     }
-
-    return instr.operand;
-  }
-
-  private encodeInstruction(opcode: number, operand: number): number {
-    // Encode as: opcode (zero-padded to 2 digits) + operand (zero-padded to 3 digits)
-    // Format: OOXXX where OO is 2-digit opcode, XXX is 3-digit operand
-    const paddedOpcode = opcode.toString().padStart(2, '0');
-    const paddedOperand = operand.toString().padStart(3, '0');
-    return parseInt(paddedOpcode + paddedOperand);
+    return labelAddr;
   }
 
   private formatComment(
@@ -234,7 +236,7 @@ export class Emitter {
     };
 
     const opcodeName = opcodeNames[instr.opcode] || `OP${instr.opcode}`;
-    if (instr.opcode === 100) {
+    if (instr.opcode === OPCODES.HLT) {
       return opcodeName;
     }
     return `${opcodeName} ${resolvedOperand}`;
@@ -254,8 +256,7 @@ export class Emitter {
 
     // Check for halt instruction
     const hasHalt = emitted.instructions.some(instr => {
-      const opcode = Math.floor(instr / 1000);
-      return opcode === 10; // HLT opcode is 10 in OOXXX format
+      return decode(instr).opcode === OPCODES.HLT;
     });
 
     if (!hasHalt) {
@@ -265,8 +266,7 @@ export class Emitter {
     // Check instruction format
     for (let i = 0; i < emitted.instructions.length; i++) {
       const instr = emitted.instructions[i];
-      const opcode = Math.floor(instr / 1000);
-      const operand = instr % 1000;
+      const { opcode, operand } = decode(instr);
 
       // Check opcode validity
       const validOpcodes = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
@@ -1,5 +1,6 @@
 // Johnny C Intermediate Representation - Simple 3-address code
 import {
+  ASTNode,
   Program,
   Statement,
   Expression,
@@ -7,16 +8,45 @@ import {
   Assignment,
   IfStatement,
   WhileStatement,
+  ForStatement,
+  DoWhileStatement,
+  BreakStatement,
+  ContinueStatement,
   HaltStatement,
   BinaryExpression,
   UnaryExpression,
   NumberLiteral,
   BooleanLiteral,
   Identifier,
+  FunctionDeclaration,
+  ReturnStatement,
+  CallStatement,
+  CallExpression,
+  ArrayDeclaration,
+  ArrayAssignment,
+  ArrayAccess,
+  IncrementStatement,
 } from './parser';
 
+// Error in a well-formed program, e.g. a call with too many arguments
+export class SemanticError extends Error {
+  constructor(
+    message: string,
+    public node: ASTNode
+  ) {
+    super(
+      `Semantic error at line ${node.line}, column ${node.column}: ${message}`
+    );
+    this.name = 'SemanticError';
+  }
+}
+
 // IR Instructions
 export abstract class IRInstruction {
+  // Position of the Johnny C statement this instruction was generated from
+  public line?: number;
+  public column?: number;
+
   constructor(public id: number) {}
 }
 
@@ -29,6 +59,10 @@ export class IRAssign extends IRInstruction {
   ) {
     super(id);
   }
+
+  toString(): string {
+    return `${this.dest} = ${this.src}`;
+  }
 }
 
 export class IRBinary extends IRInstruction {
@@ -41,6 +75,10 @@ export class IRBinary extends IRInstruction {
   ) {
     super(id);
   }
+
+  toString(): string {
+    return `${this.dest} = ${this.left} ${this.op} ${this.right}`;
+  }
 }
 
 export class IRUnary extends IRInstruction {
@@ -52,6 +90,10 @@ export class IRUnary extends IRInstruction {
   ) {
     super(id);
   }
+
+  toString(): string {
+    return `${this.dest} = ${this.op}${this.operand}`;
+  }
 }
 
 export class IRConstant extends IRInstruction {
@@ -62,6 +104,25 @@ export class IRConstant extends IRInstruction {
   ) {
     super(id);
   }
+
+  toString(): string {
+    return `${this.dest} = ${this.value}`;
+  }
+}
+
+// dest++ or dest-- in place, mapped to the native INC/DEC opcodes
+export class IRIncrement extends IRInstruction {
+  constructor(
+    id: number,
+    public dest: string,
+    public op: '++' | '--'
+  ) {
+    super(id);
+  }
+
+  toString(): string {
+    return `${this.dest}${this.op}`;
+  }
 }
 
 export class IRLabel extends IRInstruction {
@@ -71,6 +132,10 @@ export class IRLabel extends IRInstruction {
   ) {
     super(id);
   }
+
+  toString(): string {
+    return `${this.name}:`;
+  }
 }
 
 export class IRJump extends IRInstruction {
@@ -80,6 +145,10 @@ export class IRJump extends IRInstruction {
   ) {
     super(id);
   }
+
+  toString(): string {
+    return `goto ${this.target}`;
+  }
 }
 
 export class IRConditionalJump extends IRInstruction {
@@ -90,9 +159,79 @@ export class IRConditionalJump extends IRInstruction {
   ) {
     super(id);
   }
+
+  toString(): string {
+    return `if ${this.condition} goto ${this.target}`;
+  }
+}
+
+export class IRHalt extends IRInstruction {
+  toString(): string {
+    return 'halt';
+  }
+}
+
+// Jump to a function after patching its return slot with a jump back
+export class IRCall extends IRInstruction {
+  constructor(
+    id: number,
+    public func: string,
+    public entry: string, // Label of the function's first block
+    public exit: string // Label of the function's return slot
+  ) {
+    super(id);
+  }
+
+  toString(): string {
+    return `call ${this.func}`;
+  }
 }
 
-export class IRHalt extends IRInstruction {}
+// Placeholder word that every call overwrites with "JMP <return address>"
+export class IRReturnSlot extends IRInstruction {
+  constructor(
+    id: number,
+    public func: string
+  ) {
+    super(id);
+  }
+
+  toString(): string {
+    return `return slot of ${this.func}`;
+  }
+}
+
+// dest = array[index], read through a patched TAKE
+export class IRArrayLoad extends IRInstruction {
+  constructor(
+    id: number,
+    public dest: string,
+    public array: string,
+    public index: string
+  ) {
+    super(id);
+  }
+
+  toString(): string {
+    return `${this.dest} = ${this.array}[${this.index}]`;
+  }
+}
+
+// array[index] = src, written through a patched SAVE
+export class IRArrayStore extends IRInstruction {
+  constructor(
+    id: number,
+    public array: string,
+    public index: string,
+    public src: string
+  ) {
+    super(id);
+  }
+
+  toString(): string {
+    return `${this.array}[${this.index}] = ${this.src}`;
+  }
+}
 
 // Basic Block for control flow
 export class BasicBlock {
@@ -100,7 +239,10 @@ export class BasicBlock {
   public predecessors: BasicBlock[] = [];
   public successors: BasicBlock[] = [];
 
-  constructor(public name: string) {}
+  constructor(
+    public name: string,
+    public func?: string // Function the block belongs to, if any
+  ) {}
 
   addInstruction(instr: IRInstruction): void {
     this.instructions.push(instr);
@@ -114,11 +256,42 @@ export class BasicBlock {
   }
 }
 
+/**
+ * Text listing of basic blocks, one instruction per line
+ */
+export function formatIR(blocks: BasicBlock[]): string {
+  return blocks
+    .map(block =>
+      [
+        `${block.name}:`,
+        ...block.instructions.map(instr => `  ${instr.toString()}`),
+      ].join('\n')
+    )
+    .join('\n');
+}
+
 // Symbol table for variables
 export interface Symbol {
   name: string;
   type: 'int' | 'bool';
   isTemp: boolean;
+  size?: number; // Element count, for arrays only
+}
+
+// Function parameters, locals and return values are mangled as "func.name"
+interface FunctionInfo {
+  declaration: FunctionDeclaration;
+  entry: string;
+  exit: string;
+  returnValue: string | null; // null for void functions
+  locals: Set<string>; // Unmangled names of parameters and locals
+  calls: Map<string, CallExpression>; // First call of each function in the body
+}
+
+// Jump targets of the innermost enclosing loop
+interface LoopLabels {
+  breakTarget: string;
+  continueTarget: string;
 }
 
 export class IRGenerator {
@@ -128,6 +301,10 @@ export class IRGenerator {
   private readonly symbols = new Map<string, Symbol>();
   private readonly blocks: BasicBlock[] = [];
   private currentBlock: BasicBlock;
+  private currentStatement?: Statement; // Source position for emitted IR
+  private readonly functions = new Map<string, FunctionInfo>();
+  private currentFunction?: FunctionInfo;
+  private readonly loops: LoopLabels[] = [];
 
   constructor() {
     this.currentBlock = new BasicBlock('entry');
@@ -141,10 +318,37 @@ export class IRGenerator {
     blocks: BasicBlock[];
     symbols: Map<string, Symbol>;
   } {
-    for (const stmt of program.statements) {
+    // Hoist function declarations so calls may come before them
+    const functions = program.statements.filter(
+      (stmt): stmt is FunctionDeclaration => stmt instanceof FunctionDeclaration
+    );
+    for (const func of functions) {
+      this.declareFunction(func);
+    }
+
+    const main = program.statements.filter(
+      stmt => !(stmt instanceof FunctionDeclaration)
+    );
+    for (const stmt of main) {
       this.generateStatement(stmt);
     }
 
+    // Blocks are laid out in creation order, so the end of the main program
+    // may be followed by blocks nested in a loop body, or by function bodies
+    if (
+      functions.length > 0 ||
+      !(main[main.length - 1] instanceof HaltStatement)
+    ) {
+      this.emit(new IRHalt(this.nextInstrId++));
+    }
+
+    if (functions.length > 0) {
+      for (const func of functions) {
+        this.generateStatement(func);
+      }
+      this.checkRecursion();
+    }
+
     return {
       blocks: this.blocks,
       symbols: this.symbols,
@@ -152,23 +356,50 @@ export class IRGenerator {
   }
 
   private generateStatement(stmt: Statement): void {
+    const enclosingStatement = this.currentStatement;
+    this.currentStatement = stmt;
+    this.generateStatementBody(stmt);
+    this.currentStatement = enclosingStatement;
+  }
+
+  private generateStatementBody(stmt: Statement): void {
     if (stmt instanceof VarDeclaration) {
       this.generateVarDeclaration(stmt);
+    } else if (stmt instanceof ArrayDeclaration) {
+      this.generateArrayDeclaration(stmt);
     } else if (stmt instanceof Assignment) {
       this.generateAssignment(stmt);
+    } else if (stmt instanceof ArrayAssignment) {
+      this.generateArrayAssignment(stmt);
+    } else if (stmt instanceof IncrementStatement) {
+      this.generateIncrement(stmt);
     } else if (stmt instanceof IfStatement) {
       this.generateIfStatement(stmt);
     } else if (stmt instanceof WhileStatement) {
       this.generateWhileStatement(stmt);
+    } else if (stmt instanceof ForStatement) {
+      this.generateForStatement(stmt);
+    } else if (stmt instanceof DoWhileStatement) {
+      this.generateDoWhileStatement(stmt);
+    } else if (stmt instanceof BreakStatement) {
+      this.generateLoopJump('break', stmt);
+    } else if (stmt instanceof ContinueStatement) {
+      this.generateLoopJump('continue', stmt);
     } else if (stmt instanceof HaltStatement) {
       this.generateHaltStatement();
+    } else if (stmt instanceof FunctionDeclaration) {
+      this.generateFunction(stmt);
+    } else if (stmt instanceof ReturnStatement) {
+      this.generateReturnStatement(stmt);
+    } else if (stmt instanceof CallStatement) {
+      this.generateCall(stmt.call);
     }
   }
 
   private generateVarDeclaration(stmt: VarDeclaration): void {
-    // Register the symbol
-    this.symbols.set(stmt.name, {
-      name: stmt.name,
+    const name = this.declareVariable(stmt);
+    this.symbols.set(name, {
+      name,
       type: stmt.type,
       isTemp: false,
     });
@@ -176,21 +407,238 @@ export class IRGenerator {
     // Generate initialization if present
     if (stmt.initializer) {
       const valueTemp = this.generateExpression(stmt.initializer);
-      this.emit(new IRAssign(this.nextInstrId++, stmt.name, valueTemp));
+      this.emit(new IRAssign(this.nextInstrId++, name, valueTemp));
     } else {
       // Initialize to 0
-      this.emit(new IRConstant(this.nextInstrId++, stmt.name, 0));
+      this.emit(new IRConstant(this.nextInstrId++, name, 0));
+    }
+  }
+
+  /**
+   * Register a variable or array in the current scope; returns its mangled
+   * name. Locals may shadow globals, but not parameters or other locals.
+   */
+  private declareVariable(stmt: VarDeclaration | ArrayDeclaration): string {
+    const declared = this.currentFunction
+      ? this.currentFunction.locals.has(stmt.name)
+      : this.functions.has(stmt.name) ||
+        this.symbols.get(stmt.name)?.isTemp === false;
+    if (declared) {
+      throw new SemanticError(
+        `Variable '${stmt.name}' is already declared`,
+        stmt
+      );
     }
+
+    this.currentFunction?.locals.add(stmt.name);
+    return this.resolveName(stmt.name);
   }
 
   private generateAssignment(stmt: Assignment): void {
+    const name = this.resolveName(stmt.name);
+    if (this.symbols.get(name)?.size !== undefined) {
+      throw new SemanticError(`Array '${stmt.name}' must be indexed`, stmt);
+    }
     const valueTemp = this.generateExpression(stmt.value);
-    this.emit(new IRAssign(this.nextInstrId++, stmt.name, valueTemp));
+    this.emit(new IRAssign(this.nextInstrId++, name, valueTemp));
   }
 
-  private generateIfStatement(stmt: IfStatement): void {
-    const conditionTemp = this.generateExpression(stmt.condition);
+  private generateIncrement(stmt: IncrementStatement): void {
+    const name = this.resolveName(stmt.name);
+    if (this.symbols.get(name)?.size !== undefined) {
+      throw new SemanticError(`Array '${stmt.name}' must be indexed`, stmt);
+    }
+    this.emit(new IRIncrement(this.nextInstrId++, name, stmt.operator));
+  }
+
+  private generateArrayDeclaration(stmt: ArrayDeclaration): void {
+    // Elements are not initialized; RAM is zero when the program is loaded
+    const name = this.declareVariable(stmt);
+    this.symbols.set(name, {
+      name,
+      type: stmt.type,
+      isTemp: false,
+      size: stmt.size,
+    });
+  }
+
+  private generateArrayAssignment(stmt: ArrayAssignment): void {
+    const array = this.resolveArray(stmt, stmt.index);
+    const indexTemp = this.generateExpression(stmt.index);
+    const valueTemp = this.generateExpression(stmt.value);
+    this.emit(
+      new IRArrayStore(this.nextInstrId++, array, indexTemp, valueTemp)
+    );
+  }
+
+  /**
+   * Mangled name of an indexed array; constant indices are bounds-checked
+   */
+  private resolveArray(
+    node: ArrayAssignment | ArrayAccess,
+    index: Expression
+  ): string {
+    const { name } = node;
+    const array = this.resolveName(name);
+    const symbol = this.symbols.get(array);
+    if (symbol?.size === undefined) {
+      throw new SemanticError(`'${name}' is not an array`, node);
+    }
+    if (index instanceof NumberLiteral && index.value >= symbol.size) {
+      throw new SemanticError(
+        `Index ${index.value} is out of bounds for array '${name}' of size ${symbol.size}`,
+        index
+      );
+    }
+    return array;
+  }
+
+  private declareFunction(func: FunctionDeclaration): void {
+    if (this.functions.has(func.name)) {
+      throw new SemanticError(
+        `Function '${func.name}' is already declared`,
+        func
+      );
+    }
+
+    const returnValue =
+      func.returnType === 'void' ? null : `${func.name}.return`;
+    if (returnValue) {
+      this.symbols.set(returnValue, {
+        name: returnValue,
+        type: func.returnType as 'int' | 'bool',
+        isTemp: false,
+      });
+    }
+    for (const param of func.params) {
+      const name = `${func.name}.${param.name}`;
+      this.symbols.set(name, { name, type: param.type, isTemp: false });
+    }
+
+    this.functions.set(func.name, {
+      declaration: func,
+      entry: `fn_${func.name}`,
+      exit: `fn_${func.name}_exit`,
+      returnValue,
+      locals: new Set(func.params.map(param => param.name)),
+      calls: new Map(),
+    });
+  }
+
+  private generateFunction(func: FunctionDeclaration): void {
+    const info = this.functions.get(func.name) as FunctionInfo;
+    this.currentFunction = info;
+
+    const entryBlock = new BasicBlock(info.entry, func.name);
+    this.blocks.push(entryBlock);
+    this.switchToBlock(entryBlock);
+
+    for (const s of func.body) {
+      this.generateStatement(s);
+    }
 
+    // Falling off the end returns as well; the last block of the body is
+    // not necessarily laid out right before the exit
+    this.emit(new IRJump(this.nextInstrId++, info.exit));
+    const exitBlock = new BasicBlock(info.exit, func.name);
+    this.blocks.push(exitBlock);
+    this.currentBlock.addSuccessor(exitBlock);
+    this.switchToBlock(exitBlock);
+    this.emit(new IRReturnSlot(this.nextInstrId++, func.name));
+
+    this.currentFunction = undefined;
+  }
+
+  private generateReturnStatement(stmt: ReturnStatement): void {
+    const info = this.currentFunction as FunctionInfo;
+    const name = info.declaration.name;
+
+    if (stmt.value) {
+      if (!info.returnValue) {
+        throw new SemanticError(
+          `Void function '${name}' cannot return a value`,
+          stmt
+        );
+      }
+      const valueTemp = this.generateExpression(stmt.value);
+      this.emit(new IRAssign(this.nextInstrId++, info.returnValue, valueTemp));
+    } else if (info.returnValue) {
+      throw new SemanticError(`Function '${name}' must return a value`, stmt);
+    }
+
+    this.emit(new IRJump(this.nextInstrId++, info.exit));
+  }
+
+  /**
+   * Pass arguments through the callee's parameters and jump to it
+   * Returns the symbol holding the result, or null for void functions
+   */
+  private generateCall(call: CallExpression): string | null {
+    const info = this.functions.get(call.callee);
+    if (!info) {
+      throw new SemanticError(`Undefined function '${call.callee}'`, call);
+    }
+
+    const { params } = info.declaration;
+    if (call.args.length !== params.length) {
+      throw new SemanticError(
+        `Function '${call.callee}' expects ${params.length} argument(s), got ${call.args.length}`,
+        call
+      );
+    }
+    if (!this.currentFunction?.calls.has(call.callee)) {
+      this.currentFunction?.calls.set(call.callee, call);
+    }
+
+    // Evaluate every argument before overwriting any parameter
+    const argTemps = call.args.map(arg => this.generateExpression(arg));
+    params.forEach((param, index) => {
+      this.emit(
+        new IRAssign(
+          this.nextInstrId++,
+          `${call.callee}.${param.name}`,
+          argTemps[index]
+        )
+      );
+    });
+
+    this.emit(
+      new IRCall(this.nextInstrId++, call.callee, info.entry, info.exit)
+    );
+    return info.returnValue;
+  }
+
+  /**
+   * Each function has a single return slot, so a call chain must never
+   * re-enter a function that has not returned yet
+   */
+  private checkRecursion(): void {
+    const visit = (name: string, path: string[]): void => {
+      if (path.includes(name)) {
+        const cycle = [...path.slice(path.indexOf(name)), name].join(' -> ');
+        const caller = this.functions.get(path[path.length - 1]);
+        throw new SemanticError(
+          `Recursion is not supported: ${cycle}`,
+          caller?.calls.get(name) as CallExpression
+        );
+      }
+      for (const callee of this.functions.get(name)?.calls.keys() ?? []) {
+        visit(callee, [...path, name]);
+      }
+    };
+
+    for (const name of this.functions.keys()) {
+      visit(name, []);
+    }
+  }
+
+  private resolveName(name: string): string {
+    return this.currentFunction?.locals.has(name)
+      ? `${this.currentFunction.declaration.name}.${name}`
+      : name;
+  }
+
+  private generateIfStatement(stmt: IfStatement): void {
     // Create blocks
     const thenBlock = this.createBlock('if_then');
     const elseBlock = stmt.elseBranch
@@ -198,17 +646,8 @@ export class IRGenerator {
       : this.createBlock('if_end');
     const endBlock = this.createBlock('if_end');
 
-    // Conditional jump
-    this.emit(
-      new IRConditionalJump(this.nextInstrId++, conditionTemp, thenBlock.name)
-    );
-
-    // Jump to else/end
-    if (stmt.elseBranch) {
-      this.emit(new IRJump(this.nextInstrId++, elseBlock.name));
-    } else {
-      this.emit(new IRJump(this.nextInstrId++, endBlock.name));
-    }
+    // Branch to then or else/end
+    this.generateBranch(stmt.condition, thenBlock.name, elseBlock.name);
 
     // Generate then branch
     this.switchToBlock(thenBlock);
@@ -240,16 +679,47 @@ export class IRGenerator {
 
     // Generate condition block
     this.switchToBlock(condBlock);
-    const conditionTemp = this.generateExpression(stmt.condition);
-    this.emit(
-      new IRConditionalJump(this.nextInstrId++, conditionTemp, bodyBlock.name)
-    );
-    this.emit(new IRJump(this.nextInstrId++, endBlock.name));
+    this.generateBranch(stmt.condition, bodyBlock.name, endBlock.name);
 
     // Generate body block
     this.switchToBlock(bodyBlock);
-    for (const s of stmt.body) {
-      this.generateStatement(s);
+    this.generateLoopBody(stmt.body, endBlock.name, condBlock.name);
+    this.emit(new IRJump(this.nextInstrId++, condBlock.name));
+
+    // Continue with end block
+    this.switchToBlock(endBlock);
+  }
+
+  private generateForStatement(stmt: ForStatement): void {
+    if (stmt.initializer) {
+      this.generateStatement(stmt.initializer);
+    }
+
+    const condBlock = this.createBlock('for_cond');
+    const bodyBlock = this.createBlock('for_body');
+    const updateBlock = this.createBlock('for_update');
+    const endBlock = this.createBlock('for_end');
+
+    // Jump to condition
+    this.emit(new IRJump(this.nextInstrId++, condBlock.name));
+
+    // Generate condition block; a missing condition is always true
+    this.switchToBlock(condBlock);
+    if (stmt.condition) {
+      this.generateBranch(stmt.condition, bodyBlock.name, endBlock.name);
+    } else {
+      this.emit(new IRJump(this.nextInstrId++, bodyBlock.name));
+    }
+
+    // Generate body block; continue runs the update
+    this.switchToBlock(bodyBlock);
+    this.generateLoopBody(stmt.body, endBlock.name, updateBlock.name);
+    this.emit(new IRJump(this.nextInstrId++, updateBlock.name));
+
+    // Generate update block
+    this.switchToBlock(updateBlock);
+    if (stmt.update) {
+      this.generateStatement(stmt.update);
     }
     this.emit(new IRJump(this.nextInstrId++, condBlock.name));
 
@@ -257,6 +727,119 @@ export class IRGenerator {
     this.switchToBlock(endBlock);
   }
 
+  private generateDoWhileStatement(stmt: DoWhileStatement): void {
+    const bodyBlock = this.createBlock('do_body');
+    const condBlock = this.createBlock('do_cond');
+    const endBlock = this.createBlock('do_end');
+
+    // The body runs at least once
+    this.emit(new IRJump(this.nextInstrId++, bodyBlock.name));
+
+    this.switchToBlock(bodyBlock);
+    this.generateLoopBody(stmt.body, endBlock.name, condBlock.name);
+    this.emit(new IRJump(this.nextInstrId++, condBlock.name));
+
+    // Generate condition block
+    this.switchToBlock(condBlock);
+    this.generateBranch(stmt.condition, bodyBlock.name, endBlock.name);
+
+    // Continue with end block
+    this.switchToBlock(endBlock);
+  }
+
+  private generateLoopBody(
+    body: Statement[],
+    breakTarget: string,
+    continueTarget: string
+  ): void {
+    this.loops.push({ breakTarget, continueTarget });
+    for (const s of body) {
+      this.generateStatement(s);
+    }
+    this.loops.pop();
+  }
+
+  private generateLoopJump(
+    kind: 'break' | 'continue',
+    stmt: BreakStatement | ContinueStatement
+  ): void {
+    const loop = this.loops[this.loops.length - 1];
+    if (!loop) {
+      throw new SemanticError(`'${kind}' outside of a loop`, stmt);
+    }
+    const target = kind === 'break' ? loop.breakTarget : loop.continueTarget;
+    this.emit(new IRJump(this.nextInstrId++, target));
+  }
+
+  /**
+   * Lower a condition to jumps: control reaches trueTarget when it holds
+   * and falseTarget otherwise. && and || skip their right operand once the
+   * left one decides the result; ! swaps the targets.
+   */
+  private generateBranch(
+    expr: Expression,
+    trueTarget: string,
+    falseTarget: string
+  ): void {
+    if (
+      expr instanceof BinaryExpression &&
+      (expr.operator === '&&' || expr.operator === '||')
+    ) {
+      const rightBlock = this.createBlock(
+        expr.operator === '&&' ? 'and_rhs' : 'or_rhs'
+      );
+      if (expr.operator === '&&') {
+        this.generateBranch(expr.left, rightBlock.name, falseTarget);
+      } else {
+        this.generateBranch(expr.left, trueTarget, rightBlock.name);
+      }
+      this.switchToBlock(rightBlock);
+      this.generateBranch(expr.right, trueTarget, falseTarget);
+      return;
+    }
+
+    if (expr instanceof UnaryExpression && expr.operator === '!') {
+      this.generateBranch(expr.operand, falseTarget, trueTarget);
+      return;
+    }
+
+    if (expr instanceof BooleanLiteral) {
+      this.emit(
+        new IRJump(this.nextInstrId++, expr.value ? trueTarget : falseTarget)
+      );
+      return;
+    }
+
+    const conditionTemp = this.generateExpression(expr);
+    this.emit(
+      new IRConditionalJump(this.nextInstrId++, conditionTemp, trueTarget)
+    );
+    this.emit(new IRJump(this.nextInstrId++, falseTarget));
+  }
+
+  /**
+   * Materialize && or || as 0/1 through the branches of generateBranch
+   */
+  private generateLogicalValue(expr: BinaryExpression): string {
+    const resultTemp = this.newTemp();
+    const trueBlock = this.createBlock('logic_true');
+    const falseBlock = this.createBlock('logic_false');
+    const endBlock = this.createBlock('logic_end');
+
+    this.generateBranch(expr, trueBlock.name, falseBlock.name);
+
+    this.switchToBlock(trueBlock);
+    this.emit(new IRConstant(this.nextInstrId++, resultTemp, 1));
+    this.emit(new IRJump(this.nextInstrId++, endBlock.name));
+
+    this.switchToBlock(falseBlock);
+    this.emit(new IRConstant(this.nextInstrId++, resultTemp, 0));
+    this.emit(new IRJump(this.nextInstrId++, endBlock.name));
+
+    this.switchToBlock(endBlock);
+    return resultTemp;
+  }
+
   private generateHaltStatement(): void {
     this.emit(new IRHalt(this.nextInstrId++));
   }
@@ -275,7 +858,41 @@ export class IRGenerator {
     }
 
     if (expr instanceof Identifier) {
-      return expr.name;
+      const name = this.resolveName(expr.name);
+      if (this.symbols.get(name)?.size !== undefined) {
+        throw new SemanticError(`Array '${expr.name}' must be indexed`, expr);
+      }
+      return name;
+    }
+
+    if (expr instanceof ArrayAccess) {
+      const array = this.resolveArray(expr, expr.index);
+      const indexTemp = this.generateExpression(expr.index);
+      const temp = this.newTemp();
+      this.emit(new IRArrayLoad(this.nextInstrId++, temp, array, indexTemp));
+      return temp;
+    }
+
+    if (expr instanceof CallExpression) {
+      const result = this.generateCall(expr);
+      if (!result) {
+        throw new SemanticError(
+          `Void function '${expr.callee}' cannot be used in an expression`,
+          expr
+        );
+      }
+
+      // Copy the result, since the next call to the same function overwrites it
+      const temp = this.newTemp();
+      this.emit(new IRAssign(this.nextInstrId++, temp, result));
+      return temp;
+    }
+
+    if (
+      expr instanceof BinaryExpression &&
+      (expr.operator === '&&' || expr.operator === '||')
+    ) {
+      return this.generateLogicalValue(expr);
     }
 
     if (expr instanceof BinaryExpression) {
@@ -305,15 +922,25 @@ export class IRGenerator {
       return resultTemp;
     }
 
-    throw new Error(`Unsupported expression type: ${expr.constructor.name}`);
+    throw new SemanticError(
+      `Unsupported expression type: ${expr.constructor.name}`,
+      expr
+    );
   }
 
   private emit(instr: IRInstruction): void {
+    if (this.currentStatement) {
+      instr.line = this.currentStatement.line;
+      instr.column = this.currentStatement.column;
+    }
     this.currentBlock.addInstruction(instr);
   }
 
   private createBlock(baseName: string): BasicBlock {
-    const block = new BasicBlock(`${baseName}_${this.nextLabelId++}`);
+    const block = new BasicBlock(
+      `${baseName}_${this.nextLabelId++}`,
+      this.currentFunction?.declaration.name
+    );
     this.blocks.push(block);
     this.currentBlock.addSuccessor(block);
     return block;
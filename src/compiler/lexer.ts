@@ -10,7 +10,13 @@ export enum TokenType {
   IF = 'IF',
   ELSE = 'ELSE',
   WHILE = 'WHILE',
+  FOR = 'FOR',
+  DO = 'DO',
+  BREAK = 'BREAK',
+  CONTINUE = 'CONTINUE',
   HALT = 'HALT',
+  VOID = 'VOID',
+  RETURN = 'RETURN',
   TRUE = 'TRUE',
   FALSE = 'FALSE',
 
@@ -19,7 +25,18 @@ export enum TokenType {
   MINUS = 'MINUS',
   MULTIPLY = 'MULTIPLY',
   DIVIDE = 'DIVIDE',
+  MODULO = 'MODULO',
   ASSIGN = 'ASSIGN',
+  PLUS_ASSIGN = 'PLUS_ASSIGN',
+  MINUS_ASSIGN = 'MINUS_ASSIGN',
+  MULTIPLY_ASSIGN = 'MULTIPLY_ASSIGN',
+  DIVIDE_ASSIGN = 'DIVIDE_ASSIGN',
+  MODULO_ASSIGN = 'MODULO_ASSIGN',
+  INCREMENT = 'INCREMENT',
+  DECREMENT = 'DECREMENT',
+  AND = 'AND',
+  OR = 'OR',
+  NOT = 'NOT',
 
   // Comparisons
   EQUAL = 'EQUAL',
@@ -31,10 +48,13 @@ export enum TokenType {
 
   // Punctuation
   SEMICOLON = 'SEMICOLON',
+  COMMA = 'COMMA',
   LEFT_PAREN = 'LEFT_PAREN',
   RIGHT_PAREN = 'RIGHT_PAREN',
   LEFT_BRACE = 'LEFT_BRACE',
   RIGHT_BRACE = 'RIGHT_BRACE',
+  LEFT_BRACKET = 'LEFT_BRACKET',
+  RIGHT_BRACKET = 'RIGHT_BRACKET',
 
   // Special
   EOF = 'EOF',
@@ -48,6 +68,24 @@ export interface Token {
   column: number;
 }
 
+// Reserved words of Johnny C
+export const KEYWORDS: Record<string, TokenType> = {
+  int: TokenType.INT,
+  bool: TokenType.BOOL,
+  if: TokenType.IF,
+  else: TokenType.ELSE,
+  while: TokenType.WHILE,
+  for: TokenType.FOR,
+  do: TokenType.DO,
+  break: TokenType.BREAK,
+  continue: TokenType.CONTINUE,
+  halt: TokenType.HALT,
+  void: TokenType.VOID,
+  return: TokenType.RETURN,
+  true: TokenType.TRUE,
+  false: TokenType.FALSE,
+};
+
 export class LexerError extends Error {
   constructor(
     message: string,
@@ -92,6 +130,36 @@ export class Lexer {
     return tokens;
   }
 
+  /**
+   * Tokenize the entire source, skipping bad characters instead of stopping
+   * Used by editor tooling that needs tokens for incomplete programs
+   */
+  tokenizeRecovering(): { tokens: Token[]; errors: LexerError[] } {
+    const tokens: Token[] = [];
+    const errors: LexerError[] = [];
+
+    while (!this.isAtEnd()) {
+      try {
+        const token = this.nextToken();
+        if (token) {
+          tokens.push(token);
+        }
+      } catch (error) {
+        if (!(error instanceof LexerError)) throw error;
+        errors.push(error); // The offending character is already consumed
+      }
+    }
+
+    tokens.push({
+      type: TokenType.EOF,
+      value: '',
+      line: this.line,
+      column: this.column,
+    });
+
+    return { tokens, errors };
+  }
+
   private nextToken(): Token | null {
     this.skipWhitespace();
 
@@ -108,10 +176,55 @@ export class Lexer {
     // Single-character tokens
     switch (char) {
       case '+':
+        if (this.peek() === '+') {
+          this.advance();
+          return this.makeToken(
+            TokenType.INCREMENT,
+            '++',
+            startLine,
+            startColumn
+          );
+        }
+        if (this.peek() === '=') {
+          this.advance();
+          return this.makeToken(
+            TokenType.PLUS_ASSIGN,
+            '+=',
+            startLine,
+            startColumn
+          );
+        }
         return this.makeToken(TokenType.PLUS, '+', startLine, startColumn);
       case '-':
+        if (this.peek() === '-') {
+          this.advance();
+          return this.makeToken(
+            TokenType.DECREMENT,
+            '--',
+            startLine,
+            startColumn
+          );
+        }
+        if (this.peek() === '=') {
+          this.advance();
+          return this.makeToken(
+            TokenType.MINUS_ASSIGN,
+            '-=',
+            startLine,
+            startColumn
+          );
+        }
         return this.makeToken(TokenType.MINUS, '-', startLine, startColumn);
       case '*':
+        if (this.peek() === '=') {
+          this.advance();
+          return this.makeToken(
+            TokenType.MULTIPLY_ASSIGN,
+            '*=',
+            startLine,
+            startColumn
+          );
+        }
         return this.makeToken(TokenType.MULTIPLY, '*', startLine, startColumn);
       case '/':
         // Handle comments
@@ -119,9 +232,31 @@ export class Lexer {
           this.skipLineComment();
           return this.nextToken();
         }
+        if (this.peek() === '=') {
+          this.advance();
+          return this.makeToken(
+            TokenType.DIVIDE_ASSIGN,
+            '/=',
+            startLine,
+            startColumn
+          );
+        }
         return this.makeToken(TokenType.DIVIDE, '/', startLine, startColumn);
+      case '%':
+        if (this.peek() === '=') {
+          this.advance();
+          return this.makeToken(
+            TokenType.MODULO_ASSIGN,
+            '%=',
+            startLine,
+            startColumn
+          );
+        }
+        return this.makeToken(TokenType.MODULO, '%', startLine, startColumn);
       case ';':
         return this.makeToken(TokenType.SEMICOLON, ';', startLine, startColumn);
+      case ',':
+        return this.makeToken(TokenType.COMMA, ',', startLine, startColumn);
       case '(':
         return this.makeToken(
           TokenType.LEFT_PAREN,
@@ -150,6 +285,20 @@ export class Lexer {
           startLine,
           startColumn
         );
+      case '[':
+        return this.makeToken(
+          TokenType.LEFT_BRACKET,
+          '[',
+          startLine,
+          startColumn
+        );
+      case ']':
+        return this.makeToken(
+          TokenType.RIGHT_BRACKET,
+          ']',
+          startLine,
+          startColumn
+        );
       case '\n':
         this.line++;
         this.column = 1;
@@ -175,7 +324,17 @@ export class Lexer {
           startColumn
         );
       }
-      throw new LexerError(`Unexpected character '!'`, startLine, startColumn);
+      return this.makeToken(TokenType.NOT, '!', startLine, startColumn);
+    }
+
+    if (char === '&' && this.peek() === '&') {
+      this.advance();
+      return this.makeToken(TokenType.AND, '&&', startLine, startColumn);
+    }
+
+    if (char === '|' && this.peek() === '|') {
+      this.advance();
+      return this.makeToken(TokenType.OR, '||', startLine, startColumn);
     }
 
     if (char === '>') {
@@ -240,17 +399,7 @@ export class Lexer {
   }
 
   private getKeywordType(text: string): TokenType | null {
-    const keywords: Record<string, TokenType> = {
-      int: TokenType.INT,
-      bool: TokenType.BOOL,
-      if: TokenType.IF,
-      else: TokenType.ELSE,
-      while: TokenType.WHILE,
-      halt: TokenType.HALT,
-      true: TokenType.TRUE,
-      false: TokenType.FALSE,
-    };
-    return keywords[text] || null;
+    return KEYWORDS[text] || null;
   }
 
   private isAtEnd(): boolean {
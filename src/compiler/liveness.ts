@@ -0,0 +1,156 @@
+// Liveness analysis - Which temps hold values that are still needed
+import { BasicBlock, IRCall } from './ir';
+import { controlFlowSuccessors, definedNames, usedNames } from './optimizer';
+
+export interface Liveness {
+  liveIn: Map<BasicBlock, Set<string>>;
+  liveOut: Map<BasicBlock, Set<string>>;
+}
+
+// Names that interfere may not share an address
+export type InterferenceGraph = Map<string, Set<string>>;
+
+/**
+ * Backward data-flow over the blocks for the names selected by tracked.
+ * Calls neither read nor write tracked names; callers that track names of
+ * more than one function account for callees separately.
+ */
+export function analyzeLiveness(
+  blocks: BasicBlock[],
+  tracked: (name: string) => boolean
+): Liveness {
+  const liveIn = new Map<BasicBlock, Set<string>>();
+  const liveOut = new Map<BasicBlock, Set<string>>();
+  for (const block of blocks) {
+    liveIn.set(block, new Set());
+    liveOut.set(block, new Set());
+  }
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      const block = blocks[i];
+      const out = new Set<string>();
+      for (const successor of controlFlowSuccessors(blocks, block)) {
+        liveIn.get(successor)?.forEach(name => out.add(name));
+      }
+
+      const live = new Set(out);
+      for (let j = block.instructions.length - 1; j >= 0; j--) {
+        const instr = block.instructions[j];
+        definedNames(instr).forEach(name => live.delete(name));
+        usedNames(instr)
+          .filter(tracked)
+          .forEach(name => live.add(name));
+      }
+
+      if (live.size !== liveIn.get(block)?.size) {
+        changed = true;
+      }
+      liveIn.set(block, live);
+      liveOut.set(block, out);
+    }
+  }
+
+  return { liveIn, liveOut };
+}
+
+/**
+ * Tracked names interfere when one is written while the other is live.
+ * A destination also interferes with the operands of its instruction,
+ * since the generated code may write it before reading them all. Names
+ * live across a call interfere with every name of the callee and the
+ * functions it calls, because those run before the value is read.
+ */
+export function buildInterferenceGraph(
+  blocks: BasicBlock[],
+  tracked: (name: string) => boolean
+): InterferenceGraph {
+  const graph: InterferenceGraph = new Map();
+  const node = (name: string): Set<string> => {
+    let neighbours = graph.get(name);
+    if (!neighbours) {
+      neighbours = new Set();
+      graph.set(name, neighbours);
+    }
+    return neighbours;
+  };
+  const addEdge = (a: string, b: string): void => {
+    if (a !== b) {
+      node(a).add(b);
+      node(b).add(a);
+    }
+  };
+
+  const { liveOut } = analyzeLiveness(blocks, tracked);
+  const functionNames = namesByFunction(blocks, tracked);
+
+  for (const block of blocks) {
+    const live = new Set(liveOut.get(block));
+    for (let j = block.instructions.length - 1; j >= 0; j--) {
+      const instr = block.instructions[j];
+      if (instr instanceof IRCall) {
+        for (const callee of functionNames.get(instr.func) ?? []) {
+          live.forEach(name => addEdge(name, callee));
+        }
+        continue;
+      }
+
+      const defs = definedNames(instr).filter(tracked);
+      const uses = usedNames(instr).filter(tracked);
+      for (const def of defs) {
+        node(def);
+        live.forEach(name => addEdge(def, name));
+        uses.forEach(name => addEdge(def, name));
+      }
+      defs.forEach(name => live.delete(name));
+      uses.forEach(name => live.add(name));
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Tracked names mentioned by each function, including every function it
+ * calls directly or indirectly
+ */
+function namesByFunction(
+  blocks: BasicBlock[],
+  tracked: (name: string) => boolean
+): Map<string, Set<string>> {
+  const own = new Map<string, Set<string>>();
+  const calls = new Map<string, Set<string>>();
+  for (const block of blocks) {
+    if (block.func === undefined) continue;
+    const names = own.get(block.func) ?? new Set<string>();
+    const callees = calls.get(block.func) ?? new Set<string>();
+    own.set(block.func, names);
+    calls.set(block.func, callees);
+
+    for (const instr of block.instructions) {
+      [...definedNames(instr), ...usedNames(instr)]
+        .filter(tracked)
+        .forEach(name => names.add(name));
+      if (instr instanceof IRCall) {
+        callees.add(instr.func);
+      }
+    }
+  }
+
+  // Recursion is rejected by the IR generator, so this terminates
+  const collect = (func: string): Set<string> => {
+    const names = new Set(own.get(func));
+    for (const callee of calls.get(func) ?? []) {
+      collect(callee).forEach(name => names.add(name));
+    }
+    return names;
+  };
+
+  const result = new Map<string, Set<string>>();
+  for (const func of own.keys()) {
+    result.set(func, collect(func));
+  }
+  return result;
+}
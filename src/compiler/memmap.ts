@@ -1,8 +1,12 @@
 // Memory mapping - Assigns RAM addresses to variables, temps, flags, and constants
-import { Symbol } from './ir';
+import { Symbol, BasicBlock, IRConstant } from './ir';
+import { buildInterferenceGraph } from './liveness';
+import { definedNames, usedNames } from './optimizer';
+import { JOHNNY_CONFIG } from '../core/opcodes';
 
 export interface MemoryMap {
   variables: Map<string, number>;
+  arrays: Map<string, number>; // Address of element 0
   temps: Map<string, number>;
   flags: Map<string, number>;
   constants: Map<number, number>;
@@ -12,6 +16,8 @@ export interface MemoryMap {
 
 export interface MemoryLayout {
   CODE_START: number;
+  ARRAYS_START: number;
+  ARRAYS_END: number;
   VARIABLES_START: number;
   VARIABLES_END: number;
   TEMPS_START: number;
@@ -24,32 +30,233 @@ export interface MemoryLayout {
 
 export const DEFAULT_LAYOUT: MemoryLayout = {
   CODE_START: 0,
+  ARRAYS_START: 800,
+  ARRAYS_END: 899,
   VARIABLES_START: 900,
   VARIABLES_END: 949,
   TEMPS_START: 960,
   TEMPS_END: 989,
   FLAGS_START: 990,
   FLAGS_END: 995,
-  CONST_0: 150,
-  CONST_1: 151,
+  CONST_0: 996,
+  CONST_1: 997,
 };
 
+// Data regions a layout file may define, in the order auto layouts pack them
+export const LAYOUT_REGIONS = [
+  'constants',
+  'variables',
+  'flags',
+  'temps',
+  'arrays',
+] as const;
+
+export type LayoutRegionName = (typeof LAYOUT_REGIONS)[number];
+
+export interface LayoutRegion {
+  name: LayoutRegionName;
+  start: number;
+  end: number; // Inclusive, start - 1 for an empty region
+}
+
+/**
+ * Words each data region needs, used to pack a layout after the code
+ */
+export type RegionSizes = Record<
+  Exclude<LayoutRegionName, 'constants'>,
+  number
+>;
+
+/**
+ * Data regions of a layout as address ranges
+ */
+export function layoutRegions(layout: MemoryLayout): LayoutRegion[] {
+  return [
+    { name: 'constants', start: layout.CONST_0, end: layout.CONST_1 },
+    {
+      name: 'variables',
+      start: layout.VARIABLES_START,
+      end: layout.VARIABLES_END,
+    },
+    { name: 'flags', start: layout.FLAGS_START, end: layout.FLAGS_END },
+    { name: 'temps', start: layout.TEMPS_START, end: layout.TEMPS_END },
+    { name: 'arrays', start: layout.ARRAYS_START, end: layout.ARRAYS_END },
+  ];
+}
+
+/**
+ * Parse a layout file. Regions it leaves out keep their default range:
+ *
+ *   { "variables": { "start": 700, "end": 799 }, "constants": { "start": 998 } }
+ *
+ * The constants region holds CONST_0 and CONST_1, so it needs no end.
+ */
+export function parseLayout(json: string): MemoryLayout {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid layout file: ${(error as Error).message}`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Invalid layout file: expected an object of regions');
+  }
+
+  const layout = { ...DEFAULT_LAYOUT };
+  for (const [name, value] of Object.entries(data)) {
+    if (!(LAYOUT_REGIONS as readonly string[]).includes(name)) {
+      throw new Error(
+        `Unknown layout region '${name}' (expected ${LAYOUT_REGIONS.join(', ')})`
+      );
+    }
+    const { start, end } = (value ?? {}) as { start?: unknown; end?: unknown };
+    const last = name === 'constants' ? (end ?? Number(start) + 1) : end;
+    if (!Number.isInteger(start) || !Number.isInteger(last)) {
+      throw new Error(
+        `Layout region '${name}' needs integer "start" and "end" addresses`
+      );
+    }
+    setRegion(
+      layout,
+      name as LayoutRegionName,
+      start as number,
+      last as number
+    );
+  }
+
+  validateLayout(layout);
+  return layout;
+}
+
+/**
+ * Layout that packs the data regions directly after the code, each just
+ * big enough for what the program uses. Empty regions start after all of
+ * the data, so none starts inside another.
+ */
+export function packLayout(codeSize: number, sizes: RegionSizes): MemoryLayout {
+  const layout = { ...DEFAULT_LAYOUT };
+  const size = (name: LayoutRegionName) =>
+    name === 'constants' ? 2 : sizes[name];
+  let next = layout.CODE_START + codeSize;
+  for (const name of LAYOUT_REGIONS.filter(name => size(name) > 0)) {
+    setRegion(layout, name, next, next + size(name) - 1);
+    next += size(name);
+  }
+  for (const name of LAYOUT_REGIONS.filter(name => size(name) === 0)) {
+    setRegion(layout, name, next, next - 1);
+  }
+
+  if (next > JOHNNY_CONFIG.MEMORY_SIZE) {
+    throw new Error(
+      `Program and data need ${next} words, but memory has only ${JOHNNY_CONFIG.MEMORY_SIZE}`
+    );
+  }
+  return layout;
+}
+
+/**
+ * Regions must lie in memory and must not overlap each other
+ */
+export function validateLayout(layout: MemoryLayout): void {
+  const regions = layoutRegions(layout);
+  for (const region of regions) {
+    const { name, start, end } = region;
+    if (start < 0 || end >= JOHNNY_CONFIG.MEMORY_SIZE || end < start - 1) {
+      throw new Error(
+        `Layout region '${name}' (${start}-${end}) is not a range within 0-${JOHNNY_CONFIG.MEMORY_SIZE - 1}`
+      );
+    }
+  }
+  if (layout.CONST_1 !== layout.CONST_0 + 1) {
+    throw new Error(
+      `Layout region 'constants' needs exactly 2 words for CONST_0 and CONST_1`
+    );
+  }
+
+  for (let i = 0; i < regions.length; i++) {
+    for (const other of regions.slice(i + 1)) {
+      if (regionsOverlap(regions[i], other)) {
+        throw new Error(
+          `Layout regions '${regions[i].name}' (${regions[i].start}-${regions[i].end}) and '${other.name}' (${other.start}-${other.end}) overlap`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Whether two address ranges share a word; empty ranges share none
+ */
+export function regionsOverlap(
+  a: { start: number; end: number },
+  b: { start: number; end: number }
+): boolean {
+  return (
+    a.start <= a.end && b.start <= b.end && a.start <= b.end && b.start <= a.end
+  );
+}
+
+function setRegion(
+  layout: MemoryLayout,
+  name: LayoutRegionName,
+  start: number,
+  end: number
+): void {
+  switch (name) {
+    case 'constants':
+      layout.CONST_0 = start;
+      layout.CONST_1 = end;
+      break;
+    case 'variables':
+      layout.VARIABLES_START = start;
+      layout.VARIABLES_END = end;
+      break;
+    case 'flags':
+      layout.FLAGS_START = start;
+      layout.FLAGS_END = end;
+      break;
+    case 'temps':
+      layout.TEMPS_START = start;
+      layout.TEMPS_END = end;
+      break;
+    case 'arrays':
+      layout.ARRAYS_START = start;
+      layout.ARRAYS_END = end;
+      break;
+  }
+}
+
+// Scratch temps the code generator takes for a single operator, at most
+const SCRATCH_TEMPS = 5;
+
 export class MemoryMapper {
   private readonly layout: MemoryLayout;
   private variableCounter = 0;
-  private tempCounter = 0;
+  private arrayCounter = 0; // Array cells handed out so far
   private flagCounter = 0;
 
-  constructor(layout: MemoryLayout = DEFAULT_LAYOUT) {
+  /**
+   * scratchTemps is how many temps at the end of the region stay free for
+   * the code generator; constant temps only get spare addresses below them
+   */
+  constructor(
+    layout: MemoryLayout = DEFAULT_LAYOUT,
+    private readonly scratchTemps: number = SCRATCH_TEMPS
+  ) {
     this.layout = layout;
   }
 
   /**
-   * Create memory map from symbols
+   * Create memory map from symbols. With the IR blocks, temps whose
+   * lifetimes do not overlap share an address.
    */
-  createMemoryMap(symbols: Map<string, Symbol>): MemoryMap {
+  createMemoryMap(
+    symbols: Map<string, Symbol>,
+    blocks?: BasicBlock[]
+  ): MemoryMap {
     const memoryMap: MemoryMap = {
       variables: new Map(),
+      arrays: new Map(),
       temps: new Map(),
       flags: new Map(),
       constants: new Map(),
@@ -63,7 +270,7 @@ export class MemoryMapper {
 
     // Reset counters
     this.variableCounter = 0;
-    this.tempCounter = 0;
+    this.arrayCounter = 0;
     this.flagCounter = 0;
 
     // Sort symbols to ensure consistent mapping
@@ -71,16 +278,28 @@ export class MemoryMapper {
       a.localeCompare(b)
     );
 
+    const temps: string[] = [];
+    const overflow: [string, Symbol][] = [];
     for (const [name, symbol] of sortedSymbols) {
-      if (symbol.isTemp) {
-        this.mapTemp(memoryMap, name);
-      } else if (symbol.type === 'bool') {
-        this.mapFlag(memoryMap, name);
-      } else {
-        this.mapVariable(memoryMap, name);
+      if (symbol.size !== undefined) {
+        this.mapArray(memoryMap, name, symbol.size);
+      } else if (symbol.isTemp) {
+        temps.push(name);
+      } else if (!this.mapScalar(memoryMap, name, symbol)) {
+        overflow.push([name, symbol]);
       }
     }
 
+    // Variables spill into free flag slots and flags into free variable
+    // slots, the rest into words the arrays and temps leave free
+    const unplaced = overflow.filter(
+      ([name, symbol]) => !this.mapOverflow(memoryMap, name, symbol)
+    );
+    this.mapTemps(memoryMap, temps, blocks);
+    for (const [name, symbol] of unplaced) {
+      this.mapSpill(memoryMap, name, symbol);
+    }
+
     return memoryMap;
   }
 
@@ -111,16 +330,19 @@ export class MemoryMapper {
           },
         },
         variables: {} as Record<string, Record<string, unknown>>,
+        arrays: {} as Record<string, Record<string, unknown>>,
         temps: {} as Record<string, Record<string, unknown>>,
         flags: {} as Record<string, Record<string, unknown>>,
       },
       statistics: {
         totalVariables: memoryMap.variables.size,
+        totalArrays: memoryMap.arrays.size,
         totalTemps: memoryMap.temps.size,
         totalFlags: memoryMap.flags.size,
         memoryUsage: {
           variables: `${memoryMap.variables.size}/${this.layout.VARIABLES_END - this.layout.VARIABLES_START + 1}`,
-          temps: `${memoryMap.temps.size}/${this.layout.TEMPS_END - this.layout.TEMPS_START + 1}`,
+          arrays: `${this.arrayCellsUsed(memoryMap, symbols)}/${this.layout.ARRAYS_END - this.layout.ARRAYS_START + 1}`,
+          temps: `${this.tempAddressesUsed(memoryMap)}/${this.layout.TEMPS_END - this.layout.TEMPS_START + 1}`,
           flags: `${memoryMap.flags.size}/${this.layout.FLAGS_END - this.layout.FLAGS_START + 1}`,
         },
       },
@@ -136,6 +358,19 @@ export class MemoryMapper {
       };
     }
 
+    // Add array details
+    for (const [name, address] of memoryMap.arrays) {
+      const symbol = symbols.get(name);
+      const size = symbol?.size ?? 0;
+      mapData.memory.arrays[name] = {
+        address,
+        end: address + size - 1,
+        size,
+        type: symbol?.type || 'unknown',
+        description: `Array '${name}' of ${size} ${symbol?.type || 'unknown'} elements`,
+      };
+    }
+
     // Add temp details
     for (const [name, address] of memoryMap.temps) {
       mapData.memory.temps[name] = {
@@ -174,6 +409,7 @@ export class MemoryMapper {
     md += '| Region | Start | End | Description |\n';
     md += '|--------|-------|-----|-------------|\n';
     md += `| Code | ${this.layout.CODE_START} | Variable | Program instructions |\n`;
+    md += `| Arrays | ${this.layout.ARRAYS_START} | ${this.layout.ARRAYS_END} | Array elements |\n`;
     md += `| Variables | ${this.layout.VARIABLES_START} | ${this.layout.VARIABLES_END} | User-defined variables |\n`;
     md += `| Temps | ${this.layout.TEMPS_START} | ${this.layout.TEMPS_END} | Temporary variables |\n`;
     md += `| Flags | ${this.layout.FLAGS_START} | ${this.layout.FLAGS_END} | Boolean flags |\n`;
@@ -202,6 +438,23 @@ export class MemoryMapper {
       md += '\n';
     }
 
+    // Arrays
+    if (memoryMap.arrays.size > 0) {
+      md += '## Arrays\n\n';
+      md += '| Name | Address | Size | Type | Description |\n';
+      md += '|------|---------|------|------|-------------|\n';
+
+      const sortedArrays = Array.from(memoryMap.arrays.entries()).sort(
+        ([, a], [, b]) => a - b
+      );
+      for (const [name, address] of sortedArrays) {
+        const symbol = symbols.get(name);
+        const size = symbol?.size ?? 0;
+        md += `| ${name} | ${address}-${address + size - 1} | ${size} | ${symbol?.type || 'unknown'} | User array |\n`;
+      }
+      md += '\n';
+    }
+
     // Temporaries
     if (memoryMap.temps.size > 0) {
       md += '## Temporary Variables\n\n';
@@ -236,43 +489,234 @@ export class MemoryMapper {
     // Statistics
     md += '## Memory Statistics\n\n';
     md += `- **Variables**: ${memoryMap.variables.size}/${this.layout.VARIABLES_END - this.layout.VARIABLES_START + 1} used\n`;
-    md += `- **Temporaries**: ${memoryMap.temps.size}/${this.layout.TEMPS_END - this.layout.TEMPS_START + 1} used\n`;
+    md += `- **Array cells**: ${this.arrayCellsUsed(memoryMap, symbols)}/${this.layout.ARRAYS_END - this.layout.ARRAYS_START + 1} used\n`;
+    md += `- **Temporaries**: ${this.tempAddressesUsed(memoryMap)}/${this.layout.TEMPS_END - this.layout.TEMPS_START + 1} used\n`;
     md += `- **Flags**: ${memoryMap.flags.size}/${this.layout.FLAGS_END - this.layout.FLAGS_START + 1} used\n`;
 
     return md;
   }
 
-  private mapVariable(memoryMap: MemoryMap, name: string): void {
-    const address = this.layout.VARIABLES_START + this.variableCounter;
-    if (address > this.layout.VARIABLES_END) {
-      throw new Error(
-        `Too many variables. Maximum ${this.layout.VARIABLES_END - this.layout.VARIABLES_START + 1} allowed.`
-      );
+  /**
+   * Place a variable or flag in its own region; false when that is full
+   */
+  private mapScalar(
+    memoryMap: MemoryMap,
+    name: string,
+    symbol: Symbol
+  ): boolean {
+    if (symbol.type === 'bool') {
+      const address = this.layout.FLAGS_START + this.flagCounter;
+      if (address > this.layout.FLAGS_END) return false;
+      memoryMap.flags.set(name, address);
+      this.flagCounter++;
+    } else {
+      const address = this.layout.VARIABLES_START + this.variableCounter;
+      if (address > this.layout.VARIABLES_END) return false;
+      memoryMap.variables.set(name, address);
+      this.variableCounter++;
     }
-    memoryMap.variables.set(name, address);
-    this.variableCounter++;
+    return true;
   }
 
-  private mapTemp(memoryMap: MemoryMap, name: string): void {
-    const address = this.layout.TEMPS_START + this.tempCounter;
-    if (address > this.layout.TEMPS_END) {
+  /**
+   * Place a variable in a free flag slot or a flag in a free variable slot;
+   * false when that region is full as well
+   */
+  private mapOverflow(
+    memoryMap: MemoryMap,
+    name: string,
+    symbol: Symbol
+  ): boolean {
+    const { VARIABLES_START, VARIABLES_END, FLAGS_START, FLAGS_END } =
+      this.layout;
+
+    if (symbol.type === 'bool') {
+      const address = VARIABLES_START + this.variableCounter;
+      if (address > VARIABLES_END) return false;
+      memoryMap.flags.set(name, address);
+      this.variableCounter++;
+    } else {
+      const address = FLAGS_START + this.flagCounter;
+      if (address > FLAGS_END) return false;
+      memoryMap.variables.set(name, address);
+      this.flagCounter++;
+    }
+    return true;
+  }
+
+  /**
+   * Place a variable or flag in an array cell no array uses or else, from
+   * the top, in a temp slot no temp uses. Runs after temp coloring; the
+   * code generator's scratch temps skip these slots.
+   */
+  private mapSpill(memoryMap: MemoryMap, name: string, symbol: Symbol): void {
+    const { ARRAYS_START, ARRAYS_END, TEMPS_START, TEMPS_END } = this.layout;
+    const taken = new Set([
+      ...memoryMap.temps.values(),
+      ...memoryMap.variables.values(),
+      ...memoryMap.flags.values(),
+    ]);
+
+    let address: number | undefined;
+    if (ARRAYS_START + this.arrayCounter <= ARRAYS_END) {
+      address = ARRAYS_START + this.arrayCounter++;
+    } else {
+      for (let slot = TEMPS_END; slot >= TEMPS_START; slot--) {
+        if (!taken.has(slot)) {
+          address = slot;
+          break;
+        }
+      }
+    }
+
+    if (address === undefined) {
+      const { VARIABLES_START, VARIABLES_END, FLAGS_START, FLAGS_END } =
+        this.layout;
       throw new Error(
-        `Too many temporary variables. Maximum ${this.layout.TEMPS_END - this.layout.TEMPS_START + 1} allowed.`
+        `Out of memory for variable '${name}': variables (${VARIABLES_START}-${VARIABLES_END}), flags (${FLAGS_START}-${FLAGS_END}), arrays (${ARRAYS_START}-${ARRAYS_END}) and temps (${TEMPS_START}-${TEMPS_END}) are full`
       );
     }
-    memoryMap.temps.set(name, address);
-    this.tempCounter++;
+    (symbol.type === 'bool' ? memoryMap.flags : memoryMap.variables).set(
+      name,
+      address
+    );
   }
 
-  private mapFlag(memoryMap: MemoryMap, name: string): void {
-    const address = this.layout.FLAGS_START + this.flagCounter;
-    if (address > this.layout.FLAGS_END) {
+  private mapArray(memoryMap: MemoryMap, name: string, size: number): void {
+    const address = this.layout.ARRAYS_START + this.arrayCounter;
+    if (address + size - 1 > this.layout.ARRAYS_END) {
       throw new Error(
-        `Too many flag variables. Maximum ${this.layout.FLAGS_END - this.layout.FLAGS_START + 1} allowed.`
+        `Array '${name}' does not fit. Maximum ${this.layout.ARRAYS_END - this.layout.ARRAYS_START + 1} array elements allowed.`
       );
     }
-    memoryMap.flags.set(name, address);
-    this.flagCounter++;
+    memoryMap.arrays.set(name, address);
+    this.arrayCounter += size;
+  }
+
+  /**
+   * Words of each data region a mapped program uses. Temps count up to the
+   * highest address the generated code touches, scratch temps included.
+   */
+  regionSizes(
+    memoryMap: MemoryMap,
+    symbols: Map<string, Symbol>,
+    highestTemp: number
+  ): RegionSizes {
+    return {
+      variables: memoryMap.variables.size,
+      flags: memoryMap.flags.size,
+      temps: Math.max(0, highestTemp - this.layout.TEMPS_START + 1),
+      arrays: this.arrayCellsUsed(memoryMap, symbols),
+    };
+  }
+
+  private arrayCellsUsed(
+    memoryMap: MemoryMap,
+    symbols: Map<string, Symbol>
+  ): number {
+    let cells = 0;
+    for (const name of memoryMap.arrays.keys()) {
+      cells += symbols.get(name)?.size ?? 0;
+    }
+    return cells;
+  }
+
+  /**
+   * Greedy graph coloring in order of first appearance: each temp gets the
+   * lowest address no interfering temp has. Without blocks every temp gets
+   * its own address.
+   */
+  private mapTemps(
+    memoryMap: MemoryMap,
+    temps: string[],
+    blocks?: BasicBlock[]
+  ): void {
+    const { TEMPS_START, TEMPS_END } = this.layout;
+    const isTemp = new Set(temps);
+    const graph =
+      blocks && buildInterferenceGraph(blocks, name => isTemp.has(name));
+    const constants = blocks
+      ? this.constantTemps(blocks, isTemp)
+      : new Set<string>();
+
+    const ordered = new Set<string>();
+    for (const block of blocks ?? []) {
+      for (const instr of block.instructions) {
+        [...usedNames(instr), ...definedNames(instr)]
+          .filter(name => isTemp.has(name))
+          .forEach(name => ordered.add(name));
+      }
+    }
+    temps.forEach(name => ordered.add(name));
+
+    let nextFree = TEMPS_START;
+    for (const name of ordered) {
+      const taken = new Set<number>();
+      if (graph) {
+        for (const neighbour of graph.get(name) ?? []) {
+          const address = memoryMap.temps.get(neighbour);
+          if (address !== undefined) taken.add(address);
+        }
+      } else {
+        for (let address = TEMPS_START; address < nextFree; address++) {
+          taken.add(address);
+        }
+      }
+
+      let address = TEMPS_START;
+      while (taken.has(address)) address++;
+      if (address > TEMPS_END) {
+        throw new Error(
+          `Out of memory for temporary '${name}': more than ${TEMPS_END - TEMPS_START + 1} temporaries (${TEMPS_START}-${TEMPS_END}) are live at once`
+        );
+      }
+      memoryMap.temps.set(name, address);
+      nextFree = Math.max(nextFree, address + 1);
+    }
+
+    // Spare addresses go to constant temps, which the peephole optimizer
+    // can only replace by the constant when nothing else writes them. The
+    // code generator's scratch temps keep theirs.
+    for (const name of constants) {
+      if (nextFree > TEMPS_END - this.scratchTemps) break;
+      memoryMap.temps.set(name, nextFree++);
+    }
+  }
+
+  /**
+   * Temps written exactly once, by a constant
+   */
+  private constantTemps(
+    blocks: BasicBlock[],
+    isTemp: Set<string>
+  ): Set<string> {
+    const writes = new Map<string, number>();
+    const constants = new Set<string>();
+    for (const block of blocks) {
+      for (const instr of block.instructions) {
+        for (const name of definedNames(instr)) {
+          writes.set(name, (writes.get(name) ?? 0) + 1);
+          if (instr instanceof IRConstant) constants.add(name);
+        }
+      }
+    }
+    return new Set(
+      [...constants].filter(name => isTemp.has(name) && writes.get(name) === 1)
+    );
+  }
+
+  /**
+   * Distinct addresses used by temps, which may share addresses
+   */
+  tempAddressesUsed(memoryMap: MemoryMap): number {
+    return new Set(memoryMap.temps.values()).size;
+  }
+
+  /**
+   * Address ranges this mapper allocates from
+   */
+  getLayout(): MemoryLayout {
+    return this.layout;
   }
 
   /**
@@ -283,6 +727,10 @@ export class MemoryMapper {
     const varAddr = memoryMap.variables.get(name);
     if (varAddr !== undefined) return varAddr;
 
+    // Arrays resolve to their first element
+    const arrayAddr = memoryMap.arrays.get(name);
+    if (arrayAddr !== undefined) return arrayAddr;
+
     // Check temps
     const tempAddr = memoryMap.temps.get(name);
     if (tempAddr !== undefined) return tempAddr;
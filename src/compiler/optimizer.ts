@@ -0,0 +1,570 @@
+// IR optimizer - Data-flow passes over basic blocks before code generation
+import {
+  IRInstruction,
+  IRAssign,
+  IRBinary,
+  IRUnary,
+  IRConstant,
+  IRJump,
+  IRConditionalJump,
+  IRHalt,
+  IRCall,
+  IRReturnSlot,
+  IRArrayLoad,
+  IRArrayStore,
+  IRIncrement,
+  BasicBlock,
+  Symbol,
+} from './ir';
+import { JOHNNY_CONFIG } from '../core/opcodes';
+
+export interface IROptimizationReport {
+  instructionsBefore: number;
+  instructionsAfter: number;
+  blocksBefore: number;
+  blocksAfter: number;
+  passes: Record<string, number>; // Pass name -> changes made
+}
+
+export interface IROptimizationResult {
+  blocks: BasicBlock[];
+  symbols: Map<string, Symbol>; // Without temps the passes removed
+  report: IROptimizationReport;
+}
+
+// Called after every pass that changed something, e.g. for --dump-ir
+export type IRPassListener = (pass: string, blocks: BasicBlock[]) => void;
+
+// Known values of scalar names at a program point; absent means unknown
+type ConstantState = Map<string, number>;
+
+/**
+ * Scalar names an instruction writes
+ */
+export function definedNames(instr: IRInstruction): string[] {
+  if (
+    instr instanceof IRAssign ||
+    instr instanceof IRBinary ||
+    instr instanceof IRUnary ||
+    instr instanceof IRConstant ||
+    instr instanceof IRIncrement ||
+    instr instanceof IRArrayLoad
+  ) {
+    return [instr.dest];
+  }
+  return [];
+}
+
+/**
+ * Scalar names an instruction reads. Calls read and write globals and
+ * parameters implicitly; callers have to treat them as barriers.
+ */
+export function usedNames(instr: IRInstruction): string[] {
+  if (instr instanceof IRAssign) return [instr.src];
+  if (instr instanceof IRBinary) return [instr.left, instr.right];
+  if (instr instanceof IRUnary) return [instr.operand];
+  if (instr instanceof IRIncrement) return [instr.dest];
+  if (instr instanceof IRConditionalJump) return [instr.condition];
+  if (instr instanceof IRArrayLoad) return [instr.index];
+  if (instr instanceof IRArrayStore) return [instr.index, instr.src];
+  return [];
+}
+
+/**
+ * Control never continues to the next instruction of the block
+ */
+function isTerminator(instr: IRInstruction): boolean {
+  return (
+    instr instanceof IRJump ||
+    instr instanceof IRHalt ||
+    instr instanceof IRReturnSlot
+  );
+}
+
+/**
+ * Blocks control can pass to from the end of a block: jump targets, and
+ * the next block in layout order when the block does not end in a jump.
+ * Calls return to the instruction after them, so they add no edges.
+ */
+export function controlFlowSuccessors(
+  blocks: BasicBlock[],
+  block: BasicBlock
+): BasicBlock[] {
+  const targets: string[] = [];
+  let fallsThrough = true;
+  for (const instr of block.instructions) {
+    if (instr instanceof IRJump || instr instanceof IRConditionalJump) {
+      targets.push(instr.target);
+    }
+    if (isTerminator(instr)) {
+      fallsThrough = false;
+      break;
+    }
+  }
+
+  const successors = targets
+    .map(target => blocks.find(candidate => candidate.name === target))
+    .filter((target): target is BasicBlock => target !== undefined);
+  const next = blocks[blocks.indexOf(block) + 1];
+  if (fallsThrough && next) {
+    successors.push(next);
+  }
+  return successors;
+}
+
+/**
+ * Instructions whose only effect is writing their destination
+ */
+function isPure(instr: IRInstruction): boolean {
+  return (
+    instr instanceof IRAssign ||
+    instr instanceof IRBinary ||
+    instr instanceof IRUnary ||
+    instr instanceof IRConstant ||
+    instr instanceof IRArrayLoad
+  );
+}
+
+/**
+ * Evaluate an operator the way the generated code does: ADD saturates at
+ * MAX_VALUE, SUB at 0, and dividing by zero gives 0 remainder a
+ */
+function evaluateBinary(op: string, left: number, right: number): number {
+  const max = JOHNNY_CONFIG.MAX_VALUE;
+  switch (op) {
+    case '+':
+      return Math.min(left + right, max);
+    case '-':
+      return Math.max(left - right, 0);
+    case '*':
+      return Math.min(left * right, max);
+    case '/':
+      return right === 0 ? 0 : Math.floor(left / right);
+    case '%':
+      return right === 0 ? left : left % right;
+    case '==':
+      return Number(left === right);
+    case '!=':
+      return Number(left !== right);
+    case '<':
+      return Number(left < right);
+    case '>':
+      return Number(left > right);
+    case '<=':
+      return Number(left <= right);
+    case '>=':
+      return Number(left >= right);
+    default:
+      throw new Error(`Unsupported binary operator: ${op}`);
+  }
+}
+
+function evaluateUnary(op: string, operand: number): number {
+  switch (op) {
+    case '-':
+      return 0; // 0 - operand saturates at 0
+    case '!':
+      return Number(operand === 0);
+    default:
+      throw new Error(`Unsupported unary operator: ${op}`);
+  }
+}
+
+/**
+ * Runs constant propagation and folding, copy propagation, dead-store
+ * elimination and unreachable-code removal until none of them changes
+ * anything. The blocks are rewritten in place.
+ *
+ * Stores to user variables are only removed when the same block
+ * overwrites them before any read, since variables stay visible in RAM
+ * after the program halts.
+ */
+export class IROptimizer {
+  private blocks: BasicBlock[] = [];
+  private symbols = new Map<string, Symbol>();
+
+  optimize(
+    blocks: BasicBlock[],
+    symbols: Map<string, Symbol>,
+    onPass: IRPassListener = () => {}
+  ): IROptimizationResult {
+    this.blocks = blocks;
+    this.symbols = symbols;
+    const instructionsBefore = this.countInstructions();
+
+    const pipeline: [string, () => number][] = [
+      ['constant-propagation', () => this.propagateConstants()],
+      ['copy-propagation', () => this.propagateCopies()],
+      ['dead-stores', () => this.removeDeadStores()],
+      ['unreachable-code', () => this.removeUnreachableCode()],
+    ];
+    const passes: Record<string, number> = {};
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const [name, run] of pipeline) {
+        const changes = run();
+        if (changes > 0) {
+          passes[name] = (passes[name] ?? 0) + changes;
+          changed = true;
+          onPass(name, this.blocks);
+        }
+      }
+    }
+
+    this.linkBlocks();
+    return {
+      blocks: this.blocks,
+      symbols: this.pruneSymbols(),
+      report: {
+        instructionsBefore,
+        instructionsAfter: this.countInstructions(),
+        blocksBefore: blocks.length,
+        blocksAfter: this.blocks.length,
+        passes,
+      },
+    };
+  }
+
+  /**
+   * Replace instructions whose operands are known constants, and branches
+   * whose condition is known, using the fixpoint of a forward analysis
+   */
+  private propagateConstants(): number {
+    const entryStates = this.solveConstants();
+    let changes = 0;
+
+    for (const block of this.blocks) {
+      const entry = entryStates.get(block);
+      if (!entry) continue; // Unreachable, removed by its own pass
+
+      const state = new Map(entry);
+      const rewritten: IRInstruction[] = [];
+      for (const instr of block.instructions) {
+        const folded = this.fold(instr, state);
+        if (folded !== instr) changes++;
+        if (folded) {
+          this.transfer(folded, state);
+          rewritten.push(folded);
+        }
+      }
+      block.instructions = rewritten;
+    }
+    return changes;
+  }
+
+  /**
+   * Known values at the start of every reachable block. The main entry and
+   * function entries start with nothing known; calls forget everything.
+   */
+  private solveConstants(): Map<BasicBlock, ConstantState> {
+    const states = new Map<BasicBlock, ConstantState>();
+    const worklist = this.entryBlocks();
+    for (const block of worklist) {
+      states.set(block, new Map());
+    }
+
+    while (worklist.length > 0) {
+      const block = worklist.shift() as BasicBlock;
+      const state = new Map(states.get(block));
+      for (const instr of block.instructions) {
+        this.transfer(this.fold(instr, state) ?? instr, state);
+      }
+
+      for (const successor of this.flowSuccessors(block)) {
+        const previous = states.get(successor);
+        const merged = previous
+          ? new Map([...previous].filter(([k, v]) => state.get(k) === v))
+          : new Map(state);
+        if (!previous || merged.size !== previous.size) {
+          states.set(successor, merged);
+          worklist.push(successor);
+        }
+      }
+    }
+    return states;
+  }
+
+  /**
+   * Constant result of an instruction as an IRConstant, an unconditional
+   * jump for a branch that is always taken, or null for one never taken
+   */
+  private fold(
+    instr: IRInstruction,
+    state: ConstantState
+  ): IRInstruction | null {
+    let folded: IRInstruction | null = instr;
+
+    if (instr instanceof IRAssign && state.has(instr.src)) {
+      folded = new IRConstant(
+        instr.id,
+        instr.dest,
+        state.get(instr.src) as number
+      );
+    } else if (
+      instr instanceof IRBinary &&
+      state.has(instr.left) &&
+      state.has(instr.right)
+    ) {
+      const value = evaluateBinary(
+        instr.op,
+        state.get(instr.left) as number,
+        state.get(instr.right) as number
+      );
+      folded = new IRConstant(instr.id, instr.dest, value);
+    } else if (instr instanceof IRUnary && state.has(instr.operand)) {
+      const value = evaluateUnary(instr.op, state.get(instr.operand) as number);
+      folded = new IRConstant(instr.id, instr.dest, value);
+    } else if (
+      instr instanceof IRConditionalJump &&
+      state.has(instr.condition)
+    ) {
+      folded =
+        state.get(instr.condition) !== 0
+          ? new IRJump(instr.id, instr.target)
+          : null;
+    }
+
+    if (folded && folded !== instr) {
+      folded.line = instr.line;
+      folded.column = instr.column;
+    }
+    return folded;
+  }
+
+  private transfer(instr: IRInstruction, state: ConstantState): void {
+    if (instr instanceof IRConstant) {
+      state.set(instr.dest, instr.value);
+    } else if (instr instanceof IRIncrement && state.has(instr.dest)) {
+      // Same results as the INC and DEC opcodes
+      const value = state.get(instr.dest) as number;
+      state.set(
+        instr.dest,
+        instr.op === '++'
+          ? (value + 1) % (JOHNNY_CONFIG.MAX_VALUE + 1)
+          : Math.max(value - 1, 0)
+      );
+    } else if (instr instanceof IRCall) {
+      state.clear();
+    } else {
+      for (const name of definedNames(instr)) {
+        state.delete(name);
+      }
+    }
+  }
+
+  /**
+   * Within a block, read the source of a copy instead of its destination
+   * until either of them changes
+   */
+  private propagateCopies(): number {
+    let changes = 0;
+
+    for (const block of this.blocks) {
+      const copies = new Map<string, string>(); // dest -> src
+      for (const instr of block.instructions) {
+        changes += this.renameUses(instr, name => copies.get(name) ?? name);
+
+        if (instr instanceof IRCall) {
+          copies.clear();
+          continue;
+        }
+        for (const name of definedNames(instr)) {
+          for (const [dest, src] of copies) {
+            if (dest === name || src === name) copies.delete(dest);
+          }
+        }
+        if (instr instanceof IRAssign && instr.dest !== instr.src) {
+          copies.set(instr.dest, instr.src);
+        }
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Rename the operands an instruction reads; returns how many changed
+   */
+  private renameUses(
+    instr: IRInstruction,
+    rename: (name: string) => string
+  ): number {
+    let changes = 0;
+    const apply = (name: string): string => {
+      const renamed = rename(name);
+      if (renamed !== name) changes++;
+      return renamed;
+    };
+
+    if (instr instanceof IRAssign) {
+      instr.src = apply(instr.src);
+    } else if (instr instanceof IRBinary) {
+      instr.left = apply(instr.left);
+      instr.right = apply(instr.right);
+    } else if (instr instanceof IRUnary) {
+      instr.operand = apply(instr.operand);
+    } else if (instr instanceof IRConditionalJump) {
+      instr.condition = apply(instr.condition);
+    } else if (instr instanceof IRArrayLoad) {
+      instr.index = apply(instr.index);
+    } else if (instr instanceof IRArrayStore) {
+      instr.index = apply(instr.index);
+      instr.src = apply(instr.src);
+    }
+    return changes;
+  }
+
+  /**
+   * Remove pure instructions writing temps nobody reads, and writes that
+   * the same block overwrites before reading them
+   */
+  private removeDeadStores(): number {
+    const used = new Set<string>();
+    for (const block of this.blocks) {
+      for (const instr of block.instructions) {
+        usedNames(instr).forEach(name => used.add(name));
+      }
+    }
+
+    let removed = 0;
+    for (const block of this.blocks) {
+      // Walk backwards: names written later in the block and not read since
+      const overwritten = new Set<string>();
+      const kept: IRInstruction[] = [];
+
+      for (let i = block.instructions.length - 1; i >= 0; i--) {
+        const instr = block.instructions[i];
+        if (instr instanceof IRCall) {
+          overwritten.clear(); // The callee may read anything
+          kept.unshift(instr);
+          continue;
+        }
+
+        const defs = definedNames(instr);
+        const dead =
+          isPure(instr) &&
+          defs.every(
+            name =>
+              overwritten.has(name) ||
+              (this.symbols.get(name)?.isTemp === true && !used.has(name))
+          );
+        if (dead) {
+          removed++;
+          continue;
+        }
+
+        defs.forEach(name => overwritten.add(name));
+        usedNames(instr).forEach(name => overwritten.delete(name));
+        kept.unshift(instr);
+      }
+      block.instructions = kept;
+    }
+    return removed;
+  }
+
+  /**
+   * Drop instructions after a block's terminator and blocks that cannot be
+   * reached from the program entry
+   */
+  private removeUnreachableCode(): number {
+    let removed = 0;
+    for (const block of this.blocks) {
+      const end = block.instructions.findIndex(isTerminator);
+      if (end !== -1 && end < block.instructions.length - 1) {
+        removed += block.instructions.length - 1 - end;
+        block.instructions = block.instructions.slice(0, end + 1);
+      }
+    }
+
+    const reachable = new Set<BasicBlock>([this.blocks[0]]);
+    const worklist = [this.blocks[0]];
+    while (worklist.length > 0) {
+      const block = worklist.pop() as BasicBlock;
+      const successors = [...this.flowSuccessors(block)];
+
+      // A call enters the function and patches its return slot
+      for (const instr of block.instructions) {
+        if (instr instanceof IRCall) {
+          successors.push(...this.blocksNamed([instr.entry, instr.exit]));
+        }
+      }
+      for (const successor of successors) {
+        if (!reachable.has(successor)) {
+          reachable.add(successor);
+          worklist.push(successor);
+        }
+      }
+    }
+
+    const kept = this.blocks.filter(block => reachable.has(block));
+    removed += this.blocks.length - kept.length;
+    this.blocks = kept;
+    return removed;
+  }
+
+  private flowSuccessors(block: BasicBlock): BasicBlock[] {
+    return controlFlowSuccessors(this.blocks, block);
+  }
+
+  private blocksNamed(names: string[]): BasicBlock[] {
+    return names
+      .map(name => this.blocks.find(block => block.name === name))
+      .filter((block): block is BasicBlock => block !== undefined);
+  }
+
+  /**
+   * The main entry and the first block of every called function
+   */
+  private entryBlocks(): BasicBlock[] {
+    const entries = new Set<BasicBlock>([this.blocks[0]]);
+    for (const block of this.blocks) {
+      for (const instr of block.instructions) {
+        if (instr instanceof IRCall) {
+          this.blocksNamed([instr.entry]).forEach(entry => entries.add(entry));
+        }
+      }
+    }
+    return [...entries];
+  }
+
+  /**
+   * Rebuild successor and predecessor lists from the optimized control flow
+   */
+  private linkBlocks(): void {
+    for (const block of this.blocks) {
+      block.successors = [];
+      block.predecessors = [];
+    }
+    for (const block of this.blocks) {
+      this.flowSuccessors(block).forEach(successor =>
+        block.addSuccessor(successor)
+      );
+    }
+  }
+
+  /**
+   * Temps no remaining instruction mentions do not need memory
+   */
+  private pruneSymbols(): Map<string, Symbol> {
+    const mentioned = new Set<string>();
+    for (const block of this.blocks) {
+      for (const instr of block.instructions) {
+        definedNames(instr).forEach(name => mentioned.add(name));
+        usedNames(instr).forEach(name => mentioned.add(name));
+      }
+    }
+    return new Map(
+      [...this.symbols].filter(
+        ([name, symbol]) => !symbol.isTemp || mentioned.has(name)
+      )
+    );
+  }
+
+  private countInstructions(): number {
+    return this.blocks.reduce(
+      (total, block) => total + block.instructions.length,
+      0
+    );
+  }
+}
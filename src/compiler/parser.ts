@@ -46,6 +46,42 @@ export class Assignment extends Statement {
   }
 }
 
+export class ArrayDeclaration extends Statement {
+  constructor(
+    public type: 'int' | 'bool',
+    public name: string,
+    public size: number,
+    line: number,
+    column: number
+  ) {
+    super(line, column);
+  }
+}
+
+export class ArrayAssignment extends Statement {
+  constructor(
+    public name: string,
+    public index: Expression,
+    public value: Expression,
+    line: number,
+    column: number
+  ) {
+    super(line, column);
+  }
+}
+
+// x++ and x-- on a scalar variable, lowered to INC/DEC
+export class IncrementStatement extends Statement {
+  constructor(
+    public name: string,
+    public operator: '++' | '--',
+    line: number,
+    column: number
+  ) {
+    super(line, column);
+  }
+}
+
 export class IfStatement extends Statement {
   constructor(
     public condition: Expression,
@@ -69,8 +105,74 @@ export class WhileStatement extends Statement {
   }
 }
 
+export class ForStatement extends Statement {
+  constructor(
+    public initializer: Statement | null,
+    public condition: Expression | null, // null loops forever
+    public update: Statement | null,
+    public body: Statement[],
+    line: number,
+    column: number
+  ) {
+    super(line, column);
+  }
+}
+
+export class DoWhileStatement extends Statement {
+  constructor(
+    public body: Statement[],
+    public condition: Expression,
+    line: number,
+    column: number
+  ) {
+    super(line, column);
+  }
+}
+
+export class BreakStatement extends Statement {}
+
+export class ContinueStatement extends Statement {}
+
 export class HaltStatement extends Statement {}
 
+export interface Parameter {
+  type: 'int' | 'bool';
+  name: string;
+}
+
+export class FunctionDeclaration extends Statement {
+  constructor(
+    public returnType: 'int' | 'bool' | 'void',
+    public name: string,
+    public params: Parameter[],
+    public body: Statement[],
+    line: number,
+    column: number
+  ) {
+    super(line, column);
+  }
+}
+
+export class ReturnStatement extends Statement {
+  constructor(
+    public value: Expression | null,
+    line: number,
+    column: number
+  ) {
+    super(line, column);
+  }
+}
+
+export class CallStatement extends Statement {
+  constructor(
+    public call: CallExpression,
+    line: number,
+    column: number
+  ) {
+    super(line, column);
+  }
+}
+
 // Expressions
 export abstract class Expression extends ASTNode {}
 
@@ -127,6 +229,28 @@ export class Identifier extends Expression {
   }
 }
 
+export class ArrayAccess extends Expression {
+  constructor(
+    public name: string,
+    public index: Expression,
+    line: number,
+    column: number
+  ) {
+    super(line, column);
+  }
+}
+
+export class CallExpression extends Expression {
+  constructor(
+    public callee: string,
+    public args: Expression[],
+    line: number,
+    column: number
+  ) {
+    super(line, column);
+  }
+}
+
 export class ParseError extends Error {
   constructor(
     message: string,
@@ -139,11 +263,44 @@ export class ParseError extends Error {
   }
 }
 
+// Compound assignment operators and the binary operator each applies
+const COMPOUND_ASSIGNMENTS: Partial<Record<TokenType, string>> = {
+  [TokenType.PLUS_ASSIGN]: '+',
+  [TokenType.MINUS_ASSIGN]: '-',
+  [TokenType.MULTIPLY_ASSIGN]: '*',
+  [TokenType.DIVIDE_ASSIGN]: '/',
+  [TokenType.MODULO_ASSIGN]: '%',
+};
+
+// Token types that can begin a statement
+const STATEMENT_START: TokenType[] = [
+  TokenType.INT,
+  TokenType.BOOL,
+  TokenType.IF,
+  TokenType.WHILE,
+  TokenType.FOR,
+  TokenType.DO,
+  TokenType.BREAK,
+  TokenType.CONTINUE,
+  TokenType.HALT,
+  TokenType.VOID,
+  TokenType.RETURN,
+  TokenType.IDENTIFIER,
+];
+
 export class Parser {
   private readonly tokens: Token[];
   private current: number = 0;
+  private inFunction = false;
+  private loopDepth = 0; // Loops enclosing the statement being parsed
+  private blockDepth = 0; // Blocks enclosing the statement being parsed
+
+  constructor(source: string | Token[]) {
+    if (Array.isArray(source)) {
+      this.tokens = source;
+      return;
+    }
 
-  constructor(source: string) {
     const lexer = new Lexer(source);
     try {
       this.tokens = lexer.tokenize();
@@ -184,16 +341,71 @@ export class Parser {
     return new Program(statements, firstToken.line, firstToken.column);
   }
 
+  /**
+   * Parse the program, collecting every error instead of stopping at the first
+   * Statements that fail to parse are dropped from the returned program.
+   */
+  parseRecovering(): { program: Program; errors: ParseError[] } {
+    const statements: Statement[] = [];
+    const errors: ParseError[] = [];
+
+    while (!this.isAtEnd()) {
+      if (this.check(TokenType.NEWLINE)) {
+        this.advance();
+        continue;
+      }
+
+      // parse() silently skips tokens that cannot start a statement
+      if (!STATEMENT_START.includes(this.peek().type)) {
+        const token = this.advance();
+        errors.push(new ParseError(`Unexpected '${token.value}'`, token));
+        continue;
+      }
+
+      try {
+        const stmt = this.statement();
+        if (stmt) {
+          statements.push(stmt);
+        }
+      } catch (error) {
+        if (!(error instanceof ParseError)) throw error;
+        errors.push(error);
+      }
+    }
+
+    const firstToken = this.tokens[0];
+    return {
+      program: new Program(statements, firstToken.line, firstToken.column),
+      errors,
+    };
+  }
+
   /**
    * Parse a statement
-   * statement → varDecl | assignment | ifStmt | whileStmt | haltStmt
+   * statement → funcDecl | varDecl | assignment | callStmt | ifStmt
+   *           | whileStmt | forStmt | doWhileStmt | breakStmt
+   *           | continueStmt | returnStmt | haltStmt
    */
   private statement(): Statement | null {
     try {
       if (this.match(TokenType.INT, TokenType.BOOL)) {
+        if (
+          this.check(TokenType.IDENTIFIER) &&
+          this.checkNext(TokenType.LEFT_PAREN)
+        ) {
+          return this.functionDeclaration();
+        }
         return this.varDeclaration();
       }
 
+      if (this.match(TokenType.VOID)) {
+        return this.functionDeclaration();
+      }
+
+      if (this.match(TokenType.RETURN)) {
+        return this.returnStatement();
+      }
+
       if (this.match(TokenType.IF)) {
         return this.ifStatement();
       }
@@ -202,11 +414,26 @@ export class Parser {
         return this.whileStatement();
       }
 
+      if (this.match(TokenType.FOR)) {
+        return this.forStatement();
+      }
+
+      if (this.match(TokenType.DO)) {
+        return this.doWhileStatement();
+      }
+
+      if (this.match(TokenType.BREAK, TokenType.CONTINUE)) {
+        return this.loopControlStatement();
+      }
+
       if (this.match(TokenType.HALT)) {
         return this.haltStatement();
       }
 
       if (this.check(TokenType.IDENTIFIER)) {
+        if (this.checkNext(TokenType.LEFT_PAREN)) {
+          return this.callStatement();
+        }
         return this.assignment();
       }
 
@@ -223,10 +450,124 @@ export class Parser {
   }
 
   /**
-   * Parse variable declaration
-   * varDecl → ("int" | "bool") IDENTIFIER ("=" expression)? ";"
+   * Parse function declaration (top level only)
+   * funcDecl → ("int" | "bool" | "void") IDENTIFIER "(" params? ")" "{" statement* "}"
+   * params   → ("int" | "bool") IDENTIFIER ( "," ("int" | "bool") IDENTIFIER )*
    */
-  private varDeclaration(): VarDeclaration {
+  private functionDeclaration(): FunctionDeclaration {
+    const typeToken = this.previous();
+    const returnType = typeToken.value as 'int' | 'bool' | 'void';
+
+    if (this.blockDepth > 0) {
+      throw new ParseError(
+        'Functions can only be declared at the top level',
+        typeToken
+      );
+    }
+
+    const name = this.consume(
+      TokenType.IDENTIFIER,
+      `Expected function name after '${returnType}'`
+    ).value;
+    this.consume(TokenType.LEFT_PAREN, "Expected '(' after function name");
+
+    const params: Parameter[] = [];
+    if (!this.check(TokenType.RIGHT_PAREN)) {
+      do {
+        if (!this.match(TokenType.INT, TokenType.BOOL)) {
+          throw new ParseError(
+            "Expected parameter type 'int' or 'bool'",
+            this.peek()
+          );
+        }
+        const type = this.previous().value as 'int' | 'bool';
+        const paramName = this.consume(
+          TokenType.IDENTIFIER,
+          'Expected parameter name'
+        ).value;
+        params.push({ type, name: paramName });
+      } while (this.match(TokenType.COMMA));
+    }
+    this.consume(TokenType.RIGHT_PAREN, "Expected ')' after parameters");
+    this.consume(TokenType.LEFT_BRACE, "Expected '{' before function body");
+
+    // Loops around the declaration do not reach into the body
+    const loopDepth = this.loopDepth;
+    this.inFunction = true;
+    this.loopDepth = 0;
+    try {
+      const body = this.block();
+      return new FunctionDeclaration(
+        returnType,
+        name,
+        params,
+        body,
+        typeToken.line,
+        typeToken.column
+      );
+    } finally {
+      this.inFunction = false;
+      this.loopDepth = loopDepth;
+    }
+  }
+
+  /**
+   * Parse return statement
+   * returnStmt → "return" expression? ";"
+   */
+  private returnStatement(): ReturnStatement {
+    const returnToken = this.previous();
+
+    if (!this.inFunction) {
+      throw new ParseError("'return' outside of a function", returnToken);
+    }
+
+    const value = this.check(TokenType.SEMICOLON) ? null : this.expression();
+    this.consume(TokenType.SEMICOLON, "Expected ';' after return");
+
+    return new ReturnStatement(value, returnToken.line, returnToken.column);
+  }
+
+  /**
+   * Parse a call used as a statement
+   * callStmt → call ";"
+   */
+  private callStatement(): CallStatement {
+    const call = this.call();
+    this.consume(TokenType.SEMICOLON, "Expected ';' after function call");
+
+    return new CallStatement(call, call.line, call.column);
+  }
+
+  /**
+   * Parse a function call
+   * call → IDENTIFIER "(" ( expression ( "," expression )* )? ")"
+   */
+  private call(): CallExpression {
+    const nameToken = this.advance();
+    this.consume(TokenType.LEFT_PAREN, "Expected '(' after function name");
+
+    const args: Expression[] = [];
+    if (!this.check(TokenType.RIGHT_PAREN)) {
+      do {
+        args.push(this.expression());
+      } while (this.match(TokenType.COMMA));
+    }
+    this.consume(TokenType.RIGHT_PAREN, "Expected ')' after arguments");
+
+    return new CallExpression(
+      nameToken.value,
+      args,
+      nameToken.line,
+      nameToken.column
+    );
+  }
+
+  /**
+   * Parse variable or array declaration
+   * varDecl → ("int" | "bool") IDENTIFIER ( "[" NUMBER "]" | ("=" expression)? ) ";"
+   */
+  private varDeclaration(): VarDeclaration | ArrayDeclaration {
     const typeToken = this.previous();
     const type = typeToken.value as 'int' | 'bool';
 
@@ -238,6 +579,25 @@ export class Parser {
     }
 
     const name = this.advance().value;
+
+    if (this.match(TokenType.LEFT_BRACKET)) {
+      const sizeToken = this.consume(TokenType.NUMBER, 'Expected array size');
+      const size = Number.parseInt(sizeToken.value, 10);
+      if (size < 1) {
+        throw new ParseError('Array size must be at least 1', sizeToken);
+      }
+      this.consume(TokenType.RIGHT_BRACKET, "Expected ']' after array size");
+      this.consume(TokenType.SEMICOLON, "Expected ';' after array declaration");
+
+      return new ArrayDeclaration(
+        type,
+        name,
+        size,
+        typeToken.line,
+        typeToken.column
+      );
+    }
+
     let initializer: Expression | null = null;
 
     if (this.match(TokenType.ASSIGN)) {
@@ -260,17 +620,77 @@ export class Parser {
 
   /**
    * Parse assignment
-   * assignment → IDENTIFIER "=" expression ";"
+   * assignment → assignmentBody ";"
    */
-  private assignment(): Assignment {
-    const nameToken = this.advance();
+  private assignment(): Assignment | ArrayAssignment | IncrementStatement {
+    const stmt = this.assignmentBody();
+    this.consume(TokenType.SEMICOLON, "Expected ';' after assignment");
+    return stmt;
+  }
+
+  /**
+   * Parse an assignment without its ';', as used by for-loop updates
+   * Compound assignments and ++/-- on array elements are desugared,
+   * e.g. a[i] += x becomes a[i] = a[i] + x.
+   * assignmentBody → IDENTIFIER ( "[" expression "]" )?
+   *                  ( ( "=" | "+=" | "-=" | "*=" | "/=" | "%=" ) expression
+   *                  | "++" | "--" )
+   */
+  private assignmentBody(): Assignment | ArrayAssignment | IncrementStatement {
+    const nameToken = this.consume(
+      TokenType.IDENTIFIER,
+      'Expected variable name'
+    );
     const name = nameToken.value;
+    const { line, column } = nameToken;
 
-    this.consume(TokenType.ASSIGN, "Expected '=' after variable name");
-    const value = this.expression();
-    this.consume(TokenType.SEMICOLON, "Expected ';' after assignment");
+    let index: Expression | null = null;
+    if (this.match(TokenType.LEFT_BRACKET)) {
+      index = this.expression();
+      this.consume(TokenType.RIGHT_BRACKET, "Expected ']' after array index");
+    }
+    const current = index
+      ? new ArrayAccess(name, index, line, column)
+      : new Identifier(name, line, column);
+
+    let value: Expression;
+    if (this.match(TokenType.INCREMENT, TokenType.DECREMENT)) {
+      const operator = this.previous().value as '++' | '--';
+      if (!index) {
+        return new IncrementStatement(name, operator, line, column);
+      }
+      value = new BinaryExpression(
+        current,
+        operator[0],
+        new NumberLiteral(1, line, column),
+        line,
+        column
+      );
+    } else if (this.match(TokenType.ASSIGN)) {
+      value = this.expression();
+    } else {
+      const operator = COMPOUND_ASSIGNMENTS[this.peek().type];
+      if (!operator) {
+        throw new ParseError(
+          index
+            ? "Expected '=' after array element"
+            : "Expected '=' after variable name",
+          this.peek()
+        );
+      }
+      this.advance();
+      value = new BinaryExpression(
+        current,
+        operator,
+        this.expression(),
+        line,
+        column
+      );
+    }
 
-    return new Assignment(name, value, nameToken.line, nameToken.column);
+    return index
+      ? new ArrayAssignment(name, index, value, line, column)
+      : new Assignment(name, value, line, column);
   }
 
   /**
@@ -314,7 +734,7 @@ export class Parser {
     this.consume(TokenType.RIGHT_PAREN, "Expected ')' after while condition");
 
     this.consume(TokenType.LEFT_BRACE, "Expected '{' before while body");
-    const body = this.block();
+    const body = this.loopBody();
 
     return new WhileStatement(
       condition,
@@ -324,6 +744,95 @@ export class Parser {
     );
   }
 
+  /**
+   * Parse for statement
+   * forStmt → "for" "(" ( varDecl | assignment | ";" ) expression? ";"
+   *           assignmentBody? ")" "{" statement* "}"
+   */
+  private forStatement(): ForStatement {
+    const forToken = this.previous();
+    this.consume(TokenType.LEFT_PAREN, "Expected '(' after 'for'");
+
+    // Both declaration and assignment consume their own ';'
+    let initializer: Statement | null = null;
+    if (this.match(TokenType.INT, TokenType.BOOL)) {
+      initializer = this.varDeclaration();
+    } else if (!this.match(TokenType.SEMICOLON)) {
+      initializer = this.assignment();
+    }
+
+    const condition = this.check(TokenType.SEMICOLON)
+      ? null
+      : this.expression();
+    this.consume(TokenType.SEMICOLON, "Expected ';' after for condition");
+
+    const update = this.check(TokenType.RIGHT_PAREN)
+      ? null
+      : this.assignmentBody();
+    this.consume(TokenType.RIGHT_PAREN, "Expected ')' after for clauses");
+
+    this.consume(TokenType.LEFT_BRACE, "Expected '{' before for body");
+    const body = this.loopBody();
+
+    return new ForStatement(
+      initializer,
+      condition,
+      update,
+      body,
+      forToken.line,
+      forToken.column
+    );
+  }
+
+  /**
+   * Parse do-while statement
+   * doWhileStmt → "do" "{" statement* "}" "while" "(" expression ")" ";"
+   */
+  private doWhileStatement(): DoWhileStatement {
+    const doToken = this.previous();
+
+    this.consume(TokenType.LEFT_BRACE, "Expected '{' after 'do'");
+    const body = this.loopBody();
+
+    this.consume(TokenType.WHILE, "Expected 'while' after do body");
+    this.consume(TokenType.LEFT_PAREN, "Expected '(' after 'while'");
+    const condition = this.expression();
+    this.consume(TokenType.RIGHT_PAREN, "Expected ')' after while condition");
+    this.consume(TokenType.SEMICOLON, "Expected ';' after do-while");
+
+    return new DoWhileStatement(body, condition, doToken.line, doToken.column);
+  }
+
+  /**
+   * Parse break or continue statement
+   * breakStmt → "break" ";"
+   * continueStmt → "continue" ";"
+   */
+  private loopControlStatement(): BreakStatement | ContinueStatement {
+    const token = this.previous();
+
+    if (this.loopDepth === 0) {
+      throw new ParseError(`'${token.value}' outside of a loop`, token);
+    }
+    this.consume(TokenType.SEMICOLON, `Expected ';' after '${token.value}'`);
+
+    return token.type === TokenType.BREAK
+      ? new BreakStatement(token.line, token.column)
+      : new ContinueStatement(token.line, token.column);
+  }
+
+  /**
+   * Parse the block of a loop, where break and continue are allowed
+   */
+  private loopBody(): Statement[] {
+    this.loopDepth++;
+    try {
+      return this.block();
+    } finally {
+      this.loopDepth--;
+    }
+  }
+
   /**
    * Parse halt statement
    * haltStmt → "halt" ";"
@@ -342,17 +851,22 @@ export class Parser {
   private block(): Statement[] {
     const statements: Statement[] = [];
 
-    while (!this.check(TokenType.RIGHT_BRACE) && !this.isAtEnd()) {
-      // Skip newlines in blocks
-      if (this.check(TokenType.NEWLINE)) {
-        this.advance();
-        continue;
-      }
-
-      const stmt = this.statement();
-      if (stmt) {
-        statements.push(stmt);
+    this.blockDepth++;
+    try {
+      while (!this.check(TokenType.RIGHT_BRACE) && !this.isAtEnd()) {
+        // Skip newlines in blocks
+        if (this.check(TokenType.NEWLINE)) {
+          this.advance();
+          continue;
+        }
+
+        const stmt = this.statement();
+        if (stmt) {
+          statements.push(stmt);
+        }
       }
+    } finally {
+      this.blockDepth--;
     }
 
     this.consume(TokenType.RIGHT_BRACE, "Expected '}' after block");
@@ -361,10 +875,54 @@ export class Parser {
 
   /**
    * Parse expression
-   * expression → equality
+   * expression → logicOr
    */
   private expression(): Expression {
-    return this.equality();
+    return this.logicOr();
+  }
+
+  /**
+   * Parse logical or expressions
+   * logicOr → logicAnd ( "||" logicAnd )*
+   */
+  private logicOr(): Expression {
+    let expr = this.logicAnd();
+
+    while (this.match(TokenType.OR)) {
+      const operator = this.previous().value;
+      const right = this.logicAnd();
+      expr = new BinaryExpression(
+        expr,
+        operator,
+        right,
+        expr.line,
+        expr.column
+      );
+    }
+
+    return expr;
+  }
+
+  /**
+   * Parse logical and expressions
+   * logicAnd → equality ( "&&" equality )*
+   */
+  private logicAnd(): Expression {
+    let expr = this.equality();
+
+    while (this.match(TokenType.AND)) {
+      const operator = this.previous().value;
+      const right = this.equality();
+      expr = new BinaryExpression(
+        expr,
+        operator,
+        right,
+        expr.line,
+        expr.column
+      );
+    }
+
+    return expr;
   }
 
   /**
@@ -442,12 +1000,12 @@ export class Parser {
 
   /**
    * Parse factor expressions
-   * factor → unary ( ( "/" | "*" ) unary )*
+   * factor → unary ( ( "/" | "*" | "%" ) unary )*
    */
   private factor(): Expression {
     let expr = this.unary();
 
-    while (this.match(TokenType.DIVIDE, TokenType.MULTIPLY)) {
+    while (this.match(TokenType.DIVIDE, TokenType.MULTIPLY, TokenType.MODULO)) {
       const operator = this.previous().value;
       const right = this.unary();
       expr = new BinaryExpression(
@@ -467,7 +1025,7 @@ export class Parser {
    * unary → ( "!" | "-" ) unary | primary
    */
   private unary(): Expression {
-    if (this.match(TokenType.MINUS)) {
+    if (this.match(TokenType.MINUS, TokenType.NOT)) {
       const operator = this.previous().value;
       const right = this.unary();
       return new UnaryExpression(
@@ -483,7 +1041,7 @@ export class Parser {
 
   /**
    * Parse primary expressions
-   * primary → NUMBER | IDENTIFIER | "(" expression ")"
+   * primary → NUMBER | call | IDENTIFIER ( "[" expression "]" )? | "(" expression ")"
    */
   private primary(): Expression {
     if (this.match(TokenType.NUMBER)) {
@@ -495,8 +1053,20 @@ export class Parser {
       );
     }
 
+    if (
+      this.check(TokenType.IDENTIFIER) &&
+      this.checkNext(TokenType.LEFT_PAREN)
+    ) {
+      return this.call();
+    }
+
     if (this.match(TokenType.IDENTIFIER)) {
       const token = this.previous();
+      if (this.match(TokenType.LEFT_BRACKET)) {
+        const index = this.expression();
+        this.consume(TokenType.RIGHT_BRACKET, "Expected ']' after array index");
+        return new ArrayAccess(token.value, index, token.line, token.column);
+      }
       return new Identifier(token.value, token.line, token.column);
     }
 
@@ -535,6 +1105,10 @@ export class Parser {
     return this.peek().type === type;
   }
 
+  private checkNext(type: TokenType): boolean {
+    return this.tokens[this.current + 1]?.type === type;
+  }
+
   private advance(): Token {
     if (!this.isAtEnd()) this.current++;
     return this.previous();
@@ -569,7 +1143,13 @@ export class Parser {
         case TokenType.BOOL:
         case TokenType.IF:
         case TokenType.WHILE:
+        case TokenType.FOR:
+        case TokenType.DO:
+        case TokenType.BREAK:
+        case TokenType.CONTINUE:
         case TokenType.HALT:
+        case TokenType.VOID:
+        case TokenType.RETURN:
           return;
       }
 
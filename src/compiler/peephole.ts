@@ -0,0 +1,475 @@
+// Peephole optimizer - Local rewrites of the generated instruction stream
+import { GeneratedInstruction } from './codegen';
+import { MemoryLayout, DEFAULT_LAYOUT } from './memmap';
+import { OPCODES } from '../core/opcodes';
+
+export type OptimizationLevel = 0 | 1 | 2;
+
+export interface PeepholeReport {
+  level: OptimizationLevel;
+  wordsBefore: number;
+  wordsAfter: number;
+  wordsSaved: number;
+  stepsSaved: number; // Static estimate, see LOOP_WEIGHT
+  rewrites: Record<string, number>; // Rule name -> times applied
+}
+
+export interface PeepholeResult {
+  instructions: GeneratedInstruction[];
+  report: PeepholeReport;
+}
+
+interface PeepholeRule {
+  name: string;
+  level: OptimizationLevel;
+  apply: (index: number) => boolean;
+}
+
+// Assumed number of iterations per enclosing loop when estimating steps
+const LOOP_WEIGHT = 10;
+
+// Opcodes that read their operand address
+const READS = new Set<number>([
+  OPCODES.TAKE,
+  OPCODES.ADD,
+  OPCODES.SUB,
+  OPCODES.TST,
+]);
+
+// Opcodes that only write their operand address (INC/DEC read it only to
+// update it, so an address touched by nothing else is still dead)
+const WRITES = new Set<number>([
+  OPCODES.SAVE,
+  OPCODES.NULL,
+  OPCODES.INC,
+  OPCODES.DEC,
+]);
+
+/**
+ * Rewrites naive CodeGenerator output before it reaches the Emitter.
+ *
+ * -O1 applies rewrites that look at neighbouring words only: redundant
+ * SAVE/TAKE pairs, jumps to the next word and no-op DATA words.
+ * -O2 also uses whole-program facts: jump chains, unreachable words,
+ * stores to temps and constants that are never read, and temps that only
+ * ever hold a constant.
+ *
+ * Words that are read or patched as data (return slots, array accesses,
+ * the constant pool) and the word after a TST, which TST may skip, are
+ * never moved or removed.
+ */
+export class PeepholeOptimizer {
+  private readonly level: OptimizationLevel;
+  private readonly layout: MemoryLayout;
+  private code: GeneratedInstruction[] = [];
+  private stepsSaved = 0;
+  private rewrites: Record<string, number> = {};
+
+  constructor(level: OptimizationLevel, layout: MemoryLayout = DEFAULT_LAYOUT) {
+    this.level = level;
+    this.layout = layout;
+  }
+
+  /**
+   * Optimize a generated instruction stream; the input is not modified
+   */
+  optimize(instructions: GeneratedInstruction[]): PeepholeResult {
+    this.code = instructions.map(instr => ({ ...instr }));
+    this.stepsSaved = 0;
+    this.rewrites = {};
+
+    const rules = this.rules().filter(rule => rule.level <= this.level);
+    let changed = rules.length > 0;
+    while (changed) {
+      changed = false;
+      for (let i = 0; i < this.code.length; i++) {
+        for (const rule of rules) {
+          if (i < this.code.length && rule.apply(i)) {
+            this.rewrites[rule.name] = (this.rewrites[rule.name] ?? 0) + 1;
+            changed = true;
+          }
+        }
+      }
+    }
+
+    return {
+      instructions: this.code,
+      report: {
+        level: this.level,
+        wordsBefore: instructions.length,
+        wordsAfter: this.code.length,
+        wordsSaved: instructions.length - this.code.length,
+        stepsSaved: this.stepsSaved,
+        rewrites: this.rewrites,
+      },
+    };
+  }
+
+  private rules(): PeepholeRule[] {
+    return [
+      { name: 'empty-word', level: 1, apply: i => this.removeEmptyWord(i) },
+      { name: 'store-load', level: 1, apply: i => this.removeStoreLoad(i) },
+      { name: 'load-store', level: 1, apply: i => this.removeLoadStore(i) },
+      { name: 'jump-next', level: 1, apply: i => this.removeJumpToNext(i) },
+      { name: 'jump-chain', level: 2, apply: i => this.threadJump(i) },
+      { name: 'unreachable', level: 2, apply: i => this.removeUnreachable(i) },
+      {
+        name: 'constant-temp',
+        level: 2,
+        apply: i => this.forwardConstantTemp(i),
+      },
+      { name: 'dead-store', level: 2, apply: i => this.removeDeadStore(i) },
+      { name: 'dead-load', level: 2, apply: i => this.removeDeadLoad(i) },
+    ];
+  }
+
+  /**
+   * DATA 0 words are block labels and call landing points that do nothing
+   */
+  private removeEmptyWord(i: number): boolean {
+    const instr = this.code[i];
+    if (
+      instr.opcode !== OPCODES.DATA ||
+      instr.operand !== 0 ||
+      instr.target !== undefined ||
+      !this.isMovable(i)
+    ) {
+      return false;
+    }
+    return this.remove(i);
+  }
+
+  /**
+   * SAVE a; TAKE a - the accumulator already holds a
+   */
+  private removeStoreLoad(i: number): boolean {
+    const save = this.code[i];
+    const take = this.code[i + 1];
+    if (
+      !take ||
+      save.opcode !== OPCODES.SAVE ||
+      take.opcode !== OPCODES.TAKE ||
+      !this.sameAddress(save, take) ||
+      this.isSkippable(i) ||
+      take.label !== undefined
+    ) {
+      return false;
+    }
+    return this.remove(i + 1);
+  }
+
+  /**
+   * TAKE a; SAVE a - a already holds the accumulator
+   */
+  private removeLoadStore(i: number): boolean {
+    const take = this.code[i];
+    const save = this.code[i + 1];
+    if (
+      !save ||
+      take.opcode !== OPCODES.TAKE ||
+      save.opcode !== OPCODES.SAVE ||
+      !this.sameAddress(take, save) ||
+      this.isSkippable(i) ||
+      save.label !== undefined
+    ) {
+      return false;
+    }
+    return this.remove(i + 1);
+  }
+
+  private removeJumpToNext(i: number): boolean {
+    const instr = this.code[i];
+    if (
+      instr.opcode !== OPCODES.JMP ||
+      instr.target === undefined ||
+      this.indexOfLabel(instr.target) !== i + 1 ||
+      !this.isMovable(i)
+    ) {
+      return false;
+    }
+    return this.remove(i);
+  }
+
+  /**
+   * JMP a where a: JMP b - jump to b directly
+   */
+  private threadJump(i: number): boolean {
+    const instr = this.code[i];
+    if (
+      instr.opcode !== OPCODES.JMP ||
+      instr.target === undefined ||
+      this.dataLabels().has(instr.label ?? '')
+    ) {
+      return false;
+    }
+
+    const destination = this.followJumps(instr.target);
+    if (destination === undefined || destination === instr.target) {
+      return false;
+    }
+
+    this.stepsSaved += this.weight(i);
+    instr.target = destination;
+    instr.comment = `Jump to ${destination}`;
+    return true;
+  }
+
+  /**
+   * Label of the first word reached from label that is not a plain JMP,
+   * or undefined for jump cycles
+   */
+  private followJumps(label: string): string | undefined {
+    const seen = new Set<string>();
+    let current = label;
+    while (!seen.has(current)) {
+      seen.add(current);
+      const word = this.code[this.indexOfLabel(current)];
+      if (
+        !word ||
+        word.opcode !== OPCODES.JMP ||
+        word.target === undefined ||
+        this.dataLabels().has(current)
+      ) {
+        return current;
+      }
+      current = word.target;
+    }
+    return undefined;
+  }
+
+  /**
+   * Unlabelled words after an unconditional JMP or HLT are never executed
+   */
+  private removeUnreachable(i: number): boolean {
+    const previous = this.code[i - 1];
+    if (
+      !previous ||
+      (previous.opcode !== OPCODES.JMP && previous.opcode !== OPCODES.HLT) ||
+      this.isSkippable(i - 1) ||
+      this.code[i].label !== undefined
+    ) {
+      return false;
+    }
+
+    // Not executed, so no steps are saved
+    this.code.splice(i, 1);
+    return true;
+  }
+
+  /**
+   * TAKE c; SAVE t with t written nowhere else - read c instead of t.
+   * c is CONST_0, CONST_1 or a pooled constant, none of which change.
+   */
+  private forwardConstantTemp(i: number): boolean {
+    const take = this.code[i];
+    const save = this.code[i + 1];
+    if (
+      !save ||
+      take.opcode !== OPCODES.TAKE ||
+      save.opcode !== OPCODES.SAVE ||
+      save.target !== undefined ||
+      save.label !== undefined ||
+      !this.isTemp(save.operand) ||
+      this.isSkippable(i) ||
+      !this.isConstantSource(take)
+    ) {
+      return false;
+    }
+
+    const temp = save.operand;
+    const writes = this.code.filter(
+      instr =>
+        WRITES.has(instr.opcode) &&
+        instr.target === undefined &&
+        instr.operand === temp
+    );
+    if (writes.length !== 1) {
+      return false;
+    }
+
+    let forwarded = false;
+    for (const instr of this.code) {
+      if (
+        READS.has(instr.opcode) &&
+        instr.target === undefined &&
+        instr.operand === temp
+      ) {
+        instr.operand = take.operand;
+        instr.target = take.target;
+        forwarded = true;
+      }
+    }
+    return forwarded;
+  }
+
+  /**
+   * Writes to temps and constants that no instruction ever reads
+   */
+  private removeDeadStore(i: number): boolean {
+    const instr = this.code[i];
+    if (
+      !WRITES.has(instr.opcode) ||
+      instr.target !== undefined ||
+      !this.isScratch(instr.operand) ||
+      !this.isMovable(i)
+    ) {
+      return false;
+    }
+
+    const read = this.code.some(
+      other =>
+        READS.has(other.opcode) &&
+        other.target === undefined &&
+        other.operand === instr.operand
+    );
+    return !read && this.remove(i);
+  }
+
+  /**
+   * Accumulator results overwritten by the following TAKE
+   */
+  private removeDeadLoad(i: number): boolean {
+    const instr = this.code[i];
+    const next = this.code[i + 1];
+    if (
+      !next ||
+      (instr.opcode !== OPCODES.TAKE &&
+        instr.opcode !== OPCODES.ADD &&
+        instr.opcode !== OPCODES.SUB) ||
+      next.opcode !== OPCODES.TAKE ||
+      next.label !== undefined ||
+      !this.isMovable(i)
+    ) {
+      return false;
+    }
+    return this.remove(i);
+  }
+
+  /**
+   * Remove the word at index; its label moves to the following word
+   */
+  private remove(index: number): boolean {
+    const removed = this.code[index];
+    const next = this.code[index + 1];
+    if (removed.label !== undefined) {
+      if (!next) {
+        return false;
+      }
+      if (next.label === undefined) {
+        next.label = removed.label;
+        next.comment = next.comment
+          ? `${removed.label}: ${next.comment}`
+          : `Block: ${removed.label}`;
+      } else {
+        for (const instr of this.code) {
+          if (instr.target === removed.label) {
+            instr.target = next.label;
+          }
+        }
+      }
+    }
+
+    this.stepsSaved += this.weight(index);
+    this.code.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * A word may be removed unless TST can skip it or it is used as data
+   */
+  private isMovable(index: number): boolean {
+    const instr = this.code[index];
+    return (
+      !this.isSkippable(index) &&
+      (instr.label === undefined || !this.dataLabels().has(instr.label))
+    );
+  }
+
+  /**
+   * The word right after a TST is skipped when the tested cell is zero
+   */
+  private isSkippable(index: number): boolean {
+    return this.code[index - 1]?.opcode === OPCODES.TST;
+  }
+
+  /**
+   * Labels referenced by anything but a JMP are read or patched as data
+   */
+  private dataLabels(): Set<string> {
+    const labels = new Set<string>();
+    for (const instr of this.code) {
+      if (instr.target !== undefined && instr.opcode !== OPCODES.JMP) {
+        labels.add(instr.target);
+      }
+    }
+    return labels;
+  }
+
+  private indexOfLabel(label: string): number {
+    return this.code.findIndex(instr => instr.label === label);
+  }
+
+  private sameAddress(a: GeneratedInstruction, b: GeneratedInstruction) {
+    return (
+      a.target === undefined &&
+      b.target === undefined &&
+      a.operand === b.operand
+    );
+  }
+
+  private isTemp(address: number): boolean {
+    return (
+      address >= this.layout.TEMPS_START && address <= this.layout.TEMPS_END
+    );
+  }
+
+  /**
+   * Temps and the CONST cells are compiler-owned; user variables are not
+   */
+  private isScratch(address: number): boolean {
+    return (
+      this.isTemp(address) ||
+      address === this.layout.CONST_0 ||
+      address === this.layout.CONST_1
+    );
+  }
+
+  private isConstantSource(take: GeneratedInstruction): boolean {
+    if (take.target !== undefined) {
+      return take.target.startsWith('const_');
+    }
+    return (
+      take.operand === this.layout.CONST_0 ||
+      take.operand === this.layout.CONST_1
+    );
+  }
+
+  /**
+   * Estimated executions of the word at index: LOOP_WEIGHT per backward
+   * jump around it
+   */
+  private weight(index: number): number {
+    const dataLabels = this.dataLabels();
+    const labels = new Map<string, number>();
+    this.code.forEach((instr, i) => {
+      if (instr.label !== undefined) labels.set(instr.label, i);
+    });
+
+    let depth = 0;
+    for (let j = index + 1; j < this.code.length; j++) {
+      const instr = this.code[j];
+      if (
+        instr.opcode !== OPCODES.JMP ||
+        instr.target === undefined ||
+        dataLabels.has(instr.label ?? '')
+      ) {
+        continue;
+      }
+      const target = labels.get(instr.target);
+      if (target !== undefined && target <= index) {
+        depth++;
+      }
+    }
+    return LOOP_WEIGHT ** depth;
+  }
+}
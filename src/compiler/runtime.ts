@@ -0,0 +1,128 @@
+// Runtime library - Shared subroutines for operators too big to inline everywhere
+import { BasicBlock, IRBinary, Symbol } from './ir';
+import { controlFlowSuccessors } from './optimizer';
+
+// inline expands every operator, call uses the library wherever it can
+export type RuntimeMode = 'inline' | 'call' | 'auto';
+
+export type RoutineName = 'mul' | 'divmod' | 'cmp';
+
+interface Routine {
+  operators: Record<string, string>; // Operator -> result word it reads
+  inlineWords: Record<string, [number, number]>; // Per operator: normal, fastMulDiv
+  bodyWords: [number, number]; // Routine code including its return slot
+}
+
+// Arguments and results are globals named "$routine.name", which no Johnny C
+// identifier can clash with
+export const ROUTINES: Record<RoutineName, Routine> = {
+  mul: {
+    operators: { '*': '$mul.result' },
+    inlineWords: { '*': [19, 34] },
+    bodyWords: [20, 35],
+  },
+  divmod: {
+    operators: { '/': '$divmod.quotient', '%': '$divmod.remainder' },
+    inlineWords: { '/': [20, 39], '%': [20, 39] },
+    bodyWords: [23, 42],
+  },
+  cmp: {
+    operators: { '==': '$cmp.eq', '!=': '$cmp.ne' },
+    inlineWords: { '==': [13, 13], '!=': [10, 10] },
+    bodyWords: [14, 14],
+  },
+};
+
+// Copy both arguments, patch the return slot, jump, land, read the result,
+// plus the return jump in the constant pool
+export const CALL_WORDS = 11;
+
+export interface RuntimePlan {
+  calls: Map<IRBinary, RoutineName>; // Sites that call instead of inlining
+  symbols: Map<string, Symbol>; // Arguments and results of linked routines
+}
+
+/**
+ * Routine that implements an operator, if any. Ordered comparisons are
+ * shorter inline (6-7 words) than any call, so they have none.
+ */
+export function routineFor(op: string): RoutineName | undefined {
+  return (Object.keys(ROUTINES) as RoutineName[]).find(
+    name => op in ROUTINES[name].operators
+  );
+}
+
+/**
+ * Choose per site whether to call a routine. In auto mode sites inside
+ * loops stay inline for speed; the others call a routine when together
+ * they save more words than the routine costs.
+ */
+export function planRuntime(
+  blocks: BasicBlock[],
+  mode: RuntimeMode,
+  fastMulDiv = false
+): RuntimePlan {
+  const plan: RuntimePlan = { calls: new Map(), symbols: new Map() };
+  if (mode === 'inline') return plan;
+
+  const hot = loopBlocks(blocks);
+  const sites = new Map<RoutineName, IRBinary[]>();
+  for (const block of blocks) {
+    if (mode === 'auto' && hot.has(block)) continue;
+    for (const instr of block.instructions) {
+      const routine = instr instanceof IRBinary && routineFor(instr.op);
+      if (routine) {
+        sites.set(routine, [...(sites.get(routine) ?? []), instr as IRBinary]);
+      }
+    }
+  }
+
+  const variant = fastMulDiv ? 1 : 0;
+  for (const [name, calls] of sites) {
+    const routine = ROUTINES[name];
+    const saved = calls.reduce(
+      (words, site) =>
+        words + routine.inlineWords[site.op][variant] - CALL_WORDS,
+      0
+    );
+    if (mode === 'auto' && saved <= routine.bodyWords[variant]) continue;
+
+    calls.forEach(site => plan.calls.set(site, name));
+    for (const symbol of routineSymbols(name)) {
+      plan.symbols.set(symbol, { name: symbol, type: 'int', isTemp: false });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Argument and result words of a routine
+ */
+export function routineSymbols(name: RoutineName): string[] {
+  return [
+    `$${name}.a`,
+    `$${name}.b`,
+    ...Object.values(ROUTINES[name].operators),
+  ];
+}
+
+/**
+ * Blocks on a control-flow cycle, i.e. that can reach themselves
+ */
+function loopBlocks(blocks: BasicBlock[]): Set<BasicBlock> {
+  const hot = new Set<BasicBlock>();
+  for (const block of blocks) {
+    const seen = new Set<BasicBlock>();
+    const pending = controlFlowSuccessors(blocks, block);
+    while (pending.length > 0 && !seen.has(block)) {
+      const next = pending.pop() as BasicBlock;
+      if (!seen.has(next)) {
+        seen.add(next);
+        pending.push(...controlFlowSuccessors(blocks, next));
+      }
+    }
+    if (seen.has(block)) hot.add(block);
+  }
+  return hot;
+}
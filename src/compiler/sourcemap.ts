@@ -0,0 +1,112 @@
+// Source map - Links emitted RAM addresses to the Johnny C lines they came from
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, dirname, relative, resolve } from 'node:path';
+import { GeneratedInstruction } from './codegen';
+
+export interface SourceMapEntry {
+  address: number;
+  line: number; // 1-based, like Token.line
+  column: number;
+}
+
+// On-disk format of a .ram.map file
+interface SourceMapFile {
+  version: 1;
+  file?: string; // The .ram file, relative to the map
+  source?: string; // The .jcc file, relative to the map
+  mappings: SourceMapEntry[];
+}
+
+export class SourceMap {
+  private readonly byAddress = new Map<number, SourceMapEntry>();
+
+  /**
+   * @param entries One entry per mapped address, in address order
+   * @param source Absolute path of the Johnny C file, when known
+   */
+  constructor(
+    public readonly entries: SourceMapEntry[],
+    public readonly source?: string
+  ) {
+    for (const entry of entries) {
+      this.byAddress.set(entry.address, entry);
+    }
+  }
+
+  /**
+   * Build a map from code generator output (instruction index = RAM address)
+   */
+  static fromInstructions(
+    instructions: GeneratedInstruction[],
+    source?: string
+  ): SourceMap {
+    const entries: SourceMapEntry[] = [];
+    instructions.forEach((instr, address) => {
+      if (instr.line !== undefined) {
+        entries.push({ address, line: instr.line, column: instr.column ?? 1 });
+      }
+    });
+    return new SourceMap(entries, source);
+  }
+
+  /**
+   * Parse a .ram.map file; the source path is resolved relative to it
+   */
+  static parse(json: string, mapFile: string): SourceMap {
+    const data = JSON.parse(json) as SourceMapFile;
+    if (data.version !== 1 || !Array.isArray(data.mappings)) {
+      throw new Error(`Unsupported source map format in ${mapFile}`);
+    }
+
+    const source = data.source
+      ? resolve(dirname(mapFile), data.source)
+      : undefined;
+    return new SourceMap(data.mappings, source);
+  }
+
+  /**
+   * Load the source map that belongs to a .ram file, if one was generated
+   */
+  static loadFor(ramFile: string): SourceMap | undefined {
+    const mapFile = SourceMap.pathFor(ramFile);
+    if (!existsSync(mapFile)) return undefined;
+    return SourceMap.parse(readFileSync(mapFile, 'utf8'), mapFile);
+  }
+
+  /**
+   * Path of the source map written next to a .ram file
+   */
+  static pathFor(ramFile: string): string {
+    return `${ramFile}.map`;
+  }
+
+  /**
+   * Source position of the instruction at an address
+   */
+  lookup(address: number): SourceMapEntry | undefined {
+    return this.byAddress.get(address);
+  }
+
+  /**
+   * All addresses generated from a line, lowest first
+   */
+  addressesForLine(line: number): number[] {
+    return this.entries
+      .filter(entry => entry.line === line)
+      .map(entry => entry.address);
+  }
+
+  /**
+   * Serialize as a .ram.map file stored next to the given .ram file
+   */
+  serialize(ramFile: string): string {
+    const mapDir = dirname(resolve(ramFile));
+    const data: SourceMapFile = {
+      version: 1,
+      file: basename(ramFile),
+      ...(this.source ? { source: relative(mapDir, this.source) } : {}),
+      mappings: this.entries,
+    };
+    return JSON.stringify(data, null, 2) + '\n';
+  }
+}
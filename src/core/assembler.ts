@@ -0,0 +1,308 @@
+// JOHNNY Symbolic Assembler - Translates .jasm assembly into RAM images
+import { OpcodeMapping } from '../types';
+import { DEFAULT_OPCODE_MAPPING, JOHNNY_CONFIG, OPCODES } from './opcodes';
+import { encode } from './codec';
+import { ParseResult } from './parser';
+
+export interface AssemblyResult extends ParseResult {
+  symbols: Map<string, number>; // Maps label/constant name to its value
+}
+
+interface SourceStatement {
+  lineNumber: number;
+  address: number;
+  mnemonic: string;
+  operand: string;
+}
+
+class AssemblyError extends Error {}
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DIRECTIVES = new Set(['DATA', 'ORG', 'EQU']);
+
+export class JohnnyAssembler {
+  private readonly mnemonics = new Map<string, number>();
+  private readonly operandRequired = new Map<number, boolean>();
+  private errors: string[] = [];
+  private warnings: string[] = [];
+  private lineMapping: Map<number, number> = new Map();
+  private symbols: Map<string, number> = new Map();
+
+  constructor(opcodeMapping: OpcodeMapping = DEFAULT_OPCODE_MAPPING) {
+    for (const [opcode, info] of Object.entries(opcodeMapping)) {
+      const code = Number.parseInt(opcode, 10);
+      if (code === OPCODES.DATA) continue; // DATA is handled as a directive
+      this.mnemonics.set(info.name.toUpperCase(), code);
+      this.operandRequired.set(code, info.hasOperand);
+    }
+  }
+
+  /**
+   * Assemble .jasm source into a RAM image
+   *
+   * Syntax (one statement per line, comments start with ;, # or //):
+   *   loop:  TST count      ; label + mnemonic + operand expression
+   *   count: DATA 5         ; named data word
+   *          ORG 100        ; continue assembling at address 100
+   *   SIZE   EQU 10         ; named constant
+   *          JMP table+3    ; operands accept +, -, * and parentheses
+   */
+  assemble(content: string): AssemblyResult {
+    this.errors = [];
+    this.warnings = [];
+    this.lineMapping.clear();
+    this.symbols = new Map();
+
+    const ram: number[] = new Array(JOHNNY_CONFIG.MEMORY_SIZE).fill(0);
+    const statements = this.collectStatements(content.split('\n'));
+
+    for (const statement of statements) {
+      try {
+        ram[statement.address] = this.encodeStatement(statement);
+        this.lineMapping.set(statement.address, statement.lineNumber);
+      } catch (error) {
+        this.errors.push(
+          `Line ${statement.lineNumber}: ${(error as Error).message}`
+        );
+      }
+    }
+
+    return {
+      ram,
+      errors: [...this.errors],
+      warnings: [...this.warnings],
+      lineMapping: new Map(this.lineMapping),
+      symbols: new Map(this.symbols),
+    };
+  }
+
+  /**
+   * Assemble from file path
+   */
+  assembleFile(filePath: string): AssemblyResult {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const fs = require('fs');
+    try {
+      const content = fs.readFileSync(filePath, 'utf8');
+      return this.assemble(content);
+    } catch (error) {
+      return {
+        ram: new Array(JOHNNY_CONFIG.MEMORY_SIZE).fill(0),
+        errors: [
+          `Failed to read file ${filePath}: ${(error as Error).message}`,
+        ],
+        warnings: [],
+        lineMapping: new Map(),
+        symbols: new Map(),
+      };
+    }
+  }
+
+  /**
+   * First pass: define labels, process ORG/EQU and assign addresses
+   */
+  private collectStatements(lines: string[]): SourceStatement[] {
+    const statements: SourceStatement[] = [];
+    const occupied = new Map<number, number>(); // address -> line number
+    let locationCounter = 0;
+
+    lines.forEach((line, lineIndex) => {
+      const lineNumber = lineIndex + 1;
+      try {
+        let rest = line.split(/(;|#|\/\/)/)[0].trim();
+
+        // Leading labels ("name:"), possibly several on one line
+        let labelMatch = rest.match(/^([A-Za-z_][A-Za-z0-9_]*)\s*:/);
+        while (labelMatch) {
+          this.defineSymbol(labelMatch[1], locationCounter);
+          rest = rest.slice(labelMatch[0].length).trim();
+          labelMatch = rest.match(/^([A-Za-z_][A-Za-z0-9_]*)\s*:/);
+        }
+
+        if (rest === '') return;
+
+        const [first, ...others] = rest.split(/\s+/);
+
+        // Named constant: NAME EQU expression
+        if (others.length > 0 && others[0].toUpperCase() === 'EQU') {
+          if (!IDENTIFIER.test(first)) {
+            throw new AssemblyError(`Invalid constant name '${first}'`);
+          }
+          const expression = others.slice(1).join(' ');
+          this.defineSymbol(first, this.evaluate(expression, false));
+          return;
+        }
+
+        const mnemonic = first.toUpperCase();
+        const operand = others.join(' ');
+
+        if (mnemonic === 'ORG') {
+          const address = this.evaluate(operand, false);
+          if (address < 0 || address >= JOHNNY_CONFIG.MEMORY_SIZE) {
+            throw new AssemblyError(
+              `ORG address ${address} outside valid range 0..${JOHNNY_CONFIG.MEMORY_SIZE - 1}`
+            );
+          }
+          locationCounter = address;
+          return;
+        }
+
+        if (mnemonic === 'EQU') {
+          throw new AssemblyError('EQU requires a name: NAME EQU value');
+        }
+
+        if (!this.mnemonics.has(mnemonic) && !DIRECTIVES.has(mnemonic)) {
+          throw new AssemblyError(`Unknown mnemonic '${first}'`);
+        }
+
+        if (locationCounter >= JOHNNY_CONFIG.MEMORY_SIZE) {
+          throw new AssemblyError(
+            `Address ${locationCounter} >= ${JOHNNY_CONFIG.MEMORY_SIZE}, program does not fit into RAM`
+          );
+        }
+
+        const previousLine = occupied.get(locationCounter);
+        if (previousLine !== undefined) {
+          throw new AssemblyError(
+            `Address ${locationCounter} already used by line ${previousLine}`
+          );
+        }
+        occupied.set(locationCounter, lineNumber);
+
+        statements.push({
+          lineNumber,
+          address: locationCounter,
+          mnemonic,
+          operand,
+        });
+        locationCounter++;
+      } catch (error) {
+        this.errors.push(`Line ${lineNumber}: ${(error as Error).message}`);
+      }
+    });
+
+    return statements;
+  }
+
+  /**
+   * Second pass: resolve operand expressions and encode the word
+   */
+  private encodeStatement(statement: SourceStatement): number {
+    if (statement.mnemonic === 'DATA') {
+      const value =
+        statement.operand === '' ? 0 : this.evaluate(statement.operand, true);
+      if (value < 0 || value > JOHNNY_CONFIG.MAX_VALUE) {
+        throw new AssemblyError(
+          `Value ${value} outside valid range 0..${JOHNNY_CONFIG.MAX_VALUE}`
+        );
+      }
+      return value;
+    }
+
+    const opcode = this.mnemonics.get(statement.mnemonic) ?? OPCODES.DATA;
+
+    if (!this.operandRequired.get(opcode)) {
+      if (statement.operand !== '') {
+        throw new AssemblyError(`${statement.mnemonic} takes no operand`);
+      }
+      return encode(opcode);
+    }
+
+    if (statement.operand === '') {
+      throw new AssemblyError(`${statement.mnemonic} requires an operand`);
+    }
+
+    const operand = this.evaluate(statement.operand, true);
+    if (operand < 0 || operand >= JOHNNY_CONFIG.MEMORY_SIZE) {
+      throw new AssemblyError(
+        `Address operand ${operand} outside valid range 0..${JOHNNY_CONFIG.MEMORY_SIZE - 1}`
+      );
+    }
+
+    return encode(opcode, operand);
+  }
+
+  private defineSymbol(name: string, value: number): void {
+    if (this.symbols.has(name)) {
+      throw new AssemblyError(`Symbol '${name}' is already defined`);
+    }
+    if (this.mnemonics.has(name.toUpperCase()) || DIRECTIVES.has(name)) {
+      this.warnings.push(`Symbol '${name}' shadows a mnemonic`);
+    }
+    this.symbols.set(name, value);
+  }
+
+  /**
+   * Evaluate an operand expression
+   * expression → term ( ( "+" | "-" ) term )*
+   * term       → factor ( "*" factor )*
+   * factor     → NUMBER | IDENTIFIER | "-" factor | "(" expression ")"
+   */
+  private evaluate(expression: string, allowForward: boolean): number {
+    const tokens = expression.match(/\d+|[A-Za-z_][A-Za-z0-9_]*|\S/g) || [];
+    if (tokens.length === 0) {
+      throw new AssemblyError('Expected expression');
+    }
+
+    let position = 0;
+    const peek = (): string | undefined => tokens[position];
+
+    const factor = (): number => {
+      const token = tokens[position++];
+      if (token === undefined) {
+        throw new AssemblyError(`Unexpected end of expression '${expression}'`);
+      }
+      if (/^\d+$/.test(token)) {
+        return Number.parseInt(token, 10);
+      }
+      if (IDENTIFIER.test(token)) {
+        const value = this.symbols.get(token);
+        if (value === undefined) {
+          throw new AssemblyError(
+            allowForward
+              ? `Undefined symbol '${token}'`
+              : `Symbol '${token}' must be defined before use here`
+          );
+        }
+        return value;
+      }
+      if (token === '-') {
+        return -factor();
+      }
+      if (token === '(') {
+        const value = sum();
+        if (tokens[position++] !== ')') {
+          throw new AssemblyError(`Expected ')' in '${expression}'`);
+        }
+        return value;
+      }
+      throw new AssemblyError(`Unexpected '${token}' in '${expression}'`);
+    };
+
+    const term = (): number => {
+      let value = factor();
+      while (peek() === '*') {
+        position++;
+        value *= factor();
+      }
+      return value;
+    };
+
+    const sum = (): number => {
+      let value = term();
+      while (peek() === '+' || peek() === '-') {
+        const operator = tokens[position++];
+        value = operator === '+' ? value + term() : value - term();
+      }
+      return value;
+    };
+
+    const result = sum();
+    if (position < tokens.length) {
+      throw new AssemblyError(
+        `Unexpected '${tokens[position]}' in '${expression}'`
+      );
+    }
+    return result;
+  }
+}
@@ -0,0 +1,259 @@
+// JOHNNY Breakpoint Engine - Breakpoints, watchpoints and break conditions
+import { ExecutionState, MemoryAccess } from '../types';
+import { JOHNNY_CONFIG } from './opcodes';
+
+export type BreakpointKind = 'break' | 'watch' | 'rwatch';
+
+export interface Breakpoint {
+  id: number;
+  kind: BreakpointKind; // break: PC reached, watch: cell written, rwatch: cell read
+  address: number;
+  condition?: string; // Source of the condition, e.g. "acc > 100"
+  enabled: boolean;
+  hitCount: number;
+}
+
+export interface BreakpointHit {
+  breakpoint: Breakpoint;
+  access?: MemoryAccess; // Set for watchpoint hits
+}
+
+type Condition = (state: ExecutionState) => number;
+
+export class BreakpointManager {
+  private breakpoints = new Map<
+    number,
+    { breakpoint: Breakpoint; condition?: Condition }
+  >();
+  private nextId = 1;
+
+  /**
+   * Add a breakpoint or watchpoint, optionally guarded by a condition
+   *
+   * Conditions compare acc, pc, steps, mem[N] and numbers with
+   * ==, !=, <, <=, >, >= and combine them with && and ||.
+   */
+  add(kind: BreakpointKind, address: number, condition?: string): Breakpoint {
+    if (
+      !Number.isInteger(address) ||
+      address < 0 ||
+      address >= JOHNNY_CONFIG.MEMORY_SIZE
+    ) {
+      throw new Error(
+        `Address ${address} outside valid range 0..${JOHNNY_CONFIG.MEMORY_SIZE - 1}`
+      );
+    }
+
+    const breakpoint: Breakpoint = {
+      id: this.nextId++,
+      kind,
+      address,
+      enabled: true,
+      hitCount: 0,
+    };
+    if (condition) {
+      breakpoint.condition = condition.trim();
+    }
+
+    this.breakpoints.set(breakpoint.id, {
+      breakpoint,
+      condition: condition ? compileCondition(condition) : undefined,
+    });
+    return breakpoint;
+  }
+
+  /**
+   * Remove a breakpoint by id
+   */
+  remove(id: number): boolean {
+    return this.breakpoints.delete(id);
+  }
+
+  /**
+   * Remove all breakpoints
+   */
+  clear(): void {
+    this.breakpoints.clear();
+  }
+
+  /**
+   * Enable or disable a breakpoint without deleting it
+   */
+  setEnabled(id: number, enabled: boolean): boolean {
+    const entry = this.breakpoints.get(id);
+    if (!entry) return false;
+    entry.breakpoint.enabled = enabled;
+    return true;
+  }
+
+  /**
+   * All breakpoints in creation order
+   */
+  list(): Breakpoint[] {
+    return Array.from(this.breakpoints.values()).map(entry => ({
+      ...entry.breakpoint,
+    }));
+  }
+
+  /**
+   * Addresses of enabled PC breakpoints
+   */
+  breakAddresses(): Set<number> {
+    return new Set(
+      Array.from(this.breakpoints.values())
+        .map(entry => entry.breakpoint)
+        .filter(bp => bp.enabled && bp.kind === 'break')
+        .map(bp => bp.address)
+    );
+  }
+
+  /**
+   * Check PC breakpoints before the instruction at state.pc executes
+   */
+  checkLocation(state: ExecutionState): BreakpointHit | null {
+    return this.findHit(
+      state,
+      bp => bp.kind === 'break' && bp.address === state.pc
+    );
+  }
+
+  /**
+   * Check watchpoints against the memory access of the last instruction
+   * A write only counts when the value changed, like ExecutionTrace.ramChanged
+   */
+  checkAccess(
+    state: ExecutionState,
+    access: MemoryAccess
+  ): BreakpointHit | null {
+    const hit = this.findHit(
+      state,
+      bp =>
+        (bp.kind === 'watch' &&
+          (access.write?.address === bp.address ||
+            access.indirectWrites?.some(
+              write => write.address === bp.address
+            ))) ||
+        (bp.kind === 'rwatch' && access.read === bp.address)
+    );
+    return hit ? { ...hit, access } : null;
+  }
+
+  private findHit(
+    state: ExecutionState,
+    matches: (bp: Breakpoint) => boolean
+  ): BreakpointHit | null {
+    for (const { breakpoint, condition } of this.breakpoints.values()) {
+      if (!breakpoint.enabled || !matches(breakpoint)) continue;
+      if (condition && !condition(state)) continue;
+
+      breakpoint.hitCount++;
+      return { breakpoint: { ...breakpoint } };
+    }
+    return null;
+  }
+}
+
+/**
+ * Compile a break condition into a predicate
+ * or         → and ( "||" and )*
+ * and        → comparison ( "&&" comparison )*
+ * comparison → operand ( ( "==" | "!=" | "<" | "<=" | ">" | ">=" ) operand )?
+ * operand    → NUMBER | "acc" | "pc" | "steps" | "mem" "[" NUMBER "]" | "(" or ")"
+ */
+function compileCondition(source: string): Condition {
+  const tokens =
+    source.match(/\d+|[A-Za-z_]+|==|!=|<=|>=|&&|\|\||[<>()[\]]|\S/g) || [];
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid condition '${source.trim()}': ${message}`);
+  };
+  const expect = (token: string): void => {
+    if (tokens[position++] !== token) fail(`expected '${token}'`);
+  };
+
+  const operand = (): Condition => {
+    const token = tokens[position++];
+    if (token === undefined) return fail('unexpected end');
+
+    if (/^\d+$/.test(token)) {
+      const value = Number.parseInt(token, 10);
+      return () => value;
+    }
+
+    switch (token.toLowerCase()) {
+      case 'acc':
+        return state => state.acc;
+      case 'pc':
+        return state => state.pc;
+      case 'steps':
+        return state => state.steps;
+      case 'mem': {
+        expect('[');
+        const address = Number.parseInt(tokens[position++] ?? '', 10);
+        if (isNaN(address)) fail('mem[] needs a numeric address');
+        expect(']');
+        return state => state.ram[address] || 0;
+      }
+      case '(': {
+        const inner = or();
+        expect(')');
+        return inner;
+      }
+      default:
+        return fail(`unexpected '${token}'`);
+    }
+  };
+
+  const comparison = (): Condition => {
+    const left = operand();
+    const operator = tokens[position];
+    if (!['==', '!=', '<', '<=', '>', '>='].includes(operator)) {
+      return left;
+    }
+    position++;
+    const right = operand();
+
+    switch (operator) {
+      case '==':
+        return state => Number(left(state) === right(state));
+      case '!=':
+        return state => Number(left(state) !== right(state));
+      case '<':
+        return state => Number(left(state) < right(state));
+      case '<=':
+        return state => Number(left(state) <= right(state));
+      case '>':
+        return state => Number(left(state) > right(state));
+      default:
+        return state => Number(left(state) >= right(state));
+    }
+  };
+
+  const and = (): Condition => {
+    let left = comparison();
+    while (tokens[position] === '&&') {
+      position++;
+      const lhs = left;
+      const rhs = comparison();
+      left = state => Number(lhs(state) !== 0 && rhs(state) !== 0);
+    }
+    return left;
+  };
+
+  const or = (): Condition => {
+    let left = and();
+    while (tokens[position] === '||') {
+      position++;
+      const lhs = left;
+      const rhs = and();
+      left = state => Number(lhs(state) !== 0 || rhs(state) !== 0);
+    }
+    return left;
+  };
+
+  if (tokens.length === 0) fail('empty condition');
+  const condition = or();
+  if (position < tokens.length) fail(`unexpected '${tokens[position]}'`);
+  return condition;
+}
@@ -0,0 +1,81 @@
+// JOHNNY instruction codec - The one place that knows the OOAAA word format
+import { ControlFlowEffect, OpcodeMapping } from '../types';
+import { DEFAULT_OPCODE_MAPPING, JOHNNY_CONFIG } from './opcodes';
+
+// A word is a two-digit opcode followed by a three-digit operand
+export const OPERAND_LIMIT = 1000;
+export const MAX_OPCODE = Math.floor(JOHNNY_CONFIG.MAX_VALUE / OPERAND_LIMIT);
+
+export interface DecodedWord {
+  opcode: number;
+  operand: number;
+}
+
+export type OperandKind = 'ADDRESS' | 'NONE';
+
+/**
+ * Split a word into opcode and operand
+ */
+export function decode(word: number): DecodedWord {
+  const value = word || 0; // Handle undefined/null cells
+  return {
+    opcode: Math.floor(value / OPERAND_LIMIT),
+    operand: value % OPERAND_LIMIT,
+  };
+}
+
+/**
+ * Build a word from opcode and operand
+ */
+export function encode(opcode: number, operand: number = 0): number {
+  if (!Number.isInteger(opcode) || opcode < 0 || opcode > MAX_OPCODE) {
+    throw new Error(`Opcode ${opcode} outside valid range 0..${MAX_OPCODE}`);
+  }
+  if (!Number.isInteger(operand) || operand < 0 || operand >= OPERAND_LIMIT) {
+    throw new Error(
+      `Operand ${operand} outside valid range 0..${OPERAND_LIMIT - 1}`
+    );
+  }
+  return opcode * OPERAND_LIMIT + operand;
+}
+
+/**
+ * Whether the operand of an opcode names a memory cell
+ */
+export function operandKind(
+  opcode: number,
+  mapping: OpcodeMapping = DEFAULT_OPCODE_MAPPING
+): OperandKind {
+  return mapping[opcode]?.operandType ?? 'NONE';
+}
+
+/**
+ * Control-flow effect of an opcode; DATA words and unknown opcodes fall through
+ */
+export function controlFlowEffect(
+  opcode: number,
+  mapping: OpcodeMapping = DEFAULT_OPCODE_MAPPING
+): ControlFlowEffect {
+  return mapping[opcode]?.flow ?? 'next';
+}
+
+/**
+ * Addresses execution can continue at after the word at address
+ */
+export function successors(
+  address: number,
+  word: number,
+  mapping: OpcodeMapping = DEFAULT_OPCODE_MAPPING
+): number[] {
+  const { opcode, operand } = decode(word);
+  switch (controlFlowEffect(opcode, mapping)) {
+    case 'jump':
+      return [operand];
+    case 'skip':
+      return [address + 1, address + 2];
+    case 'halt':
+      return [];
+    default:
+      return [address + 1];
+  }
+}
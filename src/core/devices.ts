@@ -0,0 +1,81 @@
+// Memory-mapped devices - Device addresses and the 7-segment display
+import { DeviceMap } from '../types';
+
+export type DeviceName = keyof DeviceMap;
+
+export const DEVICE_NAMES: DeviceName[] = ['input', 'output', 'display'];
+
+// Rows of each digit 0-9 as drawn by a 7-segment display
+const SEGMENTS = [
+  [' _ ', '| |', '|_|'],
+  ['   ', '  |', '  |'],
+  [' _ ', ' _|', '|_ '],
+  [' _ ', ' _|', ' _|'],
+  ['   ', '|_|', '  |'],
+  [' _ ', '|_ ', ' _|'],
+  [' _ ', '|_ ', '|_|'],
+  [' _ ', '  |', '  |'],
+  [' _ ', '|_|', '|_|'],
+  [' _ ', '|_|', ' _|'],
+];
+
+/**
+ * Device mapped at an address, if any
+ */
+export function deviceAt(
+  devices: DeviceMap,
+  address: number
+): DeviceName | undefined {
+  return DEVICE_NAMES.find(name => devices[name] === address);
+}
+
+/**
+ * Read device assignments like ["input=997", "output=998"]. Devices must
+ * sit on distinct memory cells.
+ */
+export function parseDeviceMap(
+  assignments: string[],
+  memorySize: number
+): DeviceMap {
+  const devices: DeviceMap = {};
+
+  for (const assignment of assignments) {
+    const [name, value] = assignment.split('=');
+    if (!DEVICE_NAMES.includes(name as DeviceName)) {
+      throw new Error(
+        `Unknown device '${name}', expected ${DEVICE_NAMES.join(', ')}`
+      );
+    }
+    const address = Number(value);
+    if (!Number.isInteger(address) || address < 0 || address >= memorySize) {
+      throw new Error(
+        `Device ${name} needs an address in 0..${memorySize - 1}, got '${value ?? ''}'`
+      );
+    }
+    const taken = deviceAt(devices, address);
+    if (taken && taken !== name) {
+      throw new Error(`Devices ${taken} and ${name} share address ${address}`);
+    }
+    devices[name as DeviceName] = address;
+  }
+
+  return devices;
+}
+
+/**
+ * Draw a value on a 7-segment display of the given width, returning its
+ * three rows. Leading digits stay dark, as does a blank display.
+ */
+export function renderSevenSegment(
+  value: number | null,
+  digits: number = 5
+): string[] {
+  const text = value === null ? '' : String(value).slice(-digits);
+  const cells = text.padStart(digits, ' ').split('');
+
+  return [0, 1, 2].map(row =>
+    cells
+      .map(cell => (cell === ' ' ? '   ' : SEGMENTS[Number(cell)][row]))
+      .join(' ')
+  );
+}
@@ -0,0 +1,229 @@
+// JOHNNY Disassembler - Turns RAM images back into labelled .jasm assembly
+import { OpcodeMapping } from '../types';
+import { DEFAULT_OPCODE_MAPPING, OPCODES } from './opcodes';
+import { ControlFlowAnalyzer } from './flowchart';
+import { controlFlowEffect, decode, operandKind } from './codec';
+
+export interface DisassemblyOptions {
+  includeAddresses?: boolean; // Append "; 012" address comments
+  header?: string; // Comment placed at the top of the listing
+  annotate?: (address: number) => string | undefined; // Extra comment per word
+}
+
+export interface DisassemblyResult {
+  source: string; // .jasm source that re-assembles to the same image
+  labels: Map<number, string>; // Invented label for each referenced address
+  codeAddresses: Set<number>; // Addresses classified as reachable code
+}
+
+// Zero runs shorter than this are written as DATA words instead of an ORG
+const ORG_GAP = 4;
+
+export class RamDisassembler {
+  private readonly opcodeMapping: OpcodeMapping;
+  private readonly flowAnalyzer: ControlFlowAnalyzer;
+
+  constructor(opcodeMapping: OpcodeMapping = DEFAULT_OPCODE_MAPPING) {
+    this.opcodeMapping = opcodeMapping;
+    this.flowAnalyzer = new ControlFlowAnalyzer(opcodeMapping);
+  }
+
+  /**
+   * Disassemble a RAM image into labelled assembly
+   */
+  disassemble(
+    ram: number[],
+    options: DisassemblyOptions = {}
+  ): DisassemblyResult {
+    const opts = { includeAddresses: true, ...options };
+    const codeAddresses = this.findCode(ram);
+    const labels = this.inventLabels(ram, codeAddresses);
+
+    const lastUsed = this.lastUsedAddress(ram, labels);
+    const labelWidth =
+      Math.max(0, ...Array.from(labels.values()).map(l => l.length)) + 2;
+
+    const lines: string[] = [];
+    if (opts.header) {
+      lines.push(...opts.header.split('\n').map(line => `; ${line}`), '');
+    }
+
+    let locationCounter = 0;
+    for (let addr = 0; addr <= lastUsed; addr++) {
+      const value = ram[addr] || 0;
+      const label = labels.get(addr);
+
+      if (value === 0 && !label) {
+        // Bridge short zero runs with DATA words, long ones with ORG
+        const runEnd = this.zeroRunEnd(ram, labels, addr, lastUsed);
+        if (runEnd - addr + 1 >= ORG_GAP) {
+          addr = runEnd;
+          continue;
+        }
+      }
+
+      if (addr !== locationCounter) {
+        lines.push('', `${''.padEnd(labelWidth)}ORG  ${addr}`);
+      }
+
+      const labelField = (label ? `${label}:` : '').padEnd(labelWidth);
+      const comments: string[] = [];
+      let statement: string;
+      if (codeAddresses.has(addr)) {
+        statement = this.formatInstruction(value, labels);
+      } else {
+        statement = `DATA ${value}`;
+        const hint = this.describeData(value);
+        if (hint) comments.push(hint);
+      }
+      if (opts.includeAddresses) {
+        comments.unshift(addr.toString().padStart(3, '0'));
+      }
+      const note = opts.annotate?.(addr);
+      if (note) comments.push(note);
+
+      let line = `${labelField}${statement}`;
+      if (comments.length > 0) {
+        line = `${line.padEnd(labelWidth + 20)}; ${comments.join(' ')}`;
+      }
+      lines.push(line.trimEnd());
+      locationCounter = addr + 1;
+    }
+
+    return {
+      source: lines.join('\n') + '\n',
+      labels,
+      codeAddresses,
+    };
+  }
+
+  /**
+   * Reachable, well-formed instructions are code; everything else is data
+   */
+  private findCode(ram: number[]): Set<number> {
+    const flowGraph = this.flowAnalyzer.analyzeFlow(ram);
+    const unreachable = new Set(flowGraph.unreachableNodes);
+    const code = new Set<number>();
+
+    for (const node of flowGraph.nodes) {
+      if (
+        !unreachable.has(node.address) &&
+        this.isInstruction(ram[node.address])
+      ) {
+        code.add(node.address);
+      }
+    }
+
+    return code;
+  }
+
+  private isInstruction(value: number): boolean {
+    const { opcode, operand } = decode(value);
+    const info = this.opcodeMapping[opcode];
+
+    if (opcode === OPCODES.DATA || !info) return false;
+    return info.hasOperand || operand === 0;
+  }
+
+  /**
+   * Name jump targets, TST skip targets and every referenced data cell
+   */
+  private inventLabels(
+    ram: number[],
+    codeAddresses: Set<number>
+  ): Map<number, string> {
+    const kinds = new Map<number, 'loop' | 'label' | 'skip' | 'var'>();
+    const sortedCode = Array.from(codeAddresses).sort((a, b) => a - b);
+
+    for (const addr of sortedCode) {
+      const { opcode, operand } = decode(ram[addr]);
+      const effect = controlFlowEffect(opcode, this.opcodeMapping);
+
+      if (effect === 'jump') {
+        kinds.set(operand, operand <= addr ? 'loop' : 'label');
+      } else if (effect === 'skip') {
+        if (!kinds.has(addr + 2) && codeAddresses.has(addr + 2)) {
+          kinds.set(addr + 2, 'skip');
+        }
+      }
+    }
+
+    for (const addr of sortedCode) {
+      const { opcode, operand } = decode(ram[addr]);
+
+      if (
+        controlFlowEffect(opcode, this.opcodeMapping) !== 'jump' &&
+        operandKind(opcode, this.opcodeMapping) === 'ADDRESS'
+      ) {
+        if (!kinds.has(operand)) {
+          kinds.set(operand, codeAddresses.has(operand) ? 'label' : 'var');
+        }
+      }
+    }
+
+    const labels = new Map<number, string>();
+    const counters = { loop: 0, label: 0, skip: 0 };
+    for (const addr of Array.from(kinds.keys()).sort((a, b) => a - b)) {
+      const kind = kinds.get(addr);
+      if (kind === 'var') {
+        labels.set(addr, `var${addr}`);
+      } else if (kind) {
+        labels.set(addr, `${kind}${++counters[kind]}`);
+      }
+    }
+
+    return labels;
+  }
+
+  private formatInstruction(
+    value: number,
+    labels: Map<number, string>
+  ): string {
+    const { opcode, operand } = decode(value);
+    const info = this.opcodeMapping[opcode];
+
+    if (!info.hasOperand) {
+      return info.name;
+    }
+    const label =
+      info.operandType === 'ADDRESS' ? labels.get(operand) : undefined;
+    return `${info.name.padEnd(4)} ${label ?? operand}`;
+  }
+
+  /**
+   * Show what a data word would decode to, e.g. self-modified code
+   */
+  private describeData(value: number): string | null {
+    const { opcode, operand } = decode(value);
+    const info = this.opcodeMapping[opcode];
+    if (opcode === OPCODES.DATA || !info) return null;
+    return `(${info.name}${info.hasOperand ? ` ${operand}` : ''})`;
+  }
+
+  private lastUsedAddress(ram: number[], labels: Map<number, string>): number {
+    let last = -1;
+    for (let addr = 0; addr < ram.length; addr++) {
+      if (ram[addr] !== 0 || labels.has(addr)) {
+        last = addr;
+      }
+    }
+    return last;
+  }
+
+  private zeroRunEnd(
+    ram: number[],
+    labels: Map<number, string>,
+    start: number,
+    lastUsed: number
+  ): number {
+    let end = start;
+    while (
+      end + 1 <= lastUsed &&
+      (ram[end + 1] || 0) === 0 &&
+      !labels.has(end + 1)
+    ) {
+      end++;
+    }
+    return end;
+  }
+}
@@ -1,5 +1,7 @@
 // Mermaid Flowchart Generator for JOHNNY RAM programs
-import { getInstructionName } from './opcodes';
+import { OpcodeMapping } from '../types';
+import { DEFAULT_OPCODE_MAPPING, OPCODES, getInstructionName } from './opcodes';
+import { controlFlowEffect, decode, successors } from './codec';
 
 export interface FlowNode {
   address: number;
@@ -25,6 +27,33 @@ export interface FlowGraph {
   unreachableNodes: number[];
 }
 
+export interface FlowBlock {
+  id: number;
+  instructions: FlowNode[]; // In address order
+}
+
+// Execution counts of one or more runs, overlaid by the heatmap mode
+export interface FlowHeatmap {
+  counts: number[]; // Executions per address, like ExecutionState.profile
+  taken: Map<string, number>; // Times each edge was followed, by edgeKey
+}
+
+// Heat levels from rarely to most often executed, as fill/stroke/text
+const HEAT_COLORS = [
+  ['#fff5eb', '#fdae6b', '#000'],
+  ['#fdd0a2', '#f16913', '#000'],
+  ['#fd8d3c', '#d94801', '#000'],
+  ['#e6550d', '#a63603', '#fff'],
+  ['#a63603', '#7f2704', '#fff'],
+];
+
+/**
+ * Key of the edge from one address to another in FlowHeatmap.taken
+ */
+export function edgeKey(from: number, to: number): string {
+  return `${from}->${to}`;
+}
+
 export interface AlgorithmicBlock {
   id: number;
   type: 'start' | 'end' | 'process' | 'decision' | 'loop';
@@ -38,6 +67,10 @@ export interface AlgorithmicBlock {
 }
 
 export class ControlFlowAnalyzer {
+  constructor(
+    private readonly opcodeMapping: OpcodeMapping = DEFAULT_OPCODE_MAPPING
+  ) {}
+
   /**
    * Analyze control flow of a RAM program
    */
@@ -51,30 +84,23 @@ export class ControlFlowAnalyzer {
       const instruction = ram[addr];
       if (instruction === 0) continue; // Skip empty memory
 
-      // Handle JOHNNY's compressed opcode format (01xxx -> 10, 02xxx -> 20, etc.)
-      const valueStr = instruction.toString().padStart(5, '0');
-      const opcodeDigits = Number.parseInt(valueStr.slice(0, 2), 10);
-      const opcode = opcodeDigits * 10; // Convert to actual opcode (01 -> 10, 02 -> 20, etc.)
-      const operand = Number.parseInt(valueStr.slice(2), 10);
-      const instructionName = getInstructionName(opcode);
+      const { opcode, operand } = decode(instruction);
+      const instructionName = getInstructionName(opcode, this.opcodeMapping);
 
       let nodeType: FlowNode['type'] = 'sequential';
 
-      switch (opcode) {
-        case 50: // JMP
+      switch (controlFlowEffect(opcode, this.opcodeMapping)) {
+        case 'jump':
           nodeType = 'jump';
           break;
-        case 60: // TST
+        case 'skip':
           nodeType = 'conditional';
           break;
-        case 100: // HLT
+        case 'halt':
           nodeType = 'terminal';
           break;
-        case 0: // DATA
-          nodeType = 'data';
-          break;
         default:
-          nodeType = 'sequential';
+          nodeType = opcode === OPCODES.DATA ? 'data' : 'sequential';
       }
 
       nodes.push({
@@ -91,12 +117,14 @@ export class ControlFlowAnalyzer {
     const entryPoint = 0;
     const exitPoints: number[] = [];
     this.traceReachability(
+      ram,
       nodes,
       edges,
       entryPoint,
       reachableAddresses,
       exitPoints
     );
+    nodes.sort((a, b) => a.address - b.address);
 
     // Find unreachable nodes
     const unreachableNodes = nodes
@@ -113,6 +141,7 @@ export class ControlFlowAnalyzer {
   }
 
   private traceReachability(
+    ram: number[],
     nodes: FlowNode[],
     edges: FlowEdge[],
     startAddr: number,
@@ -122,6 +151,23 @@ export class ControlFlowAnalyzer {
     const visited = new Set<number>();
     const queue = [startAddr];
 
+    // Empty words run as no-ops, so they fall through to code after them
+    const nodeAt = (address: number): FlowNode | undefined => {
+      let node = nodes.find(n => n.address === address);
+      if (!node && ram[address] === 0 && nodes.some(n => n.address > address)) {
+        node = {
+          address,
+          instruction: 0,
+          opcode: OPCODES.DATA,
+          operand: 0,
+          type: 'data',
+          instructionName: getInstructionName(OPCODES.DATA, this.opcodeMapping),
+        };
+        nodes.push(node);
+      }
+      return node;
+    };
+
     while (queue.length > 0) {
       const addr = queue.shift();
       if (addr === undefined) continue;
@@ -130,21 +176,20 @@ export class ControlFlowAnalyzer {
       visited.add(addr);
       reachable.add(addr);
 
-      const node = nodes.find(n => n.address === addr);
+      const node = nodeAt(addr);
       if (!node) continue;
 
-      switch (node.opcode) {
-        case 50: {
-          // JMP
-          const jumpTarget = node.operand;
+      const targets = successors(addr, node.instruction, this.opcodeMapping);
+      switch (controlFlowEffect(node.opcode, this.opcodeMapping)) {
+        case 'jump': {
+          const [jumpTarget] = targets;
           edges.push({ from: addr, to: jumpTarget, type: 'jump' });
           queue.push(jumpTarget);
           break;
         }
-        case 60: {
+        case 'skip': {
           // TST skips next instruction if memory[operand] == 0
-          const nextAddr = addr + 1;
-          const skipAddr = addr + 2;
+          const [nextAddr, skipAddr] = targets;
 
           edges.push({
             from: addr,
@@ -163,18 +208,14 @@ export class ControlFlowAnalyzer {
           queue.push(skipAddr);
           break;
         }
-        case 100: {
-          // HLT
+        case 'halt': {
           exitPoints.push(addr);
           break;
         }
         default: {
           // Sequential instructions
-          const sequential = addr + 1;
-          if (
-            sequential < nodes.length &&
-            nodes.some(n => n.address === sequential)
-          ) {
+          const [sequential] = targets;
+          if (nodeAt(sequential)) {
             edges.push({ from: addr, to: sequential, type: 'sequential' });
             queue.push(sequential);
           }
@@ -186,6 +227,10 @@ export class ControlFlowAnalyzer {
 }
 
 export class MermaidFlowchartGenerator {
+  constructor(
+    private readonly opcodeMapping: OpcodeMapping = DEFAULT_OPCODE_MAPPING
+  ) {}
+
   /**
    * Generate Mermaid flowchart from flow graph
    */
@@ -196,6 +241,7 @@ export class MermaidFlowchartGenerator {
       includeOperands?: boolean;
       useColors?: boolean;
       compactMode?: boolean;
+      heatmap?: FlowHeatmap; // Color by execution counts instead of type
     }
   ): string {
     const opts = {
@@ -205,29 +251,39 @@ export class MermaidFlowchartGenerator {
       compactMode: false,
       ...options,
     };
+    const { heatmap } = opts;
 
     let mermaid = 'flowchart TD\n';
 
     // Generate nodes
     for (const node of flowGraph.nodes) {
       const nodeId = `n${node.address}`;
-      const label = this.generateNodeLabel(node, opts);
+      let label = this.generateNodeLabel(node, opts);
       const shape = this.getNodeShape(node);
+      if (heatmap) {
+        label += `<br/>${heatmap.counts[node.address] || 0}×`;
+      }
 
       mermaid += `    ${nodeId}${shape.open}"${label}"${shape.close}\n`;
     }
 
-    // Generate edges
+    // Generate edges, with taken-counts on branches in heatmap mode
     for (const edge of flowGraph.edges) {
       const fromId = `n${edge.from}`;
       const toId = `n${edge.to}`;
-      const edgeStyle = this.getEdgeStyle(edge);
+      const taken =
+        heatmap && (edge.type !== 'sequential' || edge.label)
+          ? (heatmap.taken.get(edgeKey(edge.from, edge.to)) ?? 0)
+          : undefined;
+      const edgeStyle = this.getEdgeStyle(edge, taken);
 
       mermaid += `    ${fromId} ${edgeStyle} ${toId}\n`;
     }
 
     // Add styling if enabled
-    if (opts.useColors) {
+    if (heatmap) {
+      mermaid += this.generateHeatmapStyling(flowGraph, heatmap);
+    } else if (opts.useColors) {
       mermaid += this.generateStyling(flowGraph);
     }
 
@@ -259,7 +315,10 @@ export class MermaidFlowchartGenerator {
 
     label += node.instructionName;
 
-    if (options.includeOperands && node.opcode !== 100 && node.opcode !== 0) {
+    if (
+      options.includeOperands &&
+      this.opcodeMapping[node.opcode]?.hasOperand
+    ) {
       label += ` ${node.operand}`;
     }
 
@@ -279,19 +338,57 @@ export class MermaidFlowchartGenerator {
     }
   }
 
-  private getEdgeStyle(edge: FlowEdge): string {
+  private getEdgeStyle(edge: FlowEdge, taken?: number): string {
+    const count = taken === undefined ? '' : `${taken}×`;
+    const label = (text: string) =>
+      text && count ? `${text}: ${count}` : text || count;
+
     switch (edge.type) {
       case 'conditional':
-        return `-.->|"${edge.label || 'zero'}"|`;
+        return `-.->|"${label(edge.label || 'zero')}"|`;
       case 'jump':
-        return `==>`;
+        return count ? `==>|"${count}"|` : `==>`;
       case 'skip':
-        return `-.->|"${edge.label || 'skip'}"|`;
+        return `-.->|"${label(edge.label || 'skip')}"|`;
       default:
-        return `-->`;
+        return count ? `-->|"${label(edge.label ?? '')}"|` : `-->`;
     }
   }
 
+  private generateHeatmapStyling(
+    flowGraph: FlowGraph,
+    heatmap: FlowHeatmap
+  ): string {
+    let styling = '\n    %% Heatmap\n';
+
+    HEAT_COLORS.forEach(([fill, stroke, color], level) => {
+      styling += `    classDef heat${level} fill:${fill},stroke:${stroke},stroke-width:2px,color:${color}\n`;
+    });
+    styling += `    classDef cold fill:#f5f5f5,stroke:#9e9e9e,stroke-width:1px,stroke-dasharray: 5 5\n`;
+
+    // Levels scale linearly with the hottest node; never run nodes are cold
+    const max = Math.max(0, ...Array.from(heatmap.counts, count => count || 0));
+    const classes = new Map<string, number[]>();
+    for (const node of flowGraph.nodes) {
+      const count = heatmap.counts[node.address] || 0;
+      const className =
+        count === 0
+          ? 'cold'
+          : `heat${Math.min(
+              HEAT_COLORS.length - 1,
+              Math.floor((count / max) * HEAT_COLORS.length)
+            )}`;
+      classes.set(className, [...(classes.get(className) ?? []), node.address]);
+    }
+
+    for (const [className, addresses] of classes) {
+      const nodeIds = addresses.map(addr => `n${addr}`).join(',');
+      styling += `    class ${nodeIds} ${className}\n`;
+    }
+
+    return styling;
+  }
+
   private generateStyling(flowGraph: FlowGraph): string {
     let styling = '\n    %% Styling\n';
 
@@ -312,25 +409,26 @@ export class MermaidFlowchartGenerator {
     };
 
     for (const node of flowGraph.nodes) {
+      if (node.type === 'jump' || node.type === 'conditional') {
+        categories.control.push(node.address);
+        continue;
+      }
+      if (node.type === 'terminal') {
+        categories.terminal.push(node.address);
+        continue;
+      }
       switch (node.opcode) {
-        case 20: // ADD
-        case 30: // SUB
-        case 7: // INC
-        case 80: // DEC
+        case OPCODES.ADD:
+        case OPCODES.SUB:
+        case OPCODES.INC:
+        case OPCODES.DEC:
           categories.arithmetic.push(node.address);
           break;
-        case 10: // TAKE
-        case 4: // SAVE
-        case 9: // NULL
+        case OPCODES.TAKE:
+        case OPCODES.SAVE:
+        case OPCODES.NULL:
           categories.memory.push(node.address);
           break;
-        case 50: // JMP
-        case 60: // TST
-          categories.control.push(node.address);
-          break;
-        case 100: // HLT
-          categories.terminal.push(node.address);
-          break;
       }
     }
 
@@ -357,6 +455,13 @@ export class MermaidFlowchartGenerator {
     });
   }
 
+  /**
+   * Generate a flowchart colored by how often each instruction ran
+   */
+  generateHeatmapFlowchart(flowGraph: FlowGraph, heatmap: FlowHeatmap): string {
+    return this.generateFlowchart(flowGraph, { heatmap });
+  }
+
   /**
    * Generate algorithmic flowchart showing high-level program logic
    */
@@ -423,7 +528,7 @@ export class MermaidFlowchartGenerator {
    */
   generateBasicBlockDiagram(flowGraph: FlowGraph): string {
     // Group sequential instructions into basic blocks
-    const basicBlocks = this.identifyBasicBlocks(flowGraph);
+    const basicBlocks = identifyBasicBlocks(flowGraph);
 
     let mermaid = 'flowchart TD\n';
 
@@ -455,39 +560,6 @@ export class MermaidFlowchartGenerator {
     return mermaid;
   }
 
-  private identifyBasicBlocks(flowGraph: FlowGraph): Array<{
-    id: number;
-    instructions: FlowNode[];
-  }> {
-    // Simplified basic block identification
-    const blocks: Array<{ id: number; instructions: FlowNode[] }> = [];
-    let blockId = 0;
-    let currentBlock: FlowNode[] = [];
-
-    const sortedNodes = flowGraph.nodes.sort((a, b) => a.address - b.address);
-
-    for (const node of sortedNodes) {
-      currentBlock.push(node);
-
-      // End block on control flow instruction or if next instruction is a jump target
-      if (
-        node.type === 'jump' ||
-        node.type === 'conditional' ||
-        node.type === 'terminal'
-      ) {
-        blocks.push({ id: blockId++, instructions: [...currentBlock] });
-        currentBlock = [];
-      }
-    }
-
-    // Add remaining instructions as final block
-    if (currentBlock.length > 0) {
-      blocks.push({ id: blockId, instructions: currentBlock });
-    }
-
-    return blocks;
-  }
-
   private identifyAlgorithmicBlocks(flowGraph: FlowGraph): AlgorithmicBlock[] {
     const blocks: AlgorithmicBlock[] = [];
     let blockId = 0;
@@ -553,8 +625,7 @@ export class MermaidFlowchartGenerator {
       }
 
       // Pattern: Conditional (TST + JMP forward)
-      if (node.opcode === 60) {
-        // TST
+      if (node.type === 'conditional') {
         const condBlock = this.createConditionalBlock(
           flowGraph,
           sortedNodes,
@@ -567,8 +638,7 @@ export class MermaidFlowchartGenerator {
       }
 
       // Pattern: Termination (HLT)
-      if (node.opcode === 100) {
-        // HLT
+      if (node.type === 'terminal') {
         blocks.push({
           id: blockId++,
           type: 'end',
@@ -604,7 +674,7 @@ export class MermaidFlowchartGenerator {
     const node = nodes.find(n => n.address === startAddr);
     const nextNode = nodes.find(n => n.address === startAddr + 1);
 
-    return node?.opcode === 1 && nextNode?.opcode === 4; // TAKE + SAVE
+    return node?.opcode === OPCODES.TAKE && nextNode?.opcode === OPCODES.SAVE;
   }
 
   private createInitializationBlock(
@@ -620,7 +690,10 @@ export class MermaidFlowchartGenerator {
       const takeNode = nodes.find(n => n.address === addr);
       const saveNode = nodes.find(n => n.address === addr + 1);
 
-      if (takeNode?.opcode === 1 && saveNode?.opcode === 4) {
+      if (
+        takeNode?.opcode === OPCODES.TAKE &&
+        saveNode?.opcode === OPCODES.SAVE
+      ) {
         addresses.push(addr, addr + 1);
         addr += 2;
       } else {
@@ -644,7 +717,7 @@ export class MermaidFlowchartGenerator {
     const node = nodes.find(n => n.address === startAddr);
     const nextNode = nodes.find(n => n.address === startAddr + 1);
 
-    return node?.opcode === 9 && nextNode?.opcode === 9; // NULL + NULL
+    return node?.opcode === OPCODES.NULL && nextNode?.opcode === OPCODES.NULL;
   }
 
   private createArrayClearingBlock(
@@ -658,8 +731,7 @@ export class MermaidFlowchartGenerator {
     // Collect consecutive NULL instructions
     while (addr < nodes.length) {
       const node = nodes.find(n => n.address === addr);
-      if (node?.opcode === 9) {
-        // NULL
+      if (node?.opcode === OPCODES.NULL) {
         addresses.push(addr);
         addr++;
       } else {
@@ -702,8 +774,7 @@ export class MermaidFlowchartGenerator {
       addresses.push(addr);
       const node = nodes.find(n => n.address === addr);
 
-      if (node?.opcode === 50) {
-        // JMP
+      if (node?.type === 'jump') {
         const jumpTarget = node.operand;
         if (jumpTarget <= startAddr) {
           // Jump back - end of loop
@@ -718,12 +789,12 @@ export class MermaidFlowchartGenerator {
     // Analyze loop body to create description
     const hasIncrement = addresses.some(a => {
       const node = nodes.find(n => n.address === a);
-      return node?.opcode === 7; // INC
+      return node?.opcode === OPCODES.INC;
     });
 
     const hasTest = addresses.some(a => {
       const node = nodes.find(n => n.address === a);
-      return node?.opcode === 60; // TST
+      return node?.type === 'conditional';
     });
 
     let description = 'Loop';
@@ -806,3 +877,48 @@ export class MermaidFlowchartGenerator {
     }
   }
 }
+
+/**
+ * Split a flow graph into basic blocks. A block ends after a jump, test or
+ * halt, and a new one starts at every branch target and after a gap.
+ */
+export function identifyBasicBlocks(flowGraph: FlowGraph): FlowBlock[] {
+  const branchTargets = new Set(
+    flowGraph.edges
+      .filter(edge => edge.to !== edge.from + 1)
+      .map(edge => edge.to)
+  );
+  const blocks: FlowBlock[] = [];
+  let current: FlowNode[] = [];
+  const close = () => {
+    if (current.length > 0) {
+      blocks.push({ id: blocks.length, instructions: current });
+      current = [];
+    }
+  };
+
+  const sortedNodes = [...flowGraph.nodes].sort(
+    (a, b) => a.address - b.address
+  );
+  for (const node of sortedNodes) {
+    const previous = current[current.length - 1];
+    if (
+      previous &&
+      (branchTargets.has(node.address) || node.address !== previous.address + 1)
+    ) {
+      close();
+    }
+
+    current.push(node);
+    if (
+      node.type === 'jump' ||
+      node.type === 'conditional' ||
+      node.type === 'terminal'
+    ) {
+      close();
+    }
+  }
+  close();
+
+  return blocks;
+}
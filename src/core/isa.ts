@@ -0,0 +1,581 @@
+// Declarative instruction sets - ISA files with a small semantics language
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  CellWrite,
+  ControlFlowEffect,
+  ExecutionState,
+  OpcodeMapping,
+} from '../types';
+import { DEFAULT_OPCODE_MAPPING, OPCODES } from './opcodes';
+import { MAX_OPCODE } from './codec';
+
+export type IsaOperand = 'address' | 'value' | 'none';
+
+export interface IsaInstruction {
+  encoding: string; // "11AAA" with an operand field, "10000" without
+  operand?: IsaOperand; // Defaults to address with a field, none without
+  semantics: string; // e.g. "acc = acc * 2" or "pc = mem[op] == 0 ? pc + 1 : pc"
+  flow?: ControlFlowEffect;
+  description?: string;
+}
+
+export interface IsaFile {
+  name?: string;
+  extends?: string; // "johnny" or an ISA file relative to this one
+  instructions: Record<string, IsaInstruction>;
+}
+
+type Expression =
+  | { kind: 'number'; value: number }
+  | { kind: 'register'; name: 'acc' | 'pc' | 'op' }
+  | { kind: 'memory'; address: Expression }
+  | { kind: 'unary'; op: string; operand: Expression }
+  | { kind: 'binary'; op: string; left: Expression; right: Expression }
+  | {
+      kind: 'conditional';
+      test: Expression;
+      then: Expression;
+      else: Expression;
+    };
+
+type Statement =
+  | { kind: 'assign'; target: 'acc' | 'pc'; value: Expression }
+  | { kind: 'store'; address: Expression; value: Expression }
+  | { kind: 'halt' };
+
+interface Context {
+  state: ExecutionState;
+  operand: number;
+  writes: CellWrite[]; // Stores of the running instruction
+}
+
+type Evaluator = (context: Context) => number;
+
+// Binary operators from loosest to tightest binding
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '|': 3,
+  '^': 4,
+  '&': 5,
+  '==': 6,
+  '!=': 6,
+  '<': 7,
+  '<=': 7,
+  '>': 7,
+  '>=': 7,
+  '<<': 8,
+  '>>': 8,
+  '+': 9,
+  '-': 9,
+  '*': 10,
+  '/': 10,
+  '%': 10,
+};
+
+const TOKEN =
+  /\s*(\d+|[A-Za-z_]\w*|<<|>>|<=|>=|==|!=|&&|\|\||[-+*/%&|^<>!?:;=()[\]])/y;
+
+/**
+ * Parser for instruction semantics. Statements are separated by ';':
+ *   acc = <expr>    pc = <expr>    mem[<expr>] = <expr>    halt
+ * Expressions use numbers, acc, pc, op (the operand), mem[<expr>], the
+ * C operators above, unary - and !, ?: and parentheses.
+ */
+class SemanticsParser {
+  private readonly tokens: string[] = [];
+  private position = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly instruction: string
+  ) {
+    TOKEN.lastIndex = 0;
+    while (TOKEN.lastIndex < source.length) {
+      const start = TOKEN.lastIndex;
+      const match = TOKEN.exec(source);
+      if (!match) {
+        if (source.slice(start).trim() === '') break;
+        throw this.error(`unexpected '${source.slice(start).trim()[0]}'`);
+      }
+      this.tokens.push(match[1]);
+    }
+  }
+
+  parseProgram(): Statement[] {
+    const statements: Statement[] = [];
+    while (this.peek() !== undefined) {
+      statements.push(this.parseStatement());
+      if (this.peek() !== undefined) this.expect(';');
+      while (this.peek() === ';') this.position++;
+    }
+    if (statements.length === 0) throw this.error('semantics are empty');
+    return statements;
+  }
+
+  private parseStatement(): Statement {
+    const token = this.next();
+    if (token === 'halt') return { kind: 'halt' };
+    if (token === 'acc' || token === 'pc') {
+      this.expect('=');
+      return { kind: 'assign', target: token, value: this.parseExpression() };
+    }
+    if (token === 'mem') {
+      this.expect('[');
+      const address = this.parseExpression();
+      this.expect(']');
+      this.expect('=');
+      return { kind: 'store', address, value: this.parseExpression() };
+    }
+    throw this.error(`expected acc, pc, mem or halt but found '${token}'`);
+  }
+
+  private parseExpression(): Expression {
+    const test = this.parseBinary(1);
+    if (this.peek() !== '?') return test;
+    this.position++;
+    const then = this.parseExpression();
+    this.expect(':');
+    return { kind: 'conditional', test, then, else: this.parseExpression() };
+  }
+
+  private parseBinary(minPrecedence: number): Expression {
+    let left = this.parseUnary();
+    for (;;) {
+      const op = this.peek();
+      const precedence = op === undefined ? undefined : PRECEDENCE[op];
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      this.position++;
+      const right = this.parseBinary(precedence + 1);
+      left = { kind: 'binary', op: op as string, left, right };
+    }
+  }
+
+  private parseUnary(): Expression {
+    const token = this.next();
+    if (token === '-' || token === '!') {
+      return { kind: 'unary', op: token, operand: this.parseUnary() };
+    }
+    if (token === '(') {
+      const inner = this.parseExpression();
+      this.expect(')');
+      return inner;
+    }
+    if (token === 'acc' || token === 'pc' || token === 'op') {
+      return { kind: 'register', name: token };
+    }
+    if (token === 'mem') {
+      this.expect('[');
+      const address = this.parseExpression();
+      this.expect(']');
+      return { kind: 'memory', address };
+    }
+    if (token !== undefined && /^\d+$/.test(token)) {
+      return { kind: 'number', value: Number.parseInt(token, 10) };
+    }
+    throw this.error(
+      token === undefined ? 'unexpected end' : `unexpected '${token}'`
+    );
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): string | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private expect(token: string): void {
+    const found = this.next();
+    if (found !== token) {
+      throw this.error(
+        `expected '${token}' but found ${found === undefined ? 'the end' : `'${found}'`}`
+      );
+    }
+  }
+
+  private error(message: string): Error {
+    return new Error(
+      `Invalid semantics for ${this.instruction}: ${message} in "${this.source}"`
+    );
+  }
+}
+
+/**
+ * Read an ISA file. Without "extends" it starts from DATA alone; an
+ * extended instruction set keeps the base instructions unless an entry
+ * reuses their opcode or mnemonic. resolveBase loads "extends" targets
+ * other than "johnny".
+ */
+export function parseIsa(
+  json: string,
+  resolveBase: (name: string) => OpcodeMapping = unknownBase
+): OpcodeMapping {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid ISA file: ${(error as Error).message}`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Invalid ISA file: expected an object');
+  }
+
+  const { extends: base, instructions } = data as Partial<IsaFile>;
+  if (
+    typeof instructions !== 'object' ||
+    instructions === null ||
+    Array.isArray(instructions)
+  ) {
+    throw new Error('Invalid ISA file: "instructions" must be an object');
+  }
+
+  let mapping: OpcodeMapping;
+  if (base === undefined) {
+    mapping = { [OPCODES.DATA]: DEFAULT_OPCODE_MAPPING[OPCODES.DATA] };
+  } else if (base === 'johnny') {
+    mapping = { ...DEFAULT_OPCODE_MAPPING };
+  } else {
+    mapping = { ...resolveBase(base) };
+  }
+
+  const defined = new Map<number, string>();
+  for (const [key, entry] of Object.entries(instructions)) {
+    const name = key.toUpperCase();
+    const { opcode, info } = compileInstruction(name, entry);
+    const previous = defined.get(opcode);
+    if (previous !== undefined) {
+      throw new Error(
+        `ISA instructions ${previous} and ${name} share opcode ${opcode}`
+      );
+    }
+    defined.set(opcode, name);
+
+    // A redefined mnemonic moves to its new opcode
+    for (const code of Object.keys(mapping).map(Number)) {
+      if (mapping[code].name === name) delete mapping[code];
+    }
+    mapping[opcode] = info;
+  }
+
+  return mapping;
+}
+
+/**
+ * Load an ISA file; "extends" may name "johnny" or another ISA file
+ * relative to it
+ */
+export function loadIsa(filePath: string): OpcodeMapping {
+  return loadIsaChain(path.resolve(filePath), new Set());
+}
+
+// extending carries the files whose "extends" led here
+function loadIsaChain(file: string, extending: Set<string>): OpcodeMapping {
+  if (extending.has(file)) {
+    throw new Error(`Invalid ISA file: circular "extends" via ${file}`);
+  }
+  const chain = new Set(extending).add(file);
+  return parseIsa(fs.readFileSync(file, 'utf8'), base =>
+    loadIsaChain(path.resolve(path.dirname(file), base), chain)
+  );
+}
+
+function unknownBase(name: string): OpcodeMapping {
+  throw new Error(`Unknown base ISA '${name}'`);
+}
+
+/**
+ * Turn one ISA entry into an opcode mapping entry
+ */
+function compileInstruction(
+  name: string,
+  entry: unknown
+): { opcode: number; info: OpcodeMapping[number] } {
+  const {
+    encoding,
+    operand,
+    semantics,
+    flow = 'next',
+    description,
+  } = (entry ?? {}) as Partial<IsaInstruction>;
+
+  const match =
+    typeof encoding === 'string' && /^(\d\d)(AAA|000)$/.exec(encoding);
+  if (!match) {
+    throw new Error(
+      `ISA instruction ${name} needs an "encoding" like "11AAA" or "11000"`
+    );
+  }
+  if (!/^[A-Z_]\w*$/.test(name) || name === 'DATA') {
+    throw new Error(`ISA mnemonic '${name}' is not a usable name`);
+  }
+  const opcode = Number.parseInt(match[1], 10);
+  if (opcode === OPCODES.DATA) {
+    throw new Error(`ISA instruction ${name}: opcode 00 is reserved for DATA`);
+  }
+  if (opcode > MAX_OPCODE) {
+    throw new Error(
+      `ISA instruction ${name}: opcode ${opcode} is not in 1..${MAX_OPCODE}`
+    );
+  }
+
+  const hasField = match[2] === 'AAA';
+  const kind = operand ?? (hasField ? 'address' : 'none');
+  if (!['address', 'value', 'none'].includes(kind)) {
+    throw new Error(
+      `ISA instruction ${name}: operand must be address, value or none`
+    );
+  }
+  if ((kind === 'none') === hasField) {
+    throw new Error(
+      `ISA instruction ${name}: encoding ${encoding} does not fit a${kind === 'address' ? 'n' : ''} ${kind} operand`
+    );
+  }
+  if (!['next', 'jump', 'skip', 'halt'].includes(flow)) {
+    throw new Error(
+      `ISA instruction ${name}: flow must be next, jump, skip or halt`
+    );
+  }
+  if (typeof semantics !== 'string') {
+    throw new Error(`ISA instruction ${name} needs "semantics"`);
+  }
+
+  const statements = new SemanticsParser(semantics, name).parseProgram();
+  checkFlow(name, flow, statements);
+
+  return {
+    opcode,
+    info: {
+      name,
+      description: description ?? semantics,
+      hasOperand: kind !== 'none',
+      operandType: kind === 'address' ? 'ADDRESS' : 'NONE',
+      memoryAccess: kind === 'address' ? operandAccess(statements) : undefined,
+      flow: flow === 'next' ? undefined : flow,
+      execute: compileStatements(name, statements),
+    },
+  };
+}
+
+/**
+ * The control-flow class must match what the semantics do to pc, or the
+ * flowchart and validator would disagree with the simulator
+ */
+function checkFlow(
+  name: string,
+  flow: ControlFlowEffect,
+  statements: Statement[]
+): void {
+  const halts = statements.some(s => s.kind === 'halt');
+  const setsPc = statements.some(s => s.kind === 'assign' && s.target === 'pc');
+  if (flow === 'halt' && !halts) {
+    throw new Error(`ISA instruction ${name} has flow halt but never halts`);
+  }
+  if ((flow === 'jump' || flow === 'skip') && !setsPc) {
+    throw new Error(
+      `ISA instruction ${name} has flow ${flow} but never assigns pc`
+    );
+  }
+  if (flow === 'next' && (halts || setsPc)) {
+    throw new Error(
+      `ISA instruction ${name} ${halts ? 'halts' : 'assigns pc'} and needs a "flow"`
+    );
+  }
+}
+
+/**
+ * How the semantics use the cell named by the operand, i.e. mem[op]
+ */
+function operandAccess(
+  statements: Statement[]
+): OpcodeMapping[number]['memoryAccess'] {
+  let reads = false;
+  let writes = false;
+  const isOperandCell = (address: Expression) =>
+    address.kind === 'register' && address.name === 'op';
+  const visit = (expression: Expression): void => {
+    switch (expression.kind) {
+      case 'memory':
+        if (isOperandCell(expression.address)) reads = true;
+        visit(expression.address);
+        break;
+      case 'unary':
+        visit(expression.operand);
+        break;
+      case 'binary':
+        visit(expression.left);
+        visit(expression.right);
+        break;
+      case 'conditional':
+        visit(expression.test);
+        visit(expression.then);
+        visit(expression.else);
+        break;
+    }
+  };
+
+  for (const statement of statements) {
+    if (statement.kind === 'halt') continue;
+    visit(statement.value);
+    if (statement.kind === 'store') {
+      visit(statement.address);
+      if (isOperandCell(statement.address)) writes = true;
+    }
+  }
+
+  if (reads && writes) return 'READ_WRITE';
+  if (reads) return 'READ';
+  return writes ? 'WRITE' : undefined;
+}
+
+/**
+ * Compile statements into an execute function. Results stored in acc or
+ * memory go through fit like the built-in arithmetic, and the execute
+ * function returns every cell it stored to.
+ */
+function compileStatements(
+  name: string,
+  statements: Statement[]
+): OpcodeMapping[number]['execute'] {
+  const compiled = statements.map(statement => {
+    switch (statement.kind) {
+      case 'halt':
+        return (context: Context) => {
+          context.state.halted = true;
+        };
+      case 'assign': {
+        const value = compileExpression(name, statement.value);
+        return statement.target === 'acc'
+          ? (context: Context, fit: (value: number) => number) => {
+              context.state.acc = fit(value(context));
+            }
+          : (context: Context) => {
+              context.state.pc = value(context);
+            };
+      }
+      case 'store': {
+        const address = compileExpression(name, statement.address);
+        const value = compileExpression(name, statement.value);
+        return (context: Context, fit: (value: number) => number) => {
+          const cell = checkAddress(name, context, address(context));
+          const result = fit(value(context));
+          context.writes.push({
+            address: cell,
+            oldValue: context.state.ram[cell],
+          });
+          context.state.ram[cell] = result;
+        };
+      }
+    }
+  });
+
+  return (state, operand, fit) => {
+    const context: Context = { state, operand, writes: [] };
+    compiled.forEach(run => run(context, fit));
+    return context.writes;
+  };
+}
+
+function compileExpression(name: string, expression: Expression): Evaluator {
+  switch (expression.kind) {
+    case 'number':
+      return () => expression.value;
+    case 'register': {
+      const register = expression.name;
+      if (register === 'op') return context => context.operand;
+      return context => context.state[register];
+    }
+    case 'memory': {
+      const address = compileExpression(name, expression.address);
+      return context =>
+        context.state.ram[checkAddress(name, context, address(context))] || 0;
+    }
+    case 'unary': {
+      const operand = compileExpression(name, expression.operand);
+      return expression.op === '-'
+        ? context => -operand(context)
+        : context => (operand(context) === 0 ? 1 : 0);
+    }
+    case 'conditional': {
+      const test = compileExpression(name, expression.test);
+      const then = compileExpression(name, expression.then);
+      const otherwise = compileExpression(name, expression.else);
+      return context =>
+        test(context) !== 0 ? then(context) : otherwise(context);
+    }
+    case 'binary': {
+      const left = compileExpression(name, expression.left);
+      const right = compileExpression(name, expression.right);
+      const apply = binaryOperator(name, expression.op);
+      return context => apply(left(context), right(context), context);
+    }
+  }
+}
+
+function binaryOperator(
+  name: string,
+  op: string
+): (a: number, b: number, context: Context) => number {
+  const truth = (value: boolean) => (value ? 1 : 0);
+  const divisor = (b: number, context: Context) => {
+    if (b === 0) {
+      throw new Error(
+        `Division by zero in ${name} at address ${context.state.pc}`
+      );
+    }
+    return b;
+  };
+
+  switch (op) {
+    case '+':
+      return (a, b) => a + b;
+    case '-':
+      return (a, b) => a - b;
+    case '*':
+      return (a, b) => a * b;
+    case '/':
+      return (a, b, context) => Math.trunc(a / divisor(b, context));
+    case '%':
+      return (a, b, context) => a % divisor(b, context);
+    case '&':
+      return (a, b) => a & b;
+    case '|':
+      return (a, b) => a | b;
+    case '^':
+      return (a, b) => a ^ b;
+    case '<<':
+      return (a, b) => a * Math.pow(2, b);
+    case '>>':
+      return (a, b) => Math.floor(a / Math.pow(2, b));
+    case '==':
+      return (a, b) => truth(a === b);
+    case '!=':
+      return (a, b) => truth(a !== b);
+    case '<':
+      return (a, b) => truth(a < b);
+    case '<=':
+      return (a, b) => truth(a <= b);
+    case '>':
+      return (a, b) => truth(a > b);
+    case '>=':
+      return (a, b) => truth(a >= b);
+    case '&&':
+      return (a, b) => truth(a !== 0 && b !== 0);
+    default: // ||
+      return (a, b) => truth(a !== 0 || b !== 0);
+  }
+}
+
+/**
+ * Memory operands must name a cell, also when computed at run time
+ */
+function checkAddress(name: string, context: Context, address: number): number {
+  if (address < 0 || address >= context.state.ram.length) {
+    throw new Error(
+      `Memory address ${address} out of range in ${name} at address ${context.state.pc}`
+    );
+  }
+  return address;
+}
@@ -0,0 +1,254 @@
+// JOHNNY control unit - Micro-operations and the microcode that drives them
+import { ExecutionState, MicrocodeTable, MicroRoutine } from '../types';
+import { OPCODES } from './opcodes';
+import { MAX_OPCODE, decode } from './codec';
+
+export interface MicroOperation {
+  description: string;
+  memoryAccess?: 'READ' | 'WRITE'; // RAM cell on the address bus
+  execute: (state: ExecutionState, fit: (value: number) => number) => void;
+}
+
+// Operations that end an instruction and return to the fetch routine
+export const ROUTINE_ENDS = ['mc:=0', 'stop'];
+
+// Register transfers of the JOHNNY data path. ins->mc, mc:=0 and stop also
+// steer the sequencer in JohnnySimulator.microStep.
+export const MICRO_OPERATIONS: Record<string, MicroOperation> = {
+  'pc->ab': {
+    description: 'Put the program counter on the address bus',
+    execute: state => {
+      state.addressBus = state.pc;
+    },
+  },
+  'ins->ab': {
+    description:
+      'Put the operand of the instruction register on the address bus',
+    execute: state => {
+      state.addressBus = decode(state.instruction).operand;
+    },
+  },
+  'ram->db': {
+    description: 'Read the RAM cell at the address bus onto the data bus',
+    memoryAccess: 'READ',
+    execute: state => {
+      state.dataBus = state.ram[state.addressBus] || 0;
+    },
+  },
+  'db->ram': {
+    description: 'Write the data bus into the RAM cell at the address bus',
+    memoryAccess: 'WRITE',
+    execute: state => {
+      state.ram[state.addressBus] = state.dataBus;
+    },
+  },
+  'db->ins': {
+    description: 'Load the instruction register from the data bus',
+    execute: state => {
+      state.instruction = state.dataBus;
+    },
+  },
+  'ins->mc': {
+    description: 'Decode: continue with the microcode of the instruction',
+    execute: () => {},
+  },
+  'mc:=0': {
+    description: 'End the instruction and fetch the next one',
+    execute: () => {},
+  },
+  'pc++': {
+    description: 'Increment the program counter',
+    execute: state => {
+      state.pc++;
+    },
+  },
+  'ins->pc': {
+    description: 'Load the program counter from the instruction operand',
+    execute: state => {
+      state.pc = decode(state.instruction).operand;
+    },
+  },
+  'db=0:pc++': {
+    description: 'Increment the program counter if the data bus is zero',
+    execute: state => {
+      if (state.dataBus === 0) state.pc++;
+    },
+  },
+  'acc:=0': {
+    description: 'Clear the accumulator',
+    execute: state => {
+      state.acc = 0;
+    },
+  },
+  plus: {
+    description: 'Add the data bus to the accumulator',
+    execute: (state, fit) => {
+      state.acc = fit(state.acc + state.dataBus);
+    },
+  },
+  minus: {
+    description: 'Subtract the data bus from the accumulator',
+    execute: (state, fit) => {
+      state.acc = fit(state.acc - state.dataBus);
+    },
+  },
+  'acc->db': {
+    description: 'Put the accumulator on the data bus',
+    execute: state => {
+      state.dataBus = state.acc;
+    },
+  },
+  'db->acc': {
+    description: 'Load the accumulator from the data bus',
+    execute: state => {
+      state.acc = state.dataBus;
+    },
+  },
+  'db++': {
+    description: 'Increment the value on the data bus',
+    execute: (state, fit) => {
+      state.dataBus = fit(state.dataBus + 1);
+    },
+  },
+  'db--': {
+    description: 'Decrement the value on the data bus',
+    execute: (state, fit) => {
+      state.dataBus = fit(state.dataBus - 1);
+    },
+  },
+  'db:=0': {
+    description: 'Clear the data bus',
+    execute: state => {
+      state.dataBus = 0;
+    },
+  },
+  stop: {
+    description: 'Halt the machine',
+    execute: state => {
+      state.halted = true;
+    },
+  },
+};
+
+/**
+ * Microcode with the same effect as DEFAULT_OPCODE_MAPPING. INC, DEC and TST
+ * work on the data bus, so unlike the original JOHNNY they keep the
+ * accumulator.
+ */
+export const DEFAULT_MICROCODE: MicrocodeTable = {
+  fetch: ['pc->ab', 'ram->db', 'db->ins', 'ins->mc'],
+  opcodes: {
+    [OPCODES.DATA]: { name: 'DATA', operations: ['pc++', 'mc:=0'] },
+    [OPCODES.TAKE]: {
+      name: 'TAKE',
+      operations: ['ins->ab', 'ram->db', 'db->acc', 'pc++', 'mc:=0'],
+    },
+    [OPCODES.ADD]: {
+      name: 'ADD',
+      operations: ['ins->ab', 'ram->db', 'plus', 'pc++', 'mc:=0'],
+    },
+    [OPCODES.SUB]: {
+      name: 'SUB',
+      operations: ['ins->ab', 'ram->db', 'minus', 'pc++', 'mc:=0'],
+    },
+    [OPCODES.SAVE]: {
+      name: 'SAVE',
+      operations: ['ins->ab', 'acc->db', 'db->ram', 'pc++', 'mc:=0'],
+    },
+    [OPCODES.JMP]: { name: 'JMP', operations: ['ins->pc', 'mc:=0'] },
+    [OPCODES.TST]: {
+      name: 'TST',
+      operations: ['ins->ab', 'ram->db', 'db=0:pc++', 'pc++', 'mc:=0'],
+    },
+    [OPCODES.INC]: {
+      name: 'INC',
+      operations: ['ins->ab', 'ram->db', 'db++', 'db->ram', 'pc++', 'mc:=0'],
+    },
+    [OPCODES.DEC]: {
+      name: 'DEC',
+      operations: ['ins->ab', 'ram->db', 'db--', 'db->ram', 'pc++', 'mc:=0'],
+    },
+    [OPCODES.NULL]: {
+      name: 'NULL',
+      operations: ['ins->ab', 'db:=0', 'db->ram', 'pc++', 'mc:=0'],
+    },
+    [OPCODES.HLT]: { name: 'HLT', operations: ['pc++', 'stop'] },
+  },
+};
+
+/**
+ * Read a microcode file. Its "opcodes" add to or replace routines of
+ * DEFAULT_MICROCODE, e.g. { "opcodes": { "11": { "name": "ADD2",
+ * "operations": ["ins->ab", "ram->db", "plus", "plus", "pc++", "mc:=0"] } } }.
+ * A "fetch" list replaces the fetch routine.
+ */
+export function parseMicrocode(json: string): MicrocodeTable {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid microcode file: ${(error as Error).message}`);
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Invalid microcode file: expected an object');
+  }
+
+  const { fetch, opcodes = {} } = data as {
+    fetch?: unknown;
+    opcodes?: unknown;
+  };
+  const table: MicrocodeTable = {
+    fetch: DEFAULT_MICROCODE.fetch,
+    opcodes: { ...DEFAULT_MICROCODE.opcodes },
+  };
+
+  if (fetch !== undefined) {
+    table.fetch = checkOperations('fetch', fetch);
+    if (table.fetch[table.fetch.length - 1] !== 'ins->mc') {
+      throw new Error("Microcode for fetch must end with 'ins->mc'");
+    }
+  }
+
+  if (typeof opcodes !== 'object' || opcodes === null) {
+    throw new Error('Invalid microcode file: "opcodes" must be an object');
+  }
+  for (const [key, value] of Object.entries(opcodes)) {
+    const opcode = Number(key);
+    if (!Number.isInteger(opcode) || opcode < 0 || opcode > MAX_OPCODE) {
+      throw new Error(`Microcode opcode '${key}' is not in 0..${MAX_OPCODE}`);
+    }
+    const { name, operations } = (value ?? {}) as Partial<MicroRoutine>;
+    if (typeof name !== 'string' || name === '') {
+      throw new Error(`Microcode for opcode ${opcode} needs a "name"`);
+    }
+    const checked = checkOperations(name, operations);
+    if (!ROUTINE_ENDS.includes(checked[checked.length - 1])) {
+      throw new Error(
+        `Microcode for ${name} must end with ${ROUTINE_ENDS.map(op => `'${op}'`).join(' or ')}`
+      );
+    }
+    table.opcodes[opcode] = { name, operations: checked };
+  }
+
+  return table;
+}
+
+/**
+ * Check that a routine is a non-empty list of known micro-operations
+ */
+function checkOperations(routine: string, operations: unknown): string[] {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new Error(`Microcode for ${routine} needs a list of operations`);
+  }
+  for (const operation of operations) {
+    if (
+      typeof operation !== 'string' ||
+      !Object.prototype.hasOwnProperty.call(MICRO_OPERATIONS, operation)
+    ) {
+      throw new Error(
+        `Unknown micro-operation '${operation}' in microcode for ${routine}`
+      );
+    }
+  }
+  return operations as string[];
+}
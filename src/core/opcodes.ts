@@ -1,10 +1,11 @@
 // JOHNNY RAM Opcode Configuration and Mappings
-import { OpcodeMapping, ExecutionState } from '../types';
+import { OpcodeMapping, ExecutionState, ArithmeticMode } from '../types';
 
 export const JOHNNY_CONFIG = {
   MEMORY_SIZE: 1000,
   MAX_VALUE: 19999,
   MAX_STEPS: 100000,
+  UNDO_LIMIT: 10000, // Steps kept for stepBack unless configured otherwise
   INSTRUCTION_FORMAT: 5, // 5-digit instructions (OOXXX format)
 } as const;
 
@@ -38,6 +39,7 @@ export const DEFAULT_OPCODE_MAPPING: OpcodeMapping = {
     description: 'Load value from memory address into accumulator',
     hasOperand: true,
     operandType: 'ADDRESS',
+    memoryAccess: 'READ',
     execute: (state: ExecutionState, operand: number) => {
       state.acc = state.ram[operand] || 0; // Handle undefined/null values
     },
@@ -47,11 +49,10 @@ export const DEFAULT_OPCODE_MAPPING: OpcodeMapping = {
     description: 'Add value from memory address to accumulator',
     hasOperand: true,
     operandType: 'ADDRESS',
-    execute: (state: ExecutionState, operand: number) => {
+    memoryAccess: 'READ',
+    execute: (state: ExecutionState, operand: number, fit) => {
       const value = state.ram[operand] || 0; // Handle undefined/null values
-      state.acc += value;
-      if (state.acc > JOHNNY_CONFIG.MAX_VALUE)
-        state.acc = JOHNNY_CONFIG.MAX_VALUE;
+      state.acc = fit(state.acc + value);
     },
   },
   [OPCODES.SUB]: {
@@ -59,10 +60,10 @@ export const DEFAULT_OPCODE_MAPPING: OpcodeMapping = {
     description: 'Subtract value from memory address from accumulator',
     hasOperand: true,
     operandType: 'ADDRESS',
-    execute: (state: ExecutionState, operand: number) => {
+    memoryAccess: 'READ',
+    execute: (state: ExecutionState, operand: number, fit) => {
       const value = state.ram[operand] || 0; // Handle undefined/null values
-      state.acc -= value;
-      if (state.acc < 0) state.acc = 0;
+      state.acc = fit(state.acc - value);
     },
   },
   [OPCODES.SAVE]: {
@@ -70,6 +71,7 @@ export const DEFAULT_OPCODE_MAPPING: OpcodeMapping = {
     description: 'Store accumulator value to memory address',
     hasOperand: true,
     operandType: 'ADDRESS',
+    memoryAccess: 'WRITE',
     execute: (state: ExecutionState, operand: number) => {
       state.ram[operand] = state.acc;
     },
@@ -79,6 +81,7 @@ export const DEFAULT_OPCODE_MAPPING: OpcodeMapping = {
     description: 'Jump to memory address',
     hasOperand: true,
     operandType: 'ADDRESS',
+    flow: 'jump',
     execute: (state: ExecutionState, operand: number) => {
       state.pc = operand; // Jump directly to the address
     },
@@ -88,6 +91,8 @@ export const DEFAULT_OPCODE_MAPPING: OpcodeMapping = {
     description: 'Skip next instruction if memory address contains zero',
     hasOperand: true,
     operandType: 'ADDRESS',
+    memoryAccess: 'READ',
+    flow: 'skip',
     execute: (state: ExecutionState, operand: number) => {
       if ((state.ram[operand] || 0) === 0) {
         state.pc++; // Skip next instruction
@@ -99,9 +104,10 @@ export const DEFAULT_OPCODE_MAPPING: OpcodeMapping = {
     description: 'Increment value at memory address',
     hasOperand: true,
     operandType: 'ADDRESS',
-    execute: (state: ExecutionState, operand: number) => {
+    memoryAccess: 'READ_WRITE',
+    execute: (state: ExecutionState, operand: number, fit) => {
       const currentValue = state.ram[operand] || 0; // Handle undefined/null values
-      state.ram[operand] = (currentValue + 1) % (JOHNNY_CONFIG.MAX_VALUE + 1);
+      state.ram[operand] = fit(currentValue + 1);
     },
   },
   [OPCODES.DEC]: {
@@ -109,9 +115,10 @@ export const DEFAULT_OPCODE_MAPPING: OpcodeMapping = {
     description: 'Decrement value at memory address',
     hasOperand: true,
     operandType: 'ADDRESS',
-    execute: (state: ExecutionState, operand: number) => {
+    memoryAccess: 'READ_WRITE',
+    execute: (state: ExecutionState, operand: number, fit) => {
       const currentValue = state.ram[operand] || 0; // Handle undefined/null values
-      state.ram[operand] = Math.max(0, currentValue - 1);
+      state.ram[operand] = fit(currentValue - 1);
     },
   },
   [OPCODES.NULL]: {
@@ -119,6 +126,7 @@ export const DEFAULT_OPCODE_MAPPING: OpcodeMapping = {
     description: 'Set memory address to zero',
     hasOperand: true,
     operandType: 'ADDRESS',
+    memoryAccess: 'WRITE',
     execute: (state: ExecutionState, operand: number) => {
       state.ram[operand] = 0;
     },
@@ -128,6 +136,7 @@ export const DEFAULT_OPCODE_MAPPING: OpcodeMapping = {
     description: 'Halt program execution',
     hasOperand: false,
     operandType: 'NONE',
+    flow: 'halt',
     execute: (state: ExecutionState, _operand: number) => {
       state.halted = true;
     },
@@ -135,23 +144,19 @@ export const DEFAULT_OPCODE_MAPPING: OpcodeMapping = {
 };
 
 /**
- * Load opcode mapping from JSON configuration file
- * This allows customization of JOHNNY instruction sets
+ * Bring an arithmetic result into 0..maxValue by clamping (saturate) or
+ * modulo maxValue + 1 (wrap). Trap mode never stores such a result.
  */
-export function loadOpcodeMapping(configPath?: string): OpcodeMapping {
-  if (configPath) {
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const fs = require('fs');
-      const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-      return { ...DEFAULT_OPCODE_MAPPING, ...config };
-    } catch {
-      console.warn(
-        `Failed to load opcode mapping from ${configPath}, using default`
-      );
-    }
+export function fitValue(
+  value: number,
+  mode: Exclude<ArithmeticMode, 'trap'>,
+  maxValue: number = JOHNNY_CONFIG.MAX_VALUE
+): number {
+  if (mode === 'wrap') {
+    const range = maxValue + 1;
+    return ((value % range) + range) % range;
   }
-  return DEFAULT_OPCODE_MAPPING;
+  return Math.min(Math.max(value, 0), maxValue);
 }
 
 /**
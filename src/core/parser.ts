@@ -1,5 +1,13 @@
 // JOHNNY RAM Program Parser with improved syntax handling
-import { JOHNNY_CONFIG, OPCODES } from './opcodes';
+import { OpcodeMapping } from '../types';
+import {
+  DEFAULT_OPCODE_MAPPING,
+  JOHNNY_CONFIG,
+  OPCODES,
+  isValidOpcode,
+} from './opcodes';
+import { decode, operandKind } from './codec';
+import { JohnnyAssembler } from './assembler';
 
 export interface ParseResult {
   ram: number[];
@@ -13,6 +21,10 @@ export class RamParser {
   private warnings: string[] = [];
   private lineMapping: Map<number, number> = new Map();
 
+  constructor(
+    private readonly opcodeMapping: OpcodeMapping = DEFAULT_OPCODE_MAPPING
+  ) {}
+
   /**
    * Parse a .ram file content into memory array
    */
@@ -122,12 +134,10 @@ export class RamParser {
     address: number,
     lineNumber: number
   ): void {
-    // Extract opcode: Math.floor(instruction / 1000)
-    const opcode = Math.floor(value / 1000);
-    const operand = value % 1000; // Last 3 digits
+    const { opcode, operand } = decode(value);
 
-    // Validate opcode range (0, 1, 2, ..., 10)
-    if (opcode < 0 || opcode > OPCODES.HLT) {
+    // Validate opcode against the instruction set (0, 1, 2, ..., 10)
+    if (!isValidOpcode(opcode, this.opcodeMapping)) {
       this.errors.push(
         `Line ${lineNumber}: Invalid opcode ${opcode} at address ${address}`
       );
@@ -147,8 +157,8 @@ export class RamParser {
     address: number,
     lineNumber: number
   ): void {
-    // Instructions 1-9 require valid address operands (000-999)
-    if (opcode >= OPCODES.TAKE && opcode <= OPCODES.NULL) {
+    // Address operands must name a memory cell (000-999)
+    if (operandKind(opcode, this.opcodeMapping) === 'ADDRESS') {
       if (operand < 0 || operand >= JOHNNY_CONFIG.MEMORY_SIZE) {
         this.errors.push(
           `Line ${lineNumber}: Invalid address operand ${operand.toString().padStart(3, '0')} for opcode ${opcode} at address ${address}`
@@ -156,18 +166,23 @@ export class RamParser {
       }
     }
 
-    // HLT (opcode 100) should ideally have operand 000
-    if (opcode === OPCODES.HLT && operand !== 0) {
+    // Instructions without operand (like HLT) should have operand 000
+    const info = this.opcodeMapping[opcode];
+    if (opcode !== OPCODES.DATA && !info.hasOperand && operand !== 0) {
       this.warnings.push(
-        `Line ${lineNumber}: HLT instruction ignores operand; received ${operand.toString().padStart(3, '0')} at address ${address}`
+        `Line ${lineNumber}: ${info.name} instruction ignores operand; received ${operand.toString().padStart(3, '0')} at address ${address}`
       );
     }
   }
 
   /**
-   * Parse from file path
+   * Parse from file path (.jasm files are assembled symbolically)
    */
   parseFile(filePath: string): ParseResult {
+    if (filePath.endsWith('.jasm')) {
+      return new JohnnyAssembler(this.opcodeMapping).assembleFile(filePath);
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-require-imports
     const fs = require('fs');
     try {
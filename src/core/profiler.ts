@@ -0,0 +1,184 @@
+// Execution profiler - Where a run spent its steps
+import { ExecutionState, OpcodeMapping } from '../types';
+import { DEFAULT_OPCODE_MAPPING, getInstructionName } from './opcodes';
+import { decode } from './codec';
+import {
+  ControlFlowAnalyzer,
+  FlowHeatmap,
+  edgeKey,
+  identifyBasicBlocks,
+} from './flowchart';
+
+export interface AddressProfile {
+  address: number;
+  instruction: string; // e.g. "ADD 100"
+  count: number;
+  share: number; // Fraction of all steps
+}
+
+export interface BlockProfile {
+  id: number;
+  start: number;
+  end: number;
+  entries: number; // Executions of the first instruction
+  steps: number;
+  share: number;
+}
+
+export interface LineProfile {
+  line: number;
+  source?: string;
+  steps: number;
+  share: number;
+}
+
+// Every list is sorted hottest first and leaves out what never ran
+export interface ExecutionProfile {
+  totalSteps: number;
+  addresses: AddressProfile[];
+  blocks: BlockProfile[];
+  lines: LineProfile[]; // Empty without a source map
+}
+
+export interface ProfileOptions {
+  opcodeMapping?: OpcodeMapping;
+  // Johnny C lines of the addresses, e.g. a SourceMap
+  sourceMap?: { lookup(address: number): { line: number } | undefined };
+  sourceLines?: string[]; // Source text, for showing lines in the report
+}
+
+/**
+ * Aggregate the per-address counts of a profiled run (state.profile) into
+ * addresses, basic blocks and source lines
+ */
+export function buildProfile(
+  ram: number[],
+  counts: number[],
+  options: ProfileOptions = {}
+): ExecutionProfile {
+  const mapping = options.opcodeMapping ?? DEFAULT_OPCODE_MAPPING;
+  const countAt = (address: number) => counts[address] || 0;
+  const totalSteps = counts.reduce((sum, count) => sum + (count || 0), 0);
+  const share = (steps: number) => (totalSteps > 0 ? steps / totalSteps : 0);
+
+  const addresses: AddressProfile[] = [];
+  counts.forEach((count, address) => {
+    if (!count) return;
+    const { opcode, operand } = decode(ram[address]);
+    const name = getInstructionName(opcode, mapping);
+    addresses.push({
+      address,
+      instruction: mapping[opcode]?.hasOperand ? `${name} ${operand}` : name,
+      count,
+      share: share(count),
+    });
+  });
+
+  const graph = new ControlFlowAnalyzer(mapping).analyzeFlow(ram);
+  const blocks: BlockProfile[] = identifyBasicBlocks(graph)
+    .map(block => {
+      const first = block.instructions[0].address;
+      const steps = block.instructions.reduce(
+        (sum, node) => sum + countAt(node.address),
+        0
+      );
+      return {
+        id: block.id,
+        start: first,
+        end: block.instructions[block.instructions.length - 1].address,
+        entries: countAt(first),
+        steps,
+        share: share(steps),
+      };
+    })
+    .filter(block => block.steps > 0);
+
+  const lineSteps = new Map<number, number>();
+  if (options.sourceMap) {
+    counts.forEach((count, address) => {
+      const line = count ? options.sourceMap?.lookup(address)?.line : undefined;
+      if (line !== undefined) {
+        lineSteps.set(line, (lineSteps.get(line) ?? 0) + count);
+      }
+    });
+  }
+  const lines: LineProfile[] = [...lineSteps].map(([line, steps]) => ({
+    line,
+    source: options.sourceLines?.[line - 1]?.trim(),
+    steps,
+    share: share(steps),
+  }));
+
+  return {
+    totalSteps,
+    addresses: addresses.sort(hottestFirst(entry => entry.count)),
+    blocks: blocks.sort(hottestFirst(block => block.steps)),
+    lines: lines.sort(hottestFirst(entry => entry.steps)),
+  };
+}
+
+/**
+ * Render a profile as a text report with the top entries of each list
+ */
+export function formatProfile(
+  profile: ExecutionProfile,
+  limit: number = 10
+): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(6);
+  const out: string[] = [`Profile: ${profile.totalSteps} steps`, ''];
+
+  out.push('Hot addresses', '  Addr  Instruction   Count   Share');
+  for (const entry of profile.addresses.slice(0, limit)) {
+    out.push(
+      `  ${pad3(entry.address)}   ${entry.instruction.padEnd(12)} ${String(entry.count).padStart(6)}  ${percent(entry.share)}`
+    );
+  }
+
+  out.push('', 'Basic blocks', '  Block  Addresses  Entries   Steps   Share');
+  for (const block of profile.blocks.slice(0, limit)) {
+    out.push(
+      `  ${String(block.id).padStart(5)}  ${pad3(block.start)}-${pad3(block.end)}    ${String(block.entries).padStart(7)}  ${String(block.steps).padStart(6)}  ${percent(block.share)}`
+    );
+  }
+
+  if (profile.lines.length > 0) {
+    out.push('', 'Source lines', '  Line   Steps   Share  Source');
+    for (const entry of profile.lines.slice(0, limit)) {
+      out.push(
+        `  ${String(entry.line).padStart(4)}  ${String(entry.steps).padStart(6)}  ${percent(entry.share)}  ${entry.source ?? ''}`.trimEnd()
+      );
+    }
+  }
+
+  return out.join('\n') + '\n';
+}
+
+/**
+ * Sum the counts of profiled runs for a flowchart heatmap; edges are
+ * counted from consecutive trace entries
+ */
+export function flowHeatmap(runs: ExecutionState[]): FlowHeatmap {
+  const counts: number[] = [];
+  const taken = new Map<string, number>();
+
+  for (const run of runs) {
+    run.profile.forEach((count, address) => {
+      counts[address] = (counts[address] || 0) + (count || 0);
+    });
+    for (let i = 1; i < run.trace.length; i++) {
+      const key = edgeKey(run.trace[i - 1].pc, run.trace[i].pc);
+      taken.set(key, (taken.get(key) ?? 0) + 1);
+    }
+  }
+
+  return { counts, taken };
+}
+
+function pad3(address: number): string {
+  return address.toString().padStart(3, '0');
+}
+
+// Descending by weight, ties in address/line order
+function hottestFirst<T>(weight: (entry: T) => number) {
+  return (a: T, b: T) => weight(b) - weight(a);
+}
@@ -4,24 +4,73 @@ import {
   ExecutionTrace,
   SimulationConfig,
   OpcodeMapping,
+  UndoRecord,
+  MemoryAccess,
+  OverflowEvent,
+  MicrocodeTable,
+  MicroTrace,
+  CellWrite,
 } from '../types';
-import { DEFAULT_OPCODE_MAPPING, JOHNNY_CONFIG } from './opcodes';
+import { DeviceName, deviceAt } from './devices';
+import {
+  DEFAULT_OPCODE_MAPPING,
+  JOHNNY_CONFIG,
+  fitValue,
+  getInstructionName,
+} from './opcodes';
+import { BreakpointHit, BreakpointManager } from './breakpoints';
+import { controlFlowEffect, decode } from './codec';
+import { DEFAULT_MICROCODE, MICRO_OPERATIONS, ROUTINE_ENDS } from './microcode';
+
+/**
+ * Raised in trap mode when an instruction's result leaves 0..maxValue
+ */
+export class ArithmeticTrap extends Error {
+  constructor(
+    readonly event: OverflowEvent,
+    maxValue: number,
+    name: string = getInstructionName(event.opcode)
+  ) {
+    super(
+      `Arithmetic overflow in ${name} at step ${event.step}, PC ${event.pc}: result ${event.value} outside 0..${maxValue}`
+    );
+  }
+}
+
+/**
+ * Raised when an instruction reads the input device while the input queue
+ * is empty. Nothing has executed yet, so queueing input and stepping again
+ * resumes the program.
+ */
+export class InputRequired extends Error {
+  constructor(readonly pc: number) {
+    super(`Input queue is empty at PC ${pc}`);
+  }
+}
 
 export class JohnnySimulator {
   private opcodeMapping: OpcodeMapping;
   private config: SimulationConfig;
+  private microcode: MicrocodeTable;
 
   constructor(
     opcodeMapping?: OpcodeMapping,
-    config?: Partial<SimulationConfig>
+    config?: Partial<SimulationConfig>,
+    microcode: MicrocodeTable = DEFAULT_MICROCODE
   ) {
     this.opcodeMapping = opcodeMapping || DEFAULT_OPCODE_MAPPING;
+    this.microcode = microcode;
     this.config = {
       maxSteps: JOHNNY_CONFIG.MAX_STEPS,
       memorySize: JOHNNY_CONFIG.MEMORY_SIZE,
       maxValue: JOHNNY_CONFIG.MAX_VALUE,
       enableTrace: true,
       validateInstructions: true,
+      undoLimit: JOHNNY_CONFIG.UNDO_LIMIT,
+      arithmeticMode: 'saturate',
+      microcoded: false,
+      devices: {},
+      profile: false,
       ...config,
     };
   }
@@ -32,7 +81,8 @@ export class JohnnySimulator {
   createInitialState(
     ram: number[],
     initialAcc: number = 0,
-    initialMemory?: Record<number, number>
+    initialMemory?: Record<number, number>,
+    input: number[] = []
   ): ExecutionState {
     const state: ExecutionState = {
       pc: 0,
@@ -44,6 +94,13 @@ export class JohnnySimulator {
       halted: false,
       ram: [...ram],
       trace: [],
+      undoLog: [],
+      overflows: [],
+      mc: 0,
+      mcRoutine: null,
+      microTrace: [],
+      io: { input: [...input], inputRead: 0, output: [], display: null },
+      profile: [],
     };
 
     // Apply initial memory values
@@ -61,10 +118,19 @@ export class JohnnySimulator {
 
   /**
    * Execute a single instruction
+   * Returns the memory cells the instruction read and changed
    */
-  executeInstruction(state: ExecutionState): void {
+  executeInstruction(state: ExecutionState): MemoryAccess {
+    const access: MemoryAccess = {};
+
     if (state.halted || state.pc >= this.config.memorySize) {
-      return;
+      return access;
+    }
+
+    // Microcoded runs, and instructions already started with microStep, go
+    // through the microcode table
+    if (this.config.microcoded || state.mc > 0 || state.mcRoutine !== null) {
+      return this.runMicroInstruction(state);
     }
 
     if (state.pc < 0) {
@@ -73,10 +139,7 @@ export class JohnnySimulator {
     }
 
     const instruction = state.ram[state.pc];
-    // Extract opcode: Math.floor(instruction / 1000)
-    const opcode = Math.floor((instruction || 0) / 1000);
-    // Extract operand: last 3 digits
-    const operand = (instruction || 0) % 1000;
+    const { opcode, operand } = decode(instruction);
 
     // Validate instruction if enabled
     if (
@@ -87,6 +150,23 @@ export class JohnnySimulator {
       throw new Error(`Invalid opcode ${opcode} at address ${state.pc}`);
     }
 
+    // Devices on the operand cell; a read of empty input waits before any
+    // state changes
+    const opcodeInfo = this.opcodeMapping[opcode];
+    const device =
+      opcodeInfo?.operandType === 'ADDRESS'
+        ? deviceAt(this.config.devices, operand)
+        : undefined;
+    const readsOperand =
+      opcodeInfo?.memoryAccess === 'READ' ||
+      opcodeInfo?.memoryAccess === 'READ_WRITE';
+    const writesOperand =
+      opcodeInfo?.memoryAccess === 'WRITE' ||
+      opcodeInfo?.memoryAccess === 'READ_WRITE';
+    if (device === 'input' && readsOperand && !this.hasInput(state)) {
+      throw new InputRequired(state.pc);
+    }
+
     // Record trace
     if (this.config.enableTrace) {
       const trace: ExecutionTrace = {
@@ -99,6 +179,11 @@ export class JohnnySimulator {
       };
       state.trace.push(trace);
     }
+    if (this.config.profile) {
+      state.profile[state.pc] = (state.profile[state.pc] || 0) + 1;
+    }
+
+    const undo = this.undoRecord(state);
 
     // Update state
     state.instruction = instruction;
@@ -109,9 +194,7 @@ export class JohnnySimulator {
     if (opcode === 0) {
       // Data word - no operation, just increment PC
       state.pc++;
-    } else if (this.opcodeMapping[opcode]) {
-      const opcodeInfo = this.opcodeMapping[opcode];
-
+    } else if (opcodeInfo) {
       // Validate operand for address-based instructions
       if (
         opcodeInfo.operandType === 'ADDRESS' &&
@@ -122,36 +205,491 @@ export class JohnnySimulator {
         );
       }
 
+      if (readsOperand) {
+        access.read = operand;
+        undo.read = operand;
+      }
+
       // Record memory state before execution for trace
       const oldRamValue =
         opcodeInfo.operandType === 'ADDRESS' ? state.ram[operand] : 0;
 
+      // The input device feeds the instruction through its cell
+      if (device === 'input' && readsOperand) {
+        state.ram[operand] = this.readInput(state);
+      }
+
       // Execute the instruction
-      opcodeInfo.execute(state, operand);
-
-      // Record memory change in trace
-      if (this.config.enableTrace && opcodeInfo.operandType === 'ADDRESS') {
-        const newRamValue = state.ram[operand];
-        if (oldRamValue !== newRamValue && state.trace.length > 0) {
-          const lastTrace = state.trace[state.trace.length - 1];
-          lastTrace.ramChanged = {
-            address: operand,
-            oldValue: oldRamValue,
-            newValue: newRamValue,
-          };
+      const stores =
+        opcodeInfo.execute(state, operand, value =>
+          this.fit(state, opcode, value)
+        ) || [];
+
+      if (device === 'input' && !writesOperand) {
+        state.ram[operand] = oldRamValue;
+      } else if (device && writesOperand) {
+        this.writeDevice(state, device, state.ram[operand]);
+      }
+
+      // Record memory changes in trace and undo log: the operand cell, and
+      // other cells the instruction reported storing to
+      const lastTrace = this.config.enableTrace
+        ? state.trace[state.trace.length - 1]
+        : undefined;
+      const operandCell =
+        opcodeInfo.operandType === 'ADDRESS' ? operand : undefined;
+      if (operandCell !== undefined && state.ram[operand] !== oldRamValue) {
+        access.write = {
+          address: operand,
+          oldValue: oldRamValue,
+          newValue: state.ram[operand],
+        };
+        undo.ramDelta = { address: operand, oldValue: oldRamValue };
+        if (lastTrace) lastTrace.ramChanged = { ...access.write };
+      }
+
+      const before = new Map<number, number>();
+      for (const store of stores) {
+        if (store.address !== operandCell && !before.has(store.address)) {
+          before.set(store.address, store.oldValue);
+        }
+      }
+      const indirect = [...before]
+        .filter(([address, oldValue]) => state.ram[address] !== oldValue)
+        .map(([address, oldValue]) => ({
+          address,
+          oldValue,
+          newValue: state.ram[address],
+        }));
+      if (indirect.length > 0) {
+        access.indirectWrites = indirect;
+        undo.indirectDeltas = indirect.map(({ address, oldValue }) => ({
+          address,
+          oldValue,
+        }));
+        if (lastTrace) {
+          lastTrace.indirectChanges = indirect.map(write => ({ ...write }));
         }
       }
 
       // Increment PC (unless instruction already modified it, like JMP)
-      if (opcode !== 50) {
-        // JMP handles PC itself
+      if (controlFlowEffect(opcode, this.opcodeMapping) !== 'jump') {
         state.pc++;
       }
     } else {
       throw new Error(`Unknown opcode ${opcode} at address ${state.pc}`);
     }
 
+    this.recordUndo(state, undo);
     state.steps++;
+
+    return access;
+  }
+
+  /**
+   * Execute one micro-operation of the microcode table
+   * Returns null once the machine has halted
+   */
+  microStep(state: ExecutionState): MicroTrace | null {
+    if (state.halted) {
+      return null;
+    }
+
+    const routine =
+      state.mcRoutine === null
+        ? { name: 'FETCH', operations: this.microcode.fetch }
+        : this.microcode.opcodes[state.mcRoutine];
+    const operation = routine.operations[state.mc];
+    const micro = MICRO_OPERATIONS[operation];
+
+    if (
+      micro.memoryAccess &&
+      (state.addressBus < 0 || state.addressBus >= this.config.memorySize)
+    ) {
+      throw new Error(
+        `Invalid address ${state.addressBus} on the address bus for ${operation} at PC ${state.pc}`
+      );
+    }
+
+    // Instructions reach devices over the bus, fetches always read RAM
+    const device =
+      micro.memoryAccess && state.mcRoutine !== null
+        ? deviceAt(this.config.devices, state.addressBus)
+        : undefined;
+    if (
+      device === 'input' &&
+      micro.memoryAccess === 'READ' &&
+      !this.hasInput(state)
+    ) {
+      throw new InputRequired(state.pc);
+    }
+    if (state.mcRoutine === null && state.mc === 0) {
+      this.recordUndo(state, this.undoRecord(state));
+    }
+
+    const address = state.addressBus;
+    const oldValue = state.ram[address];
+    micro.execute(state, value =>
+      this.fit(state, decode(state.instruction).opcode, value)
+    );
+    if (device === 'input' && micro.memoryAccess === 'READ') {
+      state.dataBus = this.readInput(state);
+    } else if (device && micro.memoryAccess === 'WRITE') {
+      this.writeDevice(state, device, state.dataBus);
+    }
+
+    const trace: MicroTrace = {
+      step: state.steps,
+      routine: routine.name,
+      mc: state.mc,
+      operation,
+      pc: state.pc,
+      acc: state.acc,
+      addressBus: state.addressBus,
+      dataBus: state.dataBus,
+    };
+    if (micro.memoryAccess === 'READ' && routine.name !== 'FETCH') {
+      const undo = state.undoLog[state.undoLog.length - 1];
+      if (undo) undo.read = address;
+    }
+    if (micro.memoryAccess === 'WRITE' && state.ram[address] !== oldValue) {
+      trace.ramChanged = { address, oldValue, newValue: state.ram[address] };
+      const undo = state.undoLog[state.undoLog.length - 1];
+      if (undo) {
+        const merged = mergeWrite(undo.ramDelta, undo.indirectDeltas, {
+          address,
+          oldValue,
+        });
+        undo.ramDelta = merged.main;
+        if (merged.indirect) undo.indirectDeltas = merged.indirect;
+      }
+      const lastTrace = state.trace[state.trace.length - 1];
+      if (this.config.enableTrace && lastTrace?.step === state.steps) {
+        const merged = mergeWrite(
+          lastTrace.ramChanged,
+          lastTrace.indirectChanges,
+          { ...trace.ramChanged }
+        );
+        lastTrace.ramChanged = merged.main;
+        if (merged.indirect) lastTrace.indirectChanges = merged.indirect;
+      }
+    }
+
+    // Sequencer: decode, finish the instruction or move to the next operation
+    if (operation === 'ins->mc') {
+      const { opcode, operand } = decode(state.instruction);
+      if (!this.microcode.opcodes[opcode]) {
+        throw new Error(`Invalid opcode ${opcode} at address ${state.pc}`);
+      }
+      if (this.config.enableTrace) {
+        state.trace.push({
+          step: state.steps,
+          pc: state.pc,
+          instruction: state.instruction,
+          opcode,
+          operand,
+          acc: state.acc,
+        });
+      }
+      if (this.config.profile) {
+        state.profile[state.pc] = (state.profile[state.pc] || 0) + 1;
+      }
+      state.mcRoutine = opcode;
+      state.mc = 0;
+    } else if (ROUTINE_ENDS.includes(operation)) {
+      state.mcRoutine = null;
+      state.mc = 0;
+      state.steps++;
+    } else {
+      state.mc++;
+    }
+
+    if (this.config.enableTrace) {
+      state.microTrace.push(trace);
+    }
+    return trace;
+  }
+
+  /**
+   * Run micro-operations until the current instruction is complete
+   * Returns the memory cells its routine read and changed
+   */
+  runMicroInstruction(state: ExecutionState): MemoryAccess {
+    const access: MemoryAccess = {};
+    const step = state.steps;
+
+    while (state.steps === step) {
+      const micro = this.microStep(state);
+      if (!micro) break;
+
+      if (
+        micro.routine !== 'FETCH' &&
+        MICRO_OPERATIONS[micro.operation].memoryAccess === 'READ'
+      ) {
+        access.read = micro.addressBus;
+      }
+      if (micro.ramChanged) {
+        const merged = mergeWrite(access.write, access.indirectWrites, {
+          ...micro.ramChanged,
+        });
+        access.write = merged.main;
+        if (merged.indirect) access.indirectWrites = merged.indirect;
+      }
+    }
+
+    return access;
+  }
+
+  /**
+   * Continue execution until a breakpoint or watchpoint triggers
+   * The instruction at the current PC always executes, so continuing from a
+   * breakpoint makes progress. Returns null when the program halts.
+   */
+  runUntilBreak(
+    state: ExecutionState,
+    breakpoints: BreakpointManager
+  ): BreakpointHit | null {
+    let first = true;
+
+    while (!state.halted && state.steps < this.config.maxSteps) {
+      if (!first) {
+        const hit = breakpoints.checkLocation(state);
+        if (hit) return hit;
+      }
+      first = false;
+
+      let access: MemoryAccess;
+      try {
+        access = this.executeInstruction(state);
+      } catch (error) {
+        if (!(error instanceof InputRequired)) {
+          state.halted = true;
+        }
+        throw error;
+      }
+
+      const hit = breakpoints.checkAccess(state, access);
+      if (hit) return hit;
+    }
+
+    return null;
+  }
+
+  /**
+   * Undo the most recent step
+   */
+  stepBack(state: ExecutionState): boolean {
+    const record = state.undoLog.pop();
+    if (!record) {
+      return false;
+    }
+
+    for (const delta of [
+      ...(record.indirectDeltas ?? []),
+      ...(record.ramDelta ? [record.ramDelta] : []),
+    ]) {
+      state.ram[delta.address] = delta.oldValue;
+    }
+    if (record.io) {
+      state.io.inputRead = record.io.inputRead;
+      state.io.output.length = record.io.outputLength;
+      state.io.display = record.io.display;
+    }
+    // Counted once decoded, i.e. unless undone in the middle of its fetch
+    if (
+      state.profile[record.pc] &&
+      (state.mc === 0 || state.mcRoutine !== null)
+    ) {
+      state.profile[record.pc]--;
+    }
+    state.pc = record.pc;
+    state.acc = record.acc;
+    // A half-executed instruction has no step to take back yet
+    if (state.mc === 0 && state.mcRoutine === null) {
+      state.steps--;
+    }
+    state.mc = 0;
+    state.mcRoutine = null;
+    state.halted = false;
+
+    // Drop trace entries of the undone step (and of a step that failed)
+    while (
+      state.trace.length > 0 &&
+      state.trace[state.trace.length - 1].step >= state.steps
+    ) {
+      state.trace.pop();
+    }
+    while (
+      state.overflows.length > 0 &&
+      state.overflows[state.overflows.length - 1].step >= state.steps
+    ) {
+      state.overflows.pop();
+    }
+    while (
+      state.microTrace.length > 0 &&
+      state.microTrace[state.microTrace.length - 1].step >= state.steps
+    ) {
+      state.microTrace.pop();
+    }
+
+    // Buses show the fetch of the previous instruction again
+    const previous = state.undoLog[state.undoLog.length - 1];
+    state.addressBus = previous ? previous.pc : 0;
+    state.instruction = previous ? state.ram[previous.pc] || 0 : 0;
+    state.dataBus = state.instruction;
+
+    return true;
+  }
+
+  /**
+   * Rewind execution until the given step count is reached
+   */
+  runBackTo(state: ExecutionState, step: number): void {
+    const oldestStep = state.steps - state.undoLog.length;
+    if (step < oldestStep || step > state.steps) {
+      throw new Error(
+        `Step ${step} is outside the undo history (${oldestStep}..${state.steps})`
+      );
+    }
+
+    while (state.steps > step) {
+      this.stepBack(state);
+    }
+  }
+
+  /**
+   * Step backwards to the last state where runUntilBreak would have stopped:
+   * a breakpoint at the PC, or a watchpoint on the step that led there.
+   * Conditions are evaluated on that state. Returns null once history runs out.
+   */
+  reverseContinue(
+    state: ExecutionState,
+    breakpoints: BreakpointManager
+  ): BreakpointHit | null {
+    while (this.stepBack(state)) {
+      const hit = breakpoints.checkLocation(state);
+      if (hit) return hit;
+
+      const record = state.undoLog[state.undoLog.length - 1];
+      if (record) {
+        const watchHit = breakpoints.checkAccess(
+          state,
+          this.undoneAccess(state, record)
+        );
+        if (watchHit) return watchHit;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Memory access of the step recorded in an undo record, while its
+   * results are still in RAM
+   */
+  private undoneAccess(
+    state: ExecutionState,
+    record: UndoRecord
+  ): MemoryAccess {
+    const written = ({ address, oldValue }: CellWrite) => ({
+      address,
+      oldValue,
+      newValue: state.ram[address],
+    });
+    const access: MemoryAccess = {};
+    if (record.read !== undefined) access.read = record.read;
+    if (record.ramDelta) access.write = written(record.ramDelta);
+    if (record.indirectDeltas) {
+      access.indirectWrites = record.indirectDeltas.map(written);
+    }
+    return access;
+  }
+
+  /**
+   * Fit an arithmetic result into range, recording an overflow event when it
+   * was outside. Trap mode throws instead of storing anything.
+   */
+  private fit(state: ExecutionState, opcode: number, value: number): number {
+    const { arithmeticMode, maxValue } = this.config;
+    if (value >= 0 && value <= maxValue) {
+      return value;
+    }
+
+    const event: OverflowEvent = {
+      step: state.steps,
+      pc: state.pc,
+      opcode,
+      value,
+    };
+    state.overflows.push(event);
+    if (arithmeticMode === 'trap') {
+      throw new ArithmeticTrap(
+        event,
+        maxValue,
+        this.microcode.opcodes[opcode]?.name
+      );
+    }
+
+    event.result = fitValue(value, arithmeticMode, maxValue);
+    return event.result;
+  }
+
+  /**
+   * Undo record for the step about to run; device state is only kept when
+   * devices are mapped
+   */
+  private undoRecord(state: ExecutionState): UndoRecord {
+    const record: UndoRecord = { pc: state.pc, acc: state.acc };
+    if (Object.keys(this.config.devices).length > 0) {
+      record.io = {
+        inputRead: state.io.inputRead,
+        outputLength: state.io.output.length,
+        display: state.io.display,
+      };
+    }
+    return record;
+  }
+
+  private hasInput(state: ExecutionState): boolean {
+    return state.io.inputRead < state.io.input.length;
+  }
+
+  /**
+   * Take the next value of the input queue
+   */
+  private readInput(state: ExecutionState): number {
+    if (!this.hasInput(state)) {
+      throw new InputRequired(state.pc);
+    }
+    return state.io.input[state.io.inputRead++];
+  }
+
+  /**
+   * Deliver a value written to a device; the input device ignores writes
+   */
+  private writeDevice(
+    state: ExecutionState,
+    device: DeviceName,
+    value: number
+  ): void {
+    if (device === 'output') {
+      state.io.output.push(value);
+    } else if (device === 'display') {
+      state.io.display = value;
+    }
+  }
+
+  /**
+   * Append to the undo log, dropping the oldest record beyond undoLimit
+   */
+  private recordUndo(state: ExecutionState, record: UndoRecord): void {
+    if (this.config.undoLimit <= 0) {
+      return;
+    }
+
+    state.undoLog.push(record);
+    if (state.undoLog.length > this.config.undoLimit) {
+      state.undoLog.shift();
+    }
   }
 
   /**
@@ -160,15 +698,24 @@ export class JohnnySimulator {
   simulate(
     ram: number[],
     initialAcc: number = 0,
-    initialMemory?: Record<number, number>
+    initialMemory?: Record<number, number>,
+    input: number[] = []
   ): ExecutionState {
-    const state = this.createInitialState(ram, initialAcc, initialMemory);
+    const state = this.createInitialState(
+      ram,
+      initialAcc,
+      initialMemory,
+      input
+    );
 
     while (!state.halted && state.steps < this.config.maxSteps) {
       try {
         this.executeInstruction(state);
       } catch (error) {
         state.halted = true;
+        if (error instanceof ArithmeticTrap || error instanceof InputRequired) {
+          throw error; // Already names the PC
+        }
         throw new Error(
           `Execution error at step ${state.steps}, PC ${state.pc}: ${(error as Error).message}`
         );
@@ -196,7 +743,10 @@ export class JohnnySimulator {
       this.executeInstruction(state);
       return !state.halted;
     } catch (error) {
-      state.halted = true;
+      // Waiting for input leaves the program resumable
+      if (!(error instanceof InputRequired)) {
+        state.halted = true;
+      }
       throw error;
     }
   }
@@ -214,6 +764,19 @@ export class JohnnySimulator {
     state.halted = false;
     state.ram = [...ram];
     state.trace = [];
+    state.undoLog = [];
+    state.overflows = [];
+    state.mc = 0;
+    state.mcRoutine = null;
+    state.microTrace = [];
+    state.profile = [];
+    // The same input is read again
+    state.io = {
+      input: state.io.input,
+      inputRead: 0,
+      output: [],
+      display: null,
+    };
   }
 
   /**
@@ -223,6 +786,13 @@ export class JohnnySimulator {
     return { ...this.opcodeMapping };
   }
 
+  /**
+   * Get current microcode table
+   */
+  getMicrocode(): MicrocodeTable {
+    return this.microcode;
+  }
+
   /**
    * Update simulation configuration
    */
@@ -230,3 +800,26 @@ export class JohnnySimulator {
     this.config = { ...this.config, ...newConfig };
   }
 }
+
+/**
+ * Add a write to those of one step. In microcode the first cell written is
+ * the main write and other cells are indirect; a cell written again keeps
+ * the old value of its first write.
+ */
+function mergeWrite<W extends CellWrite>(
+  main: W | undefined,
+  indirect: W[] | undefined,
+  write: W
+): { main: W; indirect?: W[] } {
+  if (!main || main.address === write.address) {
+    return { main: { ...write, oldValue: main?.oldValue ?? write.oldValue } };
+  }
+  const first = indirect?.find(entry => entry.address === write.address);
+  return {
+    main,
+    indirect: [
+      ...(indirect ?? []).filter(entry => entry !== first),
+      { ...write, oldValue: first?.oldValue ?? write.oldValue },
+    ],
+  };
+}
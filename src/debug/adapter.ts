@@ -0,0 +1,525 @@
+// JOHNNY Debug Adapter - Debug Adapter Protocol front end for JohnnySimulator
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExecutionState } from '../types';
+import { JohnnySimulator } from '../core/simulator';
+import { RamParser } from '../core/parser';
+import { BreakpointHit, BreakpointManager } from '../core/breakpoints';
+import { DEFAULT_OPCODE_MAPPING } from '../core/opcodes';
+import { decode } from '../core/codec';
+import { JohnnyCompiler } from '../compiler/cli';
+
+export interface DebugRequest {
+  seq: number;
+  type: 'request';
+  command: string;
+  arguments?: Record<string, unknown>;
+}
+
+export interface DebugResponse {
+  seq: number;
+  type: 'response';
+  request_seq: number;
+  command: string;
+  success: boolean;
+  message?: string;
+  body?: unknown;
+}
+
+export interface DebugEvent {
+  seq: number;
+  type: 'event';
+  event: string;
+  body?: unknown;
+}
+
+export type DebugMessage = DebugRequest | DebugResponse | DebugEvent;
+
+interface LaunchArguments {
+  program: string; // .ram, .jasm or .jcc file
+  stopOnEntry?: boolean;
+  memory?: Record<number, number>; // Initial memory values
+}
+
+interface SourceBreakpoint {
+  line: number;
+  condition?: string;
+}
+
+interface SetBreakpointsArguments {
+  source: { path?: string; name?: string };
+  breakpoints?: SourceBreakpoint[];
+}
+
+interface LoadedProgram {
+  path: string; // Absolute path of the launched source file
+  ram: number[];
+  addressToLine: Map<number, number>; // RAM address -> source line
+  variables: Map<string, number>; // Named cells, e.g. Johnny C variables
+}
+
+const THREAD_ID = 1;
+const REGISTERS_REFERENCE = 1;
+const VARIABLES_REFERENCE = 2;
+const MEMORY_REFERENCE = 3;
+
+export class JohnnyDebugAdapter {
+  private readonly send: (message: DebugMessage) => void;
+  private readonly simulator = new JohnnySimulator();
+  private readonly breakpoints = new BreakpointManager();
+  private readonly sourceBreakpoints = new Map<string, SourceBreakpoint[]>();
+  private readonly breakpointIds = new Map<string, number[]>();
+  private queuedEvents: Array<{ event: string; body?: unknown }> = [];
+  private seq = 1;
+  private program?: LoadedProgram;
+  private state?: ExecutionState;
+  private stopOnEntry = false;
+
+  constructor(send: (message: DebugMessage) => void) {
+    this.send = send;
+  }
+
+  /**
+   * Handle one request; the response is sent before any events it triggers
+   */
+  handleMessage(request: DebugRequest): void {
+    let body: unknown;
+    try {
+      body = this.dispatch(request);
+    } catch (error) {
+      this.queuedEvents = [];
+      this.send({
+        seq: this.seq++,
+        type: 'response',
+        request_seq: request.seq,
+        command: request.command,
+        success: false,
+        message: (error as Error).message,
+      });
+      return;
+    }
+
+    this.send({
+      seq: this.seq++,
+      type: 'response',
+      request_seq: request.seq,
+      command: request.command,
+      success: true,
+      ...(body === undefined ? {} : { body }),
+    });
+
+    const events = this.queuedEvents;
+    this.queuedEvents = [];
+    for (const { event, body: eventBody } of events) {
+      this.send({
+        seq: this.seq++,
+        type: 'event',
+        event,
+        ...(eventBody === undefined ? {} : { body: eventBody }),
+      });
+    }
+  }
+
+  private dispatch(request: DebugRequest): unknown {
+    const args = request.arguments ?? {};
+
+    switch (request.command) {
+      case 'initialize':
+        return {
+          supportsConfigurationDoneRequest: true,
+          supportsConditionalBreakpoints: true,
+          supportsStepBack: true,
+        };
+      case 'launch':
+        this.launch(args as unknown as LaunchArguments);
+        return undefined;
+      case 'setBreakpoints':
+        return {
+          breakpoints: this.setBreakpoints(
+            args as unknown as SetBreakpointsArguments
+          ),
+        };
+      case 'setExceptionBreakpoints':
+        return { breakpoints: [] };
+      case 'configurationDone':
+        if (this.stopOnEntry) {
+          this.queueStopped('entry');
+        } else {
+          this.resume();
+        }
+        return undefined;
+      case 'threads':
+        return { threads: [{ id: THREAD_ID, name: 'JOHNNY' }] };
+      case 'stackTrace':
+        return this.stackTrace();
+      case 'scopes':
+        return this.scopes();
+      case 'variables':
+        return {
+          variables: this.variables(Number(args.variablesReference)),
+        };
+      case 'continue':
+        this.resume();
+        return { allThreadsContinued: true };
+      case 'next':
+      case 'stepIn':
+      case 'stepOut':
+        this.stepForward();
+        return undefined;
+      case 'stepBack':
+        this.stepBackward();
+        return undefined;
+      case 'reverseContinue':
+        this.reverseContinue();
+        return undefined;
+      case 'pause':
+        // Execution is synchronous, so the program is never running here
+        return undefined;
+      case 'disconnect':
+      case 'terminate':
+        this.state = undefined;
+        return undefined;
+      default:
+        throw new Error(`Unsupported request '${request.command}'`);
+    }
+  }
+
+  /**
+   * Load the program and create a fresh simulator state
+   */
+  private launch(args: LaunchArguments): void {
+    if (!args.program) {
+      throw new Error('Launch configuration needs a "program" path');
+    }
+
+    const programPath = path.resolve(args.program);
+    if (!fs.existsSync(programPath)) {
+      throw new Error(`Program not found: ${args.program}`);
+    }
+
+    this.program = this.loadProgram(programPath);
+    this.state = this.simulator.createInitialState(
+      this.program.ram,
+      0,
+      args.memory
+    );
+    this.stopOnEntry = args.stopOnEntry ?? false;
+
+    // Breakpoints may have been set for a previous session
+    for (const sourcePath of this.sourceBreakpoints.keys()) {
+      this.resolveBreakpoints(sourcePath);
+    }
+
+    this.queueEvent('initialized');
+  }
+
+  private loadProgram(programPath: string): LoadedProgram {
+    if (path.extname(programPath) === '.jcc') {
+      const source = fs.readFileSync(programPath, 'utf8');
+      const result = new JohnnyCompiler().compileSource(source);
+      if (result.errors.length > 0) {
+        throw new Error(`Compilation failed: ${result.errors.join('; ')}`);
+      }
+
+      return {
+        path: programPath,
+        ram: result.ram,
+        addressToLine: new Map(
+          result.sourceMap.entries.map(entry => [entry.address, entry.line])
+        ),
+        variables: new Map([
+          ...result.memoryMap.variables,
+          ...result.memoryMap.flags,
+          ...Array.from(result.memoryMap.arrays).flatMap(([name, base]) =>
+            Array.from(
+              { length: result.symbols.get(name)?.size ?? 0 },
+              (_, index): [string, number] => [
+                `${name}[${index}]`,
+                base + index,
+              ]
+            )
+          ),
+        ]),
+      };
+    }
+
+    const parseResult = new RamParser().parseFile(programPath);
+    if (parseResult.errors.length > 0) {
+      throw new Error(parseResult.errors.join('; '));
+    }
+
+    return {
+      path: programPath,
+      ram: parseResult.ram,
+      addressToLine: parseResult.lineMapping,
+      variables: new Map(),
+    };
+  }
+
+  /**
+   * Replace the breakpoints of one source file
+   */
+  private setBreakpoints(args: SetBreakpointsArguments): unknown[] {
+    const sourcePath = args.source.path ? path.resolve(args.source.path) : '';
+    this.sourceBreakpoints.set(sourcePath, args.breakpoints ?? []);
+    return this.resolveBreakpoints(sourcePath);
+  }
+
+  private resolveBreakpoints(sourcePath: string): unknown[] {
+    for (const id of this.breakpointIds.get(sourcePath) ?? []) {
+      this.breakpoints.remove(id);
+    }
+
+    const ids: number[] = [];
+    const results = (this.sourceBreakpoints.get(sourcePath) ?? []).map(
+      requested => {
+        const location = this.addressForLine(sourcePath, requested.line);
+        if (typeof location === 'string') {
+          return { verified: false, line: requested.line, message: location };
+        }
+
+        try {
+          const breakpoint = this.breakpoints.add(
+            'break',
+            location.address,
+            requested.condition
+          );
+          ids.push(breakpoint.id);
+          return { id: breakpoint.id, verified: true, line: location.line };
+        } catch (error) {
+          return {
+            verified: false,
+            line: requested.line,
+            message: (error as Error).message,
+          };
+        }
+      }
+    );
+
+    this.breakpointIds.set(sourcePath, ids);
+    return results;
+  }
+
+  /**
+   * First address generated from the given line or the next line with code
+   * Returns the reason as a string when the line cannot be mapped
+   */
+  private addressForLine(
+    sourcePath: string,
+    line: number
+  ): { address: number; line: number } | string {
+    if (!this.program) {
+      return 'Program not launched yet';
+    }
+    if (sourcePath !== this.program.path) {
+      return 'Source is not part of the launched program';
+    }
+
+    let best: { address: number; line: number } | undefined;
+    for (const [address, sourceLine] of this.program.addressToLine) {
+      if (sourceLine < line) continue;
+      if (
+        !best ||
+        sourceLine < best.line ||
+        (sourceLine === best.line && address < best.address)
+      ) {
+        best = { address, line: sourceLine };
+      }
+    }
+
+    return best ?? `No RAM address for line ${line}`;
+  }
+
+  private stackTrace(): unknown {
+    const state = this.requireState();
+    const program = this.program as LoadedProgram;
+    const line = program.addressToLine.get(state.pc);
+
+    return {
+      stackFrames: [
+        {
+          id: 1,
+          name: this.describeWord(state.ram[state.pc] || 0),
+          line: line ?? 0,
+          column: line ? 1 : 0,
+          instructionPointerReference: state.pc.toString().padStart(3, '0'),
+          ...(line
+            ? {
+                source: {
+                  name: path.basename(program.path),
+                  path: program.path,
+                },
+              }
+            : {}),
+        },
+      ],
+      totalFrames: 1,
+    };
+  }
+
+  private scopes(): unknown {
+    this.requireState();
+    const scopes = [
+      {
+        name: 'Registers',
+        variablesReference: REGISTERS_REFERENCE,
+        expensive: false,
+      },
+    ];
+    if (this.program && this.program.variables.size > 0) {
+      scopes.push({
+        name: 'Variables',
+        variablesReference: VARIABLES_REFERENCE,
+        expensive: false,
+      });
+    }
+    scopes.push({
+      name: 'Memory',
+      variablesReference: MEMORY_REFERENCE,
+      expensive: false,
+    });
+    return { scopes };
+  }
+
+  private variables(reference: number): unknown[] {
+    const state = this.requireState();
+    const value = (name: string, text: string | number) => ({
+      name,
+      value: String(text),
+      variablesReference: 0,
+    });
+
+    switch (reference) {
+      case REGISTERS_REFERENCE:
+        return [
+          value('PC', state.pc.toString().padStart(3, '0')),
+          value('ACC', state.acc),
+          value(
+            'IR',
+            `${state.instruction.toString().padStart(5, '0')} (${this.describeWord(state.instruction)})`
+          ),
+          value('Address Bus', state.addressBus.toString().padStart(3, '0')),
+          value('Data Bus', state.dataBus),
+          value('Steps', state.steps),
+        ];
+      case VARIABLES_REFERENCE:
+        return Array.from(this.program?.variables ?? [])
+          .sort(([, a], [, b]) => a - b)
+          .map(([name, address]) => ({
+            ...value(name, state.ram[address] || 0),
+            type: `RAM[${address}]`,
+          }));
+      case MEMORY_REFERENCE:
+        return state.ram
+          .map((word, address) => ({ word: word || 0, address }))
+          .filter(({ word, address }) => word !== 0 || address === state.pc)
+          .map(({ word, address }) =>
+            value(
+              `[${address.toString().padStart(3, '0')}]`,
+              `${word.toString().padStart(5, '0')} (${this.describeWord(word)})`
+            )
+          );
+      default:
+        return [];
+    }
+  }
+
+  private resume(): void {
+    const state = this.requireState();
+    try {
+      const hit = this.simulator.runUntilBreak(state, this.breakpoints);
+      this.reportStop(state, hit, 'pause');
+    } catch (error) {
+      this.reportError(error as Error);
+    }
+  }
+
+  private stepForward(): void {
+    const state = this.requireState();
+    try {
+      this.simulator.step(state);
+      this.reportStop(state, null, 'step');
+    } catch (error) {
+      this.reportError(error as Error);
+    }
+  }
+
+  private stepBackward(): void {
+    const state = this.requireState();
+    this.simulator.stepBack(state);
+    this.queueStopped('step');
+  }
+
+  private reverseContinue(): void {
+    const state = this.requireState();
+    const hit = this.simulator.reverseContinue(state, this.breakpoints);
+    if (hit) {
+      this.reportStop(state, hit, 'breakpoint');
+    } else {
+      this.queueStopped('pause', { description: 'Reached start of history' });
+    }
+  }
+
+  private reportStop(
+    state: ExecutionState,
+    hit: BreakpointHit | null,
+    reason: string
+  ): void {
+    if (state.halted) {
+      this.queueEvent('output', {
+        category: 'console',
+        output: `Program halted after ${state.steps} steps\n`,
+      });
+      this.queueEvent('exited', { exitCode: 0 });
+      this.queueEvent('terminated');
+    } else if (hit) {
+      this.queueStopped(
+        hit.breakpoint.kind === 'break' ? 'breakpoint' : 'data breakpoint',
+        { hitBreakpointIds: [hit.breakpoint.id] }
+      );
+    } else if (reason === 'pause') {
+      this.queueStopped(reason, { description: 'Step limit reached' });
+    } else {
+      this.queueStopped(reason);
+    }
+  }
+
+  private reportError(error: Error): void {
+    this.queueEvent('output', {
+      category: 'stderr',
+      output: `${error.message}\n`,
+    });
+    this.queueStopped('exception', { text: error.message });
+  }
+
+  private queueStopped(reason: string, extra: object = {}): void {
+    this.queueEvent('stopped', {
+      reason,
+      threadId: THREAD_ID,
+      allThreadsStopped: true,
+      ...extra,
+    });
+  }
+
+  private queueEvent(event: string, body?: unknown): void {
+    this.queuedEvents.push({ event, body });
+  }
+
+  private requireState(): ExecutionState {
+    if (!this.state) {
+      throw new Error('No program is running');
+    }
+    return this.state;
+  }
+
+  private describeWord(word: number): string {
+    const { opcode, operand } = decode(word);
+    const info = DEFAULT_OPCODE_MAPPING[opcode];
+    if (opcode === 0 || !info) {
+      return `DATA ${word}`;
+    }
+    return info.hasOperand
+      ? `${info.name} ${operand.toString().padStart(3, '0')}`
+      : info.name;
+  }
+}
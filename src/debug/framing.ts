@@ -0,0 +1,67 @@
+// Base protocol framing shared by the Debug Adapter and Language Server
+// Every message is a JSON body preceded by a "Content-Length: N" header block.
+
+const HEADER_END = '\r\n\r\n';
+
+export class MessageReader {
+  private buffer = Buffer.alloc(0);
+  private readonly onMessage: (message: unknown) => void;
+  private readonly onError: (error: Error) => void;
+
+  constructor(
+    onMessage: (message: unknown) => void,
+    onError: (error: Error) => void = () => {}
+  ) {
+    this.onMessage = onMessage;
+    this.onError = onError;
+  }
+
+  /**
+   * Feed raw bytes from the input stream; complete messages are dispatched
+   */
+  push(chunk: Buffer | string): void {
+    this.buffer = Buffer.concat([
+      this.buffer,
+      typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk,
+    ]);
+
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const headerEnd = this.buffer.indexOf(HEADER_END);
+      if (headerEnd < 0) return;
+
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const lengthMatch = header.match(/Content-Length:\s*(\d+)/i);
+      if (!lengthMatch) {
+        // Skip the malformed header block and resynchronize
+        this.buffer = this.buffer.subarray(headerEnd + HEADER_END.length);
+        this.onError(new Error(`Missing Content-Length in header: ${header}`));
+        continue;
+      }
+
+      const bodyStart = headerEnd + HEADER_END.length;
+      const bodyEnd = bodyStart + Number.parseInt(lengthMatch[1], 10);
+      if (this.buffer.length < bodyEnd) return;
+
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+
+      let message: unknown;
+      try {
+        message = JSON.parse(body);
+      } catch (error) {
+        this.onError(error as Error);
+        continue;
+      }
+      this.onMessage(message);
+    }
+  }
+}
+
+/**
+ * Serialize a message with its Content-Length header
+ */
+export function encodeMessage(message: unknown): string {
+  const body = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(body, 'utf8')}${HEADER_END}${body}`;
+}
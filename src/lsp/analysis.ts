@@ -0,0 +1,284 @@
+// Johnny C Document Analysis - Diagnostics and symbol information for editors
+import { Lexer, Token, TokenType } from '../compiler/lexer';
+import { Parser, Program } from '../compiler/parser';
+import { IRGenerator, SemanticError } from '../compiler/ir';
+import { DEFAULT_LAYOUT, MemoryMapper } from '../compiler/memmap';
+
+// Positions and ranges are zero-based, as in the Language Server Protocol
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Diagnostic {
+  range: Range;
+  severity: 1 | 2; // 1 = error, 2 = warning
+  source: 'jcc';
+  message: string;
+}
+
+export interface SymbolInfo {
+  name: string;
+  kind: 'variable' | 'parameter' | 'function';
+  type: 'int' | 'bool' | 'void';
+  scope?: string; // Enclosing function of parameters and locals
+  parameters?: string[]; // Function parameters, e.g. 'int a'
+  size?: number; // Element count of arrays
+  declaration: Range; // Range of the name in its declaration
+  references: Range[]; // Every occurrence, including the declaration
+  address?: number; // RAM address assigned by MemoryMapper
+}
+
+export interface DocumentAnalysis {
+  diagnostics: Diagnostic[];
+  symbols: Map<string, SymbolInfo>; // Keyed like the compiler, e.g. 'f.x'
+  identifiers: Array<{ name: string; range: Range; key?: string }>;
+}
+
+export class JohnnyCAnalyzer {
+  /**
+   * Analyze a Johnny C document, tolerating any number of errors
+   */
+  analyze(text: string): DocumentAnalysis {
+    const diagnostics: Diagnostic[] = [];
+    const { tokens, errors: lexerErrors } = new Lexer(
+      text
+    ).tokenizeRecovering();
+
+    for (const error of lexerErrors) {
+      diagnostics.push(
+        this.error(this.rangeAt(error.line, error.column, 1), error.message)
+      );
+    }
+
+    const { program, errors: parseErrors } = new Parser(
+      tokens
+    ).parseRecovering();
+    for (const error of parseErrors) {
+      diagnostics.push(this.error(this.tokenRange(error.token), error.message));
+    }
+
+    const symbols = new Map<string, SymbolInfo>();
+    const identifiers: DocumentAnalysis['identifiers'] = [];
+    const scopes: Array<string | undefined> = [];
+
+    // Functions are visible before their declaration, so collect them first
+    tokens.forEach((token, index) => {
+      if (!this.isFunctionHeader(tokens, index)) return;
+
+      const nameToken = tokens[index + 1];
+      const range = this.tokenRange(nameToken);
+      if (symbols.has(nameToken.value)) {
+        diagnostics.push(
+          this.error(range, `Function '${nameToken.value}' is already declared`)
+        );
+        return;
+      }
+      symbols.set(nameToken.value, {
+        name: nameToken.value,
+        kind: 'function',
+        type: token.value as SymbolInfo['type'],
+        parameters: [],
+        declaration: range,
+        references: [],
+      });
+    });
+
+    // Walk the tokens tracking which function body (if any) we are in
+    let scope: string | undefined;
+    let pendingScope: string | undefined;
+    let inParameters = false;
+    let depth = 0;
+
+    tokens.forEach((token, index) => {
+      if (this.isFunctionHeader(tokens, index)) {
+        pendingScope = tokens[index + 1].value;
+        inParameters = true;
+      } else if (token.type === TokenType.RIGHT_PAREN && inParameters) {
+        inParameters = false;
+      } else if (token.type === TokenType.LEFT_BRACE) {
+        if (depth === 0 && pendingScope !== undefined) {
+          scope = pendingScope;
+          pendingScope = undefined;
+        }
+        depth++;
+      } else if (token.type === TokenType.RIGHT_BRACE && depth > 0) {
+        depth--;
+        if (depth === 0) scope = undefined;
+      }
+
+      if (token.type !== TokenType.IDENTIFIER) return;
+
+      const range = this.tokenRange(token);
+      const identifierScope = inParameters ? pendingScope : scope;
+      scopes.push(identifierScope);
+      identifiers.push({ name: token.value, range });
+
+      const typeToken = tokens[index - 1];
+      const isDeclaration =
+        (typeToken?.type === TokenType.INT ||
+          typeToken?.type === TokenType.BOOL) &&
+        tokens[index + 1]?.type !== TokenType.LEFT_PAREN;
+      if (!isDeclaration) return;
+
+      const key = identifierScope
+        ? `${identifierScope}.${token.value}`
+        : token.value;
+      if (symbols.has(key)) {
+        diagnostics.push(
+          this.error(range, `Variable '${token.value}' is already declared`)
+        );
+        return;
+      }
+      symbols.set(key, {
+        name: token.value,
+        kind: inParameters ? 'parameter' : 'variable',
+        type: typeToken.value as 'int' | 'bool',
+        scope: identifierScope,
+        declaration: range,
+        references: [],
+      });
+      if (inParameters && identifierScope) {
+        symbols
+          .get(identifierScope)
+          ?.parameters?.push(`${typeToken.value} ${token.value}`);
+      }
+    });
+
+    identifiers.forEach((identifier, index) => {
+      const scope = scopes[index];
+      const key = [scope && `${scope}.${identifier.name}`, identifier.name]
+        .filter((candidate): candidate is string => !!candidate)
+        .find(candidate => symbols.has(candidate));
+
+      if (key) {
+        identifier.key = key;
+        symbols.get(key)?.references.push(identifier.range);
+      } else {
+        diagnostics.push(
+          this.error(
+            identifier.range,
+            `Undeclared variable '${identifier.name}'`
+          )
+        );
+      }
+    });
+
+    this.assignAddresses(program, tokens, symbols, diagnostics);
+
+    return { diagnostics, symbols, identifiers };
+  }
+
+  /**
+   * Find the identifier under the cursor
+   */
+  identifierAt(
+    analysis: DocumentAnalysis,
+    position: Position
+  ): DocumentAnalysis['identifiers'][number] | undefined {
+    return analysis.identifiers.find(
+      ({ range }) =>
+        range.start.line === position.line &&
+        range.start.character <= position.character &&
+        position.character <= range.end.character
+    );
+  }
+
+  /**
+   * Run the front end and MemoryMapper to learn where each variable lives
+   */
+  private assignAddresses(
+    program: Program,
+    tokens: Token[],
+    symbols: Map<string, SymbolInfo>,
+    diagnostics: Diagnostic[]
+  ): void {
+    try {
+      const { blocks, symbols: irSymbols } = new IRGenerator().generate(
+        program
+      );
+      const memoryMap = new MemoryMapper(DEFAULT_LAYOUT).createMemoryMap(
+        irSymbols,
+        blocks
+      );
+
+      for (const [key, symbol] of symbols) {
+        symbol.address =
+          memoryMap.variables.get(key) ??
+          memoryMap.flags.get(key) ??
+          memoryMap.arrays.get(key);
+        symbol.size = irSymbols.get(key)?.size;
+      }
+    } catch (error) {
+      const diagnostic = this.error(
+        this.semanticRange(error as Error, tokens, symbols),
+        (error as Error).message
+      );
+      // Redeclarations are already reported by the scan above
+      if (!diagnostics.some(d => d.message === diagnostic.message)) {
+        diagnostics.push(diagnostic);
+      }
+    }
+  }
+
+  /**
+   * Range of the AST node a SemanticError points at. MemoryMapper errors
+   * only name a symbol, so they go to its declaration.
+   */
+  private semanticRange(
+    error: Error,
+    tokens: Token[],
+    symbols: Map<string, SymbolInfo>
+  ): Range {
+    if (error instanceof SemanticError) {
+      const { line, column } = error.node;
+      const token = tokens.find(t => t.line === line && t.column === column);
+      return token ? this.tokenRange(token) : this.rangeAt(line, column, 1);
+    }
+    const name = /'([^']+)'/.exec(error.message)?.[1];
+    return (name && symbols.get(name)?.declaration) || this.rangeAt(1, 1, 0);
+  }
+
+  /**
+   * True for the return type token of `int f(`, `bool f(` or `void f(`
+   */
+  private isFunctionHeader(tokens: Token[], index: number): boolean {
+    const type = tokens[index].type;
+    return (
+      (type === TokenType.INT ||
+        type === TokenType.BOOL ||
+        type === TokenType.VOID) &&
+      tokens[index + 1]?.type === TokenType.IDENTIFIER &&
+      tokens[index + 2]?.type === TokenType.LEFT_PAREN
+    );
+  }
+
+  private error(range: Range, message: string): Diagnostic {
+    return {
+      range,
+      severity: 1,
+      source: 'jcc',
+      // Position is already part of the range
+      message: message.replace(
+        /^(Lexer|Parse|Semantic) error at line \d+, column \d+: /,
+        ''
+      ),
+    };
+  }
+
+  private tokenRange(token: Token): Range {
+    return this.rangeAt(token.line, token.column, token.value.length || 1);
+  }
+
+  private rangeAt(line: number, column: number, length: number): Range {
+    return {
+      start: { line: line - 1, character: column - 1 },
+      end: { line: line - 1, character: column - 1 + length },
+    };
+  }
+}
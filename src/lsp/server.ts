@@ -0,0 +1,265 @@
+// Johnny C Language Server - Language Server Protocol front end for the compiler
+import { KEYWORDS } from '../compiler/lexer';
+import { DocumentAnalysis, JohnnyCAnalyzer, Position, Range } from './analysis';
+
+export interface RpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface TextDocumentPositionParams {
+  textDocument: { uri: string };
+  position: Position;
+}
+
+interface Location {
+  uri: string;
+  range: Range;
+}
+
+// JSON-RPC and LSP error codes
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
+const SERVER_NOT_INITIALIZED = -32002;
+
+// LSP enumerations
+const TEXT_DOCUMENT_SYNC_FULL = 1;
+const COMPLETION_KIND_FUNCTION = 3;
+const COMPLETION_KIND_VARIABLE = 6;
+const COMPLETION_KIND_KEYWORD = 14;
+
+export class JohnnyLanguageServer {
+  private readonly send: (message: RpcMessage) => void;
+  private readonly analyzer = new JohnnyCAnalyzer();
+  private readonly documents = new Map<
+    string,
+    { text: string; analysis: DocumentAnalysis }
+  >();
+  private initialized = false;
+  private shutdownRequested = false;
+
+  /** Called with the process exit code once the client sends 'exit' */
+  onExit: (code: number) => void = () => {};
+
+  constructor(send: (message: RpcMessage) => void) {
+    this.send = send;
+  }
+
+  /**
+   * Handle one request or notification from the client
+   */
+  handleMessage(message: RpcMessage): void {
+    const { id, method } = message;
+    if (!method) return; // Responses to server requests are unused
+
+    if (id === undefined || id === null) {
+      this.notify(method, message.params);
+      return;
+    }
+
+    if (!this.initialized && method !== 'initialize') {
+      this.respondError(id, SERVER_NOT_INITIALIZED, 'Server not initialized');
+      return;
+    }
+
+    let result: unknown;
+    try {
+      result = this.request(method, message.params);
+    } catch (error) {
+      const code =
+        error instanceof MethodNotFound ? METHOD_NOT_FOUND : INTERNAL_ERROR;
+      this.respondError(id, code, (error as Error).message);
+      return;
+    }
+    this.send({ jsonrpc: '2.0', id, result: result ?? null });
+  }
+
+  private request(method: string, params: unknown): unknown {
+    switch (method) {
+      case 'initialize':
+        this.initialized = true;
+        return {
+          capabilities: {
+            textDocumentSync: TEXT_DOCUMENT_SYNC_FULL,
+            definitionProvider: true,
+            referencesProvider: true,
+            hoverProvider: true,
+            completionProvider: {},
+          },
+          serverInfo: { name: 'johnny-c' },
+        };
+      case 'shutdown':
+        this.shutdownRequested = true;
+        return null;
+      case 'textDocument/definition':
+        return this.definition(params as TextDocumentPositionParams);
+      case 'textDocument/references':
+        return this.references(
+          params as TextDocumentPositionParams & {
+            context?: { includeDeclaration?: boolean };
+          }
+        );
+      case 'textDocument/hover':
+        return this.hover(params as TextDocumentPositionParams);
+      case 'textDocument/completion':
+        return this.completion(params as TextDocumentPositionParams);
+      default:
+        throw new MethodNotFound(`Unhandled method ${method}`);
+    }
+  }
+
+  private notify(method: string, params: unknown): void {
+    switch (method) {
+      case 'textDocument/didOpen': {
+        const { textDocument } = params as {
+          textDocument: { uri: string; text: string };
+        };
+        this.update(textDocument.uri, textDocument.text);
+        break;
+      }
+      case 'textDocument/didChange': {
+        const { textDocument, contentChanges } = params as {
+          textDocument: { uri: string };
+          contentChanges: Array<{ text: string }>;
+        };
+        // Full sync: the last change holds the whole document
+        const last = contentChanges[contentChanges.length - 1];
+        if (last) this.update(textDocument.uri, last.text);
+        break;
+      }
+      case 'textDocument/didClose': {
+        const { textDocument } = params as { textDocument: { uri: string } };
+        this.documents.delete(textDocument.uri);
+        this.publishDiagnostics(textDocument.uri, []);
+        break;
+      }
+      case 'exit':
+        this.onExit(this.shutdownRequested ? 0 : 1);
+        break;
+      default:
+        // 'initialized', '$/cancelRequest' and friends need no action
+        break;
+    }
+  }
+
+  private update(uri: string, text: string): void {
+    const analysis = this.analyzer.analyze(text);
+    this.documents.set(uri, { text, analysis });
+    this.publishDiagnostics(uri, analysis.diagnostics);
+  }
+
+  private publishDiagnostics(uri: string, diagnostics: unknown[]): void {
+    this.send({
+      jsonrpc: '2.0',
+      method: 'textDocument/publishDiagnostics',
+      params: { uri, diagnostics },
+    });
+  }
+
+  private definition(params: TextDocumentPositionParams): Location | null {
+    const symbol = this.symbolAt(params);
+    return symbol
+      ? { uri: params.textDocument.uri, range: symbol.declaration }
+      : null;
+  }
+
+  private references(
+    params: TextDocumentPositionParams & {
+      context?: { includeDeclaration?: boolean };
+    }
+  ): Location[] {
+    const symbol = this.symbolAt(params);
+    if (!symbol) return [];
+
+    const includeDeclaration = params.context?.includeDeclaration ?? true;
+    return symbol.references
+      .filter(
+        range => includeDeclaration || !sameRange(range, symbol.declaration)
+      )
+      .map(range => ({ uri: params.textDocument.uri, range }));
+  }
+
+  private hover(params: TextDocumentPositionParams): unknown {
+    const symbol = this.symbolAt(params);
+    if (!symbol) return null;
+
+    const signature =
+      symbol.kind === 'function'
+        ? `${symbol.type} ${symbol.name}(${symbol.parameters?.join(', ')})`
+        : symbol.size !== undefined
+          ? `${symbol.type} ${symbol.name}[${symbol.size}]`
+          : `${symbol.type} ${symbol.name}`;
+    const location =
+      symbol.kind === 'function'
+        ? 'function'
+        : symbol.address !== undefined
+          ? `RAM[${symbol.address}]`
+          : 'no address assigned';
+    return {
+      contents: {
+        kind: 'markdown',
+        value: [
+          '```c',
+          signature,
+          '```',
+          `${location}, declared on line ${symbol.declaration.start.line + 1}`,
+        ].join('\n'),
+      },
+    };
+  }
+
+  private completion(params: TextDocumentPositionParams): unknown[] {
+    const document = this.documents.get(params.textDocument.uri);
+    const keywords = Object.keys(KEYWORDS).map(label => ({
+      label,
+      kind: COMPLETION_KIND_KEYWORD,
+    }));
+    const variables = document
+      ? Array.from(document.analysis.symbols.values()).map(symbol => ({
+          label: symbol.name,
+          kind:
+            symbol.kind === 'function'
+              ? COMPLETION_KIND_FUNCTION
+              : COMPLETION_KIND_VARIABLE,
+          detail:
+            symbol.address !== undefined
+              ? `${symbol.type} @ RAM[${symbol.address}]`
+              : symbol.type,
+        }))
+      : [];
+    return [...variables, ...keywords];
+  }
+
+  private symbolAt(params: TextDocumentPositionParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) return undefined;
+
+    const identifier = this.analyzer.identifierAt(
+      document.analysis,
+      params.position
+    );
+    return identifier
+      ? document.analysis.symbols.get(identifier.key ?? identifier.name)
+      : undefined;
+  }
+
+  private respondError(
+    id: number | string,
+    code: number,
+    message: string
+  ): void {
+    this.send({ jsonrpc: '2.0', id, error: { code, message } });
+  }
+}
+
+class MethodNotFound extends Error {}
+
+function sameRange(a: Range, b: Range): boolean {
+  return (
+    a.start.line === b.start.line && a.start.character === b.start.character
+  );
+}
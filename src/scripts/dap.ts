@@ -0,0 +1,28 @@
+#!/usr/bin/env node
+// JOHNNY Debug Adapter - Speaks the Debug Adapter Protocol over stdio
+import { DebugRequest, JohnnyDebugAdapter } from '../debug/adapter';
+import { MessageReader, encodeMessage } from '../debug/framing';
+
+// CLI execution
+if (require.main === module) {
+  // stdout carries the protocol, so stray logging must go to stderr
+  console.log = (...args: unknown[]) => console.error(...args);
+
+  const adapter = new JohnnyDebugAdapter(message =>
+    process.stdout.write(encodeMessage(message))
+  );
+
+  const reader = new MessageReader(
+    message => {
+      const request = message as DebugRequest;
+      adapter.handleMessage(request);
+      if (request.command === 'disconnect') {
+        // Let pending output drain, then exit with the closed input
+        process.stdin.destroy();
+      }
+    },
+    error => console.error(`dap: ${error.message}`)
+  );
+
+  process.stdin.on('data', chunk => reader.push(chunk));
+}
@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+// JOHNNY RAM Disassembler CLI - Converts .ram files into labelled .jasm
+import * as fs from 'fs';
+import * as path from 'path';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const chalk = require('chalk');
+import { RamParser } from '../core/parser';
+import { RamDisassembler } from '../core/disassembler';
+import { JohnnyAssembler } from '../core/assembler';
+import { loadIsa } from '../core/isa';
+
+class DisassemblerCLI {
+  private parser = new RamParser();
+  private disassembler = new RamDisassembler();
+  private assembler = new JohnnyAssembler();
+
+  /**
+   * Main CLI entry point
+   */
+  run(): void {
+    const args = process.argv.slice(2);
+
+    const isaIndex = args.indexOf('--isa');
+    if (isaIndex >= 0) {
+      const isaFile = args[isaIndex + 1];
+      if (!isaFile) {
+        console.error(chalk.red('Error: --isa flag requires an ISA file'));
+        process.exit(1);
+      }
+      try {
+        const mapping = loadIsa(isaFile);
+        this.parser = new RamParser(mapping);
+        this.disassembler = new RamDisassembler(mapping);
+        this.assembler = new JohnnyAssembler(mapping);
+      } catch (error) {
+        console.error(chalk.red(`❌ ${(error as Error).message}`));
+        process.exit(1);
+      }
+      args.splice(isaIndex, 2);
+    }
+
+    const outputIndex = args.indexOf('-o');
+    const outputFile = outputIndex >= 0 ? args[outputIndex + 1] : undefined;
+    if (outputIndex >= 0) {
+      if (!outputFile) {
+        console.error(chalk.red('Error: -o flag requires an output file'));
+        process.exit(1);
+      }
+      args.splice(outputIndex, 2);
+    }
+
+    const inputFile = args.find(arg => !arg.startsWith('-'));
+
+    if (!inputFile || args.includes('--help') || args.includes('-h')) {
+      this.showUsage();
+      process.exit(inputFile ? 0 : 1);
+    }
+
+    if (!fs.existsSync(inputFile)) {
+      console.error(chalk.red(`❌ File not found: ${inputFile}`));
+      process.exit(1);
+    }
+
+    const parseResult = this.parser.parseFile(inputFile);
+    if (parseResult.errors.length > 0) {
+      console.error(chalk.red('Parse errors:'));
+      parseResult.errors.forEach(error =>
+        console.error(chalk.red(`  • ${error}`))
+      );
+      process.exit(1);
+    }
+
+    const { source } = this.disassembler.disassemble(parseResult.ram, {
+      header: `Disassembled from ${path.basename(inputFile)}`,
+      includeAddresses: !args.includes('--no-addresses'),
+    });
+
+    // Guard the round-trip guarantee before anything is written
+    const reassembled = this.assembler.assemble(source);
+    const identical =
+      reassembled.errors.length === 0 &&
+      reassembled.ram.every((value, addr) => value === parseResult.ram[addr]);
+    if (!identical) {
+      console.error(
+        chalk.red('❌ Disassembly does not re-assemble to the same image')
+      );
+      process.exit(1);
+    }
+
+    if (outputFile) {
+      fs.writeFileSync(outputFile, source);
+      console.log(chalk.green(`✅ Generated ${outputFile}`));
+    } else {
+      process.stdout.write(source);
+    }
+  }
+
+  /**
+   * Show usage information
+   */
+  private showUsage(): void {
+    console.log(chalk.blue('🔁 JOHNNY RAM Disassembler'));
+    console.log(
+      chalk.gray('Usage: bun run disassemble <file.ram> [-o out.jasm]')
+    );
+    console.log(chalk.gray('Options:'));
+    console.log(chalk.gray('  -o <file>         Write assembly to file'));
+    console.log(chalk.gray('  --no-addresses    Omit address comments'));
+    console.log(
+      chalk.gray('  --isa <file>      Use the instruction set of an ISA file')
+    );
+  }
+}
+
+// CLI execution
+if (require.main === module) {
+  const cli = new DisassemblerCLI();
+  cli.run();
+}
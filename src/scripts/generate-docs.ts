@@ -2,15 +2,25 @@
 // Auto-generate documentation for .ram programs
 
 import { readdirSync, writeFileSync, readFileSync } from 'fs';
-import { join, basename } from 'path';
+import { join, basename, relative } from 'path';
 import { RamValidator } from '../validation/validator';
 import { RamParser } from '../core/parser';
 import { JohnnySimulator } from '../core/simulator';
-import { getInstructionName, OPCODES } from '../core/opcodes';
+import { RamDisassembler } from '../core/disassembler';
 import {
   ControlFlowAnalyzer,
+  FlowGraph,
   MermaidFlowchartGenerator,
 } from '../core/flowchart';
+import { flowHeatmap } from '../core/profiler';
+import { SourceMap } from '../compiler/sourcemap';
+import { ExecutionState } from '../types';
+
+// Initial ACC and memory of one simulate() call in a program's test file
+interface TestInput {
+  acc: number;
+  memory: Record<number, number>;
+}
 
 interface ProgramAnalysis {
   filename: string;
@@ -23,9 +33,11 @@ interface ProgramAnalysis {
     maxAddress: number;
     hasHalt: boolean;
   };
-  disassembly: string[];
+  disassembly: string; // Labelled .jasm listing
+  sourceFile?: string; // Johnny C file from the program's .ram.map
   flowchart: string;
   compactFlowchart: string;
+  heatmap?: { flowchart: string; runs: number }; // From the test inputs
   testResults?: {
     passed: number;
     failed: number;
@@ -37,7 +49,12 @@ interface ProgramAnalysis {
 class DocumentationGenerator {
   private validator = new RamValidator();
   private parser = new RamParser();
-  private simulator = new JohnnySimulator();
+  private simulator = new JohnnySimulator(undefined, {
+    maxSteps: 10000,
+    undoLimit: 0, // Runs are never stepped back
+    profile: true,
+  });
+  private disassembler = new RamDisassembler();
   private flowAnalyzer = new ControlFlowAnalyzer();
   private flowchartGenerator = new MermaidFlowchartGenerator();
 
@@ -83,8 +100,16 @@ class DocumentationGenerator {
       // Parse program
       const parseResult = this.parser.parseFile(filePath);
 
-      // Generate disassembly
-      const disassembly = this.generateDisassembly(parseResult.ram);
+      // Generate disassembly, annotated with Johnny C lines when mapped
+      const sourceMap = SourceMap.loadFor(filePath);
+      const sourceLines = this.readSourceLines(sourceMap);
+      const disassembly = this.disassembler.disassemble(parseResult.ram, {
+        annotate: address => {
+          const entry = sourceMap?.lookup(address);
+          if (!entry) return undefined;
+          return `L${entry.line}: ${(sourceLines[entry.line - 1] ?? '').trim()}`;
+        },
+      }).source;
 
       // Generate flowcharts
       const flowGraph = this.flowAnalyzer.analyzeFlow(parseResult.ram);
@@ -94,6 +119,11 @@ class DocumentationGenerator {
 
       // Check for test results
       const testResults = await this.getTestResults(filename);
+      const heatmap = this.generateHeatmap(
+        parseResult.ram,
+        flowGraph,
+        filename
+      );
 
       return {
         filename,
@@ -107,8 +137,10 @@ class DocumentationGenerator {
           hasHalt: validationResult.statistics.hasHalt,
         },
         disassembly,
+        sourceFile: sourceMap?.source,
         flowchart,
         compactFlowchart,
+        heatmap,
         testResults: testResults || undefined,
       };
     } catch (error) {
@@ -123,68 +155,61 @@ class DocumentationGenerator {
           maxAddress: 0,
           hasHalt: false,
         },
-        disassembly: [],
+        disassembly: '',
         flowchart: '',
         compactFlowchart: '',
       };
     }
   }
 
-  private generateDisassembly(ram: number[]): string[] {
-    const result: string[] = [];
-    let address = 0;
-
-    for (const value of ram) {
-      if (value === 0) {
-        result.push(
-          `${address.toString().padStart(3, '0')} | ${value
-            .toString()
-            .padStart(5, '0')} | DATA         | Empty`
-        );
-      } else {
-        const opcode = Math.floor(value / 1000);
-        const operand = value % 1000;
-        const instructionName = getInstructionName(opcode);
-        const comment = this.getInstructionComment(opcode, operand);
-
-        result.push(
-          `${address.toString().padStart(3, '0')} | ${value
-            .toString()
-            .padStart(5, '0')} | ${instructionName} ${operand
-            .toString()
-            .padStart(3, '0')}     | ${comment}`
-        );
-      }
-      address++;
+  private readSourceLines(sourceMap?: SourceMap): string[] {
+    if (!sourceMap?.source) return [];
+    try {
+      return readFileSync(sourceMap.source, 'utf8').split('\n');
+    } catch {
+      return [];
     }
+  }
 
-    return result;
+  /**
+   * Run the program on the inputs of its test file and color the flowchart
+   * by how often each instruction ran. Runs that fail are left out.
+   */
+  private generateHeatmap(
+    ram: number[],
+    flowGraph: FlowGraph,
+    filename: string
+  ): ProgramAnalysis['heatmap'] {
+    const testContent = this.readTestFile(filename);
+    if (testContent === null) return undefined;
+
+    const runs: ExecutionState[] = [];
+    for (const input of this.extractTestInputs(testContent)) {
+      try {
+        runs.push(this.simulator.simulate(ram, input.acc, input.memory));
+      } catch {
+        // Expected failures and runaway loops do not count
+      }
+    }
+    if (runs.length === 0) return undefined;
+
+    return {
+      flowchart: this.flowchartGenerator.generateHeatmapFlowchart(
+        flowGraph,
+        flowHeatmap(runs)
+      ),
+      runs: runs.length,
+    };
   }
 
-  private getInstructionComment(opcode: number, operand: number): string {
-    switch (opcode) {
-      case OPCODES.TAKE:
-        return `Load mem[${operand}] into ACC | ADDR:${operand} DATA:mem[${operand}]→ACC`;
-      case OPCODES.ADD:
-        return `ACC = ACC + mem[${operand}] | ADDR:${operand} DATA:mem[${operand}]→ALU`;
-      case OPCODES.SUB:
-        return `ACC = ACC - mem[${operand}] | ADDR:${operand} DATA:mem[${operand}]→ALU`;
-      case OPCODES.SAVE:
-        return `mem[${operand}] = ACC | ADDR:${operand} DATA:ACC→mem[${operand}]`;
-      case OPCODES.JMP:
-        return `Jump to address ${operand} | ADDR:${operand} (PC update)`;
-      case OPCODES.TST:
-        return `Skip next if mem[${operand}] = 0 | ADDR:${operand} DATA:mem[${operand}]→CMP`;
-      case OPCODES.INC:
-        return `mem[${operand}] = mem[${operand}] + 1 | ADDR:${operand} DATA:mem[${operand}]↔mem[${operand}]`;
-      case OPCODES.DEC:
-        return `mem[${operand}] = mem[${operand}] - 1 | ADDR:${operand} DATA:mem[${operand}]↔mem[${operand}]`;
-      case OPCODES.NULL:
-        return `mem[${operand}] = 0 | ADDR:${operand} DATA:0→mem[${operand}]`;
-      case OPCODES.HLT:
-        return `Halt program | Control signals stop`;
-      default:
-        return `Unknown instruction`;
+  private readTestFile(filename: string): string | null {
+    try {
+      return readFileSync(
+        join('scripts', filename.replace('.ram', '.test.ts')),
+        'utf8'
+      );
+    } catch {
+      return null;
     }
   }
 
@@ -194,23 +219,18 @@ class DocumentationGenerator {
     total: number;
     descriptions: string[];
   } | null> {
-    try {
-      const testFile = filename.replace('.ram', '.test.ts');
-      const testPath = join('scripts', testFile);
-      const testContent = readFileSync(testPath, 'utf8');
-      const descriptions = this.extractTestDescriptions(testContent);
-
-      // Run tests and capture results
-      // For now, we'll assume all tests pass since we can't easily capture jest output
-      return {
-        passed: descriptions.length,
-        failed: 0,
-        total: descriptions.length,
-        descriptions,
-      };
-    } catch {
-      return null;
-    }
+    const testContent = this.readTestFile(filename);
+    if (testContent === null) return null;
+    const descriptions = this.extractTestDescriptions(testContent);
+
+    // Run tests and capture results
+    // For now, we'll assume all tests pass since we can't easily capture jest output
+    return {
+      passed: descriptions.length,
+      failed: 0,
+      total: descriptions.length,
+      descriptions,
+    };
   }
 
   private async generateIndividualDoc(
@@ -276,6 +296,15 @@ class DocumentationGenerator {
       autoContent += `\`\`\`\n\n`;
     }
 
+    // Execution heatmap over the test inputs
+    if (analysis.heatmap) {
+      autoContent += `## 🔥 Execution Heatmap\n\n`;
+      autoContent += `Instruction counts summed over ${analysis.heatmap.runs} test run(s); darker nodes ran more often and branch labels count how often each was taken.\n\n`;
+      autoContent += `\`\`\`mermaid\n`;
+      autoContent += analysis.heatmap.flowchart;
+      autoContent += `\`\`\`\n\n`;
+    }
+
     // Errors and warnings
     if (analysis.errors.length > 0) {
       autoContent += `## ❌ Errors\n\n`;
@@ -295,12 +324,11 @@ class DocumentationGenerator {
 
     // Disassembly
     autoContent += `## 📋 Program Disassembly\n\n`;
-    autoContent += `\`\`\`\n`;
-    autoContent += `Addr | Value | Instruction  | Comment\n`;
-    autoContent += `-----|-------|--------------|--------\n`;
-    analysis.disassembly.forEach(line => {
-      autoContent += `${line}\n`;
-    });
+    if (analysis.sourceFile) {
+      autoContent += `Compiled from \`${relative(process.cwd(), analysis.sourceFile)}\`; \`Lnn\` marks the Johnny C line of each instruction.\n\n`;
+    }
+    autoContent += `\`\`\`asm\n`;
+    autoContent += analysis.disassembly;
     autoContent += `\`\`\`\n\n`;
 
     // Source code
@@ -384,6 +412,39 @@ class DocumentationGenerator {
     writeFileSync(masterPath, content, 'utf8');
   }
 
+  /**
+   * Inputs of the simulate(parseResult.ram, acc, memory) calls in a test
+   * file; memory may be a literal or the last initialMemory before the call
+   */
+  private extractTestInputs(testContent: string): TestInput[] {
+    const inputs: TestInput[] = [];
+    const callRegex =
+      /simulate\(\s*parseResult\.ram\s*(?:,\s*(-?\d+)\s*(?:,\s*(\{[^}]*\}|initialMemory))?)?\s*\)/g;
+    let match;
+
+    while ((match = callRegex.exec(testContent)) !== null) {
+      let memory = match[2] ?? '{}';
+      if (memory === 'initialMemory') {
+        const assignments = [
+          ...testContent
+            .slice(0, match.index)
+            .matchAll(/initialMemory\s*=\s*(\{[^}]*\})/g),
+        ];
+        memory = assignments[assignments.length - 1]?.[1] ?? '{}';
+      }
+
+      const values: Record<number, number> = {};
+      for (const [, address, value] of memory.matchAll(
+        /(\d+)\s*:\s*(-?\d+)/g
+      )) {
+        values[Number(address)] = Number(value);
+      }
+      inputs.push({ acc: Number(match[1] ?? 0), memory: values });
+    }
+
+    return inputs;
+  }
+
   private extractTestDescriptions(testContent: string): string[] {
     const descriptions: string[] = [];
     const testRegex = /it\(['"`]([^'"`]+)['"`]/g;
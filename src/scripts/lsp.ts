@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+// Johnny C Language Server - Speaks the Language Server Protocol over stdio
+import { JohnnyLanguageServer, RpcMessage } from '../lsp/server';
+import { MessageReader, encodeMessage } from '../debug/framing';
+
+// CLI execution
+if (require.main === module) {
+  // stdout carries the protocol, so stray logging must go to stderr
+  console.log = (...args: unknown[]) => console.error(...args);
+
+  const server = new JohnnyLanguageServer(message =>
+    process.stdout.write(encodeMessage(message))
+  );
+  server.onExit = code => {
+    process.exitCode = code;
+    process.stdin.destroy();
+  };
+
+  const reader = new MessageReader(
+    message => server.handleMessage(message as RpcMessage),
+    error => console.error(`lsp: ${error.message}`)
+  );
+
+  process.stdin.on('data', chunk => reader.push(chunk));
+}
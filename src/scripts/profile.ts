@@ -0,0 +1,133 @@
+#!/usr/bin/env node
+// JOHNNY Profiler CLI - Runs a .ram file and reports where the steps went
+import * as fs from 'fs';
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const chalk = require('chalk');
+import { RamParser } from '../core/parser';
+import { JohnnySimulator } from '../core/simulator';
+import { buildProfile, formatProfile } from '../core/profiler';
+import { loadIsa } from '../core/isa';
+import { SourceMap } from '../compiler/sourcemap';
+import { OpcodeMapping } from '../types';
+
+class ProfilerCLI {
+  private opcodeMapping?: OpcodeMapping;
+
+  /**
+   * Main CLI entry point
+   */
+  run(): void {
+    const args = process.argv.slice(2);
+    const option = (flag: string): string | undefined => {
+      const index = args.indexOf(flag);
+      if (index < 0) return undefined;
+      const value = args[index + 1];
+      if (!value) {
+        console.error(chalk.red(`Error: ${flag} flag requires a value`));
+        process.exit(1);
+      }
+      args.splice(index, 2);
+      return value;
+    };
+
+    const isaFile = option('--isa');
+    const jsonFile = option('--json');
+    const top = Number(option('--top') ?? 10);
+    const inputFile = args.find(arg => !arg.startsWith('-'));
+
+    if (!inputFile || args.includes('--help') || args.includes('-h')) {
+      this.showUsage();
+      process.exit(inputFile ? 0 : 1);
+    }
+    if (!Number.isInteger(top) || top < 1) {
+      console.error(chalk.red('Error: --top needs a positive number'));
+      process.exit(1);
+    }
+    if (!fs.existsSync(inputFile)) {
+      console.error(chalk.red(`❌ File not found: ${inputFile}`));
+      process.exit(1);
+    }
+
+    try {
+      if (isaFile) this.opcodeMapping = loadIsa(isaFile);
+      this.profile(inputFile, jsonFile, top);
+    } catch (error) {
+      console.error(chalk.red(`❌ ${(error as Error).message}`));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Run the program with profiling on and print the report
+   */
+  private profile(
+    inputFile: string,
+    jsonFile: string | undefined,
+    top: number
+  ): void {
+    const parseResult = new RamParser(this.opcodeMapping).parseFile(inputFile);
+    if (parseResult.errors.length > 0) {
+      throw new Error(
+        `Parse errors:\n  • ${parseResult.errors.join('\n  • ')}`
+      );
+    }
+
+    const simulator = new JohnnySimulator(this.opcodeMapping, {
+      undoLimit: 0, // The run is never stepped back
+      profile: true,
+    });
+    const state = simulator.createInitialState(parseResult.ram);
+    while (simulator.step(state)) {
+      // Profile counts are collected by the simulator
+    }
+    if (!state.halted) {
+      console.log(
+        chalk.yellow(
+          `⚠️  Stopped after ${state.steps} steps without reaching HLT, profiling the partial run`
+        )
+      );
+    }
+
+    const sourceMap = SourceMap.loadFor(inputFile);
+    const sourceLines =
+      sourceMap?.source && fs.existsSync(sourceMap.source)
+        ? fs.readFileSync(sourceMap.source, 'utf8').split('\n')
+        : undefined;
+    const profile = buildProfile(parseResult.ram, state.profile, {
+      opcodeMapping: this.opcodeMapping,
+      sourceMap,
+      sourceLines,
+    });
+
+    process.stdout.write(formatProfile(profile, top));
+    if (jsonFile) {
+      fs.writeFileSync(jsonFile, JSON.stringify(profile, null, 2) + '\n');
+      console.log(chalk.green(`✅ Generated ${jsonFile}`));
+    }
+  }
+
+  /**
+   * Show usage information
+   */
+  private showUsage(): void {
+    console.log(chalk.blue('⏱️  JOHNNY Profiler'));
+    console.log(chalk.gray('Usage: bun run profile <file.ram> [options]'));
+    console.log(chalk.gray('Options:'));
+    console.log(chalk.gray('  --top <n>         Entries per section (10)'));
+    console.log(
+      chalk.gray('  --json <file>     Also write the profile as JSON')
+    );
+    console.log(
+      chalk.gray('  --isa <file>      Use the instruction set of an ISA file')
+    );
+    console.log(
+      chalk.gray('Source lines are reported when <file.ram>.map exists.')
+    );
+  }
+}
+
+// CLI execution
+if (require.main === module) {
+  const cli = new ProfilerCLI();
+  cli.run();
+}
@@ -1,27 +1,57 @@
 #!/usr/bin/env node
 // Interactive JOHNNY RAM Simulator
 import * as fs from 'fs';
+import * as path from 'path';
 import * as readline from 'readline';
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const chalk = require('chalk');
-import { JohnnySimulator } from '../core/simulator';
+import { InputRequired, JohnnySimulator } from '../core/simulator';
 import { RamValidator } from '../validation/validator';
 import { RamParser } from '../core/parser';
-import { ExecutionState } from '../types';
-import { getInstructionName } from '../core/opcodes';
+import {
+  ArithmeticMode,
+  DeviceMap,
+  ExecutionState,
+  MicrocodeTable,
+  OpcodeMapping,
+} from '../types';
+import {
+  DEFAULT_OPCODE_MAPPING,
+  JOHNNY_CONFIG,
+  getInstructionName,
+} from '../core/opcodes';
+import { parseDeviceMap, renderSevenSegment } from '../core/devices';
+import { buildProfile, formatProfile } from '../core/profiler';
+import { loadIsa } from '../core/isa';
+import { decode } from '../core/codec';
+import { parseMicrocode } from '../core/microcode';
+import {
+  BreakpointHit,
+  BreakpointKind,
+  BreakpointManager,
+} from '../core/breakpoints';
+import { SourceMap } from '../compiler/sourcemap';
 
 class InteractiveSimulator {
   private simulator: JohnnySimulator;
   private validator: RamValidator;
   private parser: RamParser;
+  private breakpoints: BreakpointManager;
   private rl: readline.Interface;
   private currentState?: ExecutionState;
   private originalRam: number[] = [];
+  private sourceMap?: SourceMap; // Set when the program has a .ram.map
+  private sourceLines: string[] = [];
+  private arithmeticMode: ArithmeticMode = 'saturate';
+  private opcodeMapping: OpcodeMapping = DEFAULT_OPCODE_MAPPING;
+  private devices: DeviceMap = {};
+  private microcode?: MicrocodeTable; // Set by the microcode command
 
   constructor() {
-    this.simulator = new JohnnySimulator();
+    this.simulator = new JohnnySimulator(undefined, { profile: true });
     this.validator = new RamValidator();
     this.parser = new RamParser();
+    this.breakpoints = new BreakpointManager();
 
     this.rl = readline.createInterface({
       input: process.stdin,
@@ -50,7 +80,7 @@ class InteractiveSimulator {
     while (true) {
       try {
         const command = await this.prompt('\n> ');
-        const [cmd, ...args] = command.trim().split(/\\s+/);
+        const [cmd, ...args] = command.trim().split(/\s+/);
 
         switch (cmd.toLowerCase()) {
           case 'load':
@@ -62,6 +92,35 @@ class InteractiveSimulator {
           case 'step':
             await this.stepProgram();
             break;
+          case 'continue':
+          case 'c':
+            await this.continueProgram();
+            break;
+          case 'reverse-continue':
+          case 'rc':
+            this.reverseContinue();
+            break;
+          case 'break':
+          case 'watch':
+          case 'rwatch':
+            this.addBreakpoint(cmd.toLowerCase() as BreakpointKind, args);
+            break;
+          case 'delete':
+            this.deleteBreakpoint(args[0]);
+            break;
+          case 'info':
+            if (args[0]?.startsWith('b')) {
+              this.showBreakpoints();
+            } else {
+              console.log(chalk.red('Usage: info breakpoints'));
+            }
+            break;
+          case 'back':
+            this.stepBack(args[0]);
+            break;
+          case 'rewind':
+            this.rewind(args[0]);
+            break;
           case 'reset':
             await this.resetProgram();
             break;
@@ -80,6 +139,30 @@ class InteractiveSimulator {
           case 'set':
             this.setMemory(args[0], args[1]);
             break;
+          case 'arithmetic':
+            this.setArithmeticMode(args[0]);
+            break;
+          case 'micro':
+            this.microStep(args[0]);
+            break;
+          case 'microcode':
+            this.loadMicrocode(args[0]);
+            break;
+          case 'isa':
+            this.loadInstructionSet(args[0]);
+            break;
+          case 'devices':
+            this.setDevices(args);
+            break;
+          case 'input':
+            this.queueInput(args);
+            break;
+          case 'output':
+            this.showOutput();
+            break;
+          case 'profile':
+            this.showProfile(args[0]);
+            break;
           case 'help':
             await this.showHelp();
             break;
@@ -130,6 +213,7 @@ class InteractiveSimulator {
     this.currentState = this.simulator.createInitialState(parseResult.ram);
 
     console.log(chalk.green(`✅ Loaded ${filename}`));
+    this.loadSourceMap(filename);
 
     if (parseResult.warnings.length > 0) {
       console.log(chalk.yellow('Warnings:'));
@@ -141,6 +225,31 @@ class InteractiveSimulator {
     this.showState();
   }
 
+  /**
+   * Pick up the Johnny C source map written by `compile --sourcemap`
+   */
+  private loadSourceMap(filename: string): void {
+    this.sourceMap = undefined;
+    this.sourceLines = [];
+
+    try {
+      const sourceMap = SourceMap.loadFor(filename);
+      if (!sourceMap?.source) return;
+
+      this.sourceLines = fs.readFileSync(sourceMap.source, 'utf8').split('\n');
+      this.sourceMap = sourceMap;
+      console.log(
+        chalk.green(
+          `✅ Source map loaded for ${path.relative(process.cwd(), sourceMap.source)}`
+        )
+      );
+    } catch (error) {
+      console.log(
+        chalk.yellow(`Ignoring source map: ${(error as Error).message}`)
+      );
+    }
+  }
+
   /**
    * Run program to completion
    */
@@ -163,7 +272,7 @@ class InteractiveSimulator {
       const startSteps = this.currentState.steps;
 
       while (!this.currentState.halted && this.currentState.steps < 10000) {
-        this.simulator.step(this.currentState);
+        if (!(await this.stepWithInput(this.currentState))) break;
       }
 
       const executedSteps = this.currentState.steps - startSteps;
@@ -172,6 +281,8 @@ class InteractiveSimulator {
         console.log(
           chalk.green(`✅ Program completed in ${executedSteps} steps`)
         );
+      } else if (this.currentState.steps < 10000) {
+        console.log(chalk.yellow(`Paused after ${executedSteps} steps`));
       } else {
         console.log(
           chalk.red(
@@ -201,10 +312,13 @@ class InteractiveSimulator {
     }
 
     try {
-      const canContinue = this.simulator.step(this.currentState);
+      if (!(await this.stepWithInput(this.currentState))) {
+        console.log(chalk.yellow('Paused waiting for input'));
+        return;
+      }
       this.showCurrentInstruction();
 
-      if (!canContinue) {
+      if (this.currentState.halted) {
         console.log(chalk.green('Program halted.'));
       }
     } catch (error) {
@@ -212,6 +326,216 @@ class InteractiveSimulator {
     }
   }
 
+  /**
+   * Continue until a breakpoint or watchpoint triggers
+   */
+  private async continueProgram(): Promise<void> {
+    if (!this.currentState) {
+      console.log(chalk.red('No program loaded. Use "load <filename>" first.'));
+      return;
+    }
+
+    if (this.currentState.halted) {
+      console.log(chalk.yellow('Program is halted. Use "reset" to restart.'));
+      return;
+    }
+
+    try {
+      let hit: BreakpointHit | null = null;
+      let paused = false;
+      for (;;) {
+        try {
+          hit = this.simulator.runUntilBreak(
+            this.currentState,
+            this.breakpoints
+          );
+          break;
+        } catch (error) {
+          if (!(error instanceof InputRequired)) throw error;
+          if (!(await this.askForInput(error))) {
+            paused = true;
+            break;
+          }
+        }
+      }
+
+      if (hit) {
+        this.reportHit(hit);
+      } else if (this.currentState.halted) {
+        console.log(chalk.green('Program halted.'));
+      } else if (paused) {
+        console.log(chalk.yellow('Paused waiting for input'));
+      } else {
+        console.log(chalk.red('⚠️  Program stopped at the step limit'));
+      }
+      this.showState();
+    } catch (error) {
+      console.log(chalk.red(`Execution error: ${(error as Error).message}`));
+    }
+  }
+
+  /**
+   * Step backwards to the previous breakpoint or watchpoint hit
+   */
+  private reverseContinue(): void {
+    if (!this.currentState) {
+      console.log(chalk.red('No program loaded. Use "load <filename>" first.'));
+      return;
+    }
+
+    const hit = this.simulator.reverseContinue(
+      this.currentState,
+      this.breakpoints
+    );
+    if (hit) {
+      this.reportHit(hit);
+    } else {
+      console.log(chalk.yellow('Reached start of history.'));
+    }
+    this.showState();
+  }
+
+  /**
+   * Add a breakpoint or watchpoint: <kind> <addr> [if <condition>]
+   */
+  private addBreakpoint(kind: BreakpointKind, args: string[]): void {
+    const address = args[0] ? Number.parseInt(args[0]) : NaN;
+    const hasCondition = args[1]?.toLowerCase() === 'if';
+
+    if (isNaN(address) || (args.length > 1 && !hasCondition)) {
+      console.log(chalk.red(`Usage: ${kind} <address> [if <condition>]`));
+      return;
+    }
+
+    const condition = hasCondition ? args.slice(2).join(' ') : undefined;
+    const breakpoint = this.breakpoints.add(kind, address, condition);
+    const suffix = breakpoint.condition ? ` if ${breakpoint.condition}` : '';
+    console.log(
+      chalk.green(
+        `✅ ${this.describeKind(kind)} ${breakpoint.id} at ${address.toString().padStart(3, '0')}${suffix}`
+      )
+    );
+  }
+
+  /**
+   * Delete one breakpoint, or all of them without an id
+   */
+  private deleteBreakpoint(idStr?: string): void {
+    if (!idStr) {
+      this.breakpoints.clear();
+      console.log(chalk.green('✅ Deleted all breakpoints'));
+      return;
+    }
+
+    const id = Number.parseInt(idStr);
+    if (this.breakpoints.remove(id)) {
+      console.log(chalk.green(`✅ Deleted breakpoint ${id}`));
+    } else {
+      console.log(chalk.red(`No breakpoint number ${idStr}.`));
+    }
+  }
+
+  /**
+   * List breakpoints and watchpoints
+   */
+  private showBreakpoints(): void {
+    const breakpoints = this.breakpoints.list();
+    if (breakpoints.length === 0) {
+      console.log(chalk.yellow('No breakpoints or watchpoints.'));
+      return;
+    }
+
+    console.log(chalk.cyan('🔴 Breakpoints:'));
+    console.log('Num | Type   | Addr | Hits | Condition');
+    console.log('----|--------|------|------|----------');
+    breakpoints.forEach(bp => {
+      console.log(
+        `${bp.id.toString().padStart(3)} | ${bp.kind.padEnd(6)} | ${bp.address.toString().padStart(3, '0')}  | ${bp.hitCount.toString().padStart(4)} | ${bp.condition ?? ''}`.trimEnd()
+      );
+    });
+  }
+
+  private reportHit(hit: BreakpointHit): void {
+    const { breakpoint, access } = hit;
+    const address = breakpoint.address.toString().padStart(3, '0');
+    const label = `${this.describeKind(breakpoint.kind)} ${breakpoint.id}`;
+
+    const write = [
+      ...(access?.write ? [access.write] : []),
+      ...(access?.indirectWrites ?? []),
+    ].find(entry => entry.address === breakpoint.address);
+    if (breakpoint.kind === 'watch' && write) {
+      console.log(
+        chalk.magenta(
+          `👁️  ${label}: mem[${address}] ${write.oldValue} → ${write.newValue}`
+        )
+      );
+    } else if (breakpoint.kind === 'rwatch') {
+      console.log(chalk.magenta(`👁️  ${label}: mem[${address}] read`));
+    } else {
+      console.log(chalk.magenta(`🔴 ${label} at ${address}`));
+    }
+  }
+
+  private describeKind(kind: BreakpointKind): string {
+    switch (kind) {
+      case 'watch':
+        return 'Watchpoint';
+      case 'rwatch':
+        return 'Read watchpoint';
+      default:
+        return 'Breakpoint';
+    }
+  }
+
+  /**
+   * Undo one or more steps
+   */
+  private stepBack(countStr?: string): void {
+    if (!this.currentState) {
+      console.log(chalk.red('No program loaded. Use "load <filename>" first.'));
+      return;
+    }
+
+    const count = countStr ? Number.parseInt(countStr) : 1;
+    if (isNaN(count) || count < 1) {
+      console.log(chalk.red('Usage: back [count]'));
+      return;
+    }
+
+    let undone = 0;
+    while (undone < count && this.simulator.stepBack(this.currentState)) {
+      undone++;
+    }
+
+    if (undone < count) {
+      console.log(
+        chalk.yellow(`Reached start of history after ${undone} step(s).`)
+      );
+    }
+    this.showState();
+  }
+
+  /**
+   * Rewind execution to an earlier step number
+   */
+  private rewind(stepStr?: string): void {
+    if (!this.currentState) {
+      console.log(chalk.red('No program loaded. Use "load <filename>" first.'));
+      return;
+    }
+
+    const step = stepStr ? Number.parseInt(stepStr) : NaN;
+    if (isNaN(step)) {
+      console.log(chalk.red('Usage: rewind <step>'));
+      return;
+    }
+
+    this.simulator.runBackTo(this.currentState, step);
+    console.log(chalk.green(`⏪ Rewound to step ${step}`));
+    this.showState();
+  }
+
   /**
    * Reset program to initial state
    */
@@ -221,11 +545,283 @@ class InteractiveSimulator {
       return;
     }
 
-    this.currentState = this.simulator.createInitialState(this.originalRam);
+    // Queued input is read again from the start
+    this.currentState = this.simulator.createInitialState(
+      this.originalRam,
+      0,
+      undefined,
+      this.currentState?.io.input
+    );
     console.log(chalk.green('✅ Program reset to initial state'));
     this.showState();
   }
 
+  /**
+   * Choose how ADD, SUB, INC and DEC handle results outside 0..19999
+   */
+  private setArithmeticMode(mode?: string): void {
+    if (mode === undefined) {
+      console.log(`Arithmetic mode: ${this.arithmeticMode}`);
+      return;
+    }
+    if (mode !== 'saturate' && mode !== 'wrap' && mode !== 'trap') {
+      console.log(chalk.red('Usage: arithmetic <saturate|wrap|trap>'));
+      return;
+    }
+
+    this.arithmeticMode = mode;
+    this.simulator.updateConfig({ arithmeticMode: mode });
+    console.log(chalk.green(`Arithmetic mode set to ${mode}`));
+  }
+
+  /**
+   * Execute micro-operations of the control unit, showing the buses
+   */
+  private microStep(countArg?: string): void {
+    if (!this.currentState) {
+      console.log(chalk.red('No program loaded. Use "load <filename>" first.'));
+      return;
+    }
+
+    const count = countArg ? Number.parseInt(countArg) : 1;
+    if (Number.isNaN(count) || count < 1) {
+      console.log(chalk.red('Usage: micro [count]'));
+      return;
+    }
+
+    try {
+      for (let i = 0; i < count; i++) {
+        const micro = this.simulator.microStep(this.currentState);
+        if (!micro) {
+          console.log(chalk.green('Program halted.'));
+          return;
+        }
+        const position = `${micro.routine}.${micro.mc}`.padEnd(10);
+        console.log(
+          `${position} ${micro.operation.padEnd(10)} AB: ${micro.addressBus.toString().padStart(3, '0')}  DB: ${micro.dataBus.toString().padStart(5, '0')}  ACC: ${micro.acc}  PC: ${micro.pc.toString().padStart(3, '0')}`
+        );
+      }
+    } catch (error) {
+      console.log(chalk.red(`Micro-step error: ${(error as Error).message}`));
+    }
+  }
+
+  /**
+   * Replace the microcode table and run every instruction through it
+   */
+  private loadMicrocode(filename?: string): void {
+    if (!filename) {
+      console.log(chalk.red('Usage: microcode <file.json>'));
+      return;
+    }
+
+    try {
+      this.microcode = parseMicrocode(fs.readFileSync(filename, 'utf8'));
+      this.simulator = this.createSimulator();
+      console.log(chalk.green(`✅ Loaded microcode from ${filename}`));
+    } catch (error) {
+      console.log(chalk.red(`Error: ${(error as Error).message}`));
+    }
+  }
+
+  /**
+   * Simulator for the current instruction set, settings and microcode
+   */
+  private createSimulator(): JohnnySimulator {
+    return new JohnnySimulator(
+      this.opcodeMapping,
+      {
+        arithmeticMode: this.arithmeticMode,
+        microcoded: this.microcode !== undefined,
+        devices: this.devices,
+        profile: true,
+      },
+      this.microcode
+    );
+  }
+
+  /**
+   * Switch to the instruction set of an ISA file. Loaded programs are
+   * parsed again by the next load.
+   */
+  private loadInstructionSet(filename?: string): void {
+    if (!filename) {
+      console.log(chalk.red('Usage: isa <file.json>'));
+      return;
+    }
+
+    try {
+      this.opcodeMapping = loadIsa(filename);
+      this.simulator = this.createSimulator();
+      this.validator = new RamValidator(this.opcodeMapping);
+      this.parser = new RamParser(this.opcodeMapping);
+      const names = Object.values(this.opcodeMapping).map(info => info.name);
+      console.log(
+        chalk.green(
+          `✅ Loaded instruction set from ${filename}: ${names.join(', ')}`
+        )
+      );
+
+      const unrouted = Object.entries(this.opcodeMapping)
+        .filter(
+          ([opcode]) => this.microcode && !this.microcode.opcodes[+opcode]
+        )
+        .map(([, info]) => info.name);
+      if (unrouted.length > 0) {
+        console.log(
+          chalk.yellow(
+            `⚠️  The loaded microcode has no routine for ${unrouted.join(', ')}`
+          )
+        );
+      }
+    } catch (error) {
+      console.log(chalk.red(`Error: ${(error as Error).message}`));
+    }
+  }
+
+  /**
+   * Show or map devices: devices input=997 output=998 display=999, or
+   * devices off
+   */
+  private setDevices(args: string[]): void {
+    if (args.length > 0) {
+      try {
+        this.devices =
+          args[0] === 'off'
+            ? {}
+            : parseDeviceMap(args, JOHNNY_CONFIG.MEMORY_SIZE);
+      } catch (error) {
+        console.log(chalk.red(`Error: ${(error as Error).message}`));
+        return;
+      }
+      this.simulator.updateConfig({ devices: this.devices });
+    }
+
+    const mapped = Object.entries(this.devices);
+    if (mapped.length === 0) {
+      console.log('No devices mapped (devices input=997 output=998 ...)');
+      return;
+    }
+    mapped.forEach(([name, address]) =>
+      console.log(`   ${name.padEnd(8)} ${address.toString().padStart(3, '0')}`)
+    );
+  }
+
+  /**
+   * Append values to the input queue of the loaded program
+   */
+  private queueInput(args: string[]): void {
+    if (!this.currentState) {
+      console.log(chalk.red('No program loaded.'));
+      return;
+    }
+
+    const values = args.map(Number);
+    if (
+      values.length === 0 ||
+      values.some(
+        value =>
+          !Number.isInteger(value) ||
+          value < 0 ||
+          value > JOHNNY_CONFIG.MAX_VALUE
+      )
+    ) {
+      console.log(
+        chalk.red(`Usage: input <value> [...] (0-${JOHNNY_CONFIG.MAX_VALUE})`)
+      );
+      return;
+    }
+
+    this.currentState.io.input.push(...values);
+    const { io } = this.currentState;
+    console.log(
+      chalk.green(`✅ ${io.input.length - io.inputRead} input value(s) queued`)
+    );
+  }
+
+  /**
+   * Show the output log and the numeric display
+   */
+  private showOutput(): void {
+    if (!this.currentState) {
+      console.log(chalk.red('No program loaded.'));
+      return;
+    }
+
+    const { io } = this.currentState;
+    console.log(chalk.cyan('🖨️  Output:'));
+    console.log(
+      io.output.length > 0 ? `   ${io.output.join(' ')}` : '   (none)'
+    );
+    if (this.devices.display !== undefined) {
+      console.log(chalk.cyan('🔢 Display:'));
+      renderSevenSegment(io.display).forEach(row => console.log(`   ${row}`));
+    }
+  }
+
+  /**
+   * Show where the steps so far went, top n entries per section
+   */
+  private showProfile(limit?: string): void {
+    if (!this.currentState) {
+      console.log(chalk.red('No program loaded.'));
+      return;
+    }
+
+    const top = limit === undefined ? 10 : Number(limit);
+    if (!Number.isInteger(top) || top < 1) {
+      console.log(chalk.red('Usage: profile [n]'));
+      return;
+    }
+
+    const profile = buildProfile(this.originalRam, this.currentState.profile, {
+      opcodeMapping: this.opcodeMapping,
+      sourceMap: this.sourceMap,
+      sourceLines: this.sourceLines,
+    });
+    console.log(formatProfile(profile, top).trimEnd());
+  }
+
+  /**
+   * Step once, asking for input when the program waits for it
+   * Returns false when no input was given
+   */
+  private async stepWithInput(state: ExecutionState): Promise<boolean> {
+    for (;;) {
+      try {
+        this.simulator.step(state);
+        return true;
+      } catch (error) {
+        if (!(error instanceof InputRequired)) throw error;
+        if (!(await this.askForInput(error))) return false;
+      }
+    }
+  }
+
+  /**
+   * Prompt for input values; an empty answer pauses the program
+   */
+  private async askForInput(request: InputRequired): Promise<boolean> {
+    for (;;) {
+      const answer = (await this.prompt(`Input for PC ${request.pc}> `)).trim();
+      if (answer === '') return false;
+
+      const values = answer.split(/\s+/).map(Number);
+      if (
+        values.every(
+          value =>
+            Number.isInteger(value) &&
+            value >= 0 &&
+            value <= JOHNNY_CONFIG.MAX_VALUE
+        )
+      ) {
+        this.currentState?.io.input.push(...values);
+        return true;
+      }
+      console.log(chalk.red(`Values must be 0-${JOHNNY_CONFIG.MAX_VALUE}`));
+    }
+  }
+
   /**
    * Show current execution state
    */
@@ -240,6 +836,17 @@ class InteractiveSimulator {
     console.log(`   ACC: ${this.currentState.acc}`);
     console.log(`   Steps: ${this.currentState.steps}`);
     console.log(`   Halted: ${this.currentState.halted ? 'Yes' : 'No'}`);
+    const overflows = this.currentState.overflows.length;
+    if (overflows > 0) {
+      console.log(
+        chalk.yellow(`   Overflows: ${overflows} (${this.arithmeticMode})`)
+      );
+    }
+    if (Object.keys(this.devices).length > 0) {
+      const { io } = this.currentState;
+      console.log(`   Input: ${io.input.length - io.inputRead} queued`);
+      console.log(`   Output: [${io.output.join(', ')}]`);
+    }
 
     if (!this.currentState.halted) {
       this.showCurrentInstruction();
@@ -253,15 +860,20 @@ class InteractiveSimulator {
     if (!this.currentState || this.currentState.pc >= 1000) return;
 
     const instruction = this.currentState.ram[this.currentState.pc];
-    const opcode = Math.floor(instruction / 1000);
-    const operand = instruction % 1000;
-    const name = getInstructionName(opcode);
+    const { opcode, operand } = decode(instruction);
+    const name = getInstructionName(opcode, this.opcodeMapping);
 
     console.log(
       chalk.blue(
         `   Next: [${this.currentState.pc.toString().padStart(3, '0')}] ${instruction.toString().padStart(5, '0')} (${name} ${operand.toString().padStart(3, '0')})`
       )
     );
+
+    const entry = this.sourceMap?.lookup(this.currentState.pc);
+    if (entry) {
+      const text = (this.sourceLines[entry.line - 1] ?? '').trim();
+      console.log(chalk.gray(`   Source: line ${entry.line}: ${text}`));
+    }
   }
 
   /**
@@ -283,12 +895,11 @@ class InteractiveSimulator {
     for (let addr = start; addr <= end; addr++) {
       const value = this.currentState.ram[addr];
       if (value !== 0 || addr <= end - start + 10) {
-        const opcode = Math.floor(value / 1000);
-        const operand = value % 1000;
+        const { opcode, operand } = decode(value);
         const instruction =
           opcode === 0
             ? 'DATA'
-            : `${getInstructionName(opcode)} ${operand.toString().padStart(3, '0')}`;
+            : `${getInstructionName(opcode, this.opcodeMapping)} ${operand.toString().padStart(3, '0')}`;
 
         const marker = addr === this.currentState.pc ? '>' : ' ';
         console.log(
@@ -313,7 +924,7 @@ class InteractiveSimulator {
 
     const trace = this.currentState.trace.slice(-10);
     trace.forEach(entry => {
-      const name = getInstructionName(entry.opcode);
+      const name = getInstructionName(entry.opcode, this.opcodeMapping);
       console.log(
         `${entry.step.toString().padStart(4)} | ${entry.pc.toString().padStart(3, '0')} | ${entry.instruction.toString().padStart(5, '0')} | ${name.padEnd(6)} | ${entry.acc}`
       );
@@ -329,7 +940,7 @@ class InteractiveSimulator {
       return;
     }
 
-    const result = this.validator.validateProgram(this.currentState.ram);
+    const result = this.validator.validate(this.currentState.ram);
 
     if (result.errors.length > 0) {
       console.log(chalk.red(`❌ ${result.errors.length} error(s):`));
@@ -389,12 +1000,33 @@ class InteractiveSimulator {
     console.log('  load <file>     - Load a .ram program');
     console.log('  run             - Run program to completion');
     console.log('  step            - Execute single instruction');
+    console.log('  continue        - Run until a breakpoint or watchpoint');
+    console.log('  break <addr> [if <cond>] - Break before executing addr');
+    console.log('  watch <addr>    - Break when addr is written');
+    console.log('  rwatch <addr>   - Break when addr is read');
+    console.log('  delete [id]     - Delete a breakpoint (all without id)');
+    console.log('  info breakpoints- List breakpoints and watchpoints');
+    console.log('  back [n]        - Undo the last n steps (default 1)');
+    console.log('  rewind <step>   - Rewind execution to step number');
+    console.log(
+      '  reverse-continue- Run backwards to the previous breakpoint or watchpoint'
+    );
     console.log('  reset           - Reset program to initial state');
     console.log('  state           - Show current execution state');
     console.log('  memory [s] [e]  - Show memory contents (start, end)');
     console.log('  trace           - Show execution trace');
     console.log('  validate        - Validate current program');
     console.log('  set <addr> <val>- Set memory value');
+    console.log('  arithmetic [mode]- Show or set saturate, wrap or trap');
+    console.log('  micro [n]       - Execute n micro-operations (default 1)');
+    console.log('  microcode <file>- Load a microcode table (JSON)');
+    console.log('  isa <file>      - Load an instruction set (ISA JSON)');
+    console.log('  devices [n=addr]- Map input, output and display devices');
+    console.log('  input <v> [...] - Queue values for the input device');
+    console.log('  output          - Show device output and the display');
+    console.log(
+      '  profile [n]     - Show the n hottest addresses, blocks, lines'
+    );
     console.log('  help            - Show this help');
     console.log('  quit/exit       - Exit simulator');
   }
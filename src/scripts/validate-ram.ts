@@ -6,19 +6,36 @@ import * as path from 'path';
 const chalk = require('chalk');
 import { RamValidator } from '../validation/validator';
 import { RamParser } from '../core/parser';
-import {
-  getInstructionName,
-  DEFAULT_OPCODE_MAPPING,
-  OPCODES,
-} from '../core/opcodes';
+import { RamDisassembler } from '../core/disassembler';
+import { DEFAULT_OPCODE_MAPPING, getInstructionName } from '../core/opcodes';
+import { loadIsa } from '../core/isa';
+import { OpcodeMapping } from '../types';
 
 class ValidatorCLI {
+  private opcodeMapping: OpcodeMapping = DEFAULT_OPCODE_MAPPING;
   private validator: RamValidator;
   private parser: RamParser;
+  private disassembler: RamDisassembler;
 
   constructor() {
     this.validator = new RamValidator();
     this.parser = new RamParser();
+    this.disassembler = new RamDisassembler();
+  }
+
+  /**
+   * Validate against the instruction set of an ISA file
+   */
+  private useIsa(isaFile: string): void {
+    try {
+      this.opcodeMapping = loadIsa(isaFile);
+    } catch (error) {
+      console.log(chalk.red(`❌ ${(error as Error).message}`));
+      process.exit(1);
+    }
+    this.validator = new RamValidator(this.opcodeMapping);
+    this.parser = new RamParser(this.opcodeMapping);
+    this.disassembler = new RamDisassembler(this.opcodeMapping);
   }
 
   /**
@@ -26,6 +43,15 @@ class ValidatorCLI {
    */
   run(): void {
     const args = process.argv.slice(2);
+    const isaIndex = args.indexOf('--isa');
+    if (isaIndex >= 0) {
+      if (!args[isaIndex + 1]) {
+        console.log(chalk.red('Error: --isa flag requires an ISA file'));
+        process.exit(1);
+      }
+      this.useIsa(args[isaIndex + 1]);
+      args.splice(isaIndex, 2);
+    }
 
     if (args.length === 0) {
       this.showUsage();
@@ -61,6 +87,9 @@ class ValidatorCLI {
     console.log(
       chalk.gray('  -v, --verbose      Show detailed validation info')
     );
+    console.log(
+      chalk.gray('  --isa <file>       Use the instruction set of an ISA file')
+    );
     console.log();
   }
 
@@ -127,7 +156,10 @@ class ValidatorCLI {
           console.log(`   Instruction breakdown:`);
           Object.entries(validationResult.statistics.instructionCount).forEach(
             ([opcode, count]) => {
-              const name = getInstructionName(Number.parseInt(opcode));
+              const name = getInstructionName(
+                Number.parseInt(opcode),
+                this.opcodeMapping
+              );
               console.log(`     ${name}: ${count}`);
             }
           );
@@ -187,101 +219,25 @@ class ValidatorCLI {
   }
 
   /**
-   * Disassemble program with enhanced formatting
+   * Disassemble program into labelled assembly
    */
   private disassemble(ram: number[]): void {
     console.log(chalk.blue('\n📋 Program Disassembly:'));
-    console.log(chalk.gray('Addr | Value | Instruction | Comment'));
-    console.log(chalk.gray('-----|-------|-------------|--------'));
-
-    let lastNonZero = 0;
-    for (let addr = 0; addr < 1000; addr++) {
-      if (ram[addr] !== 0) {
-        lastNonZero = addr;
-      }
-    }
-
-    // Show up to lastNonZero + 10 or max 100
-    const maxAddr = Math.min(Math.max(lastNonZero + 10, 50), 1000);
 
-    for (let addr = 0; addr < maxAddr; addr++) {
-      const value = ram[addr];
-      if (value !== 0 || addr <= lastNonZero) {
-        const opcode = Math.floor(value / 1000) * 10;
-        const operand = value % 1000;
-
-        let instruction = '';
-        let comment = '';
-
-        if (opcode === OPCODES.DATA) {
-          instruction = 'DATA';
-          comment = `Value: ${value}`;
-        } else if (DEFAULT_OPCODE_MAPPING[opcode]) {
-          const opcodeInfo = DEFAULT_OPCODE_MAPPING[opcode];
-          instruction = `${opcodeInfo.name} ${operand.toString().padStart(3, '0')}`;
-
-          switch (opcode) {
-            case OPCODES.TAKE:
-              comment = `Load mem[${operand}] into ACC`;
-              break;
-            case OPCODES.ADD:
-              comment = `ACC = ACC + mem[${operand}]`;
-              break;
-            case OPCODES.SUB:
-              comment = `ACC = ACC - mem[${operand}]`;
-              break;
-            case OPCODES.SAVE:
-              comment = `mem[${operand}] = ACC`;
-              break;
-            case OPCODES.JMP:
-              comment = `Jump to address ${operand}`;
-              break;
-            case OPCODES.TST:
-              comment = `Skip next if mem[${operand}] = 0`;
-              break;
-            case OPCODES.INC:
-              comment = `mem[${operand}] = mem[${operand}] + 1`;
-              break;
-            case OPCODES.DEC:
-              comment = `mem[${operand}] = mem[${operand}] - 1`;
-              break;
-            case OPCODES.NULL:
-              comment = `mem[${operand}] = 0`;
-              break;
-            case OPCODES.HLT:
-              comment = `Halt program`;
-              break;
-          }
+    const { source, codeAddresses } = this.disassembler.disassemble(ram);
+    source
+      .trimEnd()
+      .split('\n')
+      .forEach(line => {
+        const address = Number.parseInt(line.split('; ')[1] ?? '', 10);
+        if (line.trim() === '' || line.trim().startsWith('ORG')) {
+          console.log(chalk.gray(line));
+        } else if (!codeAddresses.has(address)) {
+          console.log(chalk.cyan(line));
         } else {
-          instruction = `INVALID`;
-          comment = `Unknown opcode ${opcode}`;
+          console.log(line);
         }
-
-        const addrStr = addr.toString().padStart(3, '0');
-        const valueStr = value.toString().padStart(5, '0');
-        const instrStr = instruction.padEnd(11);
-
-        if (value === 0) {
-          console.log(
-            chalk.gray(`${addrStr}  | ${valueStr} | ${instrStr} | ${comment}`)
-          );
-        } else if (opcode === 0) {
-          console.log(
-            chalk.cyan(`${addrStr}  | ${valueStr} | ${instrStr} | ${comment}`)
-          );
-        } else {
-          console.log(`${addrStr}  | ${valueStr} | ${instrStr} | ${comment}`);
-        }
-      }
-    }
-
-    if (lastNonZero >= maxAddr) {
-      console.log(
-        chalk.gray(
-          `... (${lastNonZero - maxAddr + 1} more addresses with data)`
-        )
-      );
-    }
+      });
   }
 }
 
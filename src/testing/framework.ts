@@ -17,7 +17,7 @@ export class TestFramework {
   private parser: RamParser;
 
   constructor() {
-    this.simulator = new JohnnySimulator();
+    this.simulator = new JohnnySimulator(undefined, { undoLimit: 0 });
     this.validator = new RamValidator();
     this.parser = new RamParser();
   }
@@ -45,26 +45,33 @@ export class TestFramework {
       }
 
       // Validate the program
-      const validationResult = this.validator.validateProgram(parseResult.ram);
+      const validationResult = this.validator.validate(parseResult.ram);
       if (!validationResult.isValid) {
         errors.push(...validationResult.errors.map(e => e.message));
       }
 
       // Set up simulation
       const maxSteps = testCase.timeout || 10000;
-      this.simulator.updateConfig({ maxSteps });
+      this.simulator.updateConfig({
+        maxSteps,
+        arithmeticMode: testCase.setup?.arithmeticMode ?? 'saturate',
+        devices: testCase.setup?.devices ?? {},
+      });
 
       // Run simulation
       const finalState = this.simulator.simulate(
         parseResult.ram,
         testCase.setup?.initialAcc || 0,
-        testCase.setup?.initialMemory
+        testCase.setup?.initialMemory,
+        testCase.setup?.input
       );
 
       actualResults.finalAcc = finalState.acc;
       actualResults.steps = finalState.steps;
       actualResults.halted = finalState.halted;
       actualResults.ram = [...finalState.ram];
+      actualResults.overflows = [...finalState.overflows];
+      actualResults.output = [...finalState.io.output];
 
       // Check expectations
       const expectationResults = this.checkExpectations(
@@ -153,6 +160,9 @@ export class TestFramework {
           case 'OUTPUT':
             this.checkOutputExpectation(expectation, finalState, errors);
             break;
+          case 'NO_OVERFLOW':
+            this.checkNoOverflowExpectation(expectation, finalState, errors);
+            break;
         }
       } catch (error) {
         errors.push(`Error checking expectation: ${(error as Error).message}`);
@@ -262,19 +272,45 @@ export class TestFramework {
   }
 
   /**
-   * Check output expectation (for programs that write to specific memory locations)
+   * Check output expectation: the values written to the output device, or
+   * for older tests a memory location
    */
   private checkOutputExpectation(
     expectation: TestExpectation,
     finalState: ExecutionState,
     errors: string[]
   ): void {
-    // This can be extended to check specific output patterns or calculations
-    if (expectation.address !== undefined) {
+    if (expectation.expectedOutput !== undefined) {
+      const actual = finalState.io.output;
+      const expected = expectation.expectedOutput;
+      if (
+        actual.length !== expected.length ||
+        actual.some((value, index) => value !== expected[index])
+      ) {
+        errors.push(
+          `${expectation.description}: Expected output [${expected.join(', ')}], got [${actual.join(', ')}]`
+        );
+      }
+    } else if (expectation.address !== undefined) {
       this.checkMemoryExpectation(expectation, finalState, errors);
     }
   }
 
+  /**
+   * Check that no arithmetic result left the value range during the run
+   */
+  private checkNoOverflowExpectation(
+    expectation: TestExpectation,
+    finalState: ExecutionState,
+    errors: string[]
+  ): void {
+    for (const overflow of this.validator.checkOverflows(finalState)) {
+      errors.push(
+        `${expectation.description}: ${overflow.message} (address ${overflow.address})`
+      );
+    }
+  }
+
   /**
    * Create test case for multiplication verification
    */
@@ -315,6 +351,10 @@ export class TestFramework {
           expectedValue: 1,
           description: 'Program should halt properly',
         },
+        {
+          type: 'NO_OVERFLOW',
+          description: 'Partial products should stay within range',
+        },
       ],
       timeout: 50000,
     };
@@ -17,6 +17,78 @@ export interface ExecutionState {
   halted: boolean; // Halt State
   ram: number[]; // RAM Memory
   trace: ExecutionTrace[];
+  undoLog: UndoRecord[]; // Reverse-execution history, oldest first
+  overflows: OverflowEvent[]; // Arithmetic results outside 0..maxValue, oldest first
+  mc: number; // Micro-instruction counter within the running routine
+  mcRoutine: number | null; // Opcode whose microcode runs, null while fetching
+  microTrace: MicroTrace[];
+  io: IoState; // Memory-mapped devices
+  profile: number[]; // Executions per address while profiling
+}
+
+// Addresses where devices replace RAM cells. Instructions reach a device
+// through their operand (or the address bus in microcode).
+export interface DeviceMap {
+  input?: number; // Reads take the next value of the input queue
+  output?: number; // Writes append to the output log
+  display?: number; // Writes show the value on the numeric display
+}
+
+export interface IoState {
+  input: number[]; // Input queue, including values already read
+  inputRead: number; // How many input values were read
+  output: number[]; // Values written to the output port, oldest first
+  display: number | null; // Value on the display, null while blank
+}
+
+export interface MicroTrace {
+  step: number; // Instruction step the micro-operation belongs to
+  routine: string; // FETCH or the name of the decoded instruction
+  mc: number;
+  operation: string;
+  // Registers and buses after the micro-operation
+  pc: number;
+  acc: number;
+  addressBus: number;
+  dataBus: number;
+  ramChanged?: { address: number; oldValue: number; newValue: number };
+}
+
+export interface MicroRoutine {
+  name: string;
+  operations: string[]; // Micro-operations, ending with mc:=0 or stop
+}
+
+export interface MicrocodeTable {
+  fetch: string[]; // Loads the instruction register, ends with ins->mc
+  opcodes: Record<number, MicroRoutine>;
+}
+
+// saturate clamps to 0..maxValue, wrap computes modulo maxValue + 1 and trap
+// stops the program at the offending instruction
+export type ArithmeticMode = 'saturate' | 'wrap' | 'trap';
+
+export interface OverflowEvent {
+  step: number;
+  pc: number;
+  opcode: number;
+  value: number; // Exact result before it was fitted into range
+  result?: number; // Value stored instead; absent when the mode traps
+}
+
+// A memory cell written by an instruction and its value before the write
+export interface CellWrite {
+  address: number;
+  oldValue: number;
+}
+
+export interface UndoRecord {
+  pc: number; // PC before the step
+  acc: number; // ACC before the step
+  ramDelta?: CellWrite; // Operand cell overwritten by the step
+  indirectDeltas?: CellWrite[]; // Other cells it overwrote, e.g. by indirect stores
+  read?: number; // Address the step read, for read watchpoints
+  io?: { inputRead: number; outputLength: number; display: number | null }; // Devices before the step
 }
 
 export interface ExecutionTrace {
@@ -27,6 +99,22 @@ export interface ExecutionTrace {
   operand: number;
   acc: number;
   ramChanged?: { address: number; oldValue: number; newValue: number };
+  // Other cells the instruction changed, e.g. by indirect ISA stores
+  indirectChanges?: Array<{
+    address: number;
+    oldValue: number;
+    newValue: number;
+  }>;
+}
+
+export interface MemoryAccess {
+  read?: number; // Address read by the instruction
+  write?: { address: number; oldValue: number; newValue: number }; // Same detection as ramChanged
+  indirectWrites?: Array<{
+    address: number;
+    oldValue: number;
+    newValue: number;
+  }>; // Same detection as indirectChanges
 }
 
 export interface ValidationResult {
@@ -72,12 +160,16 @@ export interface ExecutionSetup {
   initialAcc?: number;
   initialMemory?: Record<number, number>;
   maxSteps?: number;
+  arithmeticMode?: ArithmeticMode;
+  devices?: DeviceMap;
+  input?: number[]; // Input queue for the input device
 }
 
 export interface TestExpectation {
-  type: 'MEMORY' | 'ACCUMULATOR' | 'STEPS' | 'HALT' | 'OUTPUT';
+  type: 'MEMORY' | 'ACCUMULATOR' | 'STEPS' | 'HALT' | 'OUTPUT' | 'NO_OVERFLOW';
   address?: number;
   expectedValue?: number;
+  expectedOutput?: number[]; // OUTPUT: values written to the output device
   expectedRange?: { min: number; max: number };
   description: string;
 }
@@ -92,13 +184,25 @@ export interface TestResult {
   trace?: ExecutionTrace[];
 }
 
+// How an instruction passes control on: next falls through, jump goes to the
+// operand, skip may also pass over the following word and halt stops
+export type ControlFlowEffect = 'next' | 'jump' | 'skip' | 'halt';
+
 export interface OpcodeMapping {
   [opcode: number]: {
     name: string;
     description: string;
     hasOperand: boolean;
     operandType: 'ADDRESS' | 'NONE';
-    execute: (state: ExecutionState, operand: number) => void;
+    memoryAccess?: 'READ' | 'WRITE' | 'READ_WRITE'; // How the operand cell is used
+    flow?: ControlFlowEffect; // Defaults to next
+    // fit brings arithmetic results into range according to the arithmetic mode.
+    // Writes beyond the operand cell, e.g. indirect stores, are returned.
+    execute: (
+      state: ExecutionState,
+      operand: number,
+      fit: (value: number) => number
+    ) => CellWrite[] | void;
   };
 }
 
@@ -108,6 +212,11 @@ export interface SimulationConfig {
   maxValue: number;
   enableTrace: boolean;
   validateInstructions: boolean;
+  undoLimit: number; // Steps kept for stepBack (0 disables the undo log)
+  arithmeticMode: ArithmeticMode;
+  microcoded: boolean; // Run whole instructions through the microcode table
+  devices: DeviceMap;
+  profile: boolean; // Count executions per address in state.profile
 }
 
 export type LogLevel = 'DEBUG' | 'INFO' | 'WARN' | 'ERROR';
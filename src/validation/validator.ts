@@ -5,13 +5,16 @@ import {
   ValidationWarning,
   ProgramStatistics,
   OpcodeMapping,
+  ExecutionState,
 } from '../types';
 import {
   DEFAULT_OPCODE_MAPPING,
   JOHNNY_CONFIG,
+  getInstructionName,
   isValidOpcode,
   OPCODES,
 } from '../core/opcodes';
+import { controlFlowEffect, decode, encode, operandKind } from '../core/codec';
 import { RamParser } from '../core/parser';
 
 export class RamValidator {
@@ -20,7 +23,7 @@ export class RamValidator {
 
   constructor(opcodeMapping?: OpcodeMapping) {
     this.opcodeMapping = opcodeMapping || DEFAULT_OPCODE_MAPPING;
-    this.parser = new RamParser();
+    this.parser = new RamParser(this.opcodeMapping);
   }
 
   /**
@@ -65,9 +68,7 @@ export class RamValidator {
       const value = ram[addr];
       if (value === 0) continue; // Skip empty memory
 
-      // Extract opcode from instruction format (OOXXX)
-      const opcode = Math.floor(value / 1000);
-      const operand = value % 1000;
+      const { opcode, operand } = decode(value);
 
       // Validate value range
       if (value < 0 || value > JOHNNY_CONFIG.MAX_VALUE) {
@@ -119,6 +120,21 @@ export class RamValidator {
     };
   }
 
+  /**
+   * Report every arithmetic overflow of a finished run as a runtime error
+   */
+  checkOverflows(state: ExecutionState): ValidationError[] {
+    return state.overflows.map(event => ({
+      type: 'RUNTIME' as const,
+      address: event.pc,
+      message:
+        `${getInstructionName(event.opcode, this.opcodeMapping)} overflowed at step ${event.step}: ` +
+        `result ${event.value}` +
+        (event.result === undefined ? '' : ` stored as ${event.result}`),
+      instruction: state.ram[event.pc],
+    }));
+  }
+
   /**
    * Validate instruction operand
    */
@@ -134,8 +150,8 @@ export class RamValidator {
 
     if (!opcodeInfo) return;
 
-    // Instructions 10-90 require valid address operands (000-999)
-    if (opcode >= OPCODES.TAKE && opcode <= OPCODES.NULL) {
+    // Address operands must name a memory cell (000-999)
+    if (operandKind(opcode, this.opcodeMapping) === 'ADDRESS') {
       if (operand < 0 || operand >= JOHNNY_CONFIG.MEMORY_SIZE) {
         errors.push({
           type: 'SYNTAX',
@@ -146,15 +162,13 @@ export class RamValidator {
       }
     }
 
-    // HLT should have operand 000
-    if (opcode === OPCODES.HLT && operand !== 0) {
+    // Instructions without operand (like HLT) should have operand 000
+    if (!opcodeInfo.hasOperand && opcode !== OPCODES.DATA && operand !== 0) {
       warnings.push({
         type: 'STYLE',
         address: address,
-        message: `HLT instruction ignores operand; received ${operand.toString().padStart(3, '0')}`,
-        instruction: Number.parseInt(
-          `${opcode.toString().padStart(2, '0')}${operand.toString().padStart(3, '0')}`
-        ),
+        message: `${opcodeInfo.name} instruction ignores operand; received ${operand.toString().padStart(3, '0')}`,
+        instruction: encode(opcode, operand),
       });
     }
   }
@@ -174,9 +188,7 @@ export class RamValidator {
       const value = ram[addr];
       if (value === 0) continue;
 
-      // Extract opcode from instruction format (OOXXX)
-      const opcode = Math.floor(value / 1000);
-      const operand = value % 1000;
+      const { opcode, operand } = decode(value);
 
       if (opcode === OPCODES.DATA) {
         dataWords++;
@@ -184,11 +196,12 @@ export class RamValidator {
         totalInstructions++;
         instructionCount[opcode] = (instructionCount[opcode] || 0) + 1;
 
-        if (opcode === OPCODES.HLT) {
+        const effect = controlFlowEffect(opcode, this.opcodeMapping);
+        if (effect === 'halt') {
           hasHalt = true;
         }
 
-        if (opcode === OPCODES.JMP && operand === addr) {
+        if (effect === 'jump' && operand === addr) {
           potentialInfiniteLoops++;
         }
       }
@@ -217,25 +230,24 @@ export class RamValidator {
     warnings: ValidationWarning[]
   ): void {
     // Check for JMP to same address (only warn if no HLT in program)
-    if (opcode === OPCODES.JMP && operand === address) {
+    if (
+      controlFlowEffect(opcode, this.opcodeMapping) === 'jump' &&
+      operand === address
+    ) {
       const hasHalt = this.programHasHalt(ram);
       if (!hasHalt) {
         warnings.push({
           type: 'SAFETY',
           address: address,
           message: `JMP to same address ${address} without HALT instruction - potential infinite loop`,
-          instruction: Number.parseInt(
-            `${opcode.toString().padStart(2, '0')}${operand.toString().padStart(3, '0')}`
-          ),
+          instruction: encode(opcode, operand),
         });
       } else {
         warnings.push({
           type: 'PERFORMANCE',
           address: address,
           message: `JMP to same address ${address} - active waiting loop`,
-          instruction: Number.parseInt(
-            `${opcode.toString().padStart(2, '0')}${operand.toString().padStart(3, '0')}`
-          ),
+          instruction: encode(opcode, operand),
         });
       }
     }
@@ -265,9 +277,8 @@ export class RamValidator {
    */
   private programHasHalt(ram: number[]): boolean {
     return ram.some(value => {
-      // Extract opcode from instruction format (OOXXX)
-      const opcode = Math.floor(value / 1000);
-      return opcode === OPCODES.HLT;
+      const { opcode } = decode(value);
+      return controlFlowEffect(opcode, this.opcodeMapping) === 'halt';
     });
   }
 
@@ -34,4 +34,12 @@ describe('Johnny C Compiler', () => {
     expect(state.halted).toBe(true);
     expect(state.ram[900]).toBe(5);
   });
+
+  it('should end the program with a single HLT', () => {
+    const halted = compileSource('int x; x = 5; halt;');
+
+    expect(halted).toEqual(compileSource('int x; x = 5;'));
+    expect(halted.filter(word => word === 10000)).toHaveLength(1);
+    expect(halted[halted.length - 1]).toBe(10000);
+  });
 });
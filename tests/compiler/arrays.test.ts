@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'bun:test';
+import { JohnnyCompiler } from '../../src/compiler/cli';
+import { DEFAULT_LAYOUT, MemoryMapper } from '../../src/compiler/memmap';
+import { compileAndRun } from './helpers';
+
+describe('Johnny C Compiler - Arrays', () => {
+  it('should store and load elements through computed indices', () => {
+    const { state, memoryMap } = compileAndRun(`
+      int a[5];
+      int i;
+      int sum;
+      while (i < 5) {
+        a[i] = i + i;
+        i = i + 1;
+      }
+      i = 0;
+      while (i < 5) {
+        sum = sum + a[i];
+        i = i + 1;
+      }
+      halt;
+    `);
+
+    const base = memoryMap.arrays.get('a') as number;
+    expect(base).toBe(DEFAULT_LAYOUT.ARRAYS_START);
+    expect(state.ram.slice(base, base + 5)).toEqual([0, 2, 4, 6, 8]);
+    expect(state.ram[memoryMap.variables.get('sum') as number]).toBe(20);
+  });
+
+  it('should place arrays contiguously without overlapping', () => {
+    const { state, memoryMap } = compileAndRun(`
+      int a[3];
+      int b[2];
+      a[2] = 7;
+      b[0] = a[2] + 1;
+      halt;
+    `);
+
+    expect(memoryMap.arrays.get('a')).toBe(800);
+    expect(memoryMap.arrays.get('b')).toBe(803);
+    expect(state.ram[802]).toBe(7);
+    expect(state.ram[803]).toBe(8);
+  });
+
+  it('should compile the sieve of Eratosthenes', () => {
+    const { state, memoryMap } = compileAndRun(`
+      bool composite[20];
+      int i;
+      int j;
+      i = 2;
+      while (i < 20) {
+        if (composite[i] == false) {
+          j = i + i;
+          while (j < 20) {
+            composite[j] = true;
+            j = j + i;
+          }
+        }
+        i = i + 1;
+      }
+      halt;
+    `);
+
+    const base = memoryMap.arrays.get('composite') as number;
+    const primes = [];
+    for (let k = 2; k < 20; k++) {
+      if (!state.ram[base + k]) primes.push(k);
+    }
+    expect(primes).toEqual([2, 3, 5, 7, 11, 13, 17, 19]);
+  });
+
+  it('should list arrays in the memory map JSON and Markdown', () => {
+    const { memoryMap, symbols } = new JohnnyCompiler().compileSource(
+      'int data[4];\ndata[1] = 2;\nhalt;'
+    );
+    const mapper = new MemoryMapper(DEFAULT_LAYOUT);
+
+    const json = JSON.parse(mapper.generateMemoryMapJson(memoryMap, symbols));
+    expect(json.memory.arrays.data).toMatchObject({
+      address: 800,
+      end: 803,
+      size: 4,
+      type: 'int',
+    });
+    expect(json.statistics.memoryUsage.arrays).toBe('4/100');
+
+    const markdown = mapper.generateMemoryMapMarkdown(memoryMap, symbols);
+    expect(markdown).toContain('## Arrays');
+    expect(markdown).toContain('| data | 800-803 | 4 | int | User array |');
+  });
+
+  it('should reject misuse of arrays', () => {
+    const compiler = new JohnnyCompiler();
+    expect(() => compiler.compileSource('int a[3];\na[3] = 1;\nhalt;')).toThrow(
+      "Index 3 is out of bounds for array 'a' of size 3"
+    );
+    expect(() => compiler.compileSource('int a[3];\na = 1;\nhalt;')).toThrow(
+      "Array 'a' must be indexed"
+    );
+    expect(() =>
+      compiler.compileSource('int x;\nint y;\ny = x[0];\nhalt;')
+    ).toThrow("'x' is not an array");
+    expect(() => compiler.compileSource('int a[0];\nhalt;')).toThrow(
+      'Array size must be at least 1'
+    );
+    expect(() => compiler.compileSource('int a[101];\nhalt;')).toThrow(
+      "Array 'a' does not fit"
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'bun:test';
+import { JohnnyCompiler } from '../../src/compiler/cli';
+import { compileAndRun } from './helpers';
+
+describe('Johnny C Compiler - Functions', () => {
+  it('should return a value from a function with parameters', () => {
+    const { read } = compileAndRun(`
+      int add(int a, int b) {
+        return a + b;
+      }
+      int result;
+      result = add(4, 7);
+      halt;
+    `);
+
+    expect(read('result')).toBe(11);
+  });
+
+  it('should patch the return address for every call site', () => {
+    const { read } = compileAndRun(`
+      int twice(int n) {
+        return n + n;
+      }
+      int x;
+      int y;
+      x = twice(3);
+      y = twice(x) + 1;
+      halt;
+    `);
+
+    expect(read('x')).toBe(6);
+    expect(read('y')).toBe(13);
+  });
+
+  it('should call void functions that update globals', () => {
+    const { read } = compileAndRun(`
+      int counter;
+      void bump(int by) {
+        if (by == 0) {
+          return;
+        }
+        counter = counter + by;
+      }
+      counter = 1;
+      bump(2);
+      bump(0);
+      bump(5);
+      halt;
+    `);
+
+    expect(read('counter')).toBe(8);
+  });
+
+  it('should keep parameters and locals separate per function', () => {
+    const { read } = compileAndRun(`
+      int square(int x) {
+        int i;
+        int sum;
+        i = x;
+        while (i != 0) {
+          sum = sum + x;
+          i = i - 1;
+        }
+        return sum;
+      }
+      int inc(int x) {
+        return x + 1;
+      }
+      int x;
+      x = inc(square(3));
+      halt;
+    `);
+
+    expect(read('x')).toBe(10);
+    expect(read('square.x')).toBe(3);
+    expect(read('inc.x')).toBe(9);
+  });
+
+  it('should reject recursion', () => {
+    const compiler = new JohnnyCompiler();
+    expect(() =>
+      compiler.compileSource(`
+        int f(int n) {
+          return g(n);
+        }
+        int g(int n) {
+          return f(n);
+        }
+        halt;
+      `)
+    ).toThrow('Recursion is not supported: f -> g -> f');
+  });
+
+  it('should report arity and placement errors', () => {
+    const compiler = new JohnnyCompiler();
+    expect(() =>
+      compiler.compileSource('void f(int a) { }\nf(1, 2);\nhalt;')
+    ).toThrow(
+      "Semantic error at line 2, column 1: Function 'f' expects 1 argument(s), got 2"
+    );
+    expect(() => compiler.compileSource('int x;\nreturn x;\nhalt;')).toThrow(
+      "'return' outside of a function"
+    );
+    expect(() => compiler.compileSource('int x;\nx = f();\nhalt;')).toThrow(
+      "Undefined function 'f'"
+    );
+  });
+
+  it('should reject redeclared variables but let locals shadow globals', () => {
+    const compiler = new JohnnyCompiler();
+    expect(() => compiler.compileSource('int x;\nint x;\nhalt;')).toThrow(
+      "Semantic error at line 2, column 1: Variable 'x' is already declared"
+    );
+    expect(() =>
+      compiler.compileSource(
+        'int f(int a) {\n  int a[2];\n  return 0;\n}\nhalt;'
+      )
+    ).toThrow("Variable 'a' is already declared");
+    expect(() =>
+      compiler.compileSource('void f() { }\nbool f;\nhalt;')
+    ).toThrow("Variable 'f' is already declared");
+
+    const { read } = compileAndRun(`
+      int x;
+      int f() {
+        int x;
+        x = 5;
+        return x;
+      }
+      x = 2;
+      x = x + f();
+      halt;
+    `);
+    expect(read('x')).toBe(7);
+  });
+
+  it('should only declare functions at the top level', () => {
+    const compiler = new JohnnyCompiler();
+    expect(() =>
+      compiler.compileSource(
+        'int x;\nif (x == 0) {\n  int g() { return 1; }\n}\nhalt;'
+      )
+    ).toThrow(
+      'Parse error at line 3, column 3: Functions can only be declared at the top level'
+    );
+    expect(() =>
+      compiler.compileSource('int f() {\n  int g() { return 1; }\n}\nhalt;')
+    ).toThrow('Functions can only be declared at the top level');
+    expect(() =>
+      compiler.compileSource(
+        'int x;\nwhile (x == 0) {\n  void g() { break; }\n}\nhalt;'
+      )
+    ).toThrow('Functions can only be declared at the top level');
+  });
+
+  it('should not let break in a function reach an outer loop', () => {
+    expect(() =>
+      new JohnnyCompiler().compileSource('void g() {\n  break;\n}\nhalt;')
+    ).toThrow("Parse error at line 2, column 3: 'break' outside of a loop");
+  });
+});
@@ -0,0 +1,26 @@
+// Shared fixture of the compiler tests
+import { JohnnySimulator } from '../../src/core/simulator';
+import { JohnnyCompiler, CompilerOptions } from '../../src/compiler/cli';
+
+/**
+ * Compile Johnny C and run it to HLT, failing past maxSteps. read() looks
+ * up a variable or flag in the final RAM.
+ */
+export function compileAndRun(
+  source: string,
+  options: Partial<CompilerOptions> = {},
+  maxSteps: number = 20000
+) {
+  const result = new JohnnyCompiler().compileSource(source, options);
+  const state = new JohnnySimulator(undefined, { maxSteps }).simulate(
+    result.ram
+  );
+
+  const read = (name: string): number => {
+    const address =
+      result.memoryMap.variables.get(name) ?? result.memoryMap.flags.get(name);
+    if (address === undefined) throw new Error(`No variable ${name}`);
+    return state.ram[address];
+  };
+  return { ...result, state, steps: state.steps, read };
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'bun:test';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { JohnnyCompiler } from '../../src/compiler/cli';
+import {
+  DEFAULT_LAYOUT,
+  layoutRegions,
+  parseLayout,
+  packLayout,
+  validateLayout,
+} from '../../src/compiler/memmap';
+import { compileAndRun } from './helpers';
+
+describe('Johnny C Compiler - Memory Layout', () => {
+  // 40 terms compile to well over 150 words at -O0
+  const terms = Array.from({ length: 40 }, (_, i) => `(x + ${i})`);
+  const longProgram = `int x;\nint y;\nx = 1;\ny = ${terms.join(' + ')};\nhalt;`;
+
+  it('should read regions from a layout file and keep the defaults', () => {
+    const layout = parseLayout(
+      JSON.stringify({
+        variables: { start: 700, end: 749 },
+        constants: { start: 998 },
+      })
+    );
+
+    expect(layout).toEqual({
+      ...DEFAULT_LAYOUT,
+      VARIABLES_START: 700,
+      VARIABLES_END: 749,
+      CONST_0: 998,
+      CONST_1: 999,
+    });
+  });
+
+  it('should reject overlapping, unknown and malformed regions', () => {
+    expect(() =>
+      parseLayout(JSON.stringify({ temps: { start: 985, end: 992 } }))
+    ).toThrow("Layout regions 'flags' (990-995) and 'temps' (985-992) overlap");
+    expect(() =>
+      parseLayout(JSON.stringify({ stack: { start: 0, end: 9 } }))
+    ).toThrow("Unknown layout region 'stack'");
+    expect(() =>
+      parseLayout(JSON.stringify({ arrays: { start: 900 } }))
+    ).toThrow("Layout region 'arrays' needs integer");
+    expect(() =>
+      parseLayout(JSON.stringify({ arrays: { start: 990, end: 1005 } }))
+    ).toThrow("Layout region 'arrays' (990-1005) is not a range");
+    expect(() => parseLayout('{')).toThrow('Invalid layout file');
+  });
+
+  it('should run programs longer than 150 words with the default layout', () => {
+    const { emitted, read } = compileAndRun(longProgram);
+
+    expect(emitted.instructions.length).toBeGreaterThan(150);
+    // 40 * 1 + (0 + 1 + ... + 39)
+    expect(read('y')).toBe(820);
+  });
+
+  it('should fail loudly when the code grows into a data region', () => {
+    const layout = parseLayout(
+      JSON.stringify({ variables: { start: 100, end: 149 } })
+    );
+
+    expect(() =>
+      new JohnnyCompiler().compileSource(longProgram, { layout })
+    ).toThrow(/grows into the variables region \(100-149\)/);
+  });
+
+  it('should pack the data directly after the code in auto mode', () => {
+    const { emitted, layout, memoryMap, read } = compileAndRun(longProgram, {
+      layout: 'auto',
+    });
+    const size = emitted.instructions.length;
+
+    expect(layout.CONST_0).toBe(size);
+    expect(layout.CONST_1).toBe(size + 1);
+    expect(memoryMap.variables.get('x')).toBe(size + 2);
+    expect(memoryMap.variables.get('y')).toBe(size + 3);
+    expect(read('y')).toBe(820);
+  });
+
+  it('should size packed regions to what the program uses', () => {
+    const layout = packLayout(100, {
+      variables: 2,
+      flags: 0,
+      temps: 3,
+      arrays: 10,
+    });
+
+    expect(layout).toMatchObject({
+      CONST_0: 100,
+      CONST_1: 101,
+      VARIABLES_START: 102,
+      VARIABLES_END: 103,
+      FLAGS_START: 117,
+      FLAGS_END: 116,
+      TEMPS_START: 104,
+      TEMPS_END: 106,
+      ARRAYS_START: 107,
+      ARRAYS_END: 116,
+    });
+    expect(() =>
+      packLayout(990, { variables: 5, flags: 0, temps: 5, arrays: 0 })
+    ).toThrow('Program and data need 1002 words');
+  });
+
+  it('should never make programs larger than the default layout', () => {
+    const examples = join(__dirname, '../../jcc');
+    for (const file of readdirSync(examples).filter(f => f.endsWith('.jcc'))) {
+      const source = readFileSync(join(examples, file), 'utf8');
+      for (const optimizationLevel of [0, 1, 2] as const) {
+        const compile = (layout?: 'auto') =>
+          new JohnnyCompiler().compileSource(source, {
+            optimizationLevel,
+            layout,
+          });
+        const packed = compile('auto');
+        const code = packed.emitted.instructions.length;
+
+        expect(`${file} -O${optimizationLevel}: ${code}`).toBe(
+          `${file} -O${optimizationLevel}: ${compile().emitted.instructions.length}`
+        );
+        expect(() => validateLayout(packed.layout)).not.toThrow();
+        const regions = layoutRegions(packed.layout);
+        const dataEnd = Math.max(...regions.map(region => region.end));
+        for (const region of regions.filter(r => r.end < r.start)) {
+          expect(region.start).toBe(region.end + 1);
+          expect(region.start).toBe(dataEnd + 1);
+        }
+      }
+    }
+  });
+});
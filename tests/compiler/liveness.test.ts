@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'bun:test';
+import { JohnnyCompiler } from '../../src/compiler/cli';
+import { Parser } from '../../src/compiler/parser';
+import { IRGenerator } from '../../src/compiler/ir';
+import { buildInterferenceGraph } from '../../src/compiler/liveness';
+import { compileAndRun } from './helpers';
+
+describe('Johnny C Compiler - Liveness Allocation', () => {
+  const interference = (source: string) => {
+    const { blocks } = new IRGenerator().generate(new Parser(source).parse());
+    return buildInterferenceGraph(blocks, name => name.startsWith('_t'));
+  };
+
+  it('should share addresses between temps with disjoint lifetimes', () => {
+    const { memoryMap, read } = compileAndRun(`
+      int a; int b; int c;
+      a = 2;
+      b = a + a + a;
+      c = b + b + b;
+      halt;
+    `);
+
+    const addresses = [...memoryMap.temps.values()];
+    expect(new Set(addresses).size).toBeLessThan(addresses.length);
+    expect(read('b')).toBe(6);
+    expect(read('c')).toBe(18);
+  });
+
+  it('should keep temps live across a call apart from the callee temps', () => {
+    const source = `
+      int y;
+      int f(int n) {
+        return n + n + 1;
+      }
+      y = y + 3 + f(2);
+      halt;
+    `;
+    const graph = interference(source);
+    const { memoryMap, read } = compileAndRun(source);
+
+    // y + 3 is computed before the call and read after it
+    const live = [...graph.keys()].find(name =>
+      [...(graph.get(name) ?? [])].some(other => other === '_t4')
+    );
+    expect(live).toBeDefined();
+    expect(memoryMap.temps.get(live as string)).not.toBe(
+      memoryMap.temps.get('_t4')
+    );
+    expect(read('y')).toBe(8);
+  });
+
+  it('should compile expressions needing more than 30 temporaries', () => {
+    const terms = Array.from({ length: 11 }, (_, i) => `(x + ${i})`);
+    const { memoryMap, read } = compileAndRun(
+      `int x;\nint y;\nx = 1;\ny = ${terms.join(' + ')};\nhalt;`
+    );
+
+    // 33 temps at -O0, which used to exceed the 30 temp slots
+    expect(memoryMap.temps.size).toBeGreaterThan(30);
+    expect(read('y')).toBe(11 + 55);
+  });
+
+  it('should spill variables into free flag slots', () => {
+    const names = Array.from({ length: 52 }, (_, i) => `v${i}`);
+    const { memoryMap, read } = compileAndRun(
+      names.map(name => `int ${name};`).join('\n') + '\nv9 = 7;\nhalt;'
+    );
+
+    expect(memoryMap.variables.get('v9')).toBeGreaterThanOrEqual(990);
+    expect(read('v9')).toBe(7);
+  });
+
+  it('should spill variables into free array cells and temp slots', () => {
+    // 50 variables, 6 flags and 100 array cells, then temp slots
+    const names = Array.from({ length: 170 }, (_, i) => `v${i}`);
+    const { memoryMap, read } = compileAndRun(
+      names.map(name => `int ${name};`).join('\n') +
+        '\nv1 = 2;\nv2 = 3;\nv3 = v1 * v2;\nv169 = v3 + 1;\nhalt;'
+    );
+    const addresses = [...memoryMap.variables.values()];
+
+    expect(new Set(addresses).size).toBe(170);
+    expect(addresses.filter(a => a >= 800 && a <= 899)).toHaveLength(100);
+    expect(addresses.filter(a => a >= 960 && a <= 989)).toHaveLength(14);
+    for (const address of memoryMap.temps.values()) {
+      expect(addresses).not.toContain(address);
+    }
+    expect(read('v3')).toBe(6);
+    expect(read('v169')).toBe(7);
+  });
+
+  it('should name the variable and every region when memory is exhausted', () => {
+    const names = Array.from({ length: 200 }, (_, i) => `v${i}`);
+    const source = names.map(name => `int ${name};`).join('\n') + '\nhalt;';
+
+    expect(() => new JohnnyCompiler().compileSource(source)).toThrow(
+      /Out of memory for variable 'v\d+': variables \(900-949\), flags \(990-995\), arrays \(800-899\) and temps \(960-989\) are full/
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'bun:test';
+import { Lexer, TokenType } from '../../src/compiler/lexer';
+import { compileAndRun } from './helpers';
+
+describe('Johnny C Compiler - Logical Operators', () => {
+  it('should tokenize &&, || and !', () => {
+    const types = new Lexer('!a && b || c != d')
+      .tokenize()
+      .map(token => token.type);
+
+    expect(types).toEqual([
+      TokenType.NOT,
+      TokenType.IDENTIFIER,
+      TokenType.AND,
+      TokenType.IDENTIFIER,
+      TokenType.OR,
+      TokenType.IDENTIFIER,
+      TokenType.NOT_EQUAL,
+      TokenType.IDENTIFIER,
+      TokenType.EOF,
+    ]);
+  });
+
+  it('should compute truth tables as 0/1 values', () => {
+    const { read } = compileAndRun(`
+      int one;
+      int zero;
+      int and11; int and10; int and00;
+      int or10; int or01; int or00;
+      int not0; int not7;
+      int seven;
+      one = 1;
+      seven = 7;
+      and11 = one && seven;
+      and10 = one && zero;
+      and00 = zero && zero;
+      or10 = seven || zero;
+      or01 = zero || one;
+      or00 = zero || zero;
+      not0 = !zero;
+      not7 = !seven;
+      halt;
+    `);
+
+    expect(read('and11')).toBe(1);
+    expect(read('and10')).toBe(0);
+    expect(read('and00')).toBe(0);
+    expect(read('or10')).toBe(1);
+    expect(read('or01')).toBe(1);
+    expect(read('or00')).toBe(0);
+    expect(read('not0')).toBe(1);
+    expect(read('not7')).toBe(0);
+  });
+
+  it('should skip the right operand once the left one decides', () => {
+    const { read } = compileAndRun(`
+      int calls;
+      int hits;
+      bool touch() {
+        calls = calls + 1;
+        return true;
+      }
+      if (calls == 1 && touch()) {
+        hits = hits + 1;
+      }
+      if (calls == 0 || touch()) {
+        hits = hits + 1;
+      }
+      if (calls == 0 && touch()) {
+        hits = hits + 1;
+      }
+      if (calls == 1 || touch()) {
+        hits = hits + 1;
+      }
+      halt;
+    `);
+
+    // Only the last condition needs to call touch()
+    expect(read('calls')).toBe(1);
+    expect(read('hits')).toBe(3);
+  });
+
+  it('should combine conditions in loops with precedence ! > && > ||', () => {
+    const { read } = compileAndRun(`
+      int i;
+      int count;
+      bool done;
+      while (!done && i < 9 || i == 0) {
+        i = i + 1;
+        if (i == 2 || i == 4 && !(i > 4)) {
+          count = count + 1;
+        }
+        done = i == 5;
+      }
+      halt;
+    `);
+
+    expect(read('i')).toBe(5);
+    expect(read('count')).toBe(2);
+  });
+});
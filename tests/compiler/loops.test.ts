@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'bun:test';
+import { Parser } from '../../src/compiler/parser';
+import { compileAndRun } from './helpers';
+
+describe('Johnny C Compiler - Loops', () => {
+  it('should compile a for loop with declaration, condition and update', () => {
+    const { read } = compileAndRun(`
+      int sum;
+      for (int i = 1; i <= 5; i = i + 1) {
+        sum = sum + i;
+      }
+      halt;
+    `);
+
+    expect(read('sum')).toBe(15);
+    expect(read('i')).toBe(6);
+  });
+
+  it('should run a do-while body at least once', () => {
+    const { read } = compileAndRun(`
+      int runs;
+      int x;
+      do {
+        runs = runs + 1;
+      } while (x != 0);
+      x = 3;
+      do {
+        x = x - 1;
+        runs = runs + 1;
+      } while (x != 0);
+      halt;
+    `);
+
+    expect(read('runs')).toBe(4);
+  });
+
+  it('should break out of the innermost loop only', () => {
+    const { read } = compileAndRun(`
+      int pairs;
+      int i;
+      int j;
+      for (i = 0; i < 4; i = i + 1) {
+        for (j = 0; ; j = j + 1) {
+          if (j == i) {
+            break;
+          }
+          pairs = pairs + 1;
+        }
+      }
+      halt;
+    `);
+
+    // 0 + 1 + 2 + 3 inner iterations
+    expect(read('pairs')).toBe(6);
+    expect(read('i')).toBe(4);
+  });
+
+  it('should continue with the update of a for loop and the condition of a while loop', () => {
+    const { read } = compileAndRun(`
+      int odd;
+      int n;
+      int skipped;
+      for (int i = 0; i < 6; i = i + 1) {
+        if (i == 2) {
+          continue;
+        }
+        if (i == 4) {
+          continue;
+        }
+        odd = odd + 1;
+      }
+      n = 5;
+      while (n != 0) {
+        n = n - 1;
+        if (n > 2) {
+          skipped = skipped + 1;
+          continue;
+        }
+      }
+      halt;
+    `);
+
+    expect(read('odd')).toBe(4);
+    expect(read('i')).toBe(6);
+    expect(read('skipped')).toBe(2);
+    expect(read('n')).toBe(0);
+  });
+
+  it('should not fall through into nested loop blocks after the program', () => {
+    // No trailing halt: the blocks of the inner if follow the loop's end
+    const { read } = compileAndRun(`
+      int x;
+      int y;
+      while (x < 3) {
+        if (x == 1) {
+          y = y + 10;
+        }
+        x = x + 1;
+      }
+      y = y + 1;
+    `);
+
+    expect(read('y')).toBe(11);
+  });
+
+  it('should report break and continue outside of a loop', () => {
+    expect(() => new Parser('break;').parse()).toThrow(
+      "Parse error at line 1, column 1: 'break' outside of a loop"
+    );
+    expect(() =>
+      new Parser('int x;\nif (x == 0) {\n  continue;\n}').parse()
+    ).toThrow("Parse error at line 3, column 3: 'continue' outside of a loop");
+    expect(() =>
+      new Parser('void f() {\n  break;\n}\nwhile (true) { f(); }').parse()
+    ).toThrow("'break' outside of a loop");
+  });
+});
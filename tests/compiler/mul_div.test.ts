@@ -3,18 +3,22 @@ import { JohnnySimulator } from '../../src/core/simulator';
 import { Parser } from '../../src/compiler/parser';
 import { IRGenerator } from '../../src/compiler/ir';
 import { MemoryMapper, DEFAULT_LAYOUT } from '../../src/compiler/memmap';
-import { CodeGenerator } from '../../src/compiler/codegen';
+import { CodeGenerator, CodeGenOptions } from '../../src/compiler/codegen';
 import { Emitter } from '../../src/compiler/emitter';
+import { JohnnyCompiler } from '../../src/compiler/cli';
 
 describe('Johnny C Compiler - Multiplication', () => {
-  const compileSource = (source: string): number[] => {
+  const compileSource = (
+    source: string,
+    options: CodeGenOptions = {}
+  ): number[] => {
     const parser = new Parser(source);
     const ast = parser.parse();
     const irGenerator = new IRGenerator();
     const { blocks, symbols } = irGenerator.generate(ast);
     const memoryMapper = new MemoryMapper(DEFAULT_LAYOUT);
     const memoryMap = memoryMapper.createMemoryMap(symbols);
-    const codeGenerator = new CodeGenerator(memoryMapper);
+    const codeGenerator = new CodeGenerator(memoryMapper, options);
     const instructions = codeGenerator.generate(blocks, memoryMap);
     const emitter = new Emitter(memoryMapper);
     const emitted = emitter.emit(instructions, memoryMap, false);
@@ -76,4 +80,122 @@ describe('Johnny C Compiler - Multiplication', () => {
     expect(state.ram[901]).toBe(5); // x = 5
     expect(state.ram[902]).toBe(0); // y = 0
   });
+
+  describe('doubling (fastMulDiv)', () => {
+    // Step count and variables of a program with x and y set to the operands
+    const run = (x: number, y: number, fastMulDiv: boolean) => {
+      const source = `
+        int x;
+        int y;
+        int product;
+        int quotient;
+        int remainder;
+        x = ${x};
+        y = ${y};
+        product = x * y;
+        quotient = x / y;
+        remainder = x % y;
+        halt;
+      `;
+      const simulator = new JohnnySimulator();
+      const state = simulator.createInitialState(
+        compileSource(source, { fastMulDiv })
+      );
+
+      let steps = 0;
+      while (!state.halted && steps < 200000) {
+        simulator.executeInstruction(state);
+        steps++;
+      }
+
+      expect(state.halted).toBe(true);
+      // Variables allocated alphabetically: product, quotient, remainder, x, y
+      return {
+        steps,
+        results: {
+          product: state.ram[900],
+          quotient: state.ram[901],
+          remainder: state.ram[902],
+        },
+      };
+    };
+
+    // The cases above, plus operands large enough for the loops to matter
+    const cases: [number, number][] = [
+      [3, 4],
+      [5, 0],
+      [7, 1000],
+      [1000, 7],
+      [300, 100],
+      [9999, 3],
+    ];
+
+    it('should compute the same results as repeated addition', () => {
+      for (const [x, y] of cases) {
+        const fast = run(x, y, true).results;
+
+        expect(fast).toEqual(run(x, y, false).results);
+        expect(fast).toEqual({
+          product: Math.min(x * y, 19999),
+          quotient: y === 0 ? 0 : Math.floor(x / y),
+          remainder: y === 0 ? x : x % y,
+        });
+      }
+    });
+
+    it('should take far fewer steps on large operands', () => {
+      const steps = new Map(
+        cases.map(([x, y]) => [
+          `${x}, ${y}`,
+          { slow: run(x, y, false).steps, fast: run(x, y, true).steps },
+        ])
+      );
+
+      // 7 * 1000 and 9999 / 3 loop thousands of times without doubling
+      for (const operands of ['7, 1000', '9999, 3']) {
+        const { slow, fast } = steps.get(operands) ?? { slow: 0, fast: 0 };
+        expect(fast * 10).toBeLessThan(slow);
+      }
+      for (const { slow, fast } of steps.values()) {
+        expect(fast).toBeLessThanOrEqual(slow * 2);
+      }
+    });
+
+    it('should leave doubling off at -O2, which is no worse than -O1', () => {
+      const compiler = new JohnnyCompiler();
+      for (const [x, y] of cases) {
+        // Counting loops keep the operands from being constant-folded
+        const source = `
+          int x;
+          int y;
+          int product;
+          int quotient;
+          int remainder;
+          while (x < ${x}) { x = x + 1; }
+          while (y < ${y}) { y = y + 1; }
+          product = x * y;
+          quotient = x / y;
+          remainder = x % y;
+          halt;
+        `;
+        const [o1, o2] = ([1, 2] as const).map(optimizationLevel => {
+          const { ram, emitted, memoryMap } = compiler.compileSource(source, {
+            optimizationLevel,
+          });
+          const state = new JohnnySimulator(undefined, {
+            maxSteps: 500000,
+          }).simulate(ram);
+          return {
+            words: emitted.instructions.length,
+            steps: state.steps,
+            product: state.ram[memoryMap.variables.get('product') ?? -1],
+          };
+        });
+
+        expect(o2.product).toBe(o1.product);
+        expect(o2.words).toBeLessThanOrEqual(o1.words);
+        expect(o2.steps).toBeLessThanOrEqual(o1.steps);
+      }
+    });
+  });
 });
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'bun:test';
+import { JohnnyCompiler } from '../../src/compiler/cli';
+import { OPCODES } from '../../src/core/opcodes';
+import { compileAndRun } from './helpers';
+
+describe('Johnny C Compiler - Division, Modulo and Compound Assignment', () => {
+  it('should divide and take the remainder', () => {
+    const { read } = compileAndRun(`
+      int a;
+      int b;
+      int q;
+      int r;
+      int exact;
+      int small;
+      a = 17;
+      b = 5;
+      q = a / b;
+      r = a % b;
+      exact = 15 % b;
+      small = b / a;
+      halt;
+    `);
+
+    expect(read('q')).toBe(3);
+    expect(read('r')).toBe(2);
+    expect(read('exact')).toBe(0);
+    expect(read('small')).toBe(0);
+  });
+
+  it('should give quotient 0 and remainder a when dividing by zero', () => {
+    const { read } = compileAndRun(`
+      int a;
+      int zero;
+      int q;
+      int r;
+      a = 7;
+      q = a / zero;
+      r = a % zero;
+      halt;
+    `);
+
+    expect(read('q')).toBe(0);
+    expect(read('r')).toBe(7);
+  });
+
+  it('should desugar compound assignment on variables', () => {
+    const { read } = compileAndRun(`
+      int x;
+      int y;
+      x = 4;
+      x += 3;
+      x -= 2;
+      x *= 4;
+      x /= 3;
+      y = 20;
+      y %= 6;
+      halt;
+    `);
+
+    expect(read('x')).toBe(6);
+    expect(read('y')).toBe(2);
+  });
+
+  it('should desugar compound assignment and ++ on array elements', () => {
+    const { state, memoryMap } = compileAndRun(`
+      int a[3];
+      a[1] = 5;
+      a[1] += 4;
+      a[1]++;
+      a[2] = a[1];
+      a[2]--;
+      halt;
+    `);
+    const base = memoryMap.arrays.get('a') as number;
+
+    expect(state.halted).toBe(true);
+    expect(state.ram.slice(base + 1, base + 3)).toEqual([10, 9]);
+  });
+
+  it('should lower x++ and x-- to single INC and DEC instructions', () => {
+    const { emitted, memoryMap, sourceMap } =
+      new JohnnyCompiler().compileSource('int x;\nx++;\nx--;\nhalt;');
+    const address = memoryMap.variables.get('x') as number;
+
+    const words = (line: number) =>
+      sourceMap.addressesForLine(line).map(a => emitted.instructions[a]);
+    expect(words(2)).toEqual([OPCODES.INC * 1000 + address]);
+    expect(words(3)).toEqual([OPCODES.DEC * 1000 + address]);
+  });
+
+  it('should count loops with ++ in the for update', () => {
+    const { read } = compileAndRun(`
+      int total;
+      int down;
+      for (int i = 0; i < 4; i++) {
+        total += i;
+      }
+      down = 3;
+      while (down != 0) {
+        down--;
+        total++;
+      }
+      halt;
+    `);
+
+    expect(read('total')).toBe(9);
+    expect(read('i')).toBe(4);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'bun:test';
+import { JohnnyCompiler } from '../../src/compiler/cli';
+import { Parser } from '../../src/compiler/parser';
+import { IRGenerator, formatIR } from '../../src/compiler/ir';
+import { IROptimizer } from '../../src/compiler/optimizer';
+import { OPCODES } from '../../src/core/opcodes';
+import { compileAndRun } from './helpers';
+
+describe('Johnny C Compiler - IR Optimizer', () => {
+  const run = (source: string, optimizationLevel: 0 | 1 | 2 = 1) =>
+    compileAndRun(source, { optimizationLevel });
+
+  const optimizeIR = (source: string): string => {
+    const { blocks, symbols } = new IRGenerator().generate(
+      new Parser(source).parse()
+    );
+    return formatIR(new IROptimizer().optimize(blocks, symbols).blocks);
+  };
+
+  it('should fold x = 3 * 4 into a single constant', () => {
+    const { emitted, memoryMap, read } = run('int x;\nx = 3 * 4;\nhalt;');
+    const address = memoryMap.variables.get('x') as number;
+
+    expect(optimizeIR('int x;\nx = 3 * 4;\nhalt;')).toBe(
+      'entry:\n  x = 12\n  halt'
+    );
+    expect(read('x')).toBe(12);
+
+    // No multiplication loop: no jumps, one store to x
+    const opcodes = emitted.instructions.map(word => Math.floor(word / 1000));
+    expect(opcodes).not.toContain(OPCODES.JMP);
+    expect(emitted.instructions).toContain(OPCODES.SAVE * 1000 + address);
+  });
+
+  it('should fold operators the way the generated code computes them', () => {
+    const source = `
+      int q; int r; int big; int neg; int lt; int not;
+      q = 7 / 0;
+      r = 7 % 0;
+      big = 19000 + 5000;
+      neg = -5;
+      lt = 3 < 4;
+      not = !lt;
+      halt;
+    `;
+    const unoptimized = run(source, 0);
+    const optimized = run(source, 1);
+
+    for (const name of ['q', 'r', 'big', 'neg', 'lt', 'not']) {
+      expect(optimized.read(name)).toBe(unoptimized.read(name));
+    }
+    expect(optimized.read('r')).toBe(7);
+    expect(optimized.read('big')).toBe(19999);
+  });
+
+  it('should fold known branches and drop the unreachable blocks', () => {
+    const source = `
+      int x;
+      int y;
+      x = 2;
+      if (x == 2) {
+        y = 1;
+      } else {
+        y = 5;
+      }
+      halt;
+    `;
+    const { read, irOptimization } = run(source);
+
+    expect(read('y')).toBe(1);
+    expect(irOptimization?.passes['unreachable-code']).toBeGreaterThan(0);
+    expect(optimizeIR(source)).not.toContain('y = 5');
+  });
+
+  it('should not propagate values that change in loops or calls', () => {
+    const { read } = run(`
+      int i;
+      int g;
+      int y;
+      void set() {
+        g = 7;
+      }
+      while (i < 3) {
+        i++;
+      }
+      g = 1;
+      set();
+      y = g + i;
+      halt;
+    `);
+
+    expect(read('i')).toBe(3);
+    expect(read('y')).toBe(10);
+  });
+
+  it('should propagate copies and remove overwritten stores', () => {
+    // The declaration's x = 0 is overwritten before it is read
+    expect(optimizeIR('int x;\nx = 5;\nhalt;')).toBe('entry:\n  x = 5\n  halt');
+
+    // The call result is read directly instead of through a temp
+    const ir = optimizeIR(`
+      int f(int n) {
+        return n + n;
+      }
+      int a[2];
+      int y;
+      y = f(a[1]);
+      halt;
+    `);
+    expect(ir).toContain('y = f.return');
+  });
+
+  it('should dump the IR after every pass that changed it', () => {
+    const messages: string[] = [];
+    new JohnnyCompiler().compileSource(
+      'int x;\nx = 3 * 4;\nhalt;',
+      { optimizationLevel: 1, dumpIR: true },
+      message => messages.push(message)
+    );
+
+    const titles = messages
+      .filter(message => message.startsWith('---'))
+      .map(message => message.split('\n')[0]);
+    expect(titles[0]).toBe('--- IR ---');
+    expect(titles).toContain('--- IR after constant-propagation ---');
+    expect(titles).toContain('--- IR after dead-stores ---');
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'bun:test';
+import { GeneratedInstruction } from '../../src/compiler/codegen';
+import { PeepholeOptimizer } from '../../src/compiler/peephole';
+import { OPCODES } from '../../src/core/opcodes';
+import { compileAndRun } from './helpers';
+
+describe('Johnny C Compiler - Peephole Optimizer', () => {
+  const run = (source: string, optimizationLevel: 0 | 1 | 2) =>
+    compileAndRun(source, { optimizationLevel });
+
+  const word = (
+    opcode: number,
+    operand: number,
+    extra: Partial<GeneratedInstruction> = {}
+  ): GeneratedInstruction => ({ opcode, operand, ...extra });
+
+  it('should leave the stream untouched at -O0', () => {
+    const code = [word(OPCODES.SAVE, 960), word(OPCODES.TAKE, 960)];
+    const { instructions, report } = new PeepholeOptimizer(0).optimize(code);
+
+    expect(instructions).toEqual(code);
+    expect(report.wordsSaved).toBe(0);
+    expect(report.stepsSaved).toBe(0);
+  });
+
+  it('should drop reloads, jumps to the next word and empty words at -O1', () => {
+    const { instructions, report } = new PeepholeOptimizer(1).optimize([
+      word(OPCODES.TAKE, 900),
+      word(OPCODES.SAVE, 901),
+      word(OPCODES.TAKE, 901),
+      word(OPCODES.JMP, 0, { target: 'next' }),
+      word(OPCODES.DATA, 0, { label: 'next' }),
+      word(OPCODES.SAVE, 902),
+      word(OPCODES.HLT, 0),
+    ]);
+
+    expect(instructions.map(i => [i.opcode, i.operand, i.label])).toEqual([
+      [OPCODES.TAKE, 900, undefined],
+      [OPCODES.SAVE, 901, undefined],
+      [OPCODES.SAVE, 902, 'next'],
+      [OPCODES.HLT, 0, undefined],
+    ]);
+    expect(report.wordsSaved).toBe(3);
+    expect(report.rewrites).toEqual({
+      'store-load': 1,
+      'jump-next': 1,
+      'empty-word': 1,
+    });
+  });
+
+  it('should keep words TST can skip and words patched as data', () => {
+    const code = [
+      word(OPCODES.TST, 900),
+      word(OPCODES.JMP, 0, { target: 'after' }),
+      word(OPCODES.TAKE, 0, { target: 'template' }),
+      word(OPCODES.SAVE, 0, { target: 'access' }),
+      word(OPCODES.DATA, 0, { label: 'access' }),
+      word(OPCODES.DATA, 0, { label: 'after' }),
+      word(OPCODES.HLT, 0),
+      word(OPCODES.DATA, 1800, { label: 'template' }),
+    ];
+    const { instructions } = new PeepholeOptimizer(2).optimize(code);
+
+    // Only the empty word at 'after' goes; its label moves to the HLT
+    expect(instructions).toHaveLength(code.length - 1);
+    expect(instructions[1].target).toBe('after');
+    expect(instructions[4].label).toBe('access');
+    expect(instructions[5]).toMatchObject({
+      opcode: OPCODES.HLT,
+      label: 'after',
+    });
+  });
+
+  it('should remove dead temps and unused constants at -O2', () => {
+    // The array load keeps the IR optimizer from folding the sum
+    const source = 'int a[2];\nint y;\na[1] = 5;\ny = a[1] + 1;\nhalt;';
+    const o0 = run(source, 0);
+    const o2 = run(source, 2);
+
+    expect(o2.read('y')).toBe(6);
+    expect(o2.optimization.rewrites['dead-store']).toBeGreaterThan(0);
+    expect(o2.optimization.rewrites['constant-temp']).toBeGreaterThan(0);
+
+    // CONST_0 is never read, so its initialization is gone
+    const const0 = o2.memoryMap.constants.get(0) as number;
+    expect(o0.emitted.instructions).toContain(OPCODES.NULL * 1000 + const0);
+    expect(o2.emitted.instructions).not.toContain(OPCODES.NULL * 1000 + const0);
+  });
+
+  it('should keep program results while saving words and steps', () => {
+    const source = `
+      int sum;
+      int i;
+      int f(int n) {
+        return n + n;
+      }
+      for (i = 0; i < 5; i++) {
+        if (i == 2) {
+          continue;
+        }
+        sum += f(i);
+      }
+      halt;
+    `;
+    const [o0, o1, o2] = ([0, 1, 2] as const).map(level => run(source, level));
+
+    for (const result of [o0, o1, o2]) {
+      expect(result.read('sum')).toBe(16);
+      expect(result.read('i')).toBe(5);
+    }
+    expect(o1.emitted.instructions.length).toBeLessThan(
+      o0.emitted.instructions.length
+    );
+    expect(o2.emitted.instructions.length).toBeLessThan(
+      o1.emitted.instructions.length
+    );
+    expect(o2.steps).toBeLessThan(o0.steps);
+    expect(o2.optimization.wordsAfter).toBe(o2.emitted.instructions.length);
+    expect(o2.optimization.wordsSaved).toBe(
+      o2.optimization.wordsBefore - o2.optimization.wordsAfter
+    );
+    expect(o2.optimization.stepsSaved).toBeGreaterThan(0);
+  });
+});
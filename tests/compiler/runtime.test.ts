@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'bun:test';
+import { Parser } from '../../src/compiler/parser';
+import {
+  BasicBlock,
+  IRBinary,
+  IRGenerator,
+  Symbol,
+} from '../../src/compiler/ir';
+import { MemoryMapper } from '../../src/compiler/memmap';
+import { CodeGenerator } from '../../src/compiler/codegen';
+import {
+  CALL_WORDS,
+  ROUTINES,
+  RoutineName,
+  planRuntime,
+  routineFor,
+  routineSymbols,
+} from '../../src/compiler/runtime';
+import { compileAndRun } from './helpers';
+
+describe('Johnny C Compiler - Runtime Library', () => {
+  const plan = (source: string, mode: 'call' | 'auto') => {
+    const { blocks } = new IRGenerator().generate(new Parser(source).parse());
+    return planRuntime(blocks, mode);
+  };
+
+  // Straight-line code: every site runs once
+  const straight = `
+    int a; int b; int c; int d; int e; int f;
+    a = 6;
+    b = 7;
+    c = a * b;
+    d = c * a;
+    e = d / b;
+    f = d % 5;
+    a = e * b;
+    b = f * d;
+    c = c / a;
+    halt;
+  `;
+
+  it('should link shared routines when calls save words', () => {
+    const inline = compileAndRun(straight, { runtime: 'inline' });
+    const auto = compileAndRun(straight, { runtime: 'auto' });
+
+    expect(auto.emitted.labelMap.has('rt_mul')).toBe(true);
+    expect(auto.emitted.labelMap.has('rt_divmod')).toBe(true);
+    expect(auto.emitted.instructions.length).toBeLessThan(
+      inline.emitted.instructions.length
+    );
+    for (const name of ['a', 'b', 'c', 'd', 'e', 'f']) {
+      expect(auto.read(name)).toBe(inline.read(name));
+    }
+    expect(auto.read('e')).toBe(36);
+    expect(auto.read('f')).toBe(2);
+  });
+
+  it('should emit each routine once however many sites call it', () => {
+    const words = (sites: number, runtime: 'inline' | 'call') =>
+      compileAndRun(
+        `int x;\nint y;\nx = 3;\n${'y = x * x;\n'.repeat(sites)}halt;`,
+        {
+          runtime,
+        }
+      ).emitted.instructions.length;
+    const perCall = words(2, 'call') - words(1, 'call');
+
+    // Each further site only adds its call sequence
+    expect(words(3, 'call') - words(2, 'call')).toBe(perCall);
+    expect(perCall).toBeLessThan(words(2, 'inline') - words(1, 'inline'));
+  });
+
+  it('should keep operators inside loops inline in auto mode', () => {
+    const loop = `
+      int i; int x; int y; int z;
+      for (i = 0; i < 4; i++) {
+        x = i * i;
+        y = x / 3;
+        z = x * y;
+      }
+      halt;
+    `;
+
+    expect(plan(loop, 'auto').calls.size).toBe(0);
+    expect(plan(loop, 'call').calls.size).toBe(3);
+
+    const inline = compileAndRun(loop, { runtime: 'auto' });
+    const called = compileAndRun(loop, { runtime: 'call' });
+    expect(called.read('z')).toBe(inline.read('z'));
+    expect(called.steps).toBeGreaterThan(inline.steps);
+  });
+
+  it('should compare through the shared routine from functions and main', () => {
+    const { read, emitted } = compileAndRun(
+      `
+        int a; int b;
+        bool same; bool differ; bool inner;
+        bool eq(int x, int y) {
+          return x == y;
+        }
+        a = 4;
+        b = 4;
+        same = a == b;
+        differ = a != b;
+        inner = eq(a, 5);
+        halt;
+      `,
+      { runtime: 'call' }
+    );
+
+    expect(emitted.labelMap.has('rt_cmp')).toBe(true);
+    expect(read('same')).toBe(1);
+    expect(read('differ')).toBe(0);
+    expect(read('inner')).toBe(0);
+  });
+
+  it('should leave ordered comparisons inline', () => {
+    const { calls, symbols } = plan(
+      'int a; int b; bool c;\nc = a < b;\nc = a >= b;\nhalt;',
+      'call'
+    );
+
+    expect(calls.size).toBe(0);
+    expect(symbols.size).toBe(0);
+  });
+
+  it('should plan with the word counts the code generator emits', () => {
+    // Words for two sites of `c = a op b`, the first `calls` of which call
+    // the routine, beyond the 4 words of initialization and final HLT
+    const words = (op: string, fastMulDiv: boolean, calls: number) => {
+      const routine = routineFor(op) as RoutineName;
+      const block = new BasicBlock('main');
+      const sites = [0, 1].map(id => new IRBinary(id, 'c', 'a', op, 'b'));
+      sites.forEach(site => block.addInstruction(site));
+      const symbols = new Map<string, Symbol>(
+        ['a', 'b', 'c', ...routineSymbols(routine)].map(name => [
+          name,
+          { name, type: 'int', isTemp: false },
+        ])
+      );
+      const mapper = new MemoryMapper();
+      const runtime = {
+        calls: new Map(sites.slice(0, calls).map(site => [site, routine])),
+        symbols: new Map(),
+      };
+      const generated = new CodeGenerator(mapper, {
+        fastMulDiv,
+        runtime,
+      }).generate([block], mapper.createMemoryMap(symbols));
+      return generated.length - 4;
+    };
+
+    for (const name of Object.keys(ROUTINES) as RoutineName[]) {
+      const routine = ROUTINES[name];
+      for (const [variant, fastMulDiv] of [false, true].entries()) {
+        const measured = Object.keys(routine.operators).map(op => {
+          const inline = words(op, fastMulDiv, 0) / 2;
+          const twoCalls = words(op, fastMulDiv, 2);
+          const call = twoCalls - words(op, fastMulDiv, 1) + inline;
+          const body = twoCalls - 2 * call;
+          return { op, inline, call, body };
+        });
+
+        for (const { op, inline, call, body } of measured) {
+          const label = `${op}${fastMulDiv ? ' fast' : ''}`;
+          expect(`${label}: ${inline}`).toBe(
+            `${label}: ${routine.inlineWords[op][variant]}`
+          );
+          expect(`${label}: ${call}`).toBe(`${label}: ${CALL_WORDS}`);
+          expect(`${label}: ${body}`).toBe(
+            `${label}: ${routine.bodyWords[variant]}`
+          );
+        }
+      }
+    }
+  });
+});
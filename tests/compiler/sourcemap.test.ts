@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JohnnyCompiler } from '../../src/compiler/cli';
+import { SourceMap } from '../../src/compiler/sourcemap';
+import { getInstructionName } from '../../src/core/opcodes';
+
+describe('Johnny C Source Map', () => {
+  const source = [
+    'int x;', // 1
+    'int y;', // 2
+    'x = 3;', // 3
+    'while (x != 0) {', // 4
+    '  y = y + x;', // 5
+    '  x = x - 1;', // 6
+    '}',
+    'halt;', // 8
+  ].join('\n');
+
+  it('should map every statement to the RAM words generated for it', () => {
+    const { ram, sourceMap } = new JohnnyCompiler().compileSource(source);
+
+    const lines = new Set(sourceMap.entries.map(entry => entry.line));
+    expect([...lines].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 8]);
+
+    // Statement order is preserved in the emitted code
+    const firstAddress = (line: number) => sourceMap.addressesForLine(line)[0];
+    expect(firstAddress(1)).toBeLessThan(firstAddress(3));
+    expect(firstAddress(5)).toBeLessThan(firstAddress(6));
+
+    const haltAddress = sourceMap.addressesForLine(8)[0];
+    expect(getInstructionName(Math.floor(ram[haltAddress] / 1000))).toBe('HLT');
+    expect(sourceMap.lookup(haltAddress)).toEqual({
+      address: haltAddress,
+      line: 8,
+      column: 1,
+    });
+  });
+
+  it('should leave compiler-generated setup code unmapped', () => {
+    const { sourceMap } = new JohnnyCompiler().compileSource(source);
+
+    // CONST_0/CONST_1 initialization precedes the first statement
+    expect(sourceMap.lookup(0)).toBeUndefined();
+    expect(sourceMap.lookup(1)).toBeUndefined();
+  });
+
+  it('should round-trip through a .ram.map file', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'jcc-map-'));
+    try {
+      const sourceFile = join(dir, 'loop.jcc');
+      const ramFile = join(dir, 'loop.ram');
+      writeFileSync(sourceFile, source);
+
+      const { sourceMap } = new JohnnyCompiler().compileSource(source);
+      const withSource = new SourceMap(sourceMap.entries, sourceFile);
+      writeFileSync(SourceMap.pathFor(ramFile), withSource.serialize(ramFile));
+
+      const json = JSON.parse(readFileSync(`${ramFile}.map`, 'utf8'));
+      expect(json.source).toBe('loop.jcc');
+      expect(json.file).toBe('loop.ram');
+
+      const loaded = SourceMap.loadFor(ramFile);
+      expect(loaded?.source).toBe(sourceFile);
+      expect(loaded?.entries).toEqual(sourceMap.entries);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should return undefined when no map was generated', () => {
+    expect(SourceMap.loadFor('scripts/missing.ram')).toBeUndefined();
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ArithmeticTrap, JohnnySimulator } from '../../src/core/simulator';
+import { JohnnyAssembler } from '../../src/core/assembler';
+import { TestFramework } from '../../src/testing/framework';
+import { RamValidator } from '../../src/validation/validator';
+import { ArithmeticMode } from '../../src/types';
+
+// Pushes every arithmetic instruction one past the end of the range
+const EDGES = new JohnnyAssembler().assemble(`
+        TAKE big
+        ADD  two
+        SAVE sum
+        TAKE one
+        SUB  two
+        SAVE diff
+        INC  big
+        DEC  zero
+        HLT
+big:    DATA 19999
+two:    DATA 2
+one:    DATA 1
+zero:   DATA 0
+sum:    DATA 0
+diff:   DATA 0
+`).ram;
+
+const run = (mode: ArithmeticMode) =>
+  new JohnnySimulator(undefined, { arithmeticMode: mode }).simulate(EDGES);
+
+describe('JohnnySimulator arithmetic modes', () => {
+  it('should clamp every instruction to 0..19999 when saturating', () => {
+    const state = run('saturate');
+
+    expect(state.ram.slice(9, 15)).toEqual([19999, 2, 1, 0, 19999, 0]);
+  });
+
+  it('should compute modulo 20000 when wrapping', () => {
+    const state = run('wrap');
+
+    expect(state.ram.slice(9, 15)).toEqual([0, 2, 1, 19999, 1, 19999]);
+  });
+
+  it('should record one overflow event per offending instruction', () => {
+    const { overflows } = run('saturate');
+
+    expect(overflows).toEqual([
+      { step: 1, pc: 1, opcode: 2, value: 20001, result: 19999 },
+      { step: 4, pc: 4, opcode: 3, value: -1, result: 0 },
+      { step: 6, pc: 6, opcode: 7, value: 20000, result: 19999 },
+      { step: 7, pc: 7, opcode: 8, value: -1, result: 0 },
+    ]);
+  });
+
+  it('should trap at the offending instruction without storing', () => {
+    const simulator = new JohnnySimulator(undefined, {
+      arithmeticMode: 'trap',
+    });
+    const state = simulator.createInitialState(EDGES);
+    simulator.step(state); // TAKE big
+
+    let trap: ArithmeticTrap | undefined;
+    try {
+      simulator.step(state);
+    } catch (error) {
+      trap = error as ArithmeticTrap;
+    }
+
+    expect(trap).toBeInstanceOf(ArithmeticTrap);
+    expect(trap?.event).toEqual({ step: 1, pc: 1, opcode: 2, value: 20001 });
+    expect(trap?.message).toBe(
+      'Arithmetic overflow in ADD at step 1, PC 1: result 20001 outside 0..19999'
+    );
+    expect(state.acc).toBe(19999);
+    expect(state.halted).toBe(true);
+    expect(() => simulator.simulate(EDGES)).toThrow(ArithmeticTrap);
+  });
+
+  it('should forget overflow events of undone steps', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(EDGES);
+    while (!state.halted) simulator.step(state);
+
+    simulator.runBackTo(state, 4);
+
+    expect(state.overflows.map(event => event.step)).toEqual([1]);
+  });
+
+  it('should fail NO_OVERFLOW expectations with the offending address', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'johnny-overflow-'));
+    const ramFile = join(dir, 'edges.ram');
+    try {
+      // .ram files only hold valid instructions, so big is set up instead
+      const ram = EDGES.slice(0, 15).map((word, addr) =>
+        addr === 9 ? 0 : word
+      );
+      writeFileSync(ramFile, ram.join('\n'));
+      const result = await new TestFramework().runTest({
+        name: 'edges',
+        description: 'Overflowing arithmetic',
+        ramFile,
+        setup: { initialMemory: { 9: 19999 } },
+        expectedResults: [{ type: 'NO_OVERFLOW', description: 'No overflow' }],
+      });
+
+      expect(result.passed).toBe(false);
+      expect(result.errors).toHaveLength(4);
+      expect(result.errors[0]).toBe(
+        'No overflow: ADD overflowed at step 1: result 20001 stored as 19999 (address 1)'
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should report overflows as runtime errors from the validator', () => {
+    const errors = new RamValidator().checkOverflows(run('wrap'));
+
+    expect(errors.map(error => [error.type, error.address])).toEqual([
+      ['RUNTIME', 1],
+      ['RUNTIME', 4],
+      ['RUNTIME', 6],
+      ['RUNTIME', 7],
+    ]);
+    expect(errors[1].message).toBe(
+      'SUB overflowed at step 4: result -1 stored as 19999'
+    );
+  });
+});
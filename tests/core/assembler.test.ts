@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'bun:test';
+import { JohnnyAssembler } from '../../src/core/assembler';
+import { RamParser } from '../../src/core/parser';
+
+describe('JOHNNY Assembler', () => {
+  const assembler = new JohnnyAssembler();
+
+  it('should assemble the same image as the hand-written RAM file', () => {
+    const assembled = assembler.assembleFile('scripts/multiply.jasm');
+    const parsed = new RamParser().parseFile('scripts/multiply.ram');
+
+    expect(assembled.errors).toHaveLength(0);
+    expect(assembled.ram).toEqual(parsed.ram);
+    expect(assembled.symbols.get('loop')).toBe(1);
+    expect(assembled.symbols.get('result')).toBe(102);
+  });
+
+  it('should resolve forward references, ORG and expressions', () => {
+    const result = assembler.assemble(`
+      start:  TAKE table+2
+              SAVE out
+              JMP  done
+      done:   HLT
+      SIZE    EQU 3
+              ORG  50
+      table:  DATA 7
+              DATA 8
+              DATA SIZE*(2+1)
+      out:    DATA
+    `);
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.ram.slice(0, 4)).toEqual([1052, 4053, 5003, 10000]);
+    expect(result.ram.slice(50, 54)).toEqual([7, 8, 9, 0]);
+    expect(result.symbols.get('SIZE')).toBe(3);
+  });
+
+  it('should map RAM addresses to source lines', () => {
+    const result = assembler.assemble('; header\nloop: INC 10\n  JMP loop\n');
+
+    expect(result.lineMapping.get(0)).toBe(2);
+    expect(result.lineMapping.get(1)).toBe(3);
+  });
+
+  it('should accept mnemonics in any case', () => {
+    const result = assembler.assemble('take 5\nHlt');
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.ram.slice(0, 2)).toEqual([1005, 10000]);
+  });
+
+  it('should report undefined symbols and unknown mnemonics', () => {
+    const result = assembler.assemble('JMP nowhere\nFOO 3\nHLT 5\nTAKE');
+
+    expect(result.errors).toEqual([
+      "Line 2: Unknown mnemonic 'FOO'",
+      "Line 1: Undefined symbol 'nowhere'",
+      'Line 3: HLT takes no operand',
+      'Line 4: TAKE requires an operand',
+    ]);
+  });
+
+  it('should reject duplicate labels and overlapping addresses', () => {
+    const result = assembler.assemble('a: HLT\na: HLT\nORG 0\nHLT');
+
+    expect(result.errors).toEqual([
+      "Line 2: Symbol 'a' is already defined",
+      'Line 4: Address 0 already used by line 1',
+    ]);
+  });
+
+  it('should reject out-of-range operands and values', () => {
+    const result = assembler.assemble('TAKE 1000\nDATA 20000\nORG 1000');
+
+    expect(result.errors).toEqual([
+      'Line 3: ORG address 1000 outside valid range 0..999',
+      'Line 1: Address operand 1000 outside valid range 0..999',
+      'Line 2: Value 20000 outside valid range 0..19999',
+    ]);
+  });
+
+  it('should be used by RamParser for .jasm files', () => {
+    const result = new RamParser().parseFile('scripts/multiply.jasm');
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.ram[0]).toBe(9102);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'bun:test';
+import { JohnnySimulator } from '../../src/core/simulator';
+import { JohnnyAssembler } from '../../src/core/assembler';
+import { BreakpointManager } from '../../src/core/breakpoints';
+
+const PROGRAM = new JohnnyAssembler().assemble(`
+        TAKE a          ; 0
+        ADD  b          ; 1
+        SAVE c          ; 2
+        SAVE c          ; 3  same value again, no write event
+        INC  a          ; 4
+        TST  zero       ; 5
+        HLT             ; 6
+        HLT             ; 7
+        ORG  20
+a:      DATA 40
+b:      DATA 80
+c:      DATA 0
+zero:   DATA 0
+`).ram;
+
+describe('BreakpointManager', () => {
+  it('should stop before the instruction at a breakpoint', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(PROGRAM);
+    const breakpoints = new BreakpointManager();
+    const bp = breakpoints.add('break', 2);
+
+    const hit = simulator.runUntilBreak(state, breakpoints);
+    expect(hit?.breakpoint.id).toBe(bp.id);
+    expect(state.pc).toBe(2);
+    expect(state.ram[22]).toBe(0);
+
+    // Continuing from the breakpoint makes progress and runs to the end
+    expect(simulator.runUntilBreak(state, breakpoints)).toBeNull();
+    expect(state.halted).toBe(true);
+    expect(breakpoints.list()[0].hitCount).toBe(1);
+  });
+
+  it('should evaluate break conditions against ACC and memory', () => {
+    const simulator = new JohnnySimulator();
+    const breakpoints = new BreakpointManager();
+    breakpoints.add('break', 1, 'acc > 100');
+    breakpoints.add('break', 3, 'acc > 100 && mem[22] == 120');
+
+    const state = simulator.createInitialState(PROGRAM);
+    const hit = simulator.runUntilBreak(state, breakpoints);
+    expect(hit?.breakpoint.address).toBe(3);
+    expect(hit?.breakpoint.condition).toBe('acc > 100 && mem[22] == 120');
+  });
+
+  it('should trigger watchpoints only on value changes', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(PROGRAM);
+    const breakpoints = new BreakpointManager();
+    breakpoints.add('watch', 22);
+    breakpoints.add('watch', 20);
+
+    const first = simulator.runUntilBreak(state, breakpoints);
+    expect(first?.access?.write).toEqual({
+      address: 22,
+      oldValue: 0,
+      newValue: 120,
+    });
+    expect(state.pc).toBe(3);
+
+    // SAVE c at 3 writes the same value, so the next stop is INC a
+    const second = simulator.runUntilBreak(state, breakpoints);
+    expect(second?.breakpoint.address).toBe(20);
+    expect(state.pc).toBe(5);
+  });
+
+  it('should trigger read watchpoints for reading instructions', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(PROGRAM);
+    const breakpoints = new BreakpointManager();
+    breakpoints.add('rwatch', 20);
+    breakpoints.add('rwatch', 23);
+
+    expect(simulator.runUntilBreak(state, breakpoints)?.access?.read).toBe(20);
+    expect(state.pc).toBe(1);
+    expect(simulator.runUntilBreak(state, breakpoints)?.access?.read).toBe(20);
+    expect(state.pc).toBe(5); // INC reads before it writes
+    expect(simulator.runUntilBreak(state, breakpoints)?.access?.read).toBe(23);
+  });
+
+  it('should ignore disabled and deleted breakpoints', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(PROGRAM);
+    const breakpoints = new BreakpointManager();
+    const disabled = breakpoints.add('break', 1);
+    const deleted = breakpoints.add('break', 2);
+
+    breakpoints.setEnabled(disabled.id, false);
+    expect(breakpoints.remove(deleted.id)).toBe(true);
+
+    expect(simulator.runUntilBreak(state, breakpoints)).toBeNull();
+    expect(breakpoints.breakAddresses()).toEqual(new Set());
+  });
+
+  it('should reject invalid addresses and conditions', () => {
+    const breakpoints = new BreakpointManager();
+
+    expect(() => breakpoints.add('break', 1000)).toThrow(
+      'Address 1000 outside valid range 0..999'
+    );
+    expect(() => breakpoints.add('break', 1, 'acc >')).toThrow(
+      "Invalid condition 'acc >': unexpected end"
+    );
+    expect(() => breakpoints.add('break', 1, 'foo == 1')).toThrow(
+      "Invalid condition 'foo == 1': unexpected 'foo'"
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  controlFlowEffect,
+  decode,
+  encode,
+  operandKind,
+  successors,
+} from '../../src/core/codec';
+import {
+  DEFAULT_OPCODE_MAPPING,
+  OPCODES,
+  getInstructionName,
+} from '../../src/core/opcodes';
+import { JohnnySimulator } from '../../src/core/simulator';
+import { RamParser } from '../../src/core/parser';
+import { RamValidator } from '../../src/validation/validator';
+import {
+  ControlFlowAnalyzer,
+  MermaidFlowchartGenerator,
+} from '../../src/core/flowchart';
+import { DEFAULT_MICROCODE } from '../../src/core/microcode';
+
+// Every opcode at address 5 with operand 7, except HLT which takes none
+const WORDS = Object.values(OPCODES).map(opcode => ({
+  opcode,
+  word: encode(opcode, opcode === OPCODES.HLT ? 0 : 7),
+}));
+
+const programWith = (word: number, cell: number) => {
+  const ram = new Array(1000).fill(0);
+  ram[5] = word;
+  ram[7] = cell;
+  return ram;
+};
+
+describe('JOHNNY instruction codec', () => {
+  it('should encode and decode the OOAAA format', () => {
+    expect(encode(OPCODES.TAKE, 20)).toBe(1020);
+    expect(encode(OPCODES.HLT)).toBe(10000);
+    expect(decode(5010)).toEqual({ opcode: OPCODES.JMP, operand: 10 });
+    expect(decode(19999)).toEqual({ opcode: 19, operand: 999 });
+    expect(() => encode(20, 0)).toThrow('Opcode 20 outside valid range 0..19');
+    expect(() => encode(OPCODES.ADD, 1000)).toThrow(
+      'Operand 1000 outside valid range 0..999'
+    );
+  });
+
+  for (const { opcode, word } of WORDS) {
+    const name = getInstructionName(opcode);
+
+    describe(`${name} (${word.toString().padStart(5, '0')})`, () => {
+      it('should round-trip through the codec', () => {
+        expect(decode(word).opcode).toBe(opcode);
+        expect(encode(decode(word).opcode, decode(word).operand)).toBe(word);
+        expect(operandKind(opcode)).toBe(
+          DEFAULT_OPCODE_MAPPING[opcode].operandType
+        );
+      });
+
+      it('should continue where the simulator actually goes', () => {
+        for (const cell of [0, 3]) {
+          const simulator = new JohnnySimulator();
+          const state = simulator.createInitialState(programWith(word, cell));
+          state.pc = 5;
+          simulator.step(state);
+
+          if (opcode === OPCODES.HLT) {
+            expect(successors(5, word)).toEqual([]);
+            expect(state.halted).toBe(true);
+          } else {
+            expect(successors(5, word)).toContain(state.pc);
+          }
+        }
+      });
+
+      it('should be read the same by parser, validator and flowchart', () => {
+        const ram = programWith(word, 0);
+        const parsed = new RamParser().parse(ram.slice(0, 8).join('\n'));
+        expect(parsed.errors).toEqual([]);
+        expect(parsed.ram[5]).toBe(word);
+
+        const { statistics } = new RamValidator().validate(ram);
+        expect(statistics.instructionCount[opcode] ?? 0).toBe(
+          opcode === OPCODES.DATA ? 0 : 1
+        );
+
+        const node = new ControlFlowAnalyzer()
+          .analyzeFlow(ram)
+          .nodes.find(n => n.address === 5);
+        expect(node).toMatchObject({
+          opcode,
+          operand: decode(word).operand,
+          instructionName: name,
+        });
+        const expectedType =
+          opcode === OPCODES.DATA
+            ? 'data'
+            : {
+                next: 'sequential',
+                jump: 'jump',
+                skip: 'conditional',
+                halt: 'terminal',
+              }[controlFlowEffect(opcode)];
+        expect(node?.type).toBe(expectedType);
+      });
+
+      it('should have a microcode routine of the same name', () => {
+        expect(DEFAULT_MICROCODE.opcodes[opcode].name).toBe(name);
+      });
+    });
+  }
+
+  it('should draw flowcharts with the instructions that execute', () => {
+    // TAKE 10, ADD 11, SAVE 12, TST 12, JMP 0, HLT
+    const ram = [1010, 2011, 4012, 6012, 5000, 10000];
+    const analyzer = new ControlFlowAnalyzer();
+    const chart = new MermaidFlowchartGenerator().generateFlowchart(
+      analyzer.analyzeFlow(ram)
+    );
+
+    expect(chart).toContain('0: TAKE 10');
+    expect(chart).toContain('1: ADD 11');
+    expect(chart).toContain('3: TST 12');
+    expect(chart).toContain('5: HLT');
+    expect(chart).not.toContain('UNKNOWN');
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InputRequired, JohnnySimulator } from '../../src/core/simulator';
+import { JohnnyAssembler } from '../../src/core/assembler';
+import { parseDeviceMap, renderSevenSegment } from '../../src/core/devices';
+import { TestFramework } from '../../src/testing/framework';
+import { DeviceMap } from '../../src/types';
+
+const DEVICES: DeviceMap = { input: 997, output: 998, display: 999 };
+
+// Echoes input until a zero arrives, showing the running sum
+const ECHO = new JohnnyAssembler().assemble(`
+in      EQU 997
+out     EQU 998
+display EQU 999
+loop:   TAKE in
+        SAVE x
+        TST  x
+        JMP  emit
+        HLT
+emit:   SAVE out
+        ADD  sum
+        SAVE sum
+        SAVE display
+        JMP  loop
+x:      DATA 0
+sum:    DATA 0
+`).ram;
+
+const run = (simulator: JohnnySimulator, input: number[]) => {
+  const state = simulator.createInitialState(ECHO, 0, undefined, input);
+  while (!state.halted) simulator.step(state);
+  return state;
+};
+
+describe('Memory-mapped devices', () => {
+  it('should read the input queue and write output and display', () => {
+    const state = run(
+      new JohnnySimulator(undefined, { devices: DEVICES }),
+      [3, 5, 7, 0]
+    );
+
+    expect(state.io.output).toEqual([3, 5, 7]);
+    expect(state.io.inputRead).toBe(4);
+    expect(state.io.display).toBe(15);
+    // Reads leave the input cell alone, written cells show the last value
+    expect(state.ram[997]).toBe(0);
+    expect(state.ram[998]).toBe(7);
+  });
+
+  it('should treat the addresses as RAM without a device map', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(ECHO, 0, { 997: 4 }, [9]);
+    for (let i = 0; i < 12; i++) simulator.step(state);
+
+    expect(state.io.output).toEqual([]);
+    expect(state.ram[998]).toBe(4);
+  });
+
+  it('should wait for input without changing the state', () => {
+    const simulator = new JohnnySimulator(undefined, { devices: DEVICES });
+    const state = simulator.createInitialState(ECHO, 0, undefined, [2]);
+    for (let i = 0; i < 9; i++) simulator.step(state);
+
+    expect(() => simulator.step(state)).toThrow(InputRequired);
+    expect(() => simulator.step(state)).toThrow('Input queue is empty at PC 0');
+    expect([state.pc, state.steps, state.halted]).toEqual([0, 9, false]);
+    expect(state.trace).toHaveLength(9);
+
+    state.io.input.push(0);
+    while (!state.halted) simulator.step(state);
+    expect(state.io.output).toEqual([2]);
+  });
+
+  it('should take device effects back with stepBack', () => {
+    const simulator = new JohnnySimulator(undefined, { devices: DEVICES });
+    const state = run(simulator, [4, 6, 0]);
+    simulator.runBackTo(state, 10);
+
+    expect(state.io.inputRead).toBe(2);
+    expect(state.io.output).toEqual([4]);
+    expect(state.io.display).toBe(4);
+
+    simulator.runBackTo(state, 0);
+    expect(state.io).toEqual({
+      input: [4, 6, 0],
+      inputRead: 0,
+      output: [],
+      display: null,
+    });
+  });
+
+  it('should reach devices over the bus in microcoded runs', () => {
+    const atomic = run(
+      new JohnnySimulator(undefined, { devices: DEVICES }),
+      [8, 1, 0]
+    );
+    const micro = run(
+      new JohnnySimulator(undefined, { devices: DEVICES, microcoded: true }),
+      [8, 1, 0]
+    );
+
+    expect(micro.io).toEqual(atomic.io);
+    expect(micro.ram).toEqual(atomic.ram);
+  });
+
+  it('should check OUTPUT expectations against the output stream', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'johnny-devices-'));
+    const ramFile = join(dir, 'echo.ram');
+    try {
+      writeFileSync(ramFile, ECHO.slice(0, 12).join('\n'));
+      const result = await new TestFramework().runTest({
+        name: 'echo',
+        description: 'Echo input',
+        ramFile,
+        setup: { devices: DEVICES, input: [1, 2, 0] },
+        expectedResults: [
+          { type: 'OUTPUT', expectedOutput: [1, 2], description: 'Echo' },
+          { type: 'OUTPUT', expectedOutput: [2, 1], description: 'Reversed' },
+        ],
+      });
+
+      expect(result.actualResults.output).toEqual([1, 2]);
+      expect(result.errors).toEqual([
+        'Reversed: Expected output [2, 1], got [1, 2]',
+      ]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should parse device maps and draw the display', () => {
+    expect(parseDeviceMap(['input=10', 'display=11'], 1000)).toEqual({
+      input: 10,
+      display: 11,
+    });
+    expect(() => parseDeviceMap(['printer=5'], 1000)).toThrow(
+      "Unknown device 'printer'"
+    );
+    expect(() => parseDeviceMap(['output=1000'], 1000)).toThrow(
+      "Device output needs an address in 0..999, got '1000'"
+    );
+    expect(() => parseDeviceMap(['input=5', 'output=5'], 1000)).toThrow(
+      'Devices input and output share address 5'
+    );
+
+    expect(renderSevenSegment(42, 3)).toEqual([
+      '         _ ',
+      '    |_|  _|',
+      '      | |_ ',
+    ]);
+    expect(renderSevenSegment(null, 2)).toEqual([
+      '       ',
+      '       ',
+      '       ',
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'bun:test';
+import { readdirSync } from 'fs';
+import { join } from 'path';
+import { JohnnyAssembler } from '../../src/core/assembler';
+import { RamDisassembler } from '../../src/core/disassembler';
+import { RamParser } from '../../src/core/parser';
+
+describe('JOHNNY Disassembler', () => {
+  const disassembler = new RamDisassembler();
+  const assembler = new JohnnyAssembler();
+  const parser = new RamParser();
+
+  const ramFiles = ['scripts', 'jcc'].flatMap(dir =>
+    readdirSync(dir)
+      .filter(file => file.endsWith('.ram'))
+      .map(file => join(dir, file))
+  );
+
+  for (const file of ramFiles) {
+    it(`should round-trip ${file} bit-identically`, () => {
+      const { ram } = parser.parseFile(file);
+      const { source } = disassembler.disassemble(ram);
+      const reassembled = assembler.assemble(source);
+
+      expect(reassembled.errors).toHaveLength(0);
+      expect(reassembled.ram).toEqual(ram);
+    });
+  }
+
+  it('should label jump targets, TST skip targets and data cells', () => {
+    const { ram } = parser.parseFile('scripts/multiply.ram');
+    const result = disassembler.disassemble(ram, { includeAddresses: false });
+
+    expect(result.labels.get(1)).toBe('loop1');
+    expect(result.labels.get(3)).toBe('skip1');
+    expect(result.labels.get(4)).toBe('label1');
+    expect(result.labels.get(100)).toBe('var100');
+    expect(result.source).toContain('loop1:  TST  var101');
+    expect(result.source).toContain('        JMP  loop1');
+    expect(result.source).toContain('        ORG  100');
+  });
+
+  it('should disassemble code after empty words, which run as no-ops', () => {
+    const ram = new Array(1000).fill(0);
+    ram[0] = 1005; // TAKE 5
+    ram[1] = 0; // Executed, like the empty words of compiled programs
+    ram[2] = 5006; // JMP 6
+    ram[6] = 10000; // HLT
+
+    const result = disassembler.disassemble(ram, { includeAddresses: false });
+
+    expect(result.codeAddresses).toEqual(new Set([0, 2, 6]));
+    expect(result.labels.get(6)).toBe('label1');
+    expect(result.source).toContain('JMP  label1');
+  });
+
+  it('should keep unreachable words as data', () => {
+    const ram = new Array(1000).fill(0);
+    ram[0] = 10000; // HLT
+    ram[1] = 1005; // never executed
+    ram[2] = 42;
+
+    const result = disassembler.disassemble(ram, { includeAddresses: false });
+
+    expect(result.codeAddresses).toEqual(new Set([0]));
+    expect(result.source.split('\n').map(line => line.trim())).toEqual([
+      'HLT',
+      'DATA 1005           ; (TAKE 5)',
+      'DATA 42',
+      '',
+    ]);
+  });
+
+  it('should append per-word annotations after the address', () => {
+    const ram = new Array(1000).fill(0);
+    ram[0] = 1002; // TAKE 2
+    ram[1] = 10000; // HLT
+    ram[2] = 7;
+
+    const result = disassembler.disassemble(ram, {
+      annotate: address => (address === 0 ? 'L3: x = y;' : undefined),
+    });
+
+    expect(result.source.split('\n').map(line => line.trim())).toEqual([
+      'TAKE var2           ; 000 L3: x = y;',
+      'HLT                 ; 001',
+      'var2: DATA 7              ; 002',
+      '',
+    ]);
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, expect, it } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JohnnySimulator } from '../../src/core/simulator';
+import { JohnnyAssembler } from '../../src/core/assembler';
+import { RamParser } from '../../src/core/parser';
+import {
+  ControlFlowAnalyzer,
+  MermaidFlowchartGenerator,
+} from '../../src/core/flowchart';
+import { DEFAULT_OPCODE_MAPPING } from '../../src/core/opcodes';
+import { loadIsa, parseIsa } from '../../src/core/isa';
+import { RamValidator } from '../../src/validation/validator';
+import { BreakpointManager } from '../../src/core/breakpoints';
+import { OpcodeMapping } from '../../src/types';
+
+const ISA_DIR = path.join(__dirname, '../../isa');
+
+const run = (mapping: OpcodeMapping, source: string) => {
+  const { ram, errors } = new JohnnyAssembler(mapping).assemble(source);
+  expect(errors).toEqual([]);
+  const simulator = new JohnnySimulator(mapping);
+  const state = simulator.createInitialState(ram);
+  while (!state.halted) simulator.step(state);
+  return state;
+};
+
+const isa = (instructions: object) =>
+  parseIsa(JSON.stringify({ extends: 'johnny', instructions }));
+
+describe('Instruction set files', () => {
+  it('should describe the standard instruction set in johnny.json', () => {
+    const johnny = loadIsa(path.join(ISA_DIR, 'johnny.json'));
+
+    for (const [opcode, info] of Object.entries(DEFAULT_OPCODE_MAPPING)) {
+      const { name, hasOperand, operandType, memoryAccess, flow } =
+        johnny[Number(opcode)];
+      expect({ name, hasOperand, operandType, memoryAccess, flow }).toEqual({
+        name: info.name,
+        hasOperand: info.hasOperand,
+        operandType: info.operandType,
+        memoryAccess: info.memoryAccess,
+        flow: info.flow,
+      });
+    }
+
+    const program = `
+loop:   TAKE sum
+        ADD  step
+        SUB  one
+        SAVE sum
+        INC  count
+        DEC  left
+        TST  left
+        JMP  loop
+        NULL step
+        HLT
+count:  DATA 0
+left:   DATA 3
+sum:    DATA 19990
+step:   DATA 5
+one:    DATA 1
+`;
+    const declared = run(johnny, program);
+    const builtIn = run(DEFAULT_OPCODE_MAPPING, program);
+    expect(declared.ram).toEqual(builtIn.ram);
+    expect(declared.trace).toEqual(builtIn.trace);
+    expect(declared.overflows).toEqual(builtIn.overflows);
+    expect(declared.overflows.length).toBeGreaterThan(0);
+  });
+
+  it('should run SHL, AND and indirect TAKEI from advanced.json', () => {
+    const advanced = loadIsa(path.join(ISA_DIR, 'advanced.json'));
+    const state = run(
+      advanced,
+      `
+        TAKEI ptr   ; acc = table[1] = 12
+        SHL         ; 24
+        AND  mask   ; 24 & 10 = 8
+        ADDI 100    ; 108
+        SAVEI ptr   ; table[1] = 108
+        SHR
+        SAVE half
+        HLT
+ptr:    DATA table+1
+mask:   DATA 10
+half:   DATA 0
+table:  DATA 7
+        DATA 12
+`
+    );
+
+    expect(state.ram.slice(10, 13)).toEqual([54, 7, 108]);
+    expect(advanced[13].memoryAccess).toBe('READ');
+    expect(advanced[14].memoryAccess).toBe('READ');
+    expect(advanced[16]).toMatchObject({
+      hasOperand: true,
+      operandType: 'NONE',
+    });
+  });
+
+  it('should record indirect stores for stepBack, watchpoints and trace', () => {
+    const advanced = loadIsa(path.join(ISA_DIR, 'advanced.json'));
+    const simulator = new JohnnySimulator(advanced);
+    const ram = [1050, 15051, 10000, ...new Array(997).fill(0)];
+    const state = simulator.createInitialState(ram, 0, { 50: 7, 51: 60 });
+
+    simulator.step(state); // TAKE 50
+    const access = simulator.executeInstruction(state); // SAVEI 51
+    expect(state.ram[60]).toBe(7);
+    // The operand cell 51 keeps its value
+    expect(access.write).toBeUndefined();
+    expect(access.indirectWrites).toEqual([
+      { address: 60, oldValue: 0, newValue: 7 },
+    ]);
+    expect(state.trace[1].ramChanged).toBeUndefined();
+    expect(state.trace[1].indirectChanges).toEqual(access.indirectWrites);
+    expect(state.undoLog[1].indirectDeltas).toEqual([
+      { address: 60, oldValue: 0 },
+    ]);
+
+    simulator.stepBack(state);
+    expect(state.pc).toBe(1);
+    expect(state.ram[60]).toBe(0);
+
+    const breakpoints = new BreakpointManager();
+    breakpoints.add('watch', 60);
+    const hit = simulator.runUntilBreak(state, breakpoints);
+    expect(hit?.breakpoint.address).toBe(60);
+    expect(state.pc).toBe(2);
+
+    const indirect = isa({
+      PUT: { encoding: '11AAA', operand: 'value', semantics: 'mem[acc] = op' },
+    });
+    const putSimulator = new JohnnySimulator(indirect);
+    const putState = putSimulator.createInitialState(
+      [11009, 10000, ...new Array(998).fill(0)],
+      40
+    );
+    putSimulator.step(putState);
+    expect(putState.ram[40]).toBe(9);
+    putSimulator.stepBack(putState);
+    expect(putState.ram[40]).toBe(0);
+  });
+
+  it('should let parser, validator and flowchart use the instruction set', () => {
+    const mapping = isa({
+      STOP: { encoding: '11000', semantics: 'halt', flow: 'halt' },
+      GOTO: { encoding: '12AAA', semantics: 'pc = op', flow: 'jump' },
+      SKZ: {
+        encoding: '13000',
+        semantics: 'pc = acc == 0 ? pc + 1 : pc',
+        flow: 'skip',
+      },
+    });
+    const ram = new RamParser(mapping).parse(
+      ['13000', '12003', '11000', '11000'].join('\n')
+    ).ram;
+
+    expect(new RamParser().parse('11000').errors.length).toBe(1);
+    expect(new RamValidator().validate(ram).isValid).toBe(false);
+    const result = new RamValidator(mapping).validate(ram);
+    expect(result.errors).toEqual([]);
+    expect(result.statistics.hasHalt).toBe(true);
+
+    const graph = new ControlFlowAnalyzer(mapping).analyzeFlow(ram);
+    expect(graph.nodes.map(node => node.type)).toEqual([
+      'conditional',
+      'jump',
+      'terminal',
+      'terminal',
+    ]);
+    expect(graph.exitPoints).toEqual([2, 3]);
+    const chart = new MermaidFlowchartGenerator(mapping).generateFlowchart(
+      graph
+    );
+    expect(chart).toContain('n0{"0: SKZ"}');
+    expect(chart).toContain('n1("1: GOTO 3")');
+  });
+
+  it('should replace base instructions by opcode or mnemonic', () => {
+    const mapping = isa({
+      add: { encoding: '11AAA', semantics: 'acc = acc + mem[op] + 1' },
+      HALT: { encoding: '10000', semantics: 'halt', flow: 'halt' },
+    });
+
+    expect(mapping[2]).toBeUndefined();
+    expect(mapping[11].name).toBe('ADD');
+    expect(mapping[10].name).toBe('HALT');
+    const state = run(mapping, 'TAKE x\nADD x\nHALT\nx: DATA 4');
+    expect(state.acc).toBe(9);
+  });
+
+  it('should report malformed instruction sets', () => {
+    expect(() => parseIsa('{')).toThrow('Invalid ISA file');
+    expect(() =>
+      isa({ X: { encoding: '00AAA', semantics: 'acc = 0' } })
+    ).toThrow('opcode 00 is reserved for DATA');
+    expect(() =>
+      isa({ X: { encoding: '20AAA', semantics: 'acc = 0' } })
+    ).toThrow('opcode 20 is not in 1..19');
+    expect(() =>
+      isa({
+        X: { encoding: '11AAA', semantics: 'acc = 0' },
+        Y: { encoding: '11000', semantics: 'acc = 1' },
+      })
+    ).toThrow('ISA instructions X and Y share opcode 11');
+    expect(() =>
+      isa({ X: { encoding: '11AAA', semantics: 'acc = (1 +' } })
+    ).toThrow('Invalid semantics for X: unexpected end in "acc = (1 +"');
+    expect(() =>
+      isa({ X: { encoding: '11AAA', semantics: 'acc = 1 $ 2' } })
+    ).toThrow("Invalid semantics for X: unexpected '$'");
+    expect(() =>
+      isa({ X: { encoding: '11AAA', semantics: 'pc = op' } })
+    ).toThrow('ISA instruction X assigns pc and needs a "flow"');
+    expect(() =>
+      isa({ X: { encoding: '11000', semantics: 'acc = 0', flow: 'halt' } })
+    ).toThrow('ISA instruction X has flow halt but never halts');
+    expect(() =>
+      parseIsa(JSON.stringify({ extends: 'other', instructions: {} }))
+    ).toThrow("Unknown base ISA 'other'");
+  });
+
+  it('should reject circular "extends" chains', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'isa-'));
+    try {
+      const write = (name: string, base: string) =>
+        fs.writeFileSync(
+          path.join(dir, name),
+          JSON.stringify({ extends: base, instructions: {} })
+        );
+      write('a.json', './b.json');
+      write('b.json', './a.json');
+
+      expect(() => loadIsa(path.join(dir, 'a.json'))).toThrow(
+        `Invalid ISA file: circular "extends" via ${path.join(dir, 'a.json')}`
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should stop on division by zero and stray memory accesses', () => {
+    const mapping = isa({
+      DIV: { encoding: '11AAA', semantics: 'acc = acc / mem[op]' },
+      TAKEI: { encoding: '12AAA', semantics: 'acc = mem[mem[op]]' },
+    });
+
+    expect(() => run(mapping, 'DIV zero\nHLT\nzero: DATA 0')).toThrow(
+      'Division by zero in DIV at address 0'
+    );
+    expect(() => run(mapping, 'TAKEI ptr\nHLT\nptr: DATA 5000')).toThrow(
+      'Memory address 5000 out of range in TAKEI at address 0'
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'bun:test';
+import { JohnnySimulator } from '../../src/core/simulator';
+import { JohnnyAssembler } from '../../src/core/assembler';
+import { parseMicrocode } from '../../src/core/microcode';
+
+// Uses every opcode: counts left down to zero, summing and clearing cells
+const PROGRAM = new JohnnyAssembler().assemble(`
+loop:   TAKE sum
+        ADD  step
+        SUB  one
+        SAVE sum
+        INC  count
+        DEC  left
+        TST  left
+        JMP  loop
+        NULL step
+        DATA 0
+        HLT
+count:  DATA 0
+left:   DATA 3
+sum:    DATA 1
+step:   DATA 5
+one:    DATA 1
+`).ram;
+
+const runToHalt = (simulator: JohnnySimulator, ram: number[]) => {
+  const state = simulator.createInitialState(ram);
+  while (!state.halted) simulator.step(state);
+  return state;
+};
+
+describe('JohnnySimulator microcode', () => {
+  it('should match instruction-level execution step for step', () => {
+    const atomic = runToHalt(new JohnnySimulator(), PROGRAM);
+    const micro = runToHalt(
+      new JohnnySimulator(undefined, { microcoded: true }),
+      PROGRAM
+    );
+
+    expect(micro.ram).toEqual(atomic.ram);
+    expect(micro.trace).toEqual(atomic.trace);
+    expect([micro.pc, micro.acc, micro.steps]).toEqual([
+      atomic.pc,
+      atomic.acc,
+      atomic.steps,
+    ]);
+    expect(micro.ram.slice(11, 14)).toEqual([3, 0, 13]);
+  });
+
+  it('should trace fetch, decode and execute of one instruction', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(PROGRAM);
+    simulator.step(state); // TAKE sum
+
+    const micro = [];
+    while (state.steps === 1) {
+      micro.push(simulator.microStep(state));
+    }
+
+    expect(
+      micro.map(m => [
+        m?.routine,
+        m?.mc,
+        m?.operation,
+        m?.addressBus,
+        m?.dataBus,
+      ])
+    ).toEqual([
+      ['FETCH', 0, 'pc->ab', 1, 1013],
+      ['FETCH', 1, 'ram->db', 1, 2014],
+      ['FETCH', 2, 'db->ins', 1, 2014],
+      ['FETCH', 3, 'ins->mc', 1, 2014],
+      ['ADD', 0, 'ins->ab', 14, 2014],
+      ['ADD', 1, 'ram->db', 14, 5],
+      ['ADD', 2, 'plus', 14, 5],
+      ['ADD', 3, 'pc++', 14, 5],
+      ['ADD', 4, 'mc:=0', 14, 5],
+    ]);
+    expect(state.acc).toBe(6);
+    expect(state.microTrace).toHaveLength(9);
+  });
+
+  it('should finish or take back a half-executed instruction', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(PROGRAM);
+    simulator.step(state); // TAKE sum
+    simulator.step(state); // ADD step
+    for (let i = 0; i < 7; i++) simulator.microStep(state); // SUB one to minus
+
+    expect([state.acc, state.steps, state.mcRoutine]).toEqual([5, 2, 3]);
+
+    expect(simulator.stepBack(state)).toBe(true);
+    expect([state.pc, state.acc, state.steps, state.mc]).toEqual([2, 6, 2, 0]);
+    expect(state.microTrace).toEqual([]);
+
+    simulator.microStep(state);
+    simulator.step(state); // Completes SUB one
+    expect([state.pc, state.acc, state.steps]).toEqual([3, 5, 3]);
+  });
+
+  it('should run opcodes defined in a microcode file', () => {
+    const microcode = parseMicrocode(
+      JSON.stringify({
+        opcodes: {
+          11: {
+            name: 'ADD2',
+            operations: ['ins->ab', 'ram->db', 'plus', 'plus', 'pc++', 'mc:=0'],
+          },
+        },
+      })
+    );
+    const simulator = new JohnnySimulator(
+      undefined,
+      { microcoded: true },
+      microcode
+    );
+
+    // TAKE 3, ADD2 4, HLT, 7, 10
+    const state = runToHalt(simulator, [1003, 11004, 10000, 7, 10]);
+
+    expect(state.acc).toBe(27);
+    expect(state.trace.map(entry => entry.opcode)).toEqual([1, 11, 10]);
+    expect(state.microTrace.some(m => m.routine === 'ADD2')).toBe(true);
+    expect(() =>
+      new JohnnySimulator(undefined, { microcoded: true }).simulate([11004])
+    ).toThrow('Invalid opcode 11 at address 0');
+  });
+
+  it('should reject malformed microcode', () => {
+    const parse = (data: unknown) => () => parseMicrocode(JSON.stringify(data));
+
+    expect(
+      parse({ opcodes: { 12: { name: 'X', operations: ['jump'] } } })
+    ).toThrow("Unknown micro-operation 'jump' in microcode for X");
+    expect(
+      parse({ opcodes: { 12: { name: 'X', operations: ['pc++'] } } })
+    ).toThrow("Microcode for X must end with 'mc:=0' or 'stop'");
+    expect(
+      parse({ opcodes: { 20: { name: 'X', operations: ['stop'] } } })
+    ).toThrow("Microcode opcode '20' is not in 0..19");
+    expect(parse({ fetch: ['pc->ab', 'ram->db'] })).toThrow(
+      "Microcode for fetch must end with 'ins->mc'"
+    );
+    expect(() => parseMicrocode('[')).toThrow('Invalid microcode file');
+  });
+});
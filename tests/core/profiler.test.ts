@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'bun:test';
+import { JohnnySimulator } from '../../src/core/simulator';
+import { JohnnyAssembler } from '../../src/core/assembler';
+import {
+  ControlFlowAnalyzer,
+  MermaidFlowchartGenerator,
+  identifyBasicBlocks,
+} from '../../src/core/flowchart';
+import {
+  buildProfile,
+  flowHeatmap,
+  formatProfile,
+} from '../../src/core/profiler';
+import { JohnnyCompiler } from '../../src/compiler/cli';
+
+// Counts x down from 3, adding it to y
+const COUNTDOWN = new JohnnyAssembler().assemble(`
+loop:   TST  x
+        JMP  body
+        HLT
+body:   TAKE y
+        ADD  x
+        SAVE y
+        DEC  x
+        JMP  loop
+x:      DATA 3
+y:      DATA 0
+`).ram;
+
+const profiled = (ram: number[]) => {
+  const simulator = new JohnnySimulator(undefined, { profile: true });
+  const state = simulator.createInitialState(ram);
+  while (!state.halted) simulator.step(state);
+  return { simulator, state };
+};
+
+describe('Execution profiler', () => {
+  it('should split basic blocks at branch targets', () => {
+    const graph = new ControlFlowAnalyzer().analyzeFlow(COUNTDOWN);
+    const blocks = identifyBasicBlocks(graph).map(block =>
+      block.instructions.map(node => node.address)
+    );
+
+    expect(blocks).toEqual([[0], [1], [2], [3, 4, 5, 6, 7], [8]]);
+  });
+
+  it('should count executions per address and block', () => {
+    const { state } = profiled(COUNTDOWN);
+    const profile = buildProfile(COUNTDOWN, state.profile);
+
+    expect(state.profile).toEqual([4, 3, 1, 3, 3, 3, 3, 3]);
+    expect(profile.totalSteps).toBe(state.steps);
+    expect(profile.addresses[0]).toEqual({
+      address: 0,
+      instruction: 'TST 8',
+      count: 4,
+      share: 4 / 23,
+    });
+    expect(profile.blocks[0]).toEqual({
+      id: 3,
+      start: 3,
+      end: 7,
+      entries: 3,
+      steps: 15,
+      share: 15 / 23,
+    });
+    expect(profile.lines).toEqual([]);
+  });
+
+  it('should leave profiling off by default and undo counts with stepBack', () => {
+    const plain = new JohnnySimulator().simulate(COUNTDOWN);
+    expect(plain.profile).toEqual([]);
+
+    const { simulator, state } = profiled(COUNTDOWN);
+    simulator.runBackTo(state, 5);
+    expect(state.profile).toEqual([1, 1, 0, 1, 1, 1, 0, 0]);
+
+    const micro = new JohnnySimulator(undefined, {
+      profile: true,
+      microcoded: true,
+    });
+    const microState = micro.createInitialState(COUNTDOWN);
+    while (!microState.halted) micro.step(microState);
+    expect(microState.profile).toEqual([4, 3, 1, 3, 3, 3, 3, 3]);
+  });
+
+  it('should color a heatmap flowchart and count taken branches', () => {
+    const first = profiled(COUNTDOWN).state;
+    const second = profiled(COUNTDOWN).state;
+    const heatmap = flowHeatmap([first, second]);
+    const graph = new ControlFlowAnalyzer().analyzeFlow(COUNTDOWN);
+    const chart = new MermaidFlowchartGenerator().generateHeatmapFlowchart(
+      graph,
+      heatmap
+    );
+
+    expect(heatmap.counts).toEqual([8, 6, 2, 6, 6, 6, 6, 6]);
+    expect(chart).toContain('n0{"0: TST 8<br/>8×"}');
+    expect(chart).toContain('n0 -->|"not zero: 6×"| n1');
+    expect(chart).toContain('n0 -.->|"zero (skip): 2×"| n2');
+    expect(chart).toContain('n7 ==>|"6×"| n0');
+    expect(chart).toContain('n3 --> n4');
+    expect(chart).toContain('class n0 heat4');
+    expect(chart).toContain('class n2 heat1');
+    expect(chart).toContain('class n8 cold');
+    expect(chart).not.toContain('classDef control');
+  });
+
+  it('should show the multiply loop dominating a compiled program', () => {
+    const source = [
+      'int a;', // 1
+      'int b;', // 2
+      'int c;', // 3
+      'a = 12;', // 4
+      'b = 9;', // 5
+      'c = a * b;', // 6
+      'halt;', // 7
+    ].join('\n');
+    const { ram, sourceMap } = new JohnnyCompiler().compileSource(source);
+    const { state } = profiled(ram);
+    const profile = buildProfile(ram, state.profile, {
+      sourceMap,
+      sourceLines: source.split('\n'),
+    });
+
+    expect(profile.lines[0]).toMatchObject({ line: 6, source: 'c = a * b;' });
+    expect(profile.lines[0].share).toBeGreaterThan(0.8);
+    expect(profile.blocks[0].entries).toBeGreaterThan(1);
+    // Empty words between the statements belong to blocks as well
+    expect(profile.blocks.reduce((sum, block) => sum + block.steps, 0)).toBe(
+      state.steps
+    );
+
+    const report = formatProfile(profile, 3);
+    expect(report).toContain(`Profile: ${state.steps} steps`);
+    expect(report).toContain('Hot addresses');
+    expect(report).toContain('Basic blocks');
+    expect(report).toMatch(/ {5}6 +\d+ +\d+\.\d% {2}c = a \* b;/);
+  });
+});
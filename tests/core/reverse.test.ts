@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'bun:test';
+import { JohnnySimulator } from '../../src/core/simulator';
+import { JohnnyAssembler } from '../../src/core/assembler';
+import { JOHNNY_CONFIG } from '../../src/core/opcodes';
+import { BreakpointManager } from '../../src/core/breakpoints';
+
+// Adds step to sum four times and counts the iterations
+const COUNTER = new JohnnyAssembler().assemble(`
+        TAKE sum
+loop:   ADD  step
+        SAVE sum
+        INC  count
+        DEC  left
+        TST  left
+        JMP  loop
+        HLT
+        ORG  10
+count:  DATA 0
+left:   DATA 4
+sum:    DATA 1
+step:   DATA 3
+`).ram;
+
+describe('JohnnySimulator reverse execution', () => {
+  it('should restore PC, ACC and RAM exactly after stepping back', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(COUNTER);
+
+    const snapshots = [];
+    while (!state.halted) {
+      snapshots.push({ pc: state.pc, acc: state.acc, ram: [...state.ram] });
+      simulator.step(state);
+    }
+
+    for (let i = snapshots.length - 1; i >= 0; i--) {
+      expect(simulator.stepBack(state)).toBe(true);
+      expect(state.steps).toBe(i);
+      expect(state.halted).toBe(false);
+      expect({ pc: state.pc, acc: state.acc, ram: state.ram }).toEqual(
+        snapshots[i]
+      );
+      expect(state.trace).toHaveLength(i);
+    }
+
+    expect(simulator.stepBack(state)).toBe(false);
+  });
+
+  it('should keep one compact record per step with RAM deltas only', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(COUNTER);
+
+    simulator.step(state); // TAKE sum
+    simulator.step(state); // ADD step
+    simulator.step(state); // SAVE sum
+
+    expect(state.undoLog).toEqual([
+      { pc: 0, acc: 0, read: 12 },
+      { pc: 1, acc: 1, read: 13 },
+      { pc: 2, acc: 4, ramDelta: { address: 12, oldValue: 1 } },
+    ]);
+  });
+
+  it('should run back to a given step and re-execute identically', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(COUNTER);
+    for (let i = 0; i < 9; i++) simulator.step(state);
+    const ramAtStep9 = [...state.ram];
+    while (!state.halted) simulator.step(state);
+    const finalRam = [...state.ram];
+
+    simulator.runBackTo(state, 9);
+    expect(state.steps).toBe(9);
+    expect(state.ram).toEqual(ramAtStep9);
+
+    while (!state.halted) simulator.step(state);
+    expect(state.ram).toEqual(finalRam);
+  });
+
+  it('should reverse-continue to the previous breakpoint hit', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(COUNTER);
+    while (!state.halted) simulator.step(state);
+    const breakpoints = new BreakpointManager();
+    const atInc = breakpoints.add('break', 3);
+
+    expect(simulator.reverseContinue(state, breakpoints)?.breakpoint.id).toBe(
+      atInc.id
+    );
+    expect(state.pc).toBe(3);
+    expect(state.ram[10]).toBe(3); // Last INC count is undone
+
+    expect(simulator.reverseContinue(state, breakpoints)).not.toBeNull();
+    expect(state.ram[10]).toBe(2);
+
+    breakpoints.remove(atInc.id);
+    breakpoints.add('break', 99);
+    expect(simulator.reverseContinue(state, breakpoints)).toBeNull();
+    expect(state.steps).toBe(0);
+  });
+
+  it('should reverse-continue to conditional breakpoints and watchpoints', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(COUNTER);
+    while (!state.halted) simulator.step(state);
+    const breakpoints = new BreakpointManager();
+    const atInc = breakpoints.add('break', 3, 'mem[10] == 0');
+    const watch = breakpoints.add('watch', 12, 'mem[12] == 7');
+
+    // sum goes 1, 4, 7, 10, 13; the watchpoint stops right after 7 is saved
+    const hit = simulator.reverseContinue(state, breakpoints);
+    expect(hit?.breakpoint.id).toBe(watch.id);
+    expect(hit?.access?.write).toEqual({
+      address: 12,
+      oldValue: 4,
+      newValue: 7,
+    });
+    expect(state.pc).toBe(3);
+    expect(state.ram[10]).toBe(1);
+
+    // Visits of 3 with count 3, 2 and 1 fail the condition
+    expect(simulator.reverseContinue(state, breakpoints)?.breakpoint.id).toBe(
+      atInc.id
+    );
+    expect(state.ram[10]).toBe(0);
+    expect(state.ram[12]).toBe(4);
+
+    expect(simulator.reverseContinue(state, breakpoints)).toBeNull();
+    expect(state.steps).toBe(0);
+  });
+
+  it('should honour undoLimit and reject steps outside the history', () => {
+    const simulator = new JohnnySimulator(undefined, { undoLimit: 5 });
+    const state = simulator.createInitialState(COUNTER);
+    for (let i = 0; i < 12; i++) simulator.step(state);
+
+    expect(state.undoLog).toHaveLength(5);
+    expect(() => simulator.runBackTo(state, 6)).toThrow(
+      'Step 6 is outside the undo history (7..12)'
+    );
+
+    simulator.runBackTo(state, 7);
+    expect(simulator.stepBack(state)).toBe(false);
+  });
+
+  it('should keep only the most recent steps by default', () => {
+    const simulator = new JohnnySimulator();
+    const state = simulator.createInitialState(
+      new JohnnyAssembler().assemble('loop: INC 10\nJMP loop').ram
+    );
+    for (let i = 0; i < JOHNNY_CONFIG.UNDO_LIMIT + 10; i++) {
+      simulator.step(state);
+    }
+
+    expect(state.undoLog).toHaveLength(JOHNNY_CONFIG.UNDO_LIMIT);
+    simulator.runBackTo(state, 10);
+    expect(state.ram[10]).toBe(5);
+  });
+});
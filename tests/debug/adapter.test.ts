@@ -0,0 +1,241 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  DebugMessage,
+  DebugRequest,
+  JohnnyDebugAdapter,
+} from '../../src/debug/adapter';
+import { MessageReader, encodeMessage } from '../../src/debug/framing';
+
+interface Session {
+  request: (command: string, args?: object) => DebugMessage[];
+}
+
+const startSession = (): Session => {
+  let messages: DebugMessage[] = [];
+  const adapter = new JohnnyDebugAdapter(message => messages.push(message));
+  let seq = 1;
+
+  return {
+    request: (command, args) => {
+      messages = [];
+      const request: DebugRequest = {
+        seq: seq++,
+        type: 'request',
+        command,
+        arguments: args as Record<string, unknown>,
+      };
+      adapter.handleMessage(request);
+      return messages;
+    },
+  };
+};
+
+const bodyOf = (messages: DebugMessage[]): Record<string, unknown> => {
+  const response = messages.find(m => m.type === 'response');
+  return (response as { body: Record<string, unknown> }).body;
+};
+
+const eventsOf = (messages: DebugMessage[]): string[] =>
+  messages.flatMap(m => (m.type === 'event' ? [m.event] : []));
+
+describe('JOHNNY Debug Adapter', () => {
+  it('should stop at a source-line breakpoint in a .ram file', () => {
+    const session = startSession();
+    const capabilities = bodyOf(session.request('initialize'));
+    expect(capabilities.supportsStepBack).toBe(true);
+
+    const launch = session.request('launch', {
+      program: 'scripts/addition.ram',
+      memory: { 100: 15, 101: 25 },
+    });
+    expect(launch[0]).toMatchObject({ type: 'response', success: true });
+    expect(eventsOf(launch)).toEqual(['initialized']);
+
+    const breakpoints = bodyOf(
+      session.request('setBreakpoints', {
+        source: { path: 'scripts/addition.ram' },
+        breakpoints: [{ line: 3 }, { line: 500 }],
+      })
+    ).breakpoints as Array<Record<string, unknown>>;
+    expect(breakpoints[0]).toMatchObject({ verified: true, line: 3 });
+    expect(breakpoints[1]).toMatchObject({ verified: false, line: 500 });
+
+    const configured = session.request('configurationDone');
+    expect(configured[1]).toMatchObject({
+      event: 'stopped',
+      body: { reason: 'breakpoint', hitBreakpointIds: [breakpoints[0].id] },
+    });
+
+    const frames = bodyOf(session.request('stackTrace', { threadId: 1 }))
+      .stackFrames as Array<Record<string, unknown>>;
+    expect(frames[0]).toMatchObject({
+      name: 'SAVE 102',
+      line: 3,
+      instructionPointerReference: '002',
+    });
+
+    const registers = bodyOf(
+      session.request('variables', { variablesReference: 1 })
+    ).variables as Array<{ name: string; value: string }>;
+    expect(registers.find(v => v.name === 'ACC')?.value).toBe('40');
+    expect(registers.find(v => v.name === 'PC')?.value).toBe('002');
+
+    expect(eventsOf(session.request('continue'))).toEqual([
+      'output',
+      'exited',
+      'terminated',
+    ]);
+  });
+
+  it('should step forward and backward and show memory', () => {
+    const session = startSession();
+    session.request('initialize');
+    session.request('launch', {
+      program: 'scripts/addition.ram',
+      stopOnEntry: true,
+    });
+    expect(session.request('configurationDone')[1]).toMatchObject({
+      event: 'stopped',
+      body: { reason: 'entry' },
+    });
+
+    session.request('next', { threadId: 1 });
+    session.request('next', { threadId: 1 });
+    session.request('stepBack', { threadId: 1 });
+
+    const memory = bodyOf(
+      session.request('variables', { variablesReference: 3 })
+    ).variables as Array<{ name: string; value: string }>;
+    expect(memory[0]).toEqual({
+      name: '[000]',
+      value: '01100 (TAKE 100)',
+      variablesReference: 0,
+    });
+    expect(memory.map(v => v.name)).toContain('[102]');
+
+    const registers = bodyOf(
+      session.request('variables', { variablesReference: 1 })
+    ).variables as Array<{ name: string; value: string }>;
+    expect(registers.find(v => v.name === 'Steps')?.value).toBe('1');
+  });
+
+  it('should pause at the start of history when reversing without a hit', () => {
+    const session = startSession();
+    session.request('initialize');
+    session.request('launch', {
+      program: 'scripts/addition.ram',
+      stopOnEntry: true,
+    });
+    session.request('configurationDone');
+    session.request('next', { threadId: 1 });
+    session.request('next', { threadId: 1 });
+
+    expect(
+      session.request('reverseContinue', { threadId: 1 })[1]
+    ).toMatchObject({
+      event: 'stopped',
+      body: { reason: 'pause', description: 'Reached start of history' },
+    });
+  });
+
+  it('should verify Johnny C breakpoints through the source map', () => {
+    const session = startSession();
+    session.request('initialize');
+    session.request('launch', { program: 'jcc/simple_add.jcc' });
+
+    const breakpoints = bodyOf(
+      session.request('setBreakpoints', {
+        source: { path: 'jcc/simple_add.jcc' },
+        breakpoints: [{ line: 5 }],
+      })
+    ).breakpoints as Array<{ verified: boolean; line: number }>;
+    // Line 5 is blank, so the breakpoint moves to "x = 3;"
+    expect(breakpoints).toEqual([
+      expect.objectContaining({ verified: true, line: 6 }),
+    ]);
+
+    const stopped = session.request('configurationDone');
+    expect(eventsOf(stopped)).toContain('stopped');
+    const { stackFrames } = bodyOf(
+      session.request('stackTrace', { threadId: 1 })
+    ) as { stackFrames: Array<{ line: number }> };
+    expect(stackFrames[0].line).toBe(6);
+  });
+
+  it('should compile and run Johnny C programs with a variables scope', () => {
+    const session = startSession();
+    session.request('initialize');
+    session.request('launch', {
+      program: 'jcc/simple_add.jcc',
+      stopOnEntry: true,
+    });
+    session.request('configurationDone');
+
+    const scopes = bodyOf(session.request('scopes', { frameId: 1 }))
+      .scopes as Array<{ name: string }>;
+    expect(scopes.map(scope => scope.name)).toEqual([
+      'Registers',
+      'Variables',
+      'Memory',
+    ]);
+
+    for (let i = 0; i < 30; i++) session.request('next', { threadId: 1 });
+    const variables = bodyOf(
+      session.request('variables', { variablesReference: 2 })
+    ).variables as Array<{ name: string; value: string; type: string }>;
+    expect(variables.map(v => `${v.name}=${v.value}`)).toEqual([
+      'result=7',
+      'x=3',
+      'y=4',
+    ]);
+  });
+
+  it('should fail requests cleanly', () => {
+    const session = startSession();
+
+    expect(session.request('stackTrace')[0]).toMatchObject({
+      success: false,
+      message: 'No program is running',
+    });
+    expect(
+      session.request('launch', { program: 'missing.ram' })[0]
+    ).toMatchObject({
+      success: false,
+      message: 'Program not found: missing.ram',
+    });
+    expect(session.request('goto')[0]).toMatchObject({
+      success: false,
+      message: "Unsupported request 'goto'",
+    });
+  });
+});
+
+describe('Base protocol framing', () => {
+  it('should reassemble messages split across chunks', () => {
+    const received: unknown[] = [];
+    const reader = new MessageReader(message => received.push(message));
+    const bytes = Buffer.from(
+      encodeMessage({ text: 'größer' }) + encodeMessage({ n: 2 })
+    );
+
+    for (let i = 0; i < bytes.length; i += 7) {
+      reader.push(bytes.subarray(i, i + 7));
+    }
+
+    expect(received).toEqual([{ text: 'größer' }, { n: 2 }]);
+  });
+
+  it('should report malformed bodies and keep reading', () => {
+    const received: unknown[] = [];
+    const errors: string[] = [];
+    const reader = new MessageReader(
+      message => received.push(message),
+      error => errors.push(error.message)
+    );
+
+    reader.push('Content-Length: 3\r\n\r\n{x}' + encodeMessage({ ok: true }));
+
+    expect(errors).toHaveLength(1);
+    expect(received).toEqual([{ ok: true }]);
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'bun:test';
+import { JohnnyCAnalyzer } from '../../src/lsp/analysis';
+import { JohnnyLanguageServer, RpcMessage } from '../../src/lsp/server';
+
+const URI = 'file:///test.jcc';
+
+const startServer = () => {
+  let messages: RpcMessage[] = [];
+  const server = new JohnnyLanguageServer(message => messages.push(message));
+  let id = 1;
+
+  const request = (method: string, params?: object): RpcMessage[] => {
+    messages = [];
+    server.handleMessage({ jsonrpc: '2.0', id: id++, method, params });
+    return messages;
+  };
+  const notify = (method: string, params?: object): RpcMessage[] => {
+    messages = [];
+    server.handleMessage({ jsonrpc: '2.0', method, params });
+    return messages;
+  };
+
+  request('initialize', { capabilities: {} });
+  notify('initialized', {});
+  return { request, notify };
+};
+
+const resultOf = (messages: RpcMessage[]) =>
+  messages.find(m => m.id !== undefined)?.result as never;
+
+describe('JohnnyCAnalyzer', () => {
+  const analyzer = new JohnnyCAnalyzer();
+
+  it('reports every syntax error instead of stopping at the first', () => {
+    const { diagnostics } = analyzer.analyze(
+      'int x;\nx = ;\nint y;\ny = 3 +;\nhalt;'
+    );
+
+    expect(diagnostics.map(d => d.range.start.line)).toEqual([1, 3]);
+    expect(diagnostics[0].message).toBe('Expected expression');
+  });
+
+  it('reports undeclared and duplicate variables', () => {
+    const { diagnostics } = analyzer.analyze('int x;\nint x;\ny = 1;\nhalt;');
+
+    expect(diagnostics.map(d => d.message)).toEqual([
+      "Variable 'x' is already declared",
+      "Undeclared variable 'y'",
+    ]);
+    expect(diagnostics[1].range).toEqual({
+      start: { line: 2, character: 0 },
+      end: { line: 2, character: 1 },
+    });
+  });
+
+  it('places compiler errors at the offending node', () => {
+    const errorAt = (source: string) => {
+      const [{ range, message }] = analyzer.analyze(source).diagnostics;
+      return {
+        line: range.start.line,
+        character: range.start.character,
+        message,
+      };
+    };
+
+    expect(
+      errorAt('int f(int a) {\n  return a;\n}\nint x;\nx = f(1, 2);\nhalt;')
+    ).toEqual({
+      line: 4,
+      character: 4,
+      message: "Function 'f' expects 1 argument(s), got 2",
+    });
+    expect(errorAt('int a;\na[0] = 1;\nhalt;')).toEqual({
+      line: 1,
+      character: 0,
+      message: "'a' is not an array",
+    });
+    expect(errorAt('int b[3];\nint x;\nx = b[7];\nhalt;')).toEqual({
+      line: 2,
+      character: 6,
+      message: "Index 7 is out of bounds for array 'b' of size 3",
+    });
+    // MemoryMapper errors go to the declaration of the symbol they name
+    expect(errorAt('int x;\nint big[500];\nhalt;')).toMatchObject({
+      line: 1,
+      character: 4,
+    });
+  });
+
+  it('assigns RAM addresses from the memory mapper', () => {
+    const { diagnostics, symbols } = analyzer.analyze(
+      'int a;\nbool done;\na = 1;\nhalt;'
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(symbols.get('a')?.address).toBe(900);
+    expect(symbols.get('done')?.type).toBe('bool');
+    expect(symbols.get('done')?.address).toBeGreaterThanOrEqual(950);
+  });
+
+  it('scopes parameters and locals to their function', () => {
+    const { diagnostics, symbols } = analyzer.analyze(
+      [
+        'int x;',
+        'int inc(int x) {',
+        '  return x + 1;',
+        '}',
+        'void reset(int x) {',
+        '  int y;',
+        '  y = x;',
+        '}',
+        'x = inc(2);',
+        'reset(x);',
+        'halt;',
+      ].join('\n')
+    );
+
+    expect(diagnostics).toEqual([]);
+    expect(symbols.get('inc')?.kind).toBe('function');
+    expect(symbols.get('inc')?.parameters).toEqual(['int x']);
+    expect(symbols.get('reset')?.type).toBe('void');
+    expect(symbols.get('inc.x')?.kind).toBe('parameter');
+    expect(symbols.get('inc.x')?.references).toHaveLength(2);
+    expect(symbols.get('reset.y')?.address).toBeDefined();
+    expect(symbols.get('x')?.references.map(r => r.start.line)).toEqual([
+      0, 8, 9,
+    ]);
+  });
+});
+
+describe('JohnnyLanguageServer', () => {
+  const source = 'int x;\nint y;\nx = 3;\ny = x + 1;\nhalt;';
+
+  it('publishes diagnostics when a document opens or changes', () => {
+    const server = startServer();
+    const opened = server.notify('textDocument/didOpen', {
+      textDocument: {
+        uri: URI,
+        languageId: 'johnny-c',
+        version: 1,
+        text: source,
+      },
+    });
+    expect(opened[0].method).toBe('textDocument/publishDiagnostics');
+    expect((opened[0].params as { diagnostics: [] }).diagnostics).toEqual([]);
+
+    const changed = server.notify('textDocument/didChange', {
+      textDocument: { uri: URI, version: 2 },
+      contentChanges: [{ text: 'int x;\nz = 1;' }],
+    });
+    const { diagnostics } = changed[0].params as {
+      diagnostics: Array<{ message: string }>;
+    };
+    expect(diagnostics.map(d => d.message)).toContain(
+      "Undeclared variable 'z'"
+    );
+  });
+
+  it('answers definition, references and hover for a variable', () => {
+    const server = startServer();
+    server.notify('textDocument/didOpen', {
+      textDocument: {
+        uri: URI,
+        languageId: 'johnny-c',
+        version: 1,
+        text: source,
+      },
+    });
+    const position = { line: 3, character: 4 }; // x in "y = x + 1"
+
+    const definition = resultOf(
+      server.request('textDocument/definition', {
+        textDocument: { uri: URI },
+        position,
+      })
+    ) as { range: { start: { line: number } } };
+    expect(definition.range.start).toEqual({ line: 0, character: 4 });
+
+    const references = resultOf(
+      server.request('textDocument/references', {
+        textDocument: { uri: URI },
+        position,
+        context: { includeDeclaration: false },
+      })
+    ) as Array<{ range: { start: { line: number } } }>;
+    expect(references.map(r => r.range.start.line)).toEqual([2, 3]);
+
+    const hover = resultOf(
+      server.request('textDocument/hover', {
+        textDocument: { uri: URI },
+        position,
+      })
+    ) as { contents: { value: string } };
+    expect(hover.contents.value).toContain('int x');
+    expect(hover.contents.value).toContain('RAM[900]');
+  });
+
+  it('completes keywords and declared variables', () => {
+    const server = startServer();
+    server.notify('textDocument/didOpen', {
+      textDocument: {
+        uri: URI,
+        languageId: 'johnny-c',
+        version: 1,
+        text: source,
+      },
+    });
+
+    const items = resultOf(
+      server.request('textDocument/completion', {
+        textDocument: { uri: URI },
+        position: { line: 4, character: 0 },
+      })
+    ) as Array<{ label: string }>;
+    const labels = items.map(item => item.label);
+    expect(labels).toContain('x');
+    expect(labels).toContain('while');
+  });
+
+  it('rejects unknown requests with MethodNotFound', () => {
+    const server = startServer();
+    const [response] = server.request('textDocument/formatting', {});
+    expect(response.error?.code).toBe(-32601);
+  });
+});